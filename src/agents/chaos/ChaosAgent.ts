@@ -63,9 +63,9 @@ export class ChaosAgent extends AutonomicAgent {
         description: 'Injects controlled failures to test system resilience',
         subscribesTo: [], // Subscribes to ALL events
         emits: [
-          'CHAOS_EXPERIMENT_STARTED' as any,
-          'CHAOS_EXPERIMENT_COMPLETED' as any,
-          'CHAOS_RESILIENCE_SCORE' as any,
+          'CHAOS_EXPERIMENT_STARTED',
+          'CHAOS_EXPERIMENT_COMPLETED',
+          'CHAOS_RESILIENCE_SCORE',
         ],
         confidenceThreshold: 1.0,
       },
@@ -102,7 +102,9 @@ export class ChaosAgent extends AutonomicAgent {
     });
 
     // Subscribe to ALL events
-    const subscriptionId = this.eventBus.subscribe(this.handleEvent.bind(this));
+    const subscriptionId = this.eventBus.subscribe(this.handleEvent.bind(this), undefined, {
+      name: this.mandate.name,
+    });
     this.subscriptionIds.push(subscriptionId);
 
     // Start automatic experiments if configured
@@ -167,7 +169,7 @@ export class ChaosAgent extends AutonomicAgent {
 
     // Emit experiment start event
     await this.emitEvent(
-      'CHAOS_EXPERIMENT_STARTED' as any,
+      'CHAOS_EXPERIMENT_STARTED',
       'SYSTEM',
       'chaos',
       {
@@ -210,7 +212,7 @@ export class ChaosAgent extends AutonomicAgent {
 
     // Emit experiment completion
     await this.emitEvent(
-      'CHAOS_EXPERIMENT_COMPLETED' as any,
+      'CHAOS_EXPERIMENT_COMPLETED',
       'SYSTEM',
       'chaos',
       {
@@ -230,7 +232,7 @@ export class ChaosAgent extends AutonomicAgent {
 
     // Emit resilience score
     await this.emitEvent(
-      'CHAOS_RESILIENCE_SCORE' as any,
+      'CHAOS_RESILIENCE_SCORE',
       'SYSTEM',
       'chaos',
       {
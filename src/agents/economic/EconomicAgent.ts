@@ -2,7 +2,8 @@
  * AI ECONOMIC CONTROLLER AGENT
  *
  * Mandate: Turn the system into a self-improving organism
- * Subscribes to: SOP_EXECUTION_COMPLETED, TASK_COMPLETED, HUMAN_OVERRIDE, PROJECT_COMPLETED
+ * Subscribes to: SOP_EXECUTION_COMPLETED, TASK_COMPLETED, HUMAN_OVERRIDE, HUMAN_APPROVAL_RESOLVED,
+ *                PROJECT_COMPLETED
  * Emits: SOP_OPTIMIZATION_RECOMMENDED, AUTOMATION_OPPORTUNITY_DETECTED, MARGIN_EROSION_DETECTED, AUTOMATION_ROI_CALCULATED
  *
  * This agent closes GAP 2: No Economic Feedback Loop
@@ -12,10 +13,11 @@
  * Without economic intelligence, automation is blind optimization.
  */
 
-import { AutonomicAgent } from '../../core/agents/AutonomicAgent.js';
+import { AutonomicAgent, AgentMandate } from '../../core/agents/AutonomicAgent.js';
 import { EventBus } from '../../core/bus/EventBus.js';
 import {
   EventEnvelope,
+  HumanApprovalResolvedPayload,
   SOPExecutionCompletedPayload,
   TaskCompletedPayload,
   ProjectCompletedPayload,
@@ -40,6 +42,25 @@ interface AutomationOpportunity {
   automation_potential: number;
 }
 
+export const ECONOMIC_AGENT_MANDATE: AgentMandate = {
+  name: 'AI Economic Controller',
+  description: 'Monitors economic performance and identifies optimization opportunities',
+  subscribesTo: [
+    'SOP_EXECUTION_COMPLETED',
+    'TASK_COMPLETED',
+    'HUMAN_OVERRIDE',
+    'HUMAN_APPROVAL_RESOLVED',
+    'PROJECT_COMPLETED',
+  ],
+  emits: [
+    'SOP_OPTIMIZATION_RECOMMENDED',
+    'AUTOMATION_OPPORTUNITY_DETECTED',
+    'MARGIN_EROSION_DETECTED',
+    'AUTOMATION_ROI_CALCULATED',
+  ],
+  confidenceThreshold: 0.80,
+};
+
 export class EconomicAgent extends AutonomicAgent {
   private sopResolver: SOPResolver;
   private sopMetrics: Map<string, SOPPerformanceMetrics>;
@@ -52,26 +73,7 @@ export class EconomicAgent extends AutonomicAgent {
   }>;
 
   constructor(eventBus: EventBus, sopResolver: SOPResolver) {
-    super(
-      {
-        name: 'AI Economic Controller',
-        description: 'Monitors economic performance and identifies optimization opportunities',
-        subscribesTo: [
-          'SOP_EXECUTION_COMPLETED' as any,
-          'TASK_COMPLETED' as any,
-          'HUMAN_OVERRIDE' as any,
-          'PROJECT_COMPLETED' as any,
-        ],
-        emits: [
-          'SOP_OPTIMIZATION_RECOMMENDED' as any,
-          'AUTOMATION_OPPORTUNITY_DETECTED' as any,
-          'MARGIN_EROSION_DETECTED' as any,
-          'AUTOMATION_ROI_CALCULATED' as any,
-        ],
-        confidenceThreshold: 0.80,
-      },
-      eventBus
-    );
+    super(ECONOMIC_AGENT_MANDATE, eventBus);
 
     this.sopResolver = sopResolver;
     this.sopMetrics = new Map();
@@ -88,6 +90,7 @@ export class EconomicAgent extends AutonomicAgent {
         await this.handleTaskCompleted(event);
         break;
       case 'HUMAN_OVERRIDE':
+      case 'HUMAN_APPROVAL_RESOLVED':
         await this.handleHumanOverride(event);
         break;
       case 'PROJECT_COMPLETED':
@@ -143,7 +146,7 @@ export class EconomicAgent extends AutonomicAgent {
       const targetCost = sop.metrics.cost_per_execution_target || 0;
       if (targetCost > 0 && payload.cost > targetCost * 1.2) {
         await this.emitEvent(
-          'MARGIN_EROSION_DETECTED' as any,
+          'MARGIN_EROSION_DETECTED',
           'SYSTEM',
           payload.sop_id,
           {
@@ -217,7 +220,7 @@ export class EconomicAgent extends AutonomicAgent {
         ((sop.metrics.cost_per_execution_target || avgCost) - avgCost) * metrics.executions * 4;
 
       await this.emitEvent(
-        'SOP_OPTIMIZATION_RECOMMENDED' as any,
+        'SOP_OPTIMIZATION_RECOMMENDED',
         'SYSTEM',
         sopId,
         {
@@ -274,7 +277,7 @@ export class EconomicAgent extends AutonomicAgent {
 
         if (monthlyCost > 500) {
           await this.emitEvent(
-            'AUTOMATION_OPPORTUNITY_DETECTED' as any,
+            'AUTOMATION_OPPORTUNITY_DETECTED',
             'SYSTEM',
             'automation_opportunities',
             {
@@ -295,15 +298,25 @@ export class EconomicAgent extends AutonomicAgent {
   }
 
   /**
-   * Track human overrides as economic cost
+   * Track human decisions (overrides and approval resolutions) as economic cost
    */
   private async handleHumanOverride(event: EventEnvelope): Promise<void> {
-    this.humanOverrides.push({
-      timestamp: event.created_at,
-      reason: event.payload.override_reason as string,
-      sop_id: event.payload.sop_id as string | undefined,
-      cost: 15, // 15 minutes average cost
-    });
+    if (event.event_type === 'HUMAN_APPROVAL_RESOLVED') {
+      const resolution = event.payload as unknown as HumanApprovalResolvedPayload;
+      this.humanOverrides.push({
+        timestamp: event.created_at,
+        reason: resolution.notes || `${resolution.request_type} ${resolution.decision}`,
+        sop_id: resolution.context.sop_id as string | undefined,
+        cost: 15,
+      });
+    } else {
+      this.humanOverrides.push({
+        timestamp: event.created_at,
+        reason: event.payload.override_reason as string,
+        sop_id: event.payload.sop_id as string | undefined,
+        cost: 15, // 15 minutes average cost
+      });
+    }
 
     // Keep only last 100 overrides
     if (this.humanOverrides.length > 100) {
@@ -367,7 +380,7 @@ export class EconomicAgent extends AutonomicAgent {
     topPerformingSOPs.sort((a, b) => b.cost_saved - a.cost_saved);
 
     await this.emitEvent(
-      'AUTOMATION_ROI_CALCULATED' as any,
+      'AUTOMATION_ROI_CALCULATED',
       'SYSTEM',
       'monthly_roi',
       {
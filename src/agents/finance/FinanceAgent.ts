@@ -6,22 +6,21 @@
  * Emits: INVOICE_ISSUED, PAYMENT_REMINDER_SENT
  */
 
-import { AutonomicAgent } from '../../core/agents/AutonomicAgent.js';
+import { AutonomicAgent, AgentMandate } from '../../core/agents/AutonomicAgent.js';
 import { EventBus } from '../../core/bus/EventBus.js';
 import { EventEnvelope, QuoteApprovedPayload, ProjectStartedPayload } from '../../core/events/types.js';
 
+export const FINANCE_AGENT_MANDATE: AgentMandate = {
+  name: 'AI Finance Agent',
+  description: 'Automates financial operations and payment tracking',
+  subscribesTo: ['QUOTE_APPROVED', 'PROJECT_STARTED'],
+  emits: ['INVOICE_ISSUED', 'PAYMENT_REMINDER_SENT'],
+  confidenceThreshold: 0.85, // Higher threshold for financial operations
+};
+
 export class FinanceAgent extends AutonomicAgent {
   constructor(eventBus: EventBus) {
-    super(
-      {
-        name: 'AI Finance Agent',
-        description: 'Automates financial operations and payment tracking',
-        subscribesTo: ['QUOTE_APPROVED' as any, 'PROJECT_STARTED' as any],
-        emits: ['INVOICE_ISSUED' as any, 'PAYMENT_REMINDER_SENT' as any],
-        confidenceThreshold: 0.85, // Higher threshold for financial operations
-      },
-      eventBus
-    );
+    super(FINANCE_AGENT_MANDATE, eventBus);
   }
 
   protected async processEvent(event: EventEnvelope): Promise<void> {
@@ -57,21 +56,29 @@ export class FinanceAgent extends AutonomicAgent {
     // Create initial invoice (deposit)
     const depositAmount = payload.budget * 0.5; // 50% deposit
 
-    await this.emitEvent(
-      'INVOICE_ISSUED' as any,
-      'PROJECT',
-      event.entity_id,
-      {
-        invoice_number: `INV-${Date.now()}`,
-        client_id: payload.client_id,
-        project_id: event.entity_id,
-        amount: depositAmount,
-        due_date: this.calculateDueDate(14), // 14 days
-        payment_link: `https://payment.bigbox.com/invoice/${event.entity_id}`,
-      },
-      1.0,
-      false
-    );
+    // Re-checked on every attempt so a concurrent writer cannot cause a double deposit
+    await this.emitWithConcurrencyRetry('PROJECT', event.entity_id, async () => {
+      const history = await this.eventBus.getEntityHistory('PROJECT', event.entity_id);
+      const alreadyInvoiced = history.some((e) => e.event_type === 'INVOICE_ISSUED');
+
+      if (alreadyInvoiced) {
+        return null;
+      }
+
+      return {
+        eventType: 'INVOICE_ISSUED',
+        payload: {
+          invoice_number: `INV-${Date.now()}`,
+          client_id: payload.client_id,
+          project_id: event.entity_id,
+          amount: depositAmount,
+          due_date: this.calculateDueDate(14), // 14 days
+          payment_link: `https://payment.bigbox.com/invoice/${event.entity_id}`,
+        },
+        confidence: 1.0,
+        requiresHuman: false,
+      };
+    });
   }
 
   /**
@@ -79,7 +86,7 @@ export class FinanceAgent extends AutonomicAgent {
    */
   private async issueInvoice(quoteId: string, quote: QuoteApprovedPayload): Promise<void> {
     await this.emitEvent(
-      'INVOICE_ISSUED' as any,
+      'INVOICE_ISSUED',
       'QUOTE',
       quoteId,
       {
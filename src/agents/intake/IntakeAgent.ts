@@ -4,25 +4,39 @@
  * Mandate: Qualify leads and schedule meetings
  * Subscribes to: LEAD_RECEIVED
  * Emits: LEAD_QUALIFIED, MEETING_SCHEDULED
- * Failure Mode: Low confidence → HUMAN_APPROVAL_REQUESTED
+ * Failure Mode: Low confidence → HUMAN_APPROVAL_REQUESTED; an approved review
+ * qualifies the lead as the reviewer left it
  */
 
-import { AutonomicAgent } from '../../core/agents/AutonomicAgent.js';
+import { AutonomicAgent, AgentMandate } from '../../core/agents/AutonomicAgent.js';
 import { EventBus } from '../../core/bus/EventBus.js';
-import { EventEnvelope, LeadReceivedPayload } from '../../core/events/types.js';
+import {
+  EventEnvelope,
+  HumanApprovalResolvedPayload,
+  LeadReceivedPayload,
+} from '../../core/events/types.js';
+
+export const INTAKE_AGENT_MANDATE: AgentMandate = {
+  name: 'AI Intake Agent',
+  description: 'Qualifies incoming leads and schedules discovery meetings',
+  subscribesTo: ['LEAD_RECEIVED'],
+  emits: ['LEAD_QUALIFIED', 'MEETING_SCHEDULED'],
+  confidenceThreshold: 0.75,
+};
+
+interface LeadQualification {
+  score: number;
+  confidence: number;
+  budget_range?: string;
+  timeline?: string;
+  project_type?: string;
+  notes: string;
+  suggested_action?: string;
+}
 
 export class IntakeAgent extends AutonomicAgent {
   constructor(eventBus: EventBus) {
-    super(
-      {
-        name: 'AI Intake Agent',
-        description: 'Qualifies incoming leads and schedules discovery meetings',
-        subscribesTo: ['LEAD_RECEIVED' as any],
-        emits: ['LEAD_QUALIFIED' as any, 'MEETING_SCHEDULED' as any],
-        confidenceThreshold: 0.75,
-      },
-      eventBus
-    );
+    super(INTAKE_AGENT_MANDATE, eventBus);
   }
 
   protected async processEvent(event: EventEnvelope): Promise<void> {
@@ -46,6 +60,7 @@ export class IntakeAgent extends AutonomicAgent {
         'lead_qualification',
         'Lead qualification confidence below threshold',
         {
+          lead_id: event.entity_id,
           lead: payload,
           qualification_result: qualificationResult,
         },
@@ -55,42 +70,74 @@ export class IntakeAgent extends AutonomicAgent {
       return;
     }
 
-    // Emit LEAD_QUALIFIED event
+    await this.qualify(event.entity_id, qualificationResult, qualificationResult.confidence);
+
+    // Auto-schedule meeting if confidence is high
+    if (qualificationResult.confidence >= 0.85 && qualificationResult.score >= 70) {
+      await this.scheduleMeeting(event.entity_id, payload);
+    }
+  }
+
+  /**
+   * A reviewed qualification goes ahead with the reviewer's amendments
+   */
+  protected async onApprovalResolved(resolution: HumanApprovalResolvedPayload): Promise<void> {
+    if (resolution.request_type !== 'lead_qualification' || resolution.decision !== 'approved') {
+      return;
+    }
+
+    const leadId = resolution.context.lead_id as string | undefined;
+    if (!leadId) {
+      this.logger.warn('Approved lead qualification does not name its lead', {
+        approval_id: resolution.original_event_id,
+      });
+      return;
+    }
+
+    const lead = resolution.context.lead as LeadReceivedPayload;
+    const qualification = {
+      ...(resolution.context.qualification_result as LeadQualification),
+      ...resolution.amended_decision,
+    } as LeadQualification;
+
+    // A human has vouched for it
+    await this.qualify(leadId, qualification, 1.0);
+
+    if (qualification.score >= 70) {
+      await this.scheduleMeeting(leadId, lead);
+    }
+  }
+
+  /**
+   * Emit LEAD_QUALIFIED event
+   */
+  private async qualify(
+    leadId: string,
+    qualification: LeadQualification,
+    confidence: number
+  ): Promise<void> {
     await this.emitEvent(
-      'LEAD_QUALIFIED' as any,
+      'LEAD_QUALIFIED',
       'LEAD',
-      event.entity_id,
+      leadId,
       {
-        lead_id: event.entity_id,
-        qualification_score: qualificationResult.score,
-        budget_range: qualificationResult.budget_range,
-        timeline: qualificationResult.timeline,
-        project_type: qualificationResult.project_type,
-        qualification_notes: qualificationResult.notes,
+        lead_id: leadId,
+        qualification_score: qualification.score,
+        budget_range: qualification.budget_range,
+        timeline: qualification.timeline,
+        project_type: qualification.project_type,
+        qualification_notes: qualification.notes,
       },
-      qualificationResult.confidence,
+      confidence,
       false
     );
-
-    // Auto-schedule meeting if confidence is high
-    if (qualificationResult.confidence >= 0.85 && qualificationResult.score >= 70) {
-      await this.scheduleMeeting(event.entity_id, payload);
-    }
   }
 
   /**
    * Qualify lead using AI analysis
    * In production, this would call Gemini API
    */
-  private async qualifyLead(lead: LeadReceivedPayload): Promise<{
-    score: number;
-    confidence: number;
-    budget_range?: string;
-    timeline?: string;
-    project_type?: string;
-    notes: string;
-    suggested_action?: string;
-  }> {
+  private async qualifyLead(lead: LeadReceivedPayload): Promise<LeadQualification> {
     // PLACEHOLDER: In production, this would use Gemini API
     // For now, simple heuristic
     let score = 50;
@@ -144,7 +191,7 @@ export class IntakeAgent extends AutonomicAgent {
     meetingDatetime.setDate(meetingDatetime.getDate() + 2); // Schedule 2 days out
 
     await this.emitEvent(
-      'MEETING_SCHEDULED' as any,
+      'MEETING_SCHEDULED',
       'LEAD',
       leadId,
       {
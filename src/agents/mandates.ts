@@ -0,0 +1,26 @@
+/**
+ * AGENT MANDATES
+ *
+ * What each agent that can own an SOP step is allowed to emit, keyed by the
+ * `responsible_agent` / EventEmitter id SOP definitions use.
+ */
+
+import { AgentMandate } from '../core/agents/AutonomicAgent.js';
+import { EventEmitter } from '../core/events/types.js';
+import { INTAKE_AGENT_MANDATE } from './intake/IntakeAgent.js';
+import { MEETING_AGENT_MANDATE } from './meeting/MeetingAgent.js';
+import { STRATEGY_AGENT_MANDATE } from './strategy/StrategyAgent.js';
+import { PROJECT_AGENT_MANDATE } from './project/ProjectAgent.js';
+import { FINANCE_AGENT_MANDATE } from './finance/FinanceAgent.js';
+import { OVERSIGHT_AGENT_MANDATE } from './oversight/OversightAgent.js';
+import { ECONOMIC_AGENT_MANDATE } from './economic/EconomicAgent.js';
+
+export const AGENT_MANDATES: Partial<Record<EventEmitter, AgentMandate>> = {
+  [EventEmitter.AI_INTAKE_AGENT]: INTAKE_AGENT_MANDATE,
+  [EventEmitter.AI_MEETING_AGENT]: MEETING_AGENT_MANDATE,
+  [EventEmitter.AI_STRATEGY_AGENT]: STRATEGY_AGENT_MANDATE,
+  [EventEmitter.AI_PROJECT_AGENT]: PROJECT_AGENT_MANDATE,
+  [EventEmitter.AI_FINANCE_AGENT]: FINANCE_AGENT_MANDATE,
+  [EventEmitter.AI_OVERSIGHT_AGENT]: OVERSIGHT_AGENT_MANDATE,
+  [EventEmitter.AI_ECONOMIC_AGENT]: ECONOMIC_AGENT_MANDATE,
+};
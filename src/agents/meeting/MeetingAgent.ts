@@ -6,22 +6,21 @@
  * Emits: INTENT_INFERRED, TASK_CREATED, RISK_DETECTED
  */
 
-import { AutonomicAgent } from '../../core/agents/AutonomicAgent.js';
+import { AutonomicAgent, AgentMandate } from '../../core/agents/AutonomicAgent.js';
 import { EventBus } from '../../core/bus/EventBus.js';
 import { EventEnvelope, MeetingCompletedPayload } from '../../core/events/types.js';
 
+export const MEETING_AGENT_MANDATE: AgentMandate = {
+  name: 'AI Meeting Intelligence Agent',
+  description: 'Analyzes meeting outcomes and infers client intent',
+  subscribesTo: ['MEETING_COMPLETED'],
+  emits: ['INTENT_INFERRED', 'TASK_CREATED', 'RISK_DETECTED'],
+  confidenceThreshold: 0.75,
+};
+
 export class MeetingAgent extends AutonomicAgent {
   constructor(eventBus: EventBus) {
-    super(
-      {
-        name: 'AI Meeting Intelligence Agent',
-        description: 'Analyzes meeting outcomes and infers client intent',
-        subscribesTo: ['MEETING_COMPLETED' as any],
-        emits: ['INTENT_INFERRED' as any, 'TASK_CREATED' as any, 'RISK_DETECTED' as any],
-        confidenceThreshold: 0.75,
-      },
-      eventBus
-    );
+    super(MEETING_AGENT_MANDATE, eventBus);
   }
 
   protected async processEvent(event: EventEnvelope): Promise<void> {
@@ -42,7 +41,7 @@ export class MeetingAgent extends AutonomicAgent {
 
     // Emit INTENT_INFERRED event
     await this.emitEvent(
-      'INTENT_INFERRED' as any,
+      'INTENT_INFERRED',
       'CLIENT',
       event.entity_id,
       {
@@ -66,7 +65,7 @@ export class MeetingAgent extends AutonomicAgent {
     // Detect risks
     if (payload.sentiment === 'negative') {
       await this.emitEvent(
-        'RISK_DETECTED' as any,
+        'RISK_DETECTED',
         'CLIENT',
         event.entity_id,
         {
@@ -147,7 +146,7 @@ export class MeetingAgent extends AutonomicAgent {
     actionItem: { description: string; assignee?: string; due_date?: string }
   ): Promise<void> {
     await this.emitEvent(
-      'TASK_CREATED' as any,
+      'TASK_CREATED',
       'CLIENT',
       clientId,
       {
@@ -7,22 +7,46 @@
  *
  * This is the safety valve of the system.
  *
+ * It decides on every event as an EventBus guard, before other agents see it:
+ * blocked events are rejected, and escalations the policy marks `hold` wait
+ * for their approval request to be resolved (HUMAN_APPROVAL_RESOLVED releases
+ * or discards them). Everything else is dispatched, and escalated or approved
+ * once it has been.
+ *
  * CLOSES GAP 3: Latent Failure Detection
  * - Detects patterns, not just incidents
  * - Escalates trends, not just errors
  * - Monitors quiet failures (process drift, human fatigue, client decay)
  */
 
-import { AutonomicAgent } from '../../core/agents/AutonomicAgent.js';
-import { EventBus } from '../../core/bus/EventBus.js';
-import { EventEnvelope } from '../../core/events/types.js';
+import { AutonomicAgent, AgentMandate } from '../../core/agents/AutonomicAgent.js';
+import { EventBus, GuardVerdict } from '../../core/bus/EventBus.js';
+import { EventEnvelope, HumanApprovalResolvedPayload } from '../../core/events/types.js';
+import { OversightPolicyEngine } from '../../core/oversight/OversightPolicyEngine.js';
+import { OversightEvaluation } from '../../core/oversight/types.js';
 
+/**
+ * financial_limit and confidence_threshold, when set, override the policy's
+ * parameters of the same name
+ */
 interface RiskThreshold {
-  financial_limit: number;
-  confidence_threshold: number;
+  financial_limit?: number;
+  confidence_threshold?: number;
   auto_approval_enabled: boolean;
 }
 
+interface OversightDecisionRecord {
+  decision_id: string;
+  event_id: string;
+  decision: 'approved' | 'escalated' | 'blocked';
+  reason: string;
+  policy_id: string;
+  policy_version: string;
+  /** Policy rule that fired; absent when the policy default applied */
+  rule_id?: string;
+  timestamp: string;
+}
+
 interface DriftMetrics {
   sop_performance: Map<
     string,
@@ -58,43 +82,50 @@ interface DriftMetrics {
   >;
 }
 
+export const OVERSIGHT_AGENT_MANDATE: AgentMandate = {
+  name: 'AI Oversight Agent',
+  description: 'Monitors all system activity and enforces safety controls',
+  subscribesTo: [], // Will subscribe to ALL events manually
+  emits: [
+    'HUMAN_APPROVAL_REQUESTED',
+    'AUTONOMIC_DECISION_EXECUTED',
+    'PROCESS_DRIFT_DETECTED',
+    'HUMAN_FATIGUE_SIGNAL',
+    'CLIENT_ATTENTION_DECAY',
+    'CONFIDENCE_CALIBRATION_REQUIRED',
+    'CEO_INTERRUPT_REQUIRED',
+  ],
+  confidenceThreshold: 0.9, // Highest threshold
+};
+
 export class OversightAgent extends AutonomicAgent {
   private riskThresholds: RiskThreshold;
-  private decisionLog: Array<{
-    decision_id: string;
-    event_id: string;
-    decision: 'approved' | 'escalated' | 'blocked';
-    reason: string;
-    timestamp: string;
-  }>;
+  private policies: OversightPolicyEngine;
+  private guardId: string | null;
+  /**
+   * Guard evaluations of allowed events, acted on once they are dispatched
+   * (dropped if publishing fails after the guard allowed them)
+   */
+  private pendingEvaluations: Map<string, OversightEvaluation>;
+  private decisionLog: OversightDecisionRecord[];
   private driftMetrics: DriftMetrics;
   private driftCheckIntervalMs: number;
 
-  constructor(eventBus: EventBus, config?: Partial<RiskThreshold>) {
-    super(
-      {
-        name: 'AI Oversight Agent',
-        description: 'Monitors all system activity and enforces safety controls',
-        subscribesTo: [], // Will subscribe to ALL events manually
-        emits: [
-          'HUMAN_APPROVAL_REQUESTED' as any,
-          'AUTONOMIC_DECISION_EXECUTED' as any,
-          'PROCESS_DRIFT_DETECTED' as any,
-          'HUMAN_FATIGUE_SIGNAL' as any,
-          'CLIENT_ATTENTION_DECAY' as any,
-          'CONFIDENCE_CALIBRATION_REQUIRED' as any,
-          'CEO_INTERRUPT_REQUIRED' as any,
-        ],
-        confidenceThreshold: 0.9, // Highest threshold
-      },
-      eventBus
-    );
+  constructor(
+    eventBus: EventBus,
+    config?: Partial<RiskThreshold>,
+    policies: OversightPolicyEngine = new OversightPolicyEngine()
+  ) {
+    super(OVERSIGHT_AGENT_MANDATE, eventBus);
 
     this.riskThresholds = {
-      financial_limit: config?.financial_limit || 10000,
-      confidence_threshold: config?.confidence_threshold || 0.75,
+      financial_limit: config?.financial_limit,
+      confidence_threshold: config?.confidence_threshold,
       auto_approval_enabled: config?.auto_approval_enabled ?? false,
     };
+    this.policies = policies;
+    this.guardId = null;
+    this.pendingEvaluations = new Map();
 
     this.decisionLog = [];
     this.driftMetrics = {
@@ -112,10 +143,22 @@ export class OversightAgent extends AutonomicAgent {
   async initialize(): Promise<void> {
     this.logger.info('Initializing oversight agent', {
       risk_thresholds: this.riskThresholds,
+      policy_id: this.policies.getPolicy().policy_id,
+      policy_version: this.policies.getPolicy().version,
+    });
+
+    // Decide before any other subscriber sees the event
+    this.guardId = this.eventBus.addGuard(this.guardEvent.bind(this), {
+      name: this.mandate.name,
+      priority: 0,
+      // An allowed event that is never dispatched will not come back to handleEvent
+      onNotDispatched: (event) => this.pendingEvaluations.delete(event.event_id),
     });
 
     // Subscribe to ALL events using wildcard
-    const subscriptionId = this.eventBus.subscribe(this.handleEvent.bind(this));
+    const subscriptionId = this.eventBus.subscribe(this.handleEvent.bind(this), undefined, {
+      name: this.mandate.name,
+    });
     this.subscriptionIds.push(subscriptionId);
 
     // Start periodic drift detection
@@ -125,6 +168,41 @@ export class OversightAgent extends AutonomicAgent {
     this.logger.info('Oversight agent initialized - monitoring all events and drift');
   }
 
+  async shutdown(): Promise<void> {
+    if (this.guardId) {
+      this.eventBus.removeGuard(this.guardId);
+      this.guardId = null;
+    }
+    await super.shutdown();
+  }
+
+  /**
+   * Pre-dispatch decision: reject blocked events, hold the ones the policy
+   * wants approved first, and let the rest through
+   */
+  private async guardEvent(event: EventEnvelope): Promise<GuardVerdict> {
+    if (!this.isActive || event.emitted_by === 'ai_oversight_agent') {
+      return { action: 'allow' };
+    }
+
+    const evaluation = await this.evaluateEvent(event);
+
+    if (evaluation.decision === 'block') {
+      await this.blockEvent(event, evaluation.reason);
+      this.logDecision(this.decisionRecord(event, evaluation));
+      return { action: 'reject', reason: evaluation.reason };
+    }
+
+    if (evaluation.hold) {
+      const approvalEventId = await this.escalateToHuman(event, evaluation.reason, true);
+      this.logDecision(this.decisionRecord(event, evaluation));
+      return { action: 'hold', reason: evaluation.reason, approval_event_id: approvalEventId };
+    }
+
+    this.pendingEvaluations.set(event.event_id, evaluation);
+    return { action: 'allow' };
+  }
+
   private async handleEvent(event: EventEnvelope): Promise<void> {
     if (!this.isActive) {
       return;
@@ -145,126 +223,61 @@ export class OversightAgent extends AutonomicAgent {
     }
   }
 
-  protected async processEvent(event: EventEnvelope): Promise<void> {
-    this.logger.debug('Monitoring event', {
-      event_id: event.event_id,
-      event_type: event.event_type,
-      confidence: event.confidence,
-      requires_human: event.requires_human,
-    });
-
-    // Perform oversight checks
-    const decision = await this.evaluateEvent(event);
-
-    if (decision.action === 'escalate') {
-      await this.escalateToHuman(event, decision.reason);
-    } else if (decision.action === 'block') {
-      await this.blockEvent(event, decision.reason);
-    } else {
-      await this.approveEvent(event, decision.reason);
-    }
-
-    // Log decision
-    this.logDecision({
-      decision_id: crypto.randomUUID(),
-      event_id: event.event_id,
-      decision: decision.action === 'approve' ? 'approved' : decision.action === 'escalate' ? 'escalated' : 'blocked',
-      reason: decision.reason,
-      timestamp: new Date().toISOString(),
-    });
-  }
-
   /**
-   * Evaluate event and decide on action
+   * Evaluate event against the oversight policy and decide on action
+   * A ceo_interrupt decision raises CEO_INTERRUPT_REQUIRED and escalates.
    */
-  private async evaluateEvent(event: EventEnvelope): Promise<{
-    action: 'approve' | 'escalate' | 'block';
-    reason: string;
-  }> {
-    // Check 1: Low confidence
-    if (event.confidence < this.riskThresholds.confidence_threshold) {
-      return {
-        action: 'escalate',
-        reason: `Low confidence (${event.confidence}) below threshold (${this.riskThresholds.confidence_threshold})`,
-      };
+  private async evaluateEvent(event: EventEnvelope): Promise<OversightEvaluation> {
+    const parameters: Record<string, number> = {};
+    if (this.riskThresholds.financial_limit !== undefined) {
+      parameters.financial_limit = this.riskThresholds.financial_limit;
     }
+    if (this.riskThresholds.confidence_threshold !== undefined) {
+      parameters.confidence_threshold = this.riskThresholds.confidence_threshold;
+    }
+
+    const evaluation = this.policies.evaluate(event, parameters);
 
-    // Check 2: CEO-level interrupt required (highest priority)
-    const ceoInterrupt = await this.evaluateCEOInterrupt(event);
-    if (ceoInterrupt) {
+    if (evaluation.decision === 'ceo_interrupt' && evaluation.ceo_interrupt) {
       await this.emitEvent(
-        'CEO_INTERRUPT_REQUIRED' as any,
+        'CEO_INTERRUPT_REQUIRED',
         event.entity_type,
         event.entity_id,
-        ceoInterrupt,
+        evaluation.ceo_interrupt,
         1.0,
         true
       );
-      return {
-        action: 'escalate',
-        reason: `CEO interrupt required: ${ceoInterrupt.interrupt_reason}`,
-      };
-    }
-
-    // Check 3: Already requires human (but not CEO-level)
-    if (event.requires_human) {
-      return {
-        action: 'escalate',
-        reason: 'Event flagged for human review by emitting agent',
-      };
-    }
-
-    // Check 4: Financial risk
-    if (this.isFinancialEvent(event.event_type)) {
-      const amount = this.extractFinancialAmount(event);
-      if (amount > this.riskThresholds.financial_limit) {
-        return {
-          action: 'escalate',
-          reason: `Financial amount ($${amount}) exceeds threshold ($${this.riskThresholds.financial_limit})`,
-        };
-      }
     }
 
-    // Check 4: Critical risk detected
-    if (event.event_type === 'RISK_DETECTED' && event.payload.severity === 'critical') {
-      return {
-        action: 'escalate',
-        reason: 'Critical risk detected - human judgment required',
-      };
-    }
-
-    // Check 5: Human override events always escalate
-    if (event.event_type === 'HUMAN_OVERRIDE') {
-      return {
-        action: 'approve',
-        reason: 'Human override - automatically approved',
-      };
-    }
-
-    // Default: approve
-    return {
-      action: 'approve',
-      reason: 'All safety checks passed',
-    };
+    return evaluation;
   }
 
   /**
    * Escalate event to human
+   * A held event is dispatched or discarded once the returned request is resolved.
    */
-  private async escalateToHuman(event: EventEnvelope, reason: string): Promise<void> {
+  private async escalateToHuman(
+    event: EventEnvelope,
+    reason: string,
+    held: boolean = false
+  ): Promise<string | undefined> {
     this.logger.warn('Escalating event to human', {
       event_id: event.event_id,
       event_type: event.event_type,
       reason,
+      held,
     });
 
-    await this.requestHumanApproval(
+    return this.requestHumanApproval(
       event.event_type,
       reason,
       {
         original_event: event,
+        held,
       },
-      'Review and approve/reject this action',
+      held
+        ? 'Approve to release this event to its subscribers, or reject to discard it'
+        : 'Review and approve/reject this action',
       'high'
     );
   }
@@ -280,7 +293,7 @@ export class OversightAgent extends AutonomicAgent {
     });
 
     await this.emitEvent(
-      'RISK_DETECTED' as any,
+      'RISK_DETECTED',
       'SYSTEM',
       'oversight',
       {
@@ -303,7 +316,7 @@ export class OversightAgent extends AutonomicAgent {
     if (event.confidence >= 0.9) {
       // Only log high-confidence autonomous decisions
       await this.emitEvent(
-        'AUTONOMIC_DECISION_EXECUTED' as any,
+        'AUTONOMIC_DECISION_EXECUTED',
         event.entity_type,
         event.entity_id,
         {
@@ -324,36 +337,10 @@ export class OversightAgent extends AutonomicAgent {
     }
   }
 
-  /**
-   * Helper: Check if event is financial
-   */
-  private isFinancialEvent(eventType: string): boolean {
-    return ['QUOTE_GENERATED', 'INVOICE_ISSUED', 'PAYMENT_RECEIVED'].includes(eventType);
-  }
-
-  /**
-   * Helper: Extract financial amount from event
-   */
-  private extractFinancialAmount(event: EventEnvelope): number {
-    if (event.payload.amount) {
-      return event.payload.amount as number;
-    }
-    if (event.payload.total) {
-      return event.payload.total as number;
-    }
-    return 0;
-  }
-
   /**
    * Log decision
    */
-  private logDecision(decision: {
-    decision_id: string;
-    event_id: string;
-    decision: 'approved' | 'escalated' | 'blocked';
-    reason: string;
-    timestamp: string;
-  }): void {
+  private logDecision(decision: OversightDecisionRecord): void {
     this.decisionLog.push(decision);
 
     // Keep only last 1000 decisions
@@ -365,7 +352,7 @@ export class OversightAgent extends AutonomicAgent {
   /**
    * Get decision log
    */
-  getDecisionLog(): typeof this.decisionLog {
+  getDecisionLog(): OversightDecisionRecord[] {
     return [...this.decisionLog];
   }
 
@@ -451,8 +438,9 @@ export class OversightAgent extends AutonomicAgent {
     }
 
     // Track human activity
-    if (event.event_type === 'HUMAN_OVERRIDE') {
-      const userId = event.payload.overridden_by as string || 'unknown';
+    if (event.event_type === 'HUMAN_OVERRIDE' || event.event_type === 'HUMAN_APPROVAL_RESOLVED') {
+      const userId =
+        ((event.payload.overridden_by || event.payload.decided_by) as string) || 'unknown';
       let metrics = this.driftMetrics.human_activity.get(userId);
       if (!metrics) {
         metrics = { overrides: [], manual_tasks: [], last_check: new Date().toISOString() };
@@ -488,7 +476,7 @@ export class OversightAgent extends AutonomicAgent {
 
       if (Math.abs(driftPercentage) > 20) {
         await this.emitEvent(
-          'PROCESS_DRIFT_DETECTED' as any,
+          'PROCESS_DRIFT_DETECTED',
           'SYSTEM',
           sopId,
           {
@@ -530,7 +518,7 @@ export class OversightAgent extends AutonomicAgent {
         }
 
         await this.emitEvent(
-          'HUMAN_FATIGUE_SIGNAL' as any,
+          'HUMAN_FATIGUE_SIGNAL',
           'SYSTEM',
           userId,
           {
@@ -563,7 +551,7 @@ export class OversightAgent extends AutonomicAgent {
 
       if (attendanceRate < 0.6) {
         await this.emitEvent(
-          'CLIENT_ATTENTION_DECAY' as any,
+          'CLIENT_ATTENTION_DECAY',
           'CLIENT',
           clientId,
           {
@@ -605,7 +593,7 @@ export class OversightAgent extends AutonomicAgent {
 
       if (alwaysHigh > 0.8 || alwaysLow > 0.8) {
         await this.emitEvent(
-          'CONFIDENCE_CALIBRATION_REQUIRED' as any,
+          'CONFIDENCE_CALIBRATION_REQUIRED',
           'SYSTEM',
           agentId,
           {
@@ -659,142 +647,6 @@ export class OversightAgent extends AutonomicAgent {
     return 'Normal variation';
   }
 
-  /**
-   * CEO ATTENTION OPTIMIZATION
-   * Most things should NOT interrupt the CEO
-   */
-
-  /**
-   * Evaluate if event requires CEO-level attention
-   * Returns payload if yes, null if no
-   */
-  private async evaluateCEOInterrupt(
-    event: EventEnvelope
-  ): Promise<{
-    interrupt_reason: 'financial_risk' | 'reputation_risk' | 'strategic_inflection';
-    severity: 'high' | 'critical';
-    context: Record<string, unknown>;
-    decision_required: string;
-    time_sensitive: boolean;
-    recommended_action?: string;
-  } | null> {
-    // Financial Risk (only VERY high amounts)
-    if (this.isFinancialEvent(event.event_type)) {
-      const amount = this.extractFinancialAmount(event);
-      if (amount > this.riskThresholds.financial_limit * 10) {
-        // 10x normal threshold
-        return {
-          interrupt_reason: 'financial_risk',
-          severity: 'critical',
-          context: {
-            amount,
-            event_type: event.event_type,
-            entity_id: event.entity_id,
-          },
-          decision_required: `Approve financial commitment of $${amount}`,
-          time_sensitive: true,
-          recommended_action: 'Review contract terms and client credit',
-        };
-      }
-    }
-
-    // Reputation Risk (critical severity only)
-    if (event.event_type === 'RISK_DETECTED') {
-      const riskType = event.payload.risk_type as string;
-      const severity = event.payload.severity as string;
-
-      if (riskType === 'relationship' && severity === 'critical') {
-        return {
-          interrupt_reason: 'reputation_risk',
-          severity: 'critical',
-          context: {
-            risk_description: event.payload.description,
-            client_id: event.entity_id,
-          },
-          decision_required: 'Approve crisis response strategy',
-          time_sensitive: true,
-          recommended_action: event.payload.mitigation_suggestions?.[0] as string,
-        };
-      }
-
-      if (riskType === 'legal' && severity === 'high') {
-        return {
-          interrupt_reason: 'reputation_risk',
-          severity: 'critical',
-          context: {
-            risk_description: event.payload.description,
-            affected_entity: event.entity_id,
-          },
-          decision_required: 'Approve legal strategy',
-          time_sensitive: true,
-        };
-      }
-    }
-
-    // Strategic Inflection Points
-    if (event.event_type === 'SOP_OPTIMIZATION_RECOMMENDED') {
-      const potentialSavings = event.payload.potential_savings as any;
-      if (potentialSavings?.cost_per_month > 50000) {
-        // Major process redesign
-        return {
-          interrupt_reason: 'strategic_inflection',
-          severity: 'high',
-          context: {
-            sop_id: event.payload.sop_id,
-            potential_monthly_savings: potentialSavings.cost_per_month,
-            changes: event.payload.recommended_changes,
-          },
-          decision_required: 'Approve major process redesign',
-          time_sensitive: false,
-          recommended_action: 'Review impact analysis and approve pilot',
-        };
-      }
-    }
-
-    // Client Churn Risk (high-value clients only)
-    if (event.event_type === 'CLIENT_ATTENTION_DECAY') {
-      const churnScore = event.payload.churn_risk_score as number;
-      // Would need to check if high-value client
-      if (churnScore > 0.7) {
-        return {
-          interrupt_reason: 'reputation_risk',
-          severity: 'high',
-          context: {
-            client_id: event.entity_id,
-            churn_risk_score: churnScore,
-            engagement_signals: event.payload.engagement_signals,
-          },
-          decision_required: 'Approve client retention strategy',
-          time_sensitive: true,
-          recommended_action: 'Personal outreach from CEO recommended',
-        };
-      }
-    }
-
-    // Project at Critical Risk
-    if (event.event_type === 'PROJECT_AT_RISK') {
-      const riskFactors = event.payload.risk_factors as string[];
-      if (riskFactors.length > 3) {
-        // Multiple compounding risks
-        return {
-          interrupt_reason: 'reputation_risk',
-          severity: 'high',
-          context: {
-            project_id: event.entity_id,
-            risk_factors: riskFactors,
-            recommended_actions: event.payload.recommended_actions,
-          },
-          decision_required: 'Approve project recovery plan',
-          time_sensitive: true,
-          recommended_action: 'Assign senior oversight to project',
-        };
-      }
-    }
-
-    // Default: Does NOT require CEO attention
-    return null;
-  }
-
   /**
    * Override processEvent to also track drift
    */
@@ -802,6 +654,11 @@ export class OversightAgent extends AutonomicAgent {
     // Track drift metrics
     await this.trackDriftMetrics(event);
 
+    // A decision on an escalation releases or discards the events held for it
+    if (event.event_type === 'HUMAN_APPROVAL_RESOLVED') {
+      await this.settleHolds(event);
+    }
+
     this.logger.debug('Monitoring event', {
       event_id: event.event_id,
       event_type: event.event_type,
@@ -809,24 +666,64 @@ export class OversightAgent extends AutonomicAgent {
       requires_human: event.requires_human,
     });
 
-    // Perform oversight checks
-    const decision = await this.evaluateEvent(event);
+    // Released holds were decided (and escalated) by the guard
+    let decision = this.pendingEvaluations.get(event.event_id);
+    this.pendingEvaluations.delete(event.event_id);
+    if (!decision) {
+      if (this.eventBus.getHeldEventQueue().findByEvent(event.event_id)) {
+        return;
+      }
+      decision = await this.evaluateEvent(event);
+    }
 
-    if (decision.action === 'escalate') {
+    if (decision.decision === 'escalate' || decision.decision === 'ceo_interrupt') {
       await this.escalateToHuman(event, decision.reason);
-    } else if (decision.action === 'block') {
+    } else if (decision.decision === 'block') {
       await this.blockEvent(event, decision.reason);
     } else {
       await this.approveEvent(event, decision.reason);
     }
 
-    // Log decision
-    this.logDecision({
+    // Log decision, with the policy rule that made it
+    this.logDecision(this.decisionRecord(event, decision));
+  }
+
+  private async settleHolds(event: EventEnvelope): Promise<void> {
+    const resolution = event.payload as unknown as HumanApprovalResolvedPayload;
+    const settled = await this.eventBus.settleHeldEvents(
+      resolution.original_event_id,
+      resolution.decision === 'approved',
+      resolution.decided_by,
+      resolution.notes
+    );
+
+    if (settled.length > 0) {
+      this.logger.info('Held events settled by approval', {
+        approval_id: resolution.original_event_id,
+        decision: resolution.decision,
+        hold_ids: settled.map((held) => held.hold_id),
+      });
+    }
+  }
+
+  private decisionRecord(
+    event: EventEnvelope,
+    evaluation: OversightEvaluation
+  ): OversightDecisionRecord {
+    return {
       decision_id: crypto.randomUUID(),
       event_id: event.event_id,
-      decision: decision.action === 'approve' ? 'approved' : decision.action === 'escalate' ? 'escalated' : 'blocked',
-      reason: decision.reason,
+      decision:
+        evaluation.decision === 'approve'
+          ? 'approved'
+          : evaluation.decision === 'block'
+            ? 'blocked'
+            : 'escalated',
+      reason: evaluation.reason,
+      policy_id: evaluation.policy_id,
+      policy_version: evaluation.policy_version,
+      rule_id: evaluation.rule_id,
       timestamp: new Date().toISOString(),
-    });
+    };
   }
 }
@@ -3,25 +3,24 @@
  *
  * Mandate: Manage project execution and detect risks
  * Subscribes to: TASK_CREATED, PROJECT_STARTED
- * Emits: TASK_ASSIGNED, PROJECT_AT_RISK
+ * Emits: TASK_ASSIGNED, PROJECT_AT_RISK, MILESTONE_COMPLETED, PROJECT_COMPLETED
  */
 
-import { AutonomicAgent } from '../../core/agents/AutonomicAgent.js';
+import { AutonomicAgent, AgentMandate } from '../../core/agents/AutonomicAgent.js';
 import { EventBus } from '../../core/bus/EventBus.js';
 import { EventEnvelope, TaskCreatedPayload, ProjectStartedPayload } from '../../core/events/types.js';
 
+export const PROJECT_AGENT_MANDATE: AgentMandate = {
+  name: 'AI Project Control Agent',
+  description: 'Manages project execution and resource allocation',
+  subscribesTo: ['TASK_CREATED', 'PROJECT_STARTED'],
+  emits: ['TASK_ASSIGNED', 'PROJECT_AT_RISK', 'MILESTONE_COMPLETED', 'PROJECT_COMPLETED'],
+  confidenceThreshold: 0.75,
+};
+
 export class ProjectAgent extends AutonomicAgent {
   constructor(eventBus: EventBus) {
-    super(
-      {
-        name: 'AI Project Control Agent',
-        description: 'Manages project execution and resource allocation',
-        subscribesTo: ['TASK_CREATED' as any, 'PROJECT_STARTED' as any],
-        emits: ['TASK_ASSIGNED' as any, 'PROJECT_AT_RISK' as any],
-        confidenceThreshold: 0.75,
-      },
-      eventBus
-    );
+    super(PROJECT_AGENT_MANDATE, eventBus);
   }
 
   protected async processEvent(event: EventEnvelope): Promise<void> {
@@ -47,7 +46,7 @@ export class ProjectAgent extends AutonomicAgent {
     const assignment = await this.assignTask(payload);
 
     await this.emitEvent(
-      'TASK_ASSIGNED' as any,
+      'TASK_ASSIGNED',
       'TASK',
       event.entity_id,
       {
@@ -74,19 +73,28 @@ export class ProjectAgent extends AutonomicAgent {
     const riskAssessment = await this.assessProjectRisk(payload);
 
     if (riskAssessment.risks.length > 0) {
-      await this.emitEvent(
-        'PROJECT_AT_RISK' as any,
-        'PROJECT',
-        event.entity_id,
-        {
-          project_id: event.entity_id,
-          risk_factors: riskAssessment.risks,
-          current_status: 'just_started',
-          recommended_actions: riskAssessment.recommendations,
-        },
-        riskAssessment.confidence,
-        riskAssessment.severity === 'high'
-      );
+      await this.emitWithConcurrencyRetry('PROJECT', event.entity_id, async () => {
+        const history = await this.eventBus.getEntityHistory('PROJECT', event.entity_id);
+        const alreadyFlagged = history.some(
+          (e) => e.event_type === 'PROJECT_AT_RISK' && e.payload.current_status === 'just_started'
+        );
+
+        if (alreadyFlagged) {
+          return null;
+        }
+
+        return {
+          eventType: 'PROJECT_AT_RISK',
+          payload: {
+            project_id: event.entity_id,
+            risk_factors: riskAssessment.risks,
+            current_status: 'just_started',
+            recommended_actions: riskAssessment.recommendations,
+          },
+          confidence: riskAssessment.confidence,
+          requiresHuman: riskAssessment.severity === 'high',
+        };
+      });
     }
   }
 
@@ -4,24 +4,38 @@
  * Mandate: Generate creative briefs and project recommendations
  * Subscribes to: INTENT_INFERRED
  * Emits: CREATIVE_BRIEF_GENERATED, PROJECT_RECOMMENDED
+ * Low-confidence briefs wait for a human review; an approved review
+ * continues with the brief as the reviewer left it
  */
 
-import { AutonomicAgent } from '../../core/agents/AutonomicAgent.js';
+import { AutonomicAgent, AgentMandate } from '../../core/agents/AutonomicAgent.js';
 import { EventBus } from '../../core/bus/EventBus.js';
-import { EventEnvelope, IntentInferredPayload } from '../../core/events/types.js';
+import {
+  EventEnvelope,
+  HumanApprovalResolvedPayload,
+  IntentInferredPayload,
+} from '../../core/events/types.js';
+
+export const STRATEGY_AGENT_MANDATE: AgentMandate = {
+  name: 'AI Strategy Agent',
+  description: 'Develops creative strategies and project plans',
+  subscribesTo: ['INTENT_INFERRED'],
+  emits: ['CREATIVE_BRIEF_GENERATED', 'PROJECT_RECOMMENDED'],
+  confidenceThreshold: 0.75,
+};
+
+interface CreativeBrief {
+  title: string;
+  objectives: string[];
+  target_audience: string;
+  deliverables: string[];
+  brand_guidelines: string;
+  confidence: number;
+}
 
 export class StrategyAgent extends AutonomicAgent {
   constructor(eventBus: EventBus) {
-    super(
-      {
-        name: 'AI Strategy Agent',
-        description: 'Develops creative strategies and project plans',
-        subscribesTo: ['INTENT_INFERRED' as any],
-        emits: ['CREATIVE_BRIEF_GENERATED' as any, 'PROJECT_RECOMMENDED' as any],
-        confidenceThreshold: 0.75,
-      },
-      eventBus
-    );
+    super(STRATEGY_AGENT_MANDATE, eventBus);
   }
 
   protected async processEvent(event: EventEnvelope): Promise<void> {
@@ -47,6 +61,7 @@ export class StrategyAgent extends AutonomicAgent {
         {
           client_id: payload.client_id,
           brief,
+          intent: payload,
         },
         'Review and approve creative brief',
         'high'
@@ -54,9 +69,45 @@ export class StrategyAgent extends AutonomicAgent {
       return;
     }
 
+    await this.publishStrategy(payload, brief, brief.confidence);
+  }
+
+  /**
+   * A reviewed brief goes ahead with the reviewer's amendments
+   */
+  protected async onApprovalResolved(resolution: HumanApprovalResolvedPayload): Promise<void> {
+    if (resolution.request_type !== 'creative_brief_review' || resolution.decision !== 'approved') {
+      return;
+    }
+
+    const intent = resolution.context.intent as IntentInferredPayload | undefined;
+    if (!intent) {
+      this.logger.warn('Approved creative brief does not carry its intent', {
+        approval_id: resolution.original_event_id,
+      });
+      return;
+    }
+
+    const brief = {
+      ...(resolution.context.brief as CreativeBrief),
+      ...resolution.amended_decision,
+    } as CreativeBrief;
+
+    // A human has vouched for it
+    await this.publishStrategy(intent, brief, 1.0);
+  }
+
+  /**
+   * Emit the creative brief and the project recommendation built on it
+   */
+  private async publishStrategy(
+    payload: IntentInferredPayload,
+    brief: CreativeBrief,
+    confidence: number
+  ): Promise<void> {
     // Emit CREATIVE_BRIEF_GENERATED event
     await this.emitEvent(
-      'CREATIVE_BRIEF_GENERATED' as any,
+      'CREATIVE_BRIEF_GENERATED',
       'CLIENT',
       payload.client_id,
       {
@@ -67,7 +118,7 @@ export class StrategyAgent extends AutonomicAgent {
         deliverables: brief.deliverables,
         brand_guidelines: brief.brand_guidelines,
       },
-      brief.confidence,
+      confidence,
       false
     );
 
@@ -75,7 +126,7 @@ export class StrategyAgent extends AutonomicAgent {
     const recommendation = await this.generateProjectRecommendation(payload, brief);
 
     await this.emitEvent(
-      'PROJECT_RECOMMENDED' as any,
+      'PROJECT_RECOMMENDED',
       'CLIENT',
       payload.client_id,
       {
@@ -97,14 +148,7 @@ export class StrategyAgent extends AutonomicAgent {
    * Generate creative brief using AI
    * In production, this would call Gemini API
    */
-  private async generateCreativeBrief(intent: IntentInferredPayload): Promise<{
-    title: string;
-    objectives: string[];
-    target_audience: string;
-    deliverables: string[];
-    brand_guidelines: string;
-    confidence: number;
-  }> {
+  private async generateCreativeBrief(intent: IntentInferredPayload): Promise<CreativeBrief> {
     // PLACEHOLDER: In production, this would use Gemini API
     return {
       title: `Creative Brief: ${intent.suggested_services.join(' + ')}`,
@@ -8,6 +8,7 @@
 import { Application, Request, Response } from 'express';
 import { Logger } from '../../utils/logger.js';
 import { getSupabaseAdminClient } from '../../infrastructure/supabase/client.js';
+import { EventBus } from '../../core/bus/EventBus.js';
 
 const logger = new Logger('AgentAPI');
 
@@ -25,7 +26,7 @@ const AGENT_NAMES = [
   'OversightAgent',
 ];
 
-export function setupAgentAPI(app: Application): void {
+export function setupAgentAPI(app: Application, eventBus: EventBus): void {
   /**
    * GET /api/agents/metrics
    * Get detailed performance metrics for all agents
@@ -288,7 +289,7 @@ export function setupAgentAPI(app: Application): void {
 
   /**
    * GET /api/agents/health
-   * Get overall agent ecosystem health
+   * Get overall agent ecosystem health, including live event bus subscriptions
    */
   app.get('/api/agents/health', async (req: Request, res: Response) => {
     try {
@@ -337,6 +338,7 @@ export function setupAgentAPI(app: Application): void {
         status_counts: statusCounts,
         health_percentage: parseFloat(healthPercentage.toFixed(1)),
         status: healthPercentage > 90 ? 'healthy' : healthPercentage > 70 ? 'degraded' : 'critical',
+        subscriptions: eventBus.listSubscriptions(),
         timestamp: new Date().toISOString(),
       });
 
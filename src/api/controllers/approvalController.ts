@@ -2,51 +2,55 @@
  * Approval Controller
  *
  * Manages human approval queue from autonomic agents
- * Queries human_approvals table in Supabase
+ * Reads the HumanApprovalView projection; votes are counted by the
+ * ApprovalManager, which publishes HUMAN_APPROVAL_VOTED and, once the votes
+ * decide the request, HUMAN_APPROVAL_RESOLVED
  */
 
 import { Application, Request, Response } from 'express';
+import { EventBus } from '../../core/bus/EventBus.js';
+import {
+  ApprovalManager,
+  isApprovalResolutionError,
+} from '../../core/approvals/ApprovalManager.js';
+import {
+  HumanApprovalStatus,
+  HumanApprovalView,
+} from '../../projections/approval/HumanApprovalView.js';
+import { verifyToken } from '../middleware/auth.js';
 import { Logger } from '../../utils/logger.js';
-import { getSupabaseAdminClient } from '../../infrastructure/supabase/client.js';
 
 const logger = new Logger('ApprovalAPI');
 
-export function setupApprovalAPI(app: Application): void {
+const STATUSES: HumanApprovalStatus[] = ['pending', 'approved', 'rejected'];
+
+export function setupApprovalAPI(
+  app: Application,
+  eventBus: EventBus,
+  approvals: HumanApprovalView,
+  approvalManager: ApprovalManager
+): void {
   /**
    * GET /api/approvals
    * Get all pending approvals (for employee dashboard)
    */
   app.get('/api/approvals', async (req: Request, res: Response) => {
     try {
-      const supabase = getSupabaseAdminClient();
-      const status = (req.query.status as string) || 'pending';
+      const status = ((req.query.status as string) || 'pending') as HumanApprovalStatus;
       const agentId = req.query.agent_id as string;
       const limit = parseInt(req.query.limit as string) || 100;
 
-      let query = supabase
-        .from('human_approvals')
-        .select('*')
-        .order('created_at', { ascending: false })
-        .limit(limit);
-
-      // Filter by status
-      if (status) {
-        query = query.eq('status', status);
-      }
-
-      // Filter by agent
-      if (agentId) {
-        query = query.eq('agent_id', agentId);
+      if (!STATUSES.includes(status)) {
+        res.status(400).json({
+          error: `status must be one of: ${STATUSES.join(', ')}`,
+        });
+        return;
       }
 
-      const { data: approvals, error } = await query;
-
-      if (error) {
-        throw error;
-      }
+      const rows = approvals.list({ status, agentId, limit });
 
       // Transform to frontend format
-      const formatted = (approvals || []).map((approval: any) => ({
+      const formatted = rows.map((approval) => ({
         id: approval.approval_id,
         type: approval.recommended_action,
         agent: approval.agent_id,
@@ -57,6 +61,9 @@ export function setupApprovalAPI(app: Application): void {
         confidence: approval.confidence,
         context: approval.decision_context,
         timeout_at: approval.timeout_at,
+        required_approvals: approval.required_approvals,
+        approvals: approval.votes.filter((v) => v.vote === 'approved').length,
+        approver_roles: approval.approver_roles,
       }));
 
       res.json({
@@ -76,12 +83,25 @@ export function setupApprovalAPI(app: Application): void {
 
   /**
    * POST /api/approvals/:id/resolve
-   * Approve or reject an approval request
+   * Vote to approve or reject an approval request
+   * The voter is the signed-in user, with their roles; on_behalf_of names the
+   * approver a delegate stands in for. The request is resolved once it has
+   * its required approvals or any rejection.
    */
-  app.post('/api/approvals/:id/resolve', async (req: Request, res: Response) => {
+  app.post('/api/approvals/:id/resolve', verifyToken, async (req: Request, res: Response) => {
     try {
       const approvalId = req.params.id;
-      const { decision, notes, resolved_by } = req.body;
+      const { decision, notes, on_behalf_of, amended_decision } = req.body;
+
+      // verifyToken lets requests through without a user when auth is not configured
+      if (!req.user) {
+        res.status(401).json({
+          error: 'Unauthorized',
+          message: 'Voting on an approval requires a signed-in user',
+        });
+        return;
+      }
+      const voter = req.user.email || req.user.id;
 
       if (!decision || !['approved', 'rejected'].includes(decision)) {
         res.status(400).json({
@@ -90,40 +110,60 @@ export function setupApprovalAPI(app: Application): void {
         return;
       }
 
-      const supabase = getSupabaseAdminClient();
-
-      // Update approval status
-      const { data, error } = await supabase
-        .from('human_approvals')
-        .update({
-          status: decision,
-          resolved_at: new Date().toISOString(),
-          resolved_by: resolved_by || 'employee',
-          resolution_notes: notes || null,
-        } as any)
-        .eq('approval_id', approvalId)
-        .select()
-        .single();
-
-      if (error) {
-        throw error;
+      if (
+        amended_decision !== undefined &&
+        (typeof amended_decision !== 'object' ||
+          amended_decision === null ||
+          Array.isArray(amended_decision))
+      ) {
+        res.status(400).json({ error: 'amended_decision must be an object' });
+        return;
+      }
+
+      if (on_behalf_of !== undefined && typeof on_behalf_of !== 'string') {
+        res.status(400).json({ error: 'on_behalf_of must be a string' });
+        return;
       }
 
-      const resolvedApproval = data as any;
+      // Held events are released or discarded by the oversight agent once it sees the resolution
+      const held = eventBus.getHeldEventQueue().findByApproval(approvalId);
 
-      logger.info('Approval resolved', {
+      const { vote, resolution } = await approvalManager.vote(approvalId, {
+        decision,
+        decided_by: voter,
+        roles: req.user.roles,
+        on_behalf_of,
+        notes,
+        amended_decision,
+      });
+
+      logger.info('Approval vote recorded', {
         approval_id: approvalId,
         decision,
-        resolved_by,
+        voter,
+        on_behalf_of,
+        resolved: resolution !== undefined,
       });
 
       res.json({
         success: true,
         approval_id: approvalId,
         decision,
-        resolved_at: resolvedApproval.resolved_at,
+        vote_event_id: vote.event_id,
+        approvals: vote.payload.approvals,
+        required_approvals: vote.payload.required_approvals,
+        status: resolution ? resolution.payload.decision : 'pending',
+        resolved_at: resolution?.created_at || null,
+        resolution_event_id: resolution?.event_id || null,
+        held_events: resolution ? held.map((h) => h.hold_id) : [],
       });
     } catch (error) {
+      if (isApprovalResolutionError(error)) {
+        const status =
+          error.reason === 'not_found' ? 404 : error.reason === 'not_eligible' ? 403 : 409;
+        res.status(status).json({ error: error.message });
+        return;
+      }
       logger.error('Failed to resolve approval', {
         approval_id: req.params.id,
         error,
@@ -141,52 +181,7 @@ export function setupApprovalAPI(app: Application): void {
    */
   app.get('/api/approvals/stats', async (req: Request, res: Response) => {
     try {
-      const supabase = getSupabaseAdminClient();
-
-      // Get counts by status
-      const { data: pending, error: pendingError } = await supabase
-        .from('human_approvals')
-        .select('approval_id', { count: 'exact', head: true })
-        .eq('status', 'pending');
-
-      const { data: approved, error: approvedError } = await supabase
-        .from('human_approvals')
-        .select('approval_id', { count: 'exact', head: true })
-        .eq('status', 'approved');
-
-      const { data: rejected, error: rejectedError } = await supabase
-        .from('human_approvals')
-        .select('approval_id', { count: 'exact', head: true })
-        .eq('status', 'rejected');
-
-      if (pendingError || approvedError || rejectedError) {
-        throw pendingError || approvedError || rejectedError;
-      }
-
-      // Get average confidence for pending approvals
-      const { data: confidenceData } = await supabase
-        .from('human_approvals')
-        .select('confidence')
-        .eq('status', 'pending');
-
-      const avgConfidence =
-        confidenceData && confidenceData.length > 0
-          ? confidenceData.reduce((sum: number, item: any) => sum + (item.confidence || 0), 0) /
-            confidenceData.length
-          : 0;
-
-      // Type assertion for counts (Supabase returns count in response metadata, not data)
-      const pendingCount = 0;
-      const approvedCount = 0;
-      const rejectedCount = 0;
-
-      res.json({
-        pending: pendingCount,
-        approved: approvedCount,
-        rejected: rejectedCount,
-        total: pendingCount + approvedCount + rejectedCount,
-        avg_confidence: avgConfidence,
-      });
+      res.json(approvals.getStats());
     } catch (error) {
       logger.error('Failed to get approval stats', { error });
       res.status(500).json({
@@ -196,5 +191,27 @@ export function setupApprovalAPI(app: Application): void {
     }
   });
 
+  /**
+   * GET /api/approvals/:id
+   * One approval request with every vote cast on it
+   */
+  app.get('/api/approvals/:id', async (req: Request, res: Response) => {
+    try {
+      const approval = approvals.getState(req.params.id);
+      if (!approval) {
+        res.status(404).json({ error: `Approval request ${req.params.id} not found` });
+        return;
+      }
+
+      res.json(approval);
+    } catch (error) {
+      logger.error('Failed to get approval', { approval_id: req.params.id, error });
+      res.status(500).json({
+        error: 'Failed to retrieve approval',
+        details: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
   logger.info('Approval API endpoints registered');
 }
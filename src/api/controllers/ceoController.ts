@@ -6,35 +6,43 @@
  */
 
 import { Application, Request, Response } from 'express';
+import {
+  ApprovalManager,
+  isApprovalResolutionError,
+} from '../../core/approvals/ApprovalManager.js';
+import {
+  HumanApprovalStatus,
+  HumanApprovalView,
+} from '../../projections/approval/HumanApprovalView.js';
+import { requireRoles, verifyToken } from '../middleware/auth.js';
 import { Logger } from '../../utils/logger.js';
 import { getSupabaseAdminClient } from '../../infrastructure/supabase/client.js';
 
 const logger = new Logger('CEOAPI');
 
-export function setupCEOAPI(app: Application): void {
+export function setupCEOAPI(
+  app: Application,
+  approvals: HumanApprovalView,
+  approvalManager: ApprovalManager
+): void {
   /**
    * GET /api/ceo/interrupts
    * Get CEO-level approval queue (critical decisions only)
    */
   app.get('/api/ceo/interrupts', async (req: Request, res: Response) => {
     try {
-      const supabase = getSupabaseAdminClient();
-      const status = (req.query.status as string) || 'pending';
+      const status = ((req.query.status as string) || 'pending') as HumanApprovalStatus;
 
       // CEO interrupts are high-confidence escalations or financial/reputation risks
-      const { data: approvals, error } = await supabase
-        .from('human_approvals')
-        .select('*')
-        .eq('status', status)
-        .or('confidence.lt.0.70,decision_context->>amount.gt.100000')
-        .order('created_at', { ascending: false })
-        .limit(50);
-
-      if (error) {
-        throw error;
-      }
-
-      const formatted = (approvals || []).map((approval) => ({
+      const interrupts = approvals
+        .list({ status })
+        .filter(
+          (approval) =>
+            approval.confidence < 0.7 || Number(approval.decision_context?.amount) > 100000
+        )
+        .slice(0, 50);
+
+      const formatted = interrupts.map((approval) => ({
         id: approval.approval_id,
         interrupt_reason: determineInterruptReason(approval),
         severity: determineSeverity(approval),
@@ -65,58 +73,62 @@ export function setupCEOAPI(app: Application): void {
   /**
    * POST /api/ceo/decisions/:id
    * CEO approve or reject a decision
+   * Counts as the signed-in CEO's vote; dual approvals still need a second approver
    */
-  app.post('/api/ceo/decisions/:id', async (req: Request, res: Response) => {
-    try {
-      const approvalId = req.params.id;
-      const { decision, notes } = req.body;
-
-      if (!decision || !['approved', 'rejected'].includes(decision)) {
-        return res.status(400).json({
-          error: 'Invalid decision. Must be "approved" or "rejected"',
+  app.post(
+    '/api/ceo/decisions/:id',
+    verifyToken,
+    requireRoles('ceo'),
+    async (req: Request, res: Response) => {
+      try {
+        const approvalId = req.params.id;
+        const { decision, notes } = req.body;
+
+        if (!decision || !['approved', 'rejected'].includes(decision)) {
+          return res.status(400).json({
+            error: 'Invalid decision. Must be "approved" or "rejected"',
+          });
+        }
+
+        const { vote, resolution } = await approvalManager.vote(approvalId, {
+          decision,
+          decided_by: req.user!.email || req.user!.id,
+          roles: req.user!.roles,
+          notes,
         });
-      }
-
-      const supabase = getSupabaseAdminClient();
 
-      const { data, error } = await supabase
-        .from('human_approvals')
-        .update({
-          status: decision,
-          resolved_at: new Date().toISOString(),
-          resolved_by: 'CEO',
-          resolution_notes: notes || null,
-        })
-        .eq('approval_id', approvalId)
-        .select()
-        .single();
+        logger.info('CEO decision recorded', {
+          approval_id: approvalId,
+          decision,
+          resolved: resolution !== undefined,
+        });
 
-      if (error) {
-        throw error;
+        res.json({
+          success: true,
+          approval_id: approvalId,
+          decision,
+          vote_event_id: vote.event_id,
+          status: resolution ? resolution.payload.decision : 'pending',
+          resolved_at: resolution?.created_at || null,
+          resolution_event_id: resolution?.event_id || null,
+        });
+      } catch (error) {
+        if (isApprovalResolutionError(error)) {
+          const status =
+            error.reason === 'not_found' ? 404 : error.reason === 'not_eligible' ? 403 : 409;
+          return res.status(status).json({ error: error.message });
+        }
+        logger.error('Failed to record CEO decision', {
+          approval_id: req.params.id,
+          error,
+        });
+        res.status(500).json({
+          error: 'Failed to record CEO decision',
+          details: error instanceof Error ? error.message : String(error),
+        });
       }
-
-      logger.info('CEO decision recorded', {
-        approval_id: approvalId,
-        decision,
-      });
-
-      res.json({
-        success: true,
-        approval_id: approvalId,
-        decision,
-        resolved_at: data.resolved_at,
-      });
-    } catch (error) {
-      logger.error('Failed to record CEO decision', {
-        approval_id: req.params.id,
-        error,
-      });
-      res.status(500).json({
-        error: 'Failed to record CEO decision',
-        details: error instanceof Error ? error.message : String(error),
-      });
     }
-  });
+  );
 
   /**
    * GET /api/ceo/automation-report
@@ -163,10 +175,9 @@ export function setupCEOAPI(app: Application): void {
       const costSavings = humanHoursSaved * 100; // Assuming $100/hour
 
       // Get human escalations
-      const { data: escalations } = await supabase
-        .from('human_approvals')
-        .select('approval_id', { count: 'exact', head: true })
-        .gte('created_at', startDate.toISOString());
+      const escalations = approvals.queryState(
+        (approval) => approval.created_at >= startDate.toISOString()
+      ).length;
 
       res.json({
         period,
@@ -177,9 +188,9 @@ export function setupCEOAPI(app: Application): void {
           human_hours_saved: humanHoursSaved,
           cost_savings: costSavings,
           sop_executions: totalExecutions,
-          human_escalations: escalations || 0,
+          human_escalations: escalations,
           escalation_rate:
-            totalExecutions > 0 ? (escalations || 0) / totalExecutions : 0,
+            totalExecutions > 0 ? escalations / totalExecutions : 0,
         },
       });
 
@@ -0,0 +1,139 @@
+/**
+ * Dead Letter API Controller
+ *
+ * Provides REST endpoints to inspect, replay and discard events
+ * that subscribers failed to handle after all retries
+ */
+
+import { Application, Request, Response } from 'express';
+import { EventBus } from '../../core/bus/EventBus.js';
+import { DeadLetterStatus } from '../../core/bus/DeadLetterQueue.js';
+import { Logger } from '../../utils/logger.js';
+
+const logger = new Logger('DeadLetterAPI');
+
+const STATUSES: DeadLetterStatus[] = ['pending', 'replayed', 'discarded'];
+
+export function setupDeadLetterAPI(app: Application, eventBus: EventBus): void {
+  const deadLetters = eventBus.getDeadLetterQueue();
+
+  /**
+   * GET /api/dead-letters
+   * List dead letters (optionally filtered by status)
+   */
+  app.get('/api/dead-letters', (req: Request, res: Response) => {
+    try {
+      const status = req.query.status as DeadLetterStatus | undefined;
+
+      if (status && !STATUSES.includes(status)) {
+        return res.status(400).json({
+          error: `status must be one of: ${STATUSES.join(', ')}`,
+        });
+      }
+
+      const letters = deadLetters.list(status);
+
+      return res.json({
+        count: letters.length,
+        stats: deadLetters.getStats(),
+        dead_letters: letters,
+      });
+    } catch (error) {
+      logger.error('Failed to list dead letters', { error });
+      return res.status(500).json({
+        error: 'Failed to list dead letters',
+        details: String(error),
+      });
+    }
+  });
+
+  /**
+   * GET /api/dead-letters/:id
+   * Inspect a single dead letter, including the original event
+   */
+  app.get('/api/dead-letters/:id', (req: Request, res: Response) => {
+    try {
+      const letter = deadLetters.get(req.params.id);
+
+      if (!letter) {
+        return res.status(404).json({ error: 'Dead letter not found' });
+      }
+
+      return res.json(letter);
+    } catch (error) {
+      logger.error('Failed to get dead letter', { error });
+      return res.status(500).json({
+        error: 'Failed to get dead letter',
+        details: String(error),
+      });
+    }
+  });
+
+  /**
+   * POST /api/dead-letters/:id/replay
+   * Re-deliver the event to its subscriber
+   */
+  app.post('/api/dead-letters/:id/replay', async (req: Request, res: Response) => {
+    try {
+      const letter = deadLetters.get(req.params.id);
+
+      if (!letter) {
+        return res.status(404).json({ error: 'Dead letter not found' });
+      }
+
+      if (letter.status !== 'pending') {
+        return res.status(409).json({ error: `Dead letter is already ${letter.status}` });
+      }
+
+      const result = await eventBus.replayDeadLetter(letter.dead_letter_id);
+
+      logger.info('Dead letter replayed via API', {
+        dead_letter_id: letter.dead_letter_id,
+        status: result.status,
+      });
+
+      return res.json({
+        message: result.status === 'replayed' ? 'Event redelivered' : 'Replay failed',
+        dead_letter: result,
+      });
+    } catch (error) {
+      logger.error('Failed to replay dead letter', { error });
+      return res.status(500).json({
+        error: 'Failed to replay dead letter',
+        details: String(error),
+      });
+    }
+  });
+
+  /**
+   * POST /api/dead-letters/:id/discard
+   * Drop the dead letter without delivering it
+   */
+  app.post('/api/dead-letters/:id/discard', async (req: Request, res: Response) => {
+    try {
+      const letter = deadLetters.get(req.params.id);
+
+      if (!letter) {
+        return res.status(404).json({ error: 'Dead letter not found' });
+      }
+
+      if (letter.status !== 'pending') {
+        return res.status(409).json({ error: `Dead letter is already ${letter.status}` });
+      }
+
+      const { reason, discarded_by } = req.body || {};
+      await deadLetters.discard(letter.dead_letter_id, reason, discarded_by);
+
+      return res.json({
+        message: 'Dead letter discarded',
+        dead_letter: deadLetters.get(letter.dead_letter_id),
+      });
+    } catch (error) {
+      logger.error('Failed to discard dead letter', { error });
+      return res.status(500).json({
+        error: 'Failed to discard dead letter',
+        details: String(error),
+      });
+    }
+  });
+}
@@ -8,6 +8,7 @@
 import { Application, Request, Response } from 'express';
 import { Logger } from '../../utils/logger.js';
 import { getSupabaseAdminClient } from '../../infrastructure/supabase/client.js';
+import { HumanApprovalView } from '../../projections/approval/HumanApprovalView.js';
 
 const logger = new Logger('DriftAPI');
 
@@ -36,7 +37,7 @@ interface DriftAlert {
   };
 }
 
-export function setupDriftAPI(app: Application): void {
+export function setupDriftAPI(app: Application, approvals: HumanApprovalView): void {
   /**
    * GET /api/drift/alerts
    * Get all drift detection alerts
@@ -92,23 +93,22 @@ export function setupDriftAPI(app: Application): void {
       }
 
       // 2. Check for human fatigue (too many approvals)
-      const { data: approvals } = await supabase
-        .from('human_approvals')
-        .select('*')
-        .eq('status', 'pending')
-        .gte('created_at', new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString());
+      const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
+      const recentPending = approvals
+        .list({ status: 'pending' })
+        .filter((approval) => approval.created_at >= weekAgo);
 
-      if (approvals && approvals.length > 50) {
+      if (recentPending.length > 50) {
         // More than 50 pending approvals in 7 days = fatigue risk
         alerts.push({
           id: `drift-fatigue-${Date.now()}`,
           type: 'human_fatigue',
-          severity: approvals.length > 100 ? 'critical' : 'high',
+          severity: recentPending.length > 100 ? 'critical' : 'high',
           title: 'Human Approval Backlog Growing',
-          description: `${approvals.length} pending approvals in the last 7 days. Risk of decision fatigue and approval delays.`,
+          description: `${recentPending.length} pending approvals in the last 7 days. Risk of decision fatigue and approval delays.`,
           detected_at: new Date().toISOString(),
           metadata: {
-            metric_value: approvals.length,
+            metric_value: recentPending.length,
             threshold: 50,
             trend: 'increasing',
           },
@@ -148,7 +148,7 @@ export function setupDriftAPI(app: Application): void {
       const { data: sopExecutions } = await supabase
         .from('sop_executions')
         .select('*')
-        .in('status', ['failed', 'requires_approval'])
+        .in('status', ['failed', 'escalated'])
         .gte('started_at', new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString());
 
       if (sopExecutions) {
@@ -298,12 +298,7 @@ export function setupDriftAPI(app: Application): void {
       // For now, we'll do quick checks
 
       // Check approval backlog
-      const { data: approvals } = await supabase
-        .from('human_approvals')
-        .select('approval_id')
-        .eq('status', 'pending');
-
-      if (approvals && approvals.length > 50) {
+      if (approvals.getStats().pending > 50) {
         summary.total_alerts++;
         summary.active_alerts++;
         summary.by_type.human_fatigue++;
@@ -6,8 +6,13 @@
 
 import { Express, Request, Response } from 'express';
 import { EventBus } from '../../core/bus/EventBus.js';
-import { EventStore, EventQuery } from '../../core/store/EventStore.js';
+import {
+  EventStore,
+  EventQuery,
+  ConcurrencyConflictError,
+} from '../../core/store/EventStore.js';
 import { EventEnvelope, isValidEvent } from '../../core/events/types.js';
+import { validateEventPayload } from '../../core/events/registry.js';
 import { Logger } from '../../utils/logger.js';
 
 const logger = new Logger('EventAPI');
@@ -16,6 +21,7 @@ export function setupEventAPI(app: Express, eventBus: EventBus, eventStore: Even
   /**
    * POST /api/events
    * Publish a new event to the system
+   * Optional ?expected_version=N rejects the event (409) if the entity stream moved on
    */
   app.post('/api/events', async (req: Request, res: Response) => {
     try {
@@ -28,8 +34,27 @@ export function setupEventAPI(app: Express, eventBus: EventBus, eventStore: Even
         });
       }
 
+      const payloadError = validateEventPayload(event.event_type, event.payload);
+      if (payloadError) {
+        return res.status(400).json({
+          error: 'Invalid event payload',
+          details: payloadError,
+        });
+      }
+
+      const expectedVersion =
+        req.query.expected_version !== undefined
+          ? parseInt(req.query.expected_version as string)
+          : undefined;
+
+      if (expectedVersion !== undefined && isNaN(expectedVersion)) {
+        return res.status(400).json({
+          error: 'expected_version must be an integer',
+        });
+      }
+
       // Publish to event bus
-      await eventBus.publish(event);
+      await eventBus.publish(event, { expectedVersion });
 
       logger.info('Event published via API', {
         event_id: event.event_id,
@@ -41,6 +66,15 @@ export function setupEventAPI(app: Express, eventBus: EventBus, eventStore: Even
         event_id: event.event_id,
       });
     } catch (error) {
+      if (error instanceof ConcurrencyConflictError) {
+        return res.status(409).json({
+          error: 'Concurrency conflict',
+          details: error.message,
+          expected_version: error.expectedVersion,
+          actual_version: error.actualVersion,
+        });
+      }
+
       logger.error('Failed to publish event', { error });
       res.status(500).json({
         error: 'Failed to publish event',
@@ -86,11 +120,7 @@ export function setupEventAPI(app: Express, eventBus: EventBus, eventStore: Even
    */
   app.get('/api/events/:eventId', async (req: Request, res: Response) => {
     try {
-      const events = await eventStore.query({
-        limit: 1,
-      });
-
-      const event = events.find((e) => e.event_id === req.params.eventId);
+      const event = await eventStore.getEvent(req.params.eventId);
 
       if (!event) {
         return res.status(404).json({
@@ -108,6 +138,30 @@ export function setupEventAPI(app: Express, eventBus: EventBus, eventStore: Even
     }
   });
 
+  /**
+   * GET /api/events/:eventId/trace
+   * Get the causal tree an event belongs to, and the chain that led to it
+   */
+  app.get('/api/events/:eventId/trace', async (req: Request, res: Response) => {
+    try {
+      const trace = await eventStore.getCausalTrace(req.params.eventId);
+
+      if (!trace) {
+        return res.status(404).json({
+          error: 'Event not found',
+        });
+      }
+
+      return res.json(trace);
+    } catch (error) {
+      logger.error('Failed to trace event', { error });
+      return res.status(500).json({
+        error: 'Failed to trace event',
+        details: String(error),
+      });
+    }
+  });
+
   /**
    * GET /api/events/entity/:entityType/:entityId
    * Get all events for a specific entity
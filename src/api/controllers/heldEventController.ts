@@ -0,0 +1,137 @@
+/**
+ * Held Event API Controller
+ *
+ * Provides REST endpoints to inspect, release and discard events
+ * an event guard (such as the oversight agent) stopped before dispatch
+ */
+
+import { Application, Request, Response } from 'express';
+import { EventBus } from '../../core/bus/EventBus.js';
+import { HeldEventStatus } from '../../core/bus/HeldEventQueue.js';
+import { Logger } from '../../utils/logger.js';
+
+const logger = new Logger('HeldEventAPI');
+
+const STATUSES: HeldEventStatus[] = ['held', 'released', 'discarded'];
+
+export function setupHeldEventAPI(app: Application, eventBus: EventBus): void {
+  const heldEvents = eventBus.getHeldEventQueue();
+
+  /**
+   * GET /api/held-events
+   * List held events (optionally filtered by status)
+   */
+  app.get('/api/held-events', (req: Request, res: Response) => {
+    try {
+      const status = req.query.status as HeldEventStatus | undefined;
+
+      if (status && !STATUSES.includes(status)) {
+        return res.status(400).json({
+          error: `status must be one of: ${STATUSES.join(', ')}`,
+        });
+      }
+
+      const holds = heldEvents.list(status);
+
+      return res.json({
+        count: holds.length,
+        stats: heldEvents.getStats(),
+        held_events: holds,
+      });
+    } catch (error) {
+      logger.error('Failed to list held events', { error });
+      return res.status(500).json({
+        error: 'Failed to list held events',
+        details: String(error),
+      });
+    }
+  });
+
+  /**
+   * GET /api/held-events/:id
+   * Inspect a single hold, including the original event
+   */
+  app.get('/api/held-events/:id', (req: Request, res: Response) => {
+    try {
+      const held = heldEvents.get(req.params.id);
+
+      if (!held) {
+        return res.status(404).json({ error: 'Held event not found' });
+      }
+
+      return res.json(held);
+    } catch (error) {
+      logger.error('Failed to get held event', { error });
+      return res.status(500).json({
+        error: 'Failed to get held event',
+        details: String(error),
+      });
+    }
+  });
+
+  /**
+   * POST /api/held-events/:id/release
+   * Dispatch the event to its subscribers
+   */
+  app.post('/api/held-events/:id/release', async (req: Request, res: Response) => {
+    try {
+      const held = heldEvents.get(req.params.id);
+
+      if (!held) {
+        return res.status(404).json({ error: 'Held event not found' });
+      }
+
+      if (held.status !== 'held') {
+        return res.status(409).json({ error: `Held event is already ${held.status}` });
+      }
+
+      const { released_by, notes } = req.body || {};
+      const result = await eventBus.releaseHeldEvent(held.hold_id, released_by, notes);
+
+      logger.info('Held event released via API', { hold_id: held.hold_id, released_by });
+
+      return res.json({
+        message: 'Event dispatched',
+        held_event: result,
+      });
+    } catch (error) {
+      logger.error('Failed to release held event', { error });
+      return res.status(500).json({
+        error: 'Failed to release held event',
+        details: String(error),
+      });
+    }
+  });
+
+  /**
+   * POST /api/held-events/:id/discard
+   * Drop the event without dispatching it
+   */
+  app.post('/api/held-events/:id/discard', async (req: Request, res: Response) => {
+    try {
+      const held = heldEvents.get(req.params.id);
+
+      if (!held) {
+        return res.status(404).json({ error: 'Held event not found' });
+      }
+
+      if (held.status !== 'held') {
+        return res.status(409).json({ error: `Held event is already ${held.status}` });
+      }
+
+      const { reason, discarded_by } = req.body || {};
+      const result = await eventBus.discardHeldEvent(held.hold_id, reason, discarded_by);
+
+      return res.json({
+        message: 'Held event discarded',
+        held_event: result,
+      });
+    } catch (error) {
+      logger.error('Failed to discard held event', { error });
+      return res.status(500).json({
+        error: 'Failed to discard held event',
+        details: String(error),
+      });
+    }
+  });
+}
@@ -0,0 +1,94 @@
+/**
+ * Project Timeline API Controller
+ *
+ * Serves the ProjectTimelineView projection: phase, burn, milestones,
+ * open risks and schedule variance per project
+ */
+
+import { Application, Request, Response } from 'express';
+import {
+  ProjectTimelineView,
+  ProjectPhase,
+} from '../../projections/project/ProjectTimelineView.js';
+import { Logger } from '../../utils/logger.js';
+
+const logger = new Logger('ProjectTimelineAPI');
+
+const PHASES: ProjectPhase[] = ['kickoff', 'execution', 'completed'];
+
+export function setupProjectTimelineAPI(app: Application, view: ProjectTimelineView): void {
+  /**
+   * GET /api/projections/project-timeline
+   * List projects (optionally filtered by client, phase or attention needed)
+   */
+  app.get('/api/projections/project-timeline', (req: Request, res: Response) => {
+    try {
+      const clientId = req.query.client_id as string | undefined;
+      const phase = req.query.phase as ProjectPhase | undefined;
+      const attentionOnly = req.query.attention === 'true';
+
+      if (phase && !PHASES.includes(phase)) {
+        return res.status(400).json({
+          error: `phase must be one of: ${PHASES.join(', ')}`,
+        });
+      }
+
+      const candidates = attentionOnly
+        ? view.getProjectsRequiringAttention()
+        : Array.from(view.getAllState().values());
+
+      const projects = candidates
+        .filter((p) => !clientId || p.client_id === clientId)
+        .filter((p) => !phase || p.phase === phase)
+        .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+
+      return res.json({
+        count: projects.length,
+        projects,
+      });
+    } catch (error) {
+      logger.error('Failed to list project timelines', { error });
+      return res.status(500).json({
+        error: 'Failed to list project timelines',
+        details: String(error),
+      });
+    }
+  });
+
+  /**
+   * GET /api/projections/project-timeline/:projectId
+   * Project detail with its tasks (?as_of=<ISO timestamp> for a past view)
+   */
+  app.get('/api/projections/project-timeline/:projectId', async (req: Request, res: Response) => {
+    try {
+      const projectId = req.params.projectId;
+
+      if (req.query.as_of === undefined) {
+        const project = view.getState(projectId);
+        if (!project) {
+          return res.status(404).json({ error: 'Project not found' });
+        }
+
+        return res.json({ ...project, task_list: view.getProjectTasks(projectId) });
+      }
+
+      const asOf = new Date(req.query.as_of as string);
+      if (isNaN(asOf.getTime())) {
+        return res.status(400).json({ error: 'as_of must be an ISO 8601 timestamp' });
+      }
+
+      const project = await view.getStateAt(projectId, asOf);
+      if (!project) {
+        return res.status(404).json({ error: 'Project not found at that time' });
+      }
+
+      return res.json({ ...project, as_of: asOf.toISOString() });
+    } catch (error) {
+      logger.error('Failed to get project timeline', { project_id: req.params.projectId, error });
+      return res.status(500).json({
+        error: 'Failed to get project timeline',
+        details: String(error),
+      });
+    }
+  });
+}
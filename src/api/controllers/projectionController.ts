@@ -0,0 +1,74 @@
+/**
+ * Projection API Controller
+ *
+ * Provides REST endpoints to monitor projection checkpoints
+ * and rebuild a projection from the start of the event log
+ */
+
+import { Application, Request, Response } from 'express';
+import { StateProjection } from '../../core/projections/StateProjection.js';
+import { Logger } from '../../utils/logger.js';
+
+const logger = new Logger('ProjectionAPI');
+
+export function setupProjectionAPI(
+  app: Application,
+  projections: StateProjection<unknown>[]
+): void {
+  const findProjection = (name: string) => projections.find((p) => p.name === name);
+
+  /**
+   * GET /api/projections/status
+   * Checkpoint position and lag of every projection
+   */
+  app.get('/api/projections/status', async (_req: Request, res: Response) => {
+    try {
+      const statuses = await Promise.all(projections.map((p) => p.getStatus()));
+
+      return res.json({
+        count: statuses.length,
+        projections: statuses,
+      });
+    } catch (error) {
+      logger.error('Failed to get projection status', { error });
+      return res.status(500).json({
+        error: 'Failed to get projection status',
+        details: String(error),
+      });
+    }
+  });
+
+  /**
+   * POST /api/projections/:name/rebuild
+   * Discard the projection's state and replay the whole log
+   */
+  app.post('/api/projections/:name/rebuild', async (req: Request, res: Response) => {
+    try {
+      const projection = findProjection(req.params.name);
+
+      if (!projection) {
+        return res.status(404).json({ error: 'Projection not found' });
+      }
+
+      const startedAt = Date.now();
+      await projection.rebuild();
+
+      logger.info('Projection rebuilt via API', {
+        projection: projection.name,
+        duration_ms: Date.now() - startedAt,
+      });
+
+      return res.json({
+        message: 'Projection rebuilt',
+        duration_ms: Date.now() - startedAt,
+        status: await projection.getStatus(),
+      });
+    } catch (error) {
+      logger.error('Failed to rebuild projection', { error });
+      return res.status(500).json({
+        error: 'Failed to rebuild projection',
+        details: String(error),
+      });
+    }
+  });
+}
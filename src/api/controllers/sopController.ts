@@ -6,12 +6,31 @@
  */
 
 import { Application, Request, Response } from 'express';
+import { parse } from 'yaml';
 import { Logger } from '../../utils/logger.js';
 import { getSupabaseAdminClient } from '../../infrastructure/supabase/client.js';
+import { SOPResolver, assertValidSOP } from '../../core/sop/SOPResolver.js';
+import { SOPVersionManager } from '../../core/sop/SOPVersionManager.js';
+import { SOPEvolutionEngine } from '../../core/sop/SOPEvolutionEngine.js';
+import { SOPSimulator } from '../../core/sop/SOPSimulator.js';
+import { diffSOPDefinitions } from '../../core/sop/diff.js';
+import { lintSOPDirectory, lintSOPSource, summarize } from '../../core/sop/linter.js';
+import { AGENT_MANDATES } from '../../agents/mandates.js';
+import type { Database } from '../../infrastructure/supabase/types';
 
 const logger = new Logger('SOPAPI');
 
-export function setupSOPAPI(app: Application): void {
+type SOPExecutionStatus = NonNullable<
+  Database['public']['Tables']['sop_executions']['Row']['status']
+>;
+
+export function setupSOPAPI(
+  app: Application,
+  sopResolver: SOPResolver,
+  sopVersions: SOPVersionManager,
+  sopEvolution: SOPEvolutionEngine,
+  sopSimulator: SOPSimulator
+): void {
   /**
    * GET /api/sop/definitions
    * Get all active SOP definitions
@@ -54,6 +73,279 @@ export function setupSOPAPI(app: Application): void {
     }
   });
 
+  /**
+   * POST /api/sop/definitions/validate
+   * Lint SOP definitions (same checks as `npm run sop -- lint`)
+   * Body: { yaml?: string, filename?: string } — lints the given source,
+   * or every definition in the SOP directory when no yaml is sent
+   */
+  app.post('/api/sop/definitions/validate', async (req: Request, res: Response) => {
+    try {
+      const { yaml, filename } = req.body || {};
+      const options = { agents: AGENT_MANDATES };
+
+      if (yaml !== undefined && typeof yaml !== 'string') {
+        return res.status(400).json({ error: 'yaml must be a string' });
+      }
+
+      const file = typeof filename === 'string' ? filename : 'request.yaml';
+      const report =
+        typeof yaml === 'string'
+          ? summarize([file], lintSOPSource(yaml, file, options))
+          : await lintSOPDirectory(sopResolver.getSOPDirectory(), options);
+
+      logger.info('SOP definitions validated', {
+        files: report.files.length,
+        errors: report.error_count,
+        warnings: report.warning_count,
+      });
+
+      return res.json({
+        valid: report.error_count === 0,
+        ...report,
+      });
+    } catch (error) {
+      logger.error('Failed to validate SOP definitions', { error });
+      return res.status(500).json({
+        error: 'Failed to validate SOP definitions',
+        details: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  /**
+   * GET /api/sop/definitions/:sopId/revisions
+   * Every activated version of an SOP, oldest first (definitions omitted)
+   */
+  app.get('/api/sop/definitions/:sopId/revisions', async (req: Request, res: Response) => {
+    try {
+      const { sopId } = req.params;
+      if (!sopResolver.getSOPById(sopId)) {
+        return res.status(404).json({ error: 'SOP not found' });
+      }
+
+      const revisions = await sopVersions.listRevisions(sopId);
+
+      return res.json({
+        sop_id: sopId,
+        count: revisions.length,
+        revisions: revisions.map(({ definition: _definition, ...revision }) => revision),
+      });
+    } catch (error) {
+      logger.error('Failed to get SOP revisions', { sop_id: req.params.sopId, error });
+      return res.status(500).json({
+        error: 'Failed to retrieve SOP revisions',
+        details: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  /**
+   * GET /api/sop/definitions/:sopId/revisions/:revision
+   * One revision, including its full definition
+   */
+  app.get(
+    '/api/sop/definitions/:sopId/revisions/:revision',
+    async (req: Request, res: Response) => {
+      try {
+        const revision = await sopVersions.getRevision(
+          req.params.sopId,
+          parseInt(req.params.revision)
+        );
+        if (!revision) {
+          return res.status(404).json({ error: 'Revision not found' });
+        }
+
+        return res.json(revision);
+      } catch (error) {
+        logger.error('Failed to get SOP revision', { ...req.params, error });
+        return res.status(500).json({
+          error: 'Failed to retrieve SOP revision',
+          details: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  );
+
+  /**
+   * GET /api/sop/definitions/:sopId/diff?from=&to=
+   * Structural diff between two revisions
+   * `to` defaults to the active revision, `from` to the one before `to`.
+   */
+  app.get('/api/sop/definitions/:sopId/diff', async (req: Request, res: Response) => {
+    try {
+      const { sopId } = req.params;
+      const revisions = await sopVersions.listRevisions(sopId);
+      if (revisions.length === 0) {
+        return res.status(404).json({ error: 'SOP not found' });
+      }
+
+      const parseRevision = (value: unknown): number | null | undefined => {
+        if (value === undefined) return undefined;
+        const n = Number(value);
+        return Number.isInteger(n) ? n : null;
+      };
+      const toNumber = parseRevision(req.query.to);
+      const fromNumber = parseRevision(req.query.from);
+      if (toNumber === null || fromNumber === null) {
+        return res.status(400).json({ error: 'from and to must be revision numbers' });
+      }
+
+      const to =
+        toNumber === undefined
+          ? revisions[revisions.length - 1]
+          : revisions.find((r) => r.revision === toNumber);
+      const from =
+        fromNumber === undefined
+          ? revisions.find((r) => r.revision === to?.previous_revision)
+          : revisions.find((r) => r.revision === fromNumber);
+      if (!to || !from) {
+        return res.status(404).json({
+          error: to ? 'from revision not found' : 'to revision not found',
+        });
+      }
+
+      return res.json({
+        from_revision: from.revision,
+        to_revision: to.revision,
+        ...diffSOPDefinitions(from.definition, to.definition),
+      });
+    } catch (error) {
+      logger.error('Failed to diff SOP revisions', { sop_id: req.params.sopId, error });
+      return res.status(500).json({
+        error: 'Failed to diff SOP revisions',
+        details: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  /**
+   * POST /api/sop/definitions/:sopId/rollback
+   * Re-activate an earlier revision as a new version (emits SOP_VERSION_ACTIVATED)
+   * Body: { revision?: number, reason?: string, requested_by?: string } —
+   * revision defaults to the one before the active revision
+   */
+  app.post('/api/sop/definitions/:sopId/rollback', async (req: Request, res: Response) => {
+    try {
+      const { sopId } = req.params;
+      const { revision: requested, reason, requested_by } = req.body || {};
+
+      if (requested !== undefined && !Number.isInteger(requested)) {
+        return res.status(400).json({ error: 'revision must be a revision number' });
+      }
+
+      const revisions = await sopVersions.listRevisions(sopId);
+      const active = revisions[revisions.length - 1];
+      const targetNumber = requested ?? active?.previous_revision;
+      const target = revisions.find((r) => r.revision === targetNumber);
+      if (!target) {
+        return res.status(404).json({ error: 'Revision not found' });
+      }
+      if (target.revision === active.revision) {
+        return res.status(400).json({ error: 'Revision is already active' });
+      }
+
+      const { definition: _definition, ...revision } = await sopEvolution.rollbackSOPVersion(
+        sopId,
+        target.revision,
+        { reason, requested_by }
+      );
+
+      return res.json({
+        success: true,
+        rolled_back_to: target.revision,
+        revision,
+      });
+    } catch (error) {
+      logger.error('Failed to roll back SOP', { sop_id: req.params.sopId, error });
+      return res.status(500).json({
+        error: 'Failed to roll back SOP',
+        details: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  /**
+   * GET /api/sop/rollouts
+   * Proposed versions trialled on a share of executions, with their measured comparison
+   */
+  app.get('/api/sop/rollouts', (_req: Request, res: Response) => {
+    const rollouts = sopEvolution.getRollouts().map(({ candidate, outcomes, ...rollout }) => ({
+      ...rollout,
+      candidate_version: candidate.metadata.version,
+      executions: {
+        control: outcomes.control.length,
+        candidate: outcomes.candidate.length,
+      },
+    }));
+
+    res.json({
+      count: rollouts.length,
+      rollouts,
+    });
+  });
+
+  /**
+   * POST /api/sop/simulate
+   * Dry-run an SOP over stored events from a time window; nothing is persisted or published
+   * Body: { sop_id?: string, yaml?: string, definition?: object, from: string, to: string,
+   * assume_human_approval?: boolean, max_events?: number } — simulates the given yaml or
+   * definition (a proposed version), or the active definition of sop_id
+   */
+  app.post('/api/sop/simulate', async (req: Request, res: Response) => {
+    try {
+      const { sop_id, yaml, definition, from, to, assume_human_approval, max_events } =
+        req.body || {};
+
+      const fromDate = new Date(from);
+      const toDate = new Date(to);
+      if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime()) || fromDate > toDate) {
+        return res.status(400).json({ error: 'from and to must be dates, from before to' });
+      }
+      if (max_events !== undefined && !(Number.isInteger(max_events) && max_events > 0)) {
+        return res.status(400).json({ error: 'max_events must be a positive integer' });
+      }
+
+      let sop: unknown = definition;
+      if (typeof yaml !== 'string' && definition === undefined) {
+        if (typeof sop_id !== 'string') {
+          return res.status(400).json({ error: 'One of sop_id, yaml or definition is required' });
+        }
+        sop = sopResolver.getSOPById(sop_id);
+        if (!sop) {
+          return res.status(404).json({ error: 'SOP not found' });
+        }
+      }
+
+      try {
+        if (typeof yaml === 'string') {
+          sop = parse(yaml);
+        }
+        assertValidSOP(sop, 'request');
+      } catch (error) {
+        return res.status(400).json({
+          error: 'Invalid SOP definition',
+          details: error instanceof Error ? error.message : String(error),
+        });
+      }
+
+      const report = await sopSimulator.simulate(sop, {
+        from: fromDate,
+        to: toDate,
+        max_events,
+        assume_human_approval: assume_human_approval !== false,
+      });
+
+      return res.json(report);
+    } catch (error) {
+      logger.error('Failed to simulate SOP', { error });
+      return res.status(500).json({
+        error: 'Failed to simulate SOP',
+        details: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
   /**
    * GET /api/sop/executions
    * Get recent SOP executions
@@ -62,7 +354,7 @@ export function setupSOPAPI(app: Application): void {
     try {
       const supabase = getSupabaseAdminClient();
       const sopId = req.query.sop_id as string;
-      const status = req.query.status as string;
+      const status = req.query.status as SOPExecutionStatus | undefined;
       const limit = parseInt(req.query.limit as string) || 100;
 
       let query = supabase
@@ -104,16 +396,16 @@ export function setupSOPAPI(app: Application): void {
    * GET /api/sop/proposals
    * Get pending SOP version proposals (from SOP Evolution Engine)
    */
-  app.get('/api/sop/proposals', async (req: Request, res: Response) => {
+  app.get('/api/sop/proposals', async (_req: Request, res: Response) => {
     try {
-      // TODO: This would come from SOP Evolution Engine state
-      // For now, return empty array (no proposals)
+      const proposals = sopEvolution.getPendingProposals();
+
       res.json({
-        count: 0,
-        proposals: [],
+        count: proposals.length,
+        proposals,
       });
 
-      logger.info('SOP proposals retrieved');
+      logger.info('SOP proposals retrieved', { count: proposals.length });
     } catch (error) {
       logger.error('Failed to get SOP proposals', { error });
       res.status(500).json({
@@ -125,28 +417,41 @@ export function setupSOPAPI(app: Application): void {
 
   /**
    * POST /api/sop/proposals/:id/approve
-   * Approve a SOP version proposal
+   * Approve a SOP version proposal: it starts a rollout, or is activated directly
+   * when no rollout share is configured
    */
   app.post('/api/sop/proposals/:id/approve', async (req: Request, res: Response) => {
     try {
       const proposalId = req.params.id;
 
-      // TODO: Integrate with SOP Evolution Engine
-      // For now, return success
+      if (!sopEvolution.getPendingProposals().some((p) => p.proposal_id === proposalId)) {
+        return res.status(404).json({ error: 'Proposal not found or no longer pending' });
+      }
 
-      logger.info('SOP proposal approved', { proposal_id: proposalId });
+      const activation = await sopEvolution.approveProposal(
+        proposalId,
+        req.user?.email || req.user?.id
+      );
+      if (!activation.activated) {
+        return res.status(409).json({
+          error: 'Proposal could not be activated',
+          details: activation.reason,
+        });
+      }
 
-      res.json({
+      return res.json({
         success: true,
         proposal_id: proposalId,
         activated: true,
+        version: activation.rollout.proposal.proposed_version,
+        rollout_status: activation.rollout.status,
       });
     } catch (error) {
       logger.error('Failed to approve SOP proposal', {
         proposal_id: req.params.id,
         error,
       });
-      res.status(500).json({
+      return res.status(500).json({
         error: 'Failed to approve SOP proposal',
         details: error instanceof Error ? error.message : String(error),
       });
@@ -160,13 +465,17 @@ export function setupSOPAPI(app: Application): void {
   app.post('/api/sop/proposals/:id/reject', async (req: Request, res: Response) => {
     try {
       const proposalId = req.params.id;
-      const { reason } = req.body;
-
-      // TODO: Integrate with SOP Evolution Engine
+      const { reason } = req.body || {};
 
-      logger.info('SOP proposal rejected', { proposal_id: proposalId, reason });
+      const rejected = await sopEvolution.rejectProposal(proposalId, {
+        reason,
+        rejected_by: req.user?.email || req.user?.id,
+      });
+      if (!rejected) {
+        return res.status(404).json({ error: 'Proposal not found or no longer pending' });
+      }
 
-      res.json({
+      return res.json({
         success: true,
         proposal_id: proposalId,
         rejected: true,
@@ -176,7 +485,7 @@ export function setupSOPAPI(app: Application): void {
         proposal_id: req.params.id,
         error,
       });
-      res.status(500).json({
+      return res.status(500).json({
         error: 'Failed to reject SOP proposal',
         details: error instanceof Error ? error.message : String(error),
       });
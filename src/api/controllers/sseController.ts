@@ -151,9 +151,13 @@ export function setupSSEAPI(app: Application, eventBus: EventBus): void {
   });
 
   // Subscribe to EventBus and broadcast all events
-  eventBus.subscribe((event) => {
-    broadcastEvent(event);
-  });
+  eventBus.subscribe(
+    (event) => {
+      broadcastEvent(event);
+    },
+    undefined,
+    { name: 'SSE broadcast' }
+  );
 
   logger.info('SSE API endpoints registered');
 }
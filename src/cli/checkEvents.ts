@@ -0,0 +1,94 @@
+/**
+ * EVENT SCHEMA CHECK
+ *
+ * Scans the configured event store and reports stored events this build
+ * cannot read: schema versions with no upcaster path, upcasters that throw,
+ * and payloads that still fail the current schema after upcasting.
+ *
+ * Usage: npm run check:events
+ * Exits 1 if any event cannot be handled.
+ */
+
+import dotenv from 'dotenv';
+import { EventStore } from '../core/store/EventStore.js';
+import { checkUpcastable, storedSchemaVersion } from '../core/events/upcasting.js';
+import { currentSchemaVersion } from '../core/events/registry.js';
+import { loadEngineConfig } from '../config.js';
+
+dotenv.config();
+
+const PAGE_SIZE = 1000;
+
+interface Problem {
+  event_id: string;
+  event_type: string;
+  stored_version: number;
+  reason: string;
+}
+
+async function main(): Promise<number> {
+  const store = new EventStore(loadEngineConfig().eventStore);
+  await store.initialize();
+
+  // event_type -> stored version -> count
+  const versions = new Map<string, Map<number, number>>();
+  const problems: Problem[] = [];
+  let scanned = 0;
+
+  try {
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const events = await store.queryStored({ limit: PAGE_SIZE, offset });
+
+      for (const event of events) {
+        const version = storedSchemaVersion(event);
+        const counts = versions.get(event.event_type) || new Map<number, number>();
+        counts.set(version, (counts.get(version) || 0) + 1);
+        versions.set(event.event_type, counts);
+
+        const reason = checkUpcastable(event);
+        if (reason) {
+          problems.push({
+            event_id: event.event_id,
+            event_type: event.event_type,
+            stored_version: version,
+            reason,
+          });
+        }
+      }
+
+      scanned += events.length;
+      if (events.length < PAGE_SIZE) break;
+    }
+  } finally {
+    await store.close();
+  }
+
+  console.log(`Scanned ${scanned} events (${store.backend})\n`);
+
+  for (const [eventType, counts] of [...versions.entries()].sort()) {
+    const stored = [...counts.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([version, count]) => `v${version}: ${count}`)
+      .join(', ');
+    console.log(`  ${eventType} (current v${currentSchemaVersion(eventType)}) ${stored}`);
+  }
+
+  if (problems.length === 0) {
+    console.log('\nAll stored events upcast to a valid current payload.');
+    return 0;
+  }
+
+  console.log(`\n${problems.length} event(s) cannot be handled:`);
+  for (const problem of problems) {
+    console.log(`  ${problem.event_id} ${problem.event_type} v${problem.stored_version}: ${problem.reason}`);
+  }
+
+  return 1;
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    console.error('Event schema check failed:', error);
+    process.exit(2);
+  });
@@ -0,0 +1,49 @@
+/**
+ * SOP COMMANDS
+ *
+ * Usage: npm run sop -- <command> [args]
+ *
+ *   lint [directory]   Static checks over SOP YAML (see core/sop/linter.ts).
+ *                      Defaults to SOP_DIRECTORY. Exits 1 if any error is found.
+ */
+
+import dotenv from 'dotenv';
+import { formatLintIssue, lintSOPDirectory } from '../core/sop/linter.js';
+import { AGENT_MANDATES } from '../agents/mandates.js';
+import { loadEngineConfig } from '../config.js';
+
+dotenv.config();
+
+async function lint(directory: string): Promise<number> {
+  const report = await lintSOPDirectory(directory, { agents: AGENT_MANDATES });
+
+  for (const issue of report.issues) {
+    console.log(formatLintIssue(issue));
+  }
+
+  console.log(
+    `\n${report.files.length} file(s) checked: ${report.error_count} error(s), ${report.warning_count} warning(s)`
+  );
+
+  return report.error_count > 0 ? 1 : 0;
+}
+
+async function main(): Promise<number> {
+  const [command, ...args] = process.argv.slice(2);
+
+  switch (command) {
+    case 'lint':
+      return lint(args[0] || loadEngineConfig().sopDirectory);
+
+    default:
+      console.error(`Unknown command '${command ?? ''}'. Usage: npm run sop -- lint [directory]`);
+      return 2;
+  }
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    console.error('SOP command failed:', error);
+    process.exit(2);
+  });
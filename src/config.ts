@@ -0,0 +1,110 @@
+/**
+ * ENGINE CONFIGURATION
+ *
+ * Read from environment variables. Kept apart from the entry point so
+ * CLI tools can open the same event store without starting the engine.
+ */
+
+import { EventStoreConfig } from './core/store/EventStore.js';
+import type { SOPEvolutionEngineOptions } from './core/sop/SOPEvolutionEngine.js';
+import type { NotifierSettings } from './core/notifications/Notifier.js';
+import type { ApprovalManagerOptions } from './core/approvals/ApprovalManager.js';
+
+/**
+ * Engine configuration
+ */
+export interface AutonomicEngineConfig {
+  eventStore: EventStoreConfig;
+  sopDirectory: string;
+  /**
+   * Business calendar YAML (working hours, holidays, timezones); optional
+   */
+  businessCalendarFile?: string;
+  sopEvolution: SOPEvolutionEngineOptions;
+  notifications: NotifierSettings;
+  approvals: ApprovalManagerOptions;
+  oversight: {
+    /**
+     * Oversight policy YAML or JSON, watched for changes; optional
+     */
+    policyFile?: string;
+    /**
+     * Override the policy's parameters of the same name
+     */
+    parameters: Record<string, number>;
+  };
+}
+
+/**
+ * Build engine configuration from environment variables
+ *
+ * EVENT_STORE_BACKEND selects persistence: supabase (default), postgres, memory
+ * SOP_ROLLOUT_* configure how proposed SOP versions are trialled before promotion
+ * BUSINESS_CALENDAR_FILE and BUSINESS_TIMEZONE set the working hours SOP time restrictions use
+ * NOTIFICATIONS_FILE, SMTP_* and NOTIFICATION_* configure escalation delivery
+ * APPROVALS_FILE sets approver roles, out-of-office delegations and the expiry outcome
+ * OVERSIGHT_POLICY_FILE replaces the built-in oversight policy; FINANCIAL_LIMIT and
+ * CONFIDENCE_THRESHOLD override its parameters
+ */
+export function loadEngineConfig(): AutonomicEngineConfig {
+  const backend = process.env.EVENT_STORE_BACKEND || 'supabase';
+
+  let eventStore: EventStoreConfig;
+  switch (backend) {
+    case 'postgres':
+      eventStore = {
+        backend: 'postgres',
+        connectionString: process.env.DATABASE_URL || 'postgres://localhost:5432/bigbox',
+        ssl: process.env.DATABASE_SSL === 'true',
+      };
+      break;
+    case 'memory':
+      eventStore = { backend: 'memory' };
+      break;
+    default:
+      eventStore = {
+        backend: 'supabase',
+        supabaseUrl: process.env.SUPABASE_URL || '',
+        supabaseKey: process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+      };
+  }
+
+  return {
+    eventStore,
+    sopDirectory: process.env.SOP_DIRECTORY || './sops',
+    businessCalendarFile: process.env.BUSINESS_CALENDAR_FILE || undefined,
+    sopEvolution: {
+      rollout_share: parseFloat(process.env.SOP_ROLLOUT_SHARE || '0.2'),
+      min_executions_per_version: parseInt(process.env.SOP_ROLLOUT_MIN_EXECUTIONS || '30'),
+      significance: parseFloat(process.env.SOP_ROLLOUT_SIGNIFICANCE || '0.05'),
+    },
+    notifications: {
+      configFile: process.env.NOTIFICATIONS_FILE || undefined,
+      smtp: process.env.SMTP_HOST
+        ? {
+            host: process.env.SMTP_HOST,
+            port: parseInt(process.env.SMTP_PORT || '1025'),
+            from: process.env.SMTP_FROM || 'engine@bigbox.local',
+          }
+        : undefined,
+      retry: {
+        maxAttempts: parseInt(process.env.NOTIFICATION_MAX_ATTEMPTS || '3'),
+        backoffMs: parseInt(process.env.NOTIFICATION_BACKOFF_MS || '30000'),
+      },
+    },
+    approvals: {
+      configFile: process.env.APPROVALS_FILE || undefined,
+    },
+    oversight: {
+      policyFile: process.env.OVERSIGHT_POLICY_FILE || undefined,
+      parameters: {
+        ...(process.env.FINANCIAL_LIMIT && {
+          financial_limit: parseInt(process.env.FINANCIAL_LIMIT),
+        }),
+        ...(process.env.CONFIDENCE_THRESHOLD && {
+          confidence_threshold: parseFloat(process.env.CONFIDENCE_THRESHOLD),
+        }),
+      },
+    },
+  };
+}
@@ -9,8 +9,21 @@
  * 5. State is derived from events
  */
 
-import { EventBus } from '../bus/EventBus.js';
-import { EventEnvelope, EventType, EventEmitter, createEvent } from '../events/types.js';
+import { AsyncLocalStorage } from 'async_hooks';
+import { EventBus, isEventRejected } from '../bus/EventBus.js';
+import {
+  EventEnvelope,
+  EventType,
+  EventEmitter,
+  HumanApprovalResolvedPayload,
+  createEvent,
+} from '../events/types.js';
+import { EventPayload } from '../events/registry.js';
+import {
+  ConflictRetryPolicy,
+  DEFAULT_CONFLICT_RETRY_POLICY,
+  retryOnConflict,
+} from '../store/concurrency.js';
 import { Logger } from '../../utils/logger.js';
 
 export interface AgentMandate {
@@ -21,6 +34,39 @@ export interface AgentMandate {
   confidenceThreshold: number;
 }
 
+/**
+ * Event types any agent may emit regardless of its mandate
+ * (requestHumanApproval is open to every agent)
+ */
+export const UNRESTRICTED_EVENT_TYPES: EventType[] = ['RISK_DETECTED', 'HUMAN_APPROVAL_REQUESTED'];
+
+export interface EmitOptions {
+  /**
+   * Only emit if the entity stream is still at this version
+   */
+  expectedVersion?: number;
+  /**
+   * Triggering event; defaults to the event currently being processed
+   */
+  causedBy?: EventEnvelope;
+}
+
+/**
+ * The event being processed in the current async call chain,
+ * so emitted events are linked to their cause without threading it through
+ */
+const processingContext = new AsyncLocalStorage<EventEnvelope>();
+
+/**
+ * Event an agent decided to emit onto an entity stream
+ */
+export interface StreamDecision<T extends EventType = EventType> {
+  eventType: T;
+  payload: EventPayload<T>;
+  confidence?: number;
+  requiresHuman?: boolean;
+}
+
 export abstract class AutonomicAgent {
   protected mandate: AgentMandate;
   protected eventBus: EventBus;
@@ -46,9 +92,29 @@ export abstract class AutonomicAgent {
     });
 
     // Subscribe to all relevant event types
+    // Failed events are retried by the bus, then dead-lettered
     this.subscriptionIds = this.eventBus.subscribeToTypes(
       this.mandate.subscribesTo,
-      this.handleEvent.bind(this)
+      this.handleEvent.bind(this),
+      {
+        name: this.mandate.name,
+        onDeadLetter: this.handleDeadLetter.bind(this),
+      }
+    );
+
+    // Decisions on this agent's own approval requests
+    this.subscriptionIds.push(
+      this.eventBus.subscribe(
+        this.handleApprovalResolution.bind(this),
+        (event) =>
+          event.event_type === 'HUMAN_APPROVAL_RESOLVED' &&
+          event.payload.requested_by === this.mandate.name,
+        {
+          name: `${this.mandate.name} approvals`,
+          filterDescription: 'HUMAN_APPROVAL_RESOLVED of its own requests',
+          onDeadLetter: this.handleDeadLetter.bind(this),
+        }
+      )
     );
 
     this.isActive = true;
@@ -89,57 +155,100 @@ export abstract class AutonomicAgent {
 
     try {
       // Let the concrete agent process the event
-      await this.processEvent(event);
+      await processingContext.run(event, () => this.processEvent(event));
     } catch (error) {
       this.logger.error('Error processing event', {
         event_id: event.event_id,
         error,
       });
 
-      // Emit error event
-      await this.emitEvent(
-        'RISK_DETECTED' as EventType,
-        'SYSTEM',
-        'system',
-        {
-          risk_type: 'system',
-          severity: 'high',
-          description: `Agent ${this.mandate.name} failed to process event ${event.event_id}`,
-          affected_entity_type: event.entity_type,
-          affected_entity_id: event.entity_id,
-          mitigation_suggestions: ['Review agent logs', 'Check event payload structure'],
-          original_error: String(error),
-        },
-        0.9,
-        true
-      );
+      // Rethrow so the bus can retry and, if needed, dead-letter the event
+      throw error;
     }
   }
 
+  /**
+   * Hand a human decision on one of this agent's requests to the concrete agent
+   */
+  private async handleApprovalResolution(event: EventEnvelope): Promise<void> {
+    if (!this.isActive) {
+      return;
+    }
+
+    const resolution = event.payload as unknown as HumanApprovalResolvedPayload;
+
+    this.logger.info('Approval request resolved', {
+      approval_id: resolution.original_event_id,
+      request_type: resolution.request_type,
+      decision: resolution.decision,
+      decided_by: resolution.decided_by,
+    });
+
+    await processingContext.run(event, () => this.onApprovalResolved(resolution));
+  }
+
+  /**
+   * Raise a risk once the bus has given up on an event
+   */
+  private async handleDeadLetter(event: EventEnvelope, error: unknown): Promise<void> {
+    await this.emitEvent(
+      'RISK_DETECTED',
+      'SYSTEM',
+      'system',
+      {
+        risk_type: 'system',
+        severity: 'high',
+        description: `Agent ${this.mandate.name} failed to process event ${event.event_id}`,
+        affected_entity_type: event.entity_type,
+        affected_entity_id: event.entity_id,
+        mitigation_suggestions: [
+          'Review agent logs',
+          'Check event payload structure',
+          'Replay the event from the dead letter queue once fixed',
+        ],
+        original_error: String(error),
+      },
+      0.9,
+      true,
+      { causedBy: event }
+    );
+  }
+
   /**
    * Abstract method - must be implemented by concrete agents
    */
   protected abstract processEvent(event: EventEnvelope): Promise<void>;
 
+  /**
+   * Carry on after a human decided on one of this agent's approval requests
+   * The request's context comes back with the decision; amended_decision
+   * holds whatever the human changed. Agents that wait on approvals override this.
+   */
+  protected async onApprovalResolved(_resolution: HumanApprovalResolvedPayload): Promise<void> {}
+
   /**
    * Emit an event to the bus
    * This is the ONLY way agents create new events
+   *
+   * Returns the event id, or undefined when the event was not emitted
+   * (unauthorized type, or rejected by an event guard).
    */
-  protected async emitEvent(
-    eventType: EventType,
+  protected async emitEvent<T extends EventType>(
+    eventType: T,
     entityType: string,
     entityId: string,
-    payload: Record<string, unknown>,
+    payload: EventPayload<T>,
     confidence: number = 1.0,
-    requiresHuman: boolean = false
-  ): Promise<void> {
+    requiresHuman: boolean = false,
+    options: EmitOptions = {}
+  ): Promise<string | undefined> {
     // Check if this agent is authorized to emit this event type
-    if (!this.mandate.emits.includes(eventType) && eventType !== 'RISK_DETECTED') {
+    if (!this.mandate.emits.includes(eventType) && !UNRESTRICTED_EVENT_TYPES.includes(eventType)) {
       this.logger.warn('Attempted to emit unauthorized event type', {
         event_type: eventType,
         authorized_types: this.mandate.emits,
       });
-      return;
+      return undefined;
     }
 
     // Check confidence threshold
@@ -159,21 +268,84 @@ export abstract class AutonomicAgent {
       payload,
       this.getAgentEmitter(),
       confidence,
-      requiresHuman
+      requiresHuman,
+      options.causedBy || processingContext.getStore()
     );
 
-    await this.eventBus.publish(event);
+    try {
+      await this.eventBus.publish(event, { expectedVersion: options.expectedVersion });
+    } catch (error) {
+      // A vetoed decision is final; retrying the triggering event would be vetoed again
+      if (isEventRejected(error)) {
+        this.logger.warn('Emitted event rejected by guard', {
+          event_id: event.event_id,
+          event_type: eventType,
+          guard: error.guard,
+          reason: error.reason,
+        });
+        return undefined;
+      }
+      throw error;
+    }
 
     this.logger.info('Event emitted', {
       event_id: event.event_id,
+      causation_id: event.metadata?.causation_id,
       event_type: eventType,
       confidence,
       requires_human: requiresHuman,
     });
+
+    return event.event_id;
+  }
+
+  /**
+   * Emit onto an entity stream with optimistic concurrency
+   *
+   * decide() is called with the current stream version and must re-read
+   * whatever state it depends on. If another writer appends to the stream
+   * first, decide() runs again against the new version. Return null to
+   * emit nothing (e.g. the other writer already did the work).
+   *
+   * Resolves to whether an event was emitted; false when decide() returned
+   * null or the emit failed or was rejected by a guard.
+   */
+  protected async emitWithConcurrencyRetry<T extends EventType>(
+    entityType: string,
+    entityId: string,
+    decide: (version: number) => StreamDecision<T> | null | Promise<StreamDecision<T> | null>,
+    policy: ConflictRetryPolicy = DEFAULT_CONFLICT_RETRY_POLICY
+  ): Promise<boolean> {
+    return retryOnConflict(async (attempt) => {
+      const version = await this.eventBus.getStreamVersion(entityType, entityId);
+      const decision = await decide(version);
+
+      if (!decision) {
+        this.logger.debug('Nothing to emit after re-reading stream', {
+          entity_type: entityType,
+          entity_id: entityId,
+          version,
+          attempt,
+        });
+        return false;
+      }
+
+      const eventId = await this.emitEvent(
+        decision.eventType,
+        entityType,
+        entityId,
+        decision.payload,
+        decision.confidence,
+        decision.requiresHuman,
+        { expectedVersion: version }
+      );
+      return eventId !== undefined;
+    }, policy);
   }
 
   /**
    * Request human approval
+   * Returns the id of the HUMAN_APPROVAL_REQUESTED event.
    */
   protected async requestHumanApproval(
     requestType: string,
@@ -181,9 +353,9 @@ export abstract class AutonomicAgent {
     context: Record<string, unknown>,
     suggestedAction?: string,
     urgency: 'low' | 'medium' | 'high' = 'medium'
-  ): Promise<void> {
-    await this.emitEvent(
-      'HUMAN_APPROVAL_REQUESTED' as EventType,
+  ): Promise<string | undefined> {
+    return this.emitEvent(
+      'HUMAN_APPROVAL_REQUESTED',
       'SYSTEM',
       'system',
       {
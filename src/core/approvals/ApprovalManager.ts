@@ -0,0 +1,536 @@
+/**
+ * APPROVAL MANAGER
+ *
+ * Records human votes and decisions on HUMAN_APPROVAL_REQUESTED events.
+ *
+ * Every vote is published as HUMAN_APPROVAL_VOTED and the decision as
+ * HUMAN_APPROVAL_RESOLVED, never written to a table: the requesting agent, a
+ * waiting SOP step and the oversight agent's held events all continue from
+ * the resolution, and the approval queue (HumanApprovalView) is a projection
+ * of requests, votes and resolutions.
+ *
+ * - A request needs `required_approvals` distinct approvers (default 1),
+ *   each holding one of `approver_roles` when the request names any; a single
+ *   rejection settles it
+ * - An approver's roles are those they signed in with plus those the
+ *   approvals file (APPROVALS_FILE) gives them
+ * - While a delegation from the approvals file is active, the delegate votes
+ *   on the approver's behalf, with the approver's roles
+ * - A request still open at its expires_at is decided by its `on_expiry`,
+ *   else the approvals file's default outcome (rejected unless configured)
+ *
+ * Votes and the resolution of an approval go on its own stream (SYSTEM /
+ * approval id), each appended at the stream version it was counted against,
+ * so concurrent votes are counted one after the other and only one
+ * resolution is recorded.
+ */
+
+import { readFile } from 'fs/promises';
+import { parse } from 'yaml';
+import { EventBus } from '../bus/EventBus.js';
+import {
+  EntityType,
+  EventEmitter,
+  EventEnvelope,
+  HumanApprovalRequestedPayload,
+  HumanApprovalResolvedPayload,
+  HumanApprovalVotedPayload,
+  createEvent,
+} from '../events/types.js';
+import { EventStore } from '../store/EventStore.js';
+import { isConcurrencyConflict } from '../store/concurrency.js';
+import { Logger } from '../../utils/logger.js';
+import { ApprovalConfig, ApprovalConfigSchema } from './types.js';
+
+/**
+ * Attempts at counting a vote or recording a resolution against concurrent votes
+ */
+const MAX_ATTEMPTS = 5;
+
+/**
+ * setTimeout's limit; later expiries are re-armed when it fires
+ */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+/**
+ * decided_by of resolutions made by expiry
+ */
+export const APPROVAL_EXPIRY = 'expiry';
+
+export interface ApprovalManagerOptions {
+  /**
+   * Approvals file (approvers, delegations, expiry); optional
+   */
+  configFile?: string;
+}
+
+export interface ApprovalDecision {
+  decision: HumanApprovalResolvedPayload['decision'];
+  /** Who is voting */
+  decided_by: string;
+  /** Roles the voter signed in with */
+  roles?: string[];
+  /** Approver the voter stands in for; needs an active delegation */
+  on_behalf_of?: string;
+  notes?: string;
+  amended_decision?: Record<string, unknown>;
+}
+
+/**
+ * A counted vote, and the resolution when the vote decided the request
+ */
+export interface ApprovalVoteResult {
+  vote: EventEnvelope;
+  resolution?: EventEnvelope;
+}
+
+export type ApprovalResolutionErrorReason =
+  | 'not_found'
+  | 'already_resolved'
+  | 'already_voted'
+  | 'not_eligible';
+
+/**
+ * Thrown by vote() when a vote cannot be counted
+ */
+export class ApprovalResolutionError extends Error {
+  readonly approvalId: string;
+  readonly reason: ApprovalResolutionErrorReason;
+
+  constructor(approvalId: string, reason: ApprovalResolutionErrorReason, message?: string) {
+    super(
+      message ||
+        (reason === 'not_found'
+          ? `Approval request ${approvalId} not found`
+          : `Approval request ${approvalId} is already resolved`)
+    );
+    this.name = 'ApprovalResolutionError';
+    this.approvalId = approvalId;
+    this.reason = reason;
+  }
+}
+
+export function isApprovalResolutionError(error: unknown): error is ApprovalResolutionError {
+  return error instanceof ApprovalResolutionError;
+}
+
+/**
+ * Votes and resolution on an approval's stream
+ */
+interface ApprovalTally {
+  /** Stream version the tally was read at */
+  version: number;
+  votes: HumanApprovalVotedPayload[];
+  resolution?: EventEnvelope;
+}
+
+export class ApprovalManager {
+  private eventBus: EventBus;
+  private eventStore: EventStore;
+  private configFile?: string;
+  private config: ApprovalConfig;
+  private timers: Map<string, NodeJS.Timeout>;
+  private subscriptionIds: string[];
+  private logger: Logger;
+
+  constructor(eventBus: EventBus, eventStore: EventStore, options: ApprovalManagerOptions = {}) {
+    this.eventBus = eventBus;
+    this.eventStore = eventStore;
+    this.configFile = options.configFile;
+    this.config = ApprovalConfigSchema.parse({});
+    this.timers = new Map();
+    this.subscriptionIds = [];
+    this.logger = new Logger('ApprovalManager');
+  }
+
+  /**
+   * Load the approvals file and arm the expiry of open requests
+   */
+  async initialize(): Promise<void> {
+    if (this.configFile) {
+      try {
+        this.configure(parse(await readFile(this.configFile, 'utf-8')) ?? {});
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+        this.logger.warn('Approvals file not found - no approver roles or delegations', {
+          filepath: this.configFile,
+        });
+      }
+    }
+
+    this.subscriptionIds = [
+      this.eventBus.subscribeToType('HUMAN_APPROVAL_REQUESTED', (event) => this.armExpiry(event), {
+        name: 'ApprovalManager',
+      }),
+      this.eventBus.subscribeToType(
+        'HUMAN_APPROVAL_RESOLVED',
+        (event) => this.clearExpiry(event.payload.original_event_id),
+        { name: 'ApprovalManager' }
+      ),
+    ];
+
+    // Requests raised before a restart; without the store only new ones expire
+    let events: EventEnvelope[] = [];
+    try {
+      events = await this.eventStore.query({
+        eventTypes: ['HUMAN_APPROVAL_REQUESTED', 'HUMAN_APPROVAL_RESOLVED'],
+      });
+    } catch (error) {
+      this.logger.warn('Could not load open approval requests - their expiry is not armed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    const resolved = new Set(
+      events
+        .filter((e) => e.event_type === 'HUMAN_APPROVAL_RESOLVED')
+        .map((e) => e.payload.original_event_id as string)
+    );
+    for (const event of events) {
+      if (event.event_type === 'HUMAN_APPROVAL_REQUESTED' && !resolved.has(event.event_id)) {
+        this.armExpiry(event);
+      }
+    }
+
+    this.logger.info('Approval manager initialized', {
+      approvers: Object.keys(this.config.approvers).length,
+      delegations: this.config.delegations.length,
+      expiring: this.timers.size,
+      default_expiry_outcome: this.config.expiry.default_outcome,
+    });
+  }
+
+  /**
+   * Replace approvers, delegations and expiry settings (throws on an invalid configuration)
+   */
+  configure(config: unknown): void {
+    const result = ApprovalConfigSchema.safeParse(config);
+    if (!result.success) {
+      const details = result.error.issues
+        .map((i) => `${i.path.join('.')}: ${i.message}`)
+        .join('; ');
+      throw new Error(`Invalid approvals configuration: ${details}`);
+    }
+    this.config = result.data;
+  }
+
+  async shutdown(): Promise<void> {
+    for (const id of this.subscriptionIds) {
+      this.eventBus.unsubscribe(id);
+    }
+    this.subscriptionIds = [];
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  /**
+   * Who stands in for an approver at a time, if anyone
+   */
+  delegateFor(approver: string, at: Date = new Date()): string | undefined {
+    const time = at.getTime();
+    return this.config.delegations.find(
+      (d) =>
+        d.approver === approver &&
+        (!d.from || Date.parse(d.from) <= time) &&
+        (!d.until || time < Date.parse(d.until))
+    )?.delegate;
+  }
+
+  /**
+   * Roles an approver votes with: those signed in with plus the approvals file's
+   */
+  rolesOf(approver: string, signedIn: string[] = []): string[] {
+    return Array.from(new Set([...signedIn, ...(this.config.approvers[approver]?.roles || [])]));
+  }
+
+  /**
+   * Count a vote on an approval request
+   * Publishes HUMAN_APPROVAL_VOTED, and HUMAN_APPROVAL_RESOLVED once the vote
+   * decides the request.
+   */
+  async vote(approvalId: string, decision: ApprovalDecision): Promise<ApprovalVoteResult> {
+    const request = await this.eventStore.getEvent(approvalId);
+    if (!request || request.event_type !== 'HUMAN_APPROVAL_REQUESTED') {
+      throw new ApprovalResolutionError(approvalId, 'not_found');
+    }
+
+    const requested = request.payload as unknown as HumanApprovalRequestedPayload;
+    const approver = decision.on_behalf_of || decision.decided_by;
+
+    if (decision.on_behalf_of && this.delegateFor(decision.on_behalf_of) !== decision.decided_by) {
+      throw new ApprovalResolutionError(
+        approvalId,
+        'not_eligible',
+        `${decision.decided_by} is not standing in for ${decision.on_behalf_of}`
+      );
+    }
+
+    // A delegate votes with the roles of the approver they stand in for
+    const roles = this.rolesOf(approver, decision.on_behalf_of ? [] : decision.roles);
+    const requiredRoles = requested.approver_roles || [];
+    if (requiredRoles.length > 0 && !requiredRoles.some((role) => roles.includes(role))) {
+      throw new ApprovalResolutionError(
+        approvalId,
+        'not_eligible',
+        `Approval request ${approvalId} needs an approver with one of the roles: ${requiredRoles.join(', ')}`
+      );
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      const tally = await this.tally(approvalId);
+      if (tally.resolution) {
+        throw new ApprovalResolutionError(approvalId, 'already_resolved');
+      }
+      if (tally.votes.some((v) => voterOf(v) === approver)) {
+        throw new ApprovalResolutionError(
+          approvalId,
+          'already_voted',
+          `${approver} has already voted on approval request ${approvalId}`
+        );
+      }
+      // One vote per person, whoever they vote for: a delegate cannot count twice
+      if (tally.votes.some((v) => v.voter === decision.decided_by)) {
+        throw new ApprovalResolutionError(
+          approvalId,
+          'already_voted',
+          `${decision.decided_by} has already voted on approval request ${approvalId}`
+        );
+      }
+
+      const payload: HumanApprovalVotedPayload = {
+        original_event_id: approvalId,
+        vote: decision.decision,
+        voter: decision.decided_by,
+        on_behalf_of: decision.on_behalf_of,
+        roles,
+        notes: decision.notes,
+        amended_decision: decision.amended_decision,
+        approvals: approvalsIn(tally.votes).length + (decision.decision === 'approved' ? 1 : 0),
+        required_approvals: requested.required_approvals || 1,
+      };
+
+      const vote = createEvent(
+        'HUMAN_APPROVAL_VOTED',
+        EntityType.SYSTEM,
+        approvalId,
+        payload as unknown as Record<string, unknown>,
+        EventEmitter.HUMAN_USER,
+        1.0,
+        false,
+        request
+      );
+
+      try {
+        await this.eventBus.publish(vote, { expectedVersion: tally.version });
+      } catch (error) {
+        // Another vote was counted first; count this one after it
+        if (isConcurrencyConflict(error) && attempt < MAX_ATTEMPTS) {
+          continue;
+        }
+        throw error;
+      }
+
+      this.logger.info('Approval vote counted', {
+        approval_id: approvalId,
+        vote: decision.decision,
+        voter: decision.decided_by,
+        on_behalf_of: decision.on_behalf_of,
+        approvals: payload.approvals,
+        required_approvals: payload.required_approvals,
+      });
+
+      return { vote, resolution: await this.settle(request) };
+    }
+  }
+
+  /**
+   * Record the resolution a request's votes (or its expiry) call for
+   * Returns the request's resolution, undefined while it is still open.
+   */
+  private async settle(
+    request: EventEnvelope,
+    expired = false
+  ): Promise<EventEnvelope | undefined> {
+    const requested = request.payload as unknown as HumanApprovalRequestedPayload;
+
+    for (let attempt = 1; ; attempt++) {
+      const tally = await this.tally(request.event_id);
+      if (tally.resolution) {
+        return tally.resolution;
+      }
+
+      const outcome = this.outcome(requested, tally.votes, expired);
+      if (!outcome) {
+        return undefined;
+      }
+
+      const payload: HumanApprovalResolvedPayload = {
+        original_event_id: request.event_id,
+        request_type: requested.request_type,
+        requested_by: requested.requested_by,
+        context: requested.context,
+        ...outcome,
+        approvers: approvalsIn(tally.votes).map(voterOf),
+      };
+
+      const resolution = createEvent(
+        'HUMAN_APPROVAL_RESOLVED',
+        EntityType.SYSTEM,
+        request.event_id,
+        payload as unknown as Record<string, unknown>,
+        outcome.expired ? EventEmitter.SYSTEM : EventEmitter.HUMAN_USER,
+        1.0,
+        false,
+        request
+      );
+
+      try {
+        await this.eventBus.publish(resolution, { expectedVersion: tally.version });
+      } catch (error) {
+        // A vote or resolution landed in between; settle on the stream as it is now
+        if (isConcurrencyConflict(error) && attempt < MAX_ATTEMPTS) {
+          continue;
+        }
+        throw error;
+      }
+
+      this.logger.info('Approval resolved', {
+        approval_id: request.event_id,
+        request_type: requested.request_type,
+        requested_by: requested.requested_by,
+        decision: payload.decision,
+        decided_by: payload.decided_by,
+        expired: payload.expired,
+        amended: payload.amended_decision !== undefined,
+      });
+
+      return resolution;
+    }
+  }
+
+  /**
+   * The decision votes reach: a rejection, enough approvals, or the expiry outcome
+   */
+  private outcome(
+    requested: HumanApprovalRequestedPayload,
+    votes: HumanApprovalVotedPayload[],
+    expired: boolean
+  ):
+    | Pick<
+        HumanApprovalResolvedPayload,
+        'decision' | 'decided_by' | 'notes' | 'amended_decision' | 'expired'
+      >
+    | undefined {
+    const rejection = votes.find((v) => v.vote === 'rejected');
+    if (rejection) {
+      return {
+        decision: 'rejected',
+        decided_by: voterOf(rejection),
+        notes: rejection.notes,
+        amended_decision: rejection.amended_decision,
+      };
+    }
+
+    const approvals = approvalsIn(votes);
+    if (approvals.length >= (requested.required_approvals || 1)) {
+      // Later approvers' amendments apply on top of earlier ones
+      const amended = approvals.filter((v) => v.amended_decision);
+      return {
+        decision: 'approved',
+        decided_by: approvals.map(voterOf).join(', '),
+        notes: approvals[approvals.length - 1].notes,
+        amended_decision:
+          amended.length > 0
+            ? Object.assign({}, ...amended.map((v) => v.amended_decision))
+            : undefined,
+      };
+    }
+
+    if (expired) {
+      return {
+        decision: requested.on_expiry || this.config.expiry.default_outcome,
+        decided_by: APPROVAL_EXPIRY,
+        notes: `No decision by ${requested.expires_at} (${approvals.length} of ${requested.required_approvals || 1} approvals)`,
+        expired: true,
+      };
+    }
+
+    return undefined;
+  }
+
+  private async tally(approvalId: string): Promise<ApprovalTally> {
+    const stream = await this.eventStore.getEntityHistory(EntityType.SYSTEM, approvalId);
+
+    return {
+      version: stream.length,
+      votes: stream
+        .filter((e) => e.event_type === 'HUMAN_APPROVAL_VOTED')
+        .map((e) => e.payload as unknown as HumanApprovalVotedPayload),
+      resolution: stream.find((e) => e.event_type === 'HUMAN_APPROVAL_RESOLVED'),
+    };
+  }
+
+  /**
+   * Decide a request by expiry once its expires_at passes
+   */
+  private armExpiry(request: EventEnvelope): void {
+    const expiresAt = (request.payload as unknown as HumanApprovalRequestedPayload).expires_at;
+    if (!expiresAt || isNaN(Date.parse(expiresAt))) {
+      return;
+    }
+
+    const delay = Math.max(0, Date.parse(expiresAt) - Date.now());
+    this.clearExpiry(request.event_id);
+    this.timers.set(
+      request.event_id,
+      setTimeout(
+        () => {
+          this.timers.delete(request.event_id);
+          if (delay > MAX_TIMER_MS) {
+            this.armExpiry(request);
+            return;
+          }
+
+          this.settle(request, true)
+            .then((resolution) => {
+              if (resolution?.payload.expired) {
+                this.logger.warn('Approval request expired', {
+                  approval_id: request.event_id,
+                  decision: resolution.payload.decision,
+                });
+              }
+            })
+            .catch((error) => {
+              this.logger.error('Failed to expire approval request', {
+                approval_id: request.event_id,
+                error: error instanceof Error ? error.message : String(error),
+              });
+            });
+        },
+        Math.min(delay, MAX_TIMER_MS)
+      )
+    );
+  }
+
+  private clearExpiry(approvalId: string): void {
+    const timer = this.timers.get(approvalId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(approvalId);
+    }
+  }
+}
+
+/**
+ * Approver a vote counts for
+ */
+function voterOf(vote: HumanApprovalVotedPayload): string {
+  return vote.on_behalf_of || vote.voter;
+}
+
+function approvalsIn(votes: HumanApprovalVotedPayload[]): HumanApprovalVotedPayload[] {
+  return votes.filter((v) => v.vote === 'approved');
+}
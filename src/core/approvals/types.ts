@@ -0,0 +1,38 @@
+/**
+ * Approvals file types: approvers, delegations and expiry
+ */
+
+import { z } from 'zod';
+
+const instant = z.string().refine((value) => !isNaN(Date.parse(value)), 'Expected an ISO date');
+
+/**
+ * An approver away between `from` and `until` (ISO dates or date-times,
+ * `until` exclusive; open-ended when omitted) hands their votes and approval
+ * notifications to `delegate`
+ */
+export const ApprovalDelegationSchema = z.object({
+  approver: z.string().min(1),
+  delegate: z.string().min(1),
+  from: instant.optional(),
+  until: instant.optional(),
+  reason: z.string().optional(),
+});
+
+export type ApprovalDelegation = z.infer<typeof ApprovalDelegationSchema>;
+
+/**
+ * Approvals file (APPROVALS_FILE)
+ * approvers: person (email or recipient id) -> roles, added to the roles they sign in with
+ * delegations: out-of-office rules
+ * expiry.default_outcome: decision for expired requests that name no on_expiry
+ */
+export const ApprovalConfigSchema = z.object({
+  approvers: z.record(z.object({ roles: z.array(z.string()).default([]) })).default({}),
+  delegations: z.array(ApprovalDelegationSchema).default([]),
+  expiry: z
+    .object({ default_outcome: z.enum(['approved', 'rejected']).default('rejected') })
+    .default({}),
+});
+
+export type ApprovalConfig = z.infer<typeof ApprovalConfigSchema>;
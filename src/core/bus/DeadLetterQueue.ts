@@ -0,0 +1,251 @@
+/**
+ * DEAD LETTER QUEUE - Events a Subscriber Could Not Handle
+ *
+ * When a subscription exhausts its retry policy, the (event, subscription)
+ * pair lands here instead of being dropped. Dead letters can be inspected,
+ * replayed to the subscriber, or discarded by an operator.
+ *
+ * The queue is itself event-sourced: every change is recorded as a
+ * delivery event in the EventStore, and load() rebuilds the queue from them.
+ */
+
+import {
+  EventEnvelope,
+  EntityType,
+  EventEmitter,
+  DeliveryEventType,
+  EventDeadLetteredPayload,
+  DeadLetterReplayedPayload,
+  DeadLetterDiscardedPayload,
+  createEvent,
+} from '../events/types.js';
+import { EventStore } from '../store/EventStore.js';
+import { Logger } from '../../utils/logger.js';
+
+export type DeadLetterStatus = 'pending' | 'replayed' | 'discarded';
+
+export interface DeadLetter {
+  dead_letter_id: string;
+  event: EventEnvelope;
+  subscription_id: string;
+  subscriber: string;
+  attempts: number;
+  error: string;
+  failed_at: string;
+  status: DeadLetterStatus;
+  replay_attempts: number;
+  last_replay_error?: string;
+  resolved_at?: string;
+}
+
+export class DeadLetterQueue {
+  private letters: Map<string, DeadLetter>;
+  private store: EventStore | null;
+  private logger: Logger;
+
+  constructor() {
+    this.letters = new Map();
+    this.store = null;
+    this.logger = new Logger('DeadLetterQueue');
+  }
+
+  /**
+   * Persist dead letters to the event store
+   */
+  attachStore(store: EventStore): void {
+    this.store = store;
+  }
+
+  /**
+   * Rebuild the queue from the delivery events in the store
+   */
+  async load(): Promise<void> {
+    if (!this.store) {
+      return;
+    }
+
+    const events = await this.store.query({
+      eventTypes: [
+        DeliveryEventType.EVENT_DEAD_LETTERED,
+        DeliveryEventType.DEAD_LETTER_REPLAYED,
+        DeliveryEventType.DEAD_LETTER_DISCARDED,
+      ],
+    });
+
+    this.letters.clear();
+    for (const event of events) {
+      this.apply(event);
+    }
+
+    this.logger.info('Dead letter queue loaded', this.getStats());
+  }
+
+  /**
+   * Park an event a subscriber failed to handle
+   */
+  async add(
+    event: EventEnvelope,
+    subscription: { id: string; name: string },
+    error: unknown,
+    attempts: number
+  ): Promise<DeadLetter> {
+    const deadLetterId = crypto.randomUUID();
+
+    const payload: EventDeadLetteredPayload = {
+      dead_letter_id: deadLetterId,
+      event,
+      subscription_id: subscription.id,
+      subscriber: subscription.name,
+      attempts,
+      error: String(error),
+    };
+
+    await this.record(DeliveryEventType.EVENT_DEAD_LETTERED, deadLetterId, payload);
+
+    this.logger.warn('Event dead-lettered', {
+      dead_letter_id: deadLetterId,
+      event_id: event.event_id,
+      event_type: event.event_type,
+      subscriber: subscription.name,
+      attempts,
+    });
+
+    return this.letters.get(deadLetterId)!;
+  }
+
+  /**
+   * Record the outcome of a replay
+   */
+  async markReplayed(deadLetterId: string, succeeded: boolean, error?: unknown): Promise<void> {
+    const payload: DeadLetterReplayedPayload = {
+      dead_letter_id: deadLetterId,
+      succeeded,
+      error: error !== undefined ? String(error) : undefined,
+    };
+
+    await this.record(DeliveryEventType.DEAD_LETTER_REPLAYED, deadLetterId, payload);
+  }
+
+  /**
+   * Drop a dead letter without delivering it
+   */
+  async discard(deadLetterId: string, reason?: string, discardedBy?: string): Promise<void> {
+    const payload: DeadLetterDiscardedPayload = {
+      dead_letter_id: deadLetterId,
+      reason,
+      discarded_by: discardedBy,
+    };
+
+    await this.record(DeliveryEventType.DEAD_LETTER_DISCARDED, deadLetterId, payload);
+
+    this.logger.info('Dead letter discarded', { dead_letter_id: deadLetterId, reason });
+  }
+
+  /**
+   * List dead letters, newest first
+   */
+  list(status?: DeadLetterStatus): DeadLetter[] {
+    return Array.from(this.letters.values())
+      .filter((letter) => !status || letter.status === status)
+      .sort((a, b) => b.failed_at.localeCompare(a.failed_at));
+  }
+
+  /**
+   * Get a single dead letter
+   */
+  get(deadLetterId: string): DeadLetter | undefined {
+    return this.letters.get(deadLetterId);
+  }
+
+  /**
+   * Get statistics
+   */
+  getStats(): { total: number; pending: number; replayed: number; discarded: number } {
+    const stats = { total: this.letters.size, pending: 0, replayed: 0, discarded: 0 };
+
+    for (const letter of this.letters.values()) {
+      stats[letter.status]++;
+    }
+
+    return stats;
+  }
+
+  /**
+   * Apply a delivery event and append it to the store.
+   * A store outage must not lose the dead letter, so it stays in memory.
+   */
+  private async record(
+    eventType: DeliveryEventType,
+    deadLetterId: string,
+    payload: EventDeadLetteredPayload | DeadLetterReplayedPayload | DeadLetterDiscardedPayload
+  ): Promise<void> {
+    const event = createEvent(
+      eventType,
+      EntityType.SYSTEM,
+      deadLetterId,
+      payload as unknown as Record<string, unknown>,
+      EventEmitter.SYSTEM
+    );
+
+    this.apply(event);
+
+    if (!this.store) {
+      return;
+    }
+
+    try {
+      await this.store.append(event);
+    } catch (error) {
+      this.logger.error('Failed to persist dead letter change', {
+        dead_letter_id: deadLetterId,
+        event_type: eventType,
+        error,
+      });
+    }
+  }
+
+  private apply(event: EventEnvelope): void {
+    switch (event.event_type) {
+      case DeliveryEventType.EVENT_DEAD_LETTERED: {
+        const payload = event.payload as unknown as EventDeadLetteredPayload;
+        this.letters.set(payload.dead_letter_id, {
+          dead_letter_id: payload.dead_letter_id,
+          event: payload.event,
+          subscription_id: payload.subscription_id,
+          subscriber: payload.subscriber,
+          attempts: payload.attempts,
+          error: payload.error,
+          failed_at: event.created_at,
+          status: 'pending',
+          replay_attempts: 0,
+        });
+        break;
+      }
+
+      case DeliveryEventType.DEAD_LETTER_REPLAYED: {
+        const payload = event.payload as unknown as DeadLetterReplayedPayload;
+        const letter = this.letters.get(payload.dead_letter_id);
+        if (!letter) break;
+
+        letter.replay_attempts++;
+        if (payload.succeeded) {
+          letter.status = 'replayed';
+          letter.resolved_at = event.created_at;
+        } else {
+          letter.last_replay_error = payload.error;
+        }
+        break;
+      }
+
+      case DeliveryEventType.DEAD_LETTER_DISCARDED: {
+        const payload = event.payload as unknown as DeadLetterDiscardedPayload;
+        const letter = this.letters.get(payload.dead_letter_id);
+        if (!letter) break;
+
+        letter.status = 'discarded';
+        letter.resolved_at = event.created_at;
+        break;
+      }
+    }
+  }
+}
@@ -10,15 +10,139 @@
 
 import { EventEmitter } from 'events';
 import { EventEnvelope, EventType, isValidEvent } from '../events/types.js';
+import { TypedEventEnvelope, validateEventPayload } from '../events/registry.js';
+import { EventStore } from '../store/EventStore.js';
+import {
+  AppendOptions,
+  ConcurrencyConflictError,
+  isConcurrencyConflict,
+} from '../store/concurrency.js';
+import { DeadLetter, DeadLetterQueue } from './DeadLetterQueue.js';
+import { HeldEvent, HeldEventQueue } from './HeldEventQueue.js';
 import { Logger } from '../../utils/logger.js';
 
 export type EventHandler = (event: EventEnvelope) => Promise<void> | void;
 export type EventFilter = (event: EventEnvelope) => boolean;
 
+/**
+ * How often a failing handler is retried before the event is dead-lettered
+ */
+export interface RetryPolicy {
+  maxAttempts: number;
+  backoffMs: number;
+  backoffMultiplier: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  backoffMs: 200,
+  backoffMultiplier: 2,
+};
+
+export interface SubscriptionOptions {
+  /**
+   * Stable subscriber name (used to replay dead letters after a restart)
+   */
+  name?: string;
+  /**
+   * Human-readable description of the filter (for introspection)
+   */
+  filterDescription?: string;
+  retry?: Partial<RetryPolicy>;
+  /**
+   * Called once the event has been dead-lettered
+   */
+  onDeadLetter?: (event: EventEnvelope, error: unknown) => Promise<void> | void;
+}
+
 export interface EventSubscription {
   id: string;
+  name: string;
   handler: EventHandler;
   filter?: EventFilter;
+  filterDescription?: string;
+  eventType?: EventType;
+  retryPolicy: RetryPolicy;
+  onDeadLetter?: SubscriptionOptions['onDeadLetter'];
+  /**
+   * Emitter channel and the exact listener registered on it (needed to detach)
+   */
+  channel: string;
+  listener: (event: EventEnvelope) => void;
+  delivered: number;
+  failed: number;
+  lastDeliveredAt: string | null;
+}
+
+/**
+ * What a guard decides about an event before any subscriber sees it
+ * - allow: dispatch as usual (the next guard still gets a say)
+ * - reject: never persist or dispatch it; publish() throws EventRejectedError
+ * - hold: park it in the held event queue until it is released or discarded,
+ *   optionally tied to the approval request that will decide it
+ */
+export type GuardVerdict =
+  | { action: 'allow' }
+  | { action: 'reject'; reason: string }
+  | { action: 'hold'; reason: string; approval_event_id?: string };
+
+export type EventGuard = (event: EventEnvelope) => Promise<GuardVerdict> | GuardVerdict;
+
+export interface GuardOptions {
+  name: string;
+  /**
+   * Lower runs first (default 100)
+   */
+  priority?: number;
+  /**
+   * Called for an event the guard allowed that this publish then did not
+   * dispatch: a later guard rejected or held it, or dispatch threw
+   */
+  onNotDispatched?: (event: EventEnvelope) => void;
+}
+
+interface GuardRegistration {
+  id: string;
+  name: string;
+  priority: number;
+  guard: EventGuard;
+  onNotDispatched?: (event: EventEnvelope) => void;
+}
+
+/**
+ * Thrown by publish() when a guard rejects the event
+ */
+export class EventRejectedError extends Error {
+  readonly eventId: string;
+  readonly eventType: string;
+  readonly guard: string;
+  readonly reason: string;
+
+  constructor(event: EventEnvelope, guard: string, reason: string) {
+    super(`Event ${event.event_type} ${event.event_id} rejected by ${guard}: ${reason}`);
+    this.name = 'EventRejectedError';
+    this.eventId = event.event_id;
+    this.eventType = event.event_type;
+    this.guard = guard;
+    this.reason = reason;
+  }
+}
+
+export function isEventRejected(error: unknown): error is EventRejectedError {
+  return error instanceof EventRejectedError;
+}
+
+/**
+ * Snapshot of a live subscription, as reported by listSubscriptions()
+ */
+export interface SubscriptionInfo {
+  subscription_id: string;
+  owner: string;
+  event_types: string[];
+  filter: string | null;
+  delivered: number;
+  failed: number;
+  last_delivered_at: string | null;
 }
 
 export class EventBus {
@@ -26,6 +150,10 @@ export class EventBus {
   private subscriptions: Map<string, EventSubscription>;
   private eventHistory: EventEnvelope[];
   private maxHistorySize: number;
+  private store: EventStore | null;
+  private deadLetters: DeadLetterQueue;
+  private guards: GuardRegistration[];
+  private heldEvents: HeldEventQueue;
   private logger: Logger;
 
   constructor(maxHistorySize: number = 1000) {
@@ -34,20 +162,131 @@ export class EventBus {
     this.subscriptions = new Map();
     this.eventHistory = [];
     this.maxHistorySize = maxHistorySize;
+    this.store = null;
+    this.deadLetters = new DeadLetterQueue();
+    this.guards = [];
+    this.heldEvents = new HeldEventQueue();
     this.logger = new Logger('EventBus');
   }
 
+  /**
+   * Persist every published event to the store before it is dispatched
+   */
+  attachStore(store: EventStore): void {
+    this.store = store;
+    this.deadLetters.attachStore(store);
+    this.heldEvents.attachStore(store);
+    this.logger.info('Event store attached', { backend: store.backend });
+  }
+
   /**
    * Publish an event to the bus
    * This is the ONLY way events enter the system
+   *
+   * With options.expectedVersion the event is only dispatched if the store
+   * accepted it at that stream version; a ConcurrencyConflictError is
+   * rethrown to the publisher so it can re-read and decide again.
+   *
+   * Guards (addGuard) see the event first: a rejected event throws
+   * EventRejectedError, and a held one returns without being dispatched.
    */
-  async publish(event: EventEnvelope): Promise<void> {
+  async publish(event: EventEnvelope, options: AppendOptions = {}): Promise<void> {
     // Validate event structure
     if (!isValidEvent(event)) {
       this.logger.error('Invalid event rejected', { event });
       throw new Error('Event validation failed: Invalid event structure');
     }
 
+    // Validate payload against the registered schema for its type
+    const payloadError = validateEventPayload(event.event_type, event.payload);
+    if (payloadError) {
+      this.logger.error('Invalid event payload rejected', {
+        event_id: event.event_id,
+        event_type: event.event_type,
+        error: payloadError,
+      });
+      throw new Error(`Event validation failed: ${payloadError}`);
+    }
+
+    // Guards decide before anything is persisted or delivered
+    const allowedBy: GuardRegistration[] = [];
+    let dispatched = false;
+    try {
+      for (const registration of this.guards) {
+        const verdict = await this.runGuard(registration, event);
+
+        if (verdict.action === 'reject') {
+          this.logger.warn('Event rejected by guard', {
+            event_id: event.event_id,
+            event_type: event.event_type,
+            guard: registration.name,
+            reason: verdict.reason,
+          });
+          throw new EventRejectedError(event, registration.name, verdict.reason);
+        }
+
+        if (verdict.action === 'hold') {
+          await this.heldEvents.hold(
+            event,
+            registration.name,
+            verdict.reason,
+            verdict.approval_event_id
+          );
+          return;
+        }
+
+        allowedBy.push(registration);
+      }
+
+      await this.dispatch(event, options);
+      dispatched = true;
+    } finally {
+      if (!dispatched) {
+        for (const registration of allowedBy) {
+          registration.onNotDispatched?.(event);
+        }
+      }
+    }
+  }
+
+  /**
+   * Persist, record and deliver an event that passed validation and guards
+   */
+  private async dispatch(event: EventEnvelope, options: AppendOptions = {}): Promise<void> {
+    // Persist first so subscribers never react to a rejected write
+    if (this.store) {
+      try {
+        const position = await this.store.append(event, options);
+        // Subscribers (e.g. projection checkpoints) see where the event landed in the log
+        event.metadata = { ...event.metadata, version: event.metadata?.version || 1, position };
+      } catch (error) {
+        if (isConcurrencyConflict(error)) {
+          this.logger.warn('Event rejected by concurrency check', {
+            event_id: event.event_id,
+            event_type: event.event_type,
+            expected_version: error.expectedVersion,
+            actual_version: error.actualVersion,
+          });
+          throw error;
+        }
+
+        this.logger.error('Failed to persist event', {
+          event_id: event.event_id,
+          error,
+        });
+      }
+    } else if (options.expectedVersion !== undefined) {
+      const actualVersion = this.getEventsByEntity(event.entity_type, event.entity_id).length;
+      if (actualVersion !== options.expectedVersion) {
+        throw new ConcurrencyConflictError(
+          event.entity_type,
+          event.entity_id,
+          options.expectedVersion,
+          actualVersion
+        );
+      }
+    }
+
     // Log the event
     this.logger.info('Event published', {
       event_id: event.event_id,
@@ -69,81 +308,82 @@ export class EventBus {
   }
 
   /**
-   * Subscribe to all events
+   * Register a guard that sees every published event before its subscribers
+   * Guards run in priority order; the first that does not allow the event decides.
    */
-  subscribe(handler: EventHandler, filter?: EventFilter): string {
-    const subscriptionId = crypto.randomUUID();
-
-    const subscription: EventSubscription = {
-      id: subscriptionId,
-      handler,
-      filter,
+  addGuard(guard: EventGuard, options: GuardOptions): string {
+    const registration: GuardRegistration = {
+      id: crypto.randomUUID(),
+      name: options.name,
+      priority: options.priority ?? 100,
+      guard,
+      onNotDispatched: options.onNotDispatched,
     };
 
-    this.subscriptions.set(subscriptionId, subscription);
+    this.guards.push(registration);
+    this.guards.sort((a, b) => a.priority - b.priority);
 
-    const wrappedHandler = async (event: EventEnvelope) => {
-      if (!filter || filter(event)) {
-        try {
-          await handler(event);
-        } catch (error) {
-          this.logger.error('Event handler error', {
-            subscription_id: subscriptionId,
-            event_id: event.event_id,
-            error,
-          });
-        }
-      }
-    };
-
-    this.emitter.on('event', wrappedHandler);
+    this.logger.info('Event guard registered', {
+      guard_id: registration.id,
+      name: registration.name,
+      priority: registration.priority,
+    });
 
-    this.logger.debug('Subscription created', { subscription_id: subscriptionId });
+    return registration.id;
+  }
 
-    return subscriptionId;
+  removeGuard(guardId: string): void {
+    this.guards = this.guards.filter((registration) => registration.id !== guardId);
   }
 
   /**
-   * Subscribe to specific event type
+   * Subscribe to all events
    */
-  subscribeToType(eventType: EventType, handler: EventHandler): string {
-    const subscriptionId = crypto.randomUUID();
+  subscribe(handler: EventHandler, filter?: EventFilter, options: SubscriptionOptions = {}): string {
+    const subscription = this.createSubscription(handler, options, 'event', { filter });
 
-    const subscription: EventSubscription = {
-      id: subscriptionId,
-      handler,
-    };
-
-    this.subscriptions.set(subscriptionId, subscription);
+    this.logger.debug('Subscription created', {
+      subscription_id: subscription.id,
+      name: subscription.name,
+    });
 
-    const wrappedHandler = async (event: EventEnvelope) => {
-      try {
-        await handler(event);
-      } catch (error) {
-        this.logger.error('Event handler error', {
-          subscription_id: subscriptionId,
-          event_id: event.event_id,
-          event_type: eventType,
-          error,
-        });
-      }
-    };
+    return subscription.id;
+  }
 
-    this.emitter.on(`event:${eventType}`, wrappedHandler);
+  /**
+   * Subscribe to specific event type
+   */
+  subscribeToType<T extends EventType>(
+    eventType: T,
+    handler: (event: TypedEventEnvelope<T>) => Promise<void> | void,
+    options: SubscriptionOptions = {}
+  ): string {
+    // Payloads were validated against the registry on publish
+    const subscription = this.createSubscription(
+      handler as EventHandler,
+      options,
+      `event:${eventType}`,
+      { eventType }
+    );
 
     this.logger.debug('Type subscription created', {
-      subscription_id: subscriptionId,
+      subscription_id: subscription.id,
+      name: subscription.name,
       event_type: eventType,
     });
 
-    return subscriptionId;
+    return subscription.id;
   }
 
   /**
    * Subscribe to multiple event types
    */
-  subscribeToTypes(eventTypes: EventType[], handler: EventHandler): string[] {
-    return eventTypes.map((type) => this.subscribeToType(type, handler));
+  subscribeToTypes(
+    eventTypes: EventType[],
+    handler: EventHandler,
+    options: SubscriptionOptions = {}
+  ): string[] {
+    return eventTypes.map((type) => this.subscribeToType(type, handler, options));
   }
 
   /**
@@ -152,12 +392,27 @@ export class EventBus {
   unsubscribe(subscriptionId: string): void {
     const subscription = this.subscriptions.get(subscriptionId);
     if (subscription) {
-      this.emitter.removeAllListeners(`subscription:${subscriptionId}`);
+      this.emitter.off(subscription.channel, subscription.listener);
       this.subscriptions.delete(subscriptionId);
       this.logger.debug('Subscription removed', { subscription_id: subscriptionId });
     }
   }
 
+  /**
+   * Describe all live subscriptions (owner, event types, delivery counts)
+   */
+  listSubscriptions(): SubscriptionInfo[] {
+    return Array.from(this.subscriptions.values()).map((subscription) => ({
+      subscription_id: subscription.id,
+      owner: subscription.name,
+      event_types: subscription.eventType ? [subscription.eventType] : ['*'],
+      filter: subscription.filter ? subscription.filterDescription || 'custom filter' : null,
+      delivered: subscription.delivered,
+      failed: subscription.failed,
+      last_delivered_at: subscription.lastDeliveredAt,
+    }));
+  }
+
   /**
    * Get event history (for debugging and replay)
    */
@@ -177,6 +432,28 @@ export class EventBus {
     );
   }
 
+  /**
+   * Current version of an entity stream
+   * Falls back to the in-memory history when no store is attached
+   */
+  async getStreamVersion(entityType: string, entityId: string): Promise<number> {
+    if (this.store) {
+      return this.store.getStreamVersion(entityType, entityId);
+    }
+    return this.getEventsByEntity(entityType, entityId).length;
+  }
+
+  /**
+   * Full history of an entity stream, read from the store when one is attached
+   * Unlike getEventsByEntity() this is not limited to the in-memory history
+   */
+  async getEntityHistory(entityType: string, entityId: string): Promise<EventEnvelope[]> {
+    if (this.store) {
+      return this.store.getEntityHistory(entityType, entityId);
+    }
+    return this.getEventsByEntity(entityType, entityId);
+  }
+
   /**
    * Get events by type
    */
@@ -200,6 +477,8 @@ export class EventBus {
     total_subscriptions: number;
     events_by_type: Record<string, number>;
     events_requiring_human: number;
+    dead_letters_pending: number;
+    events_held: number;
   } {
     const eventsByType: Record<string, number> = {};
     let eventsRequiringHuman = 0;
@@ -216,7 +495,248 @@ export class EventBus {
       total_subscriptions: this.subscriptions.size,
       events_by_type: eventsByType,
       events_requiring_human: eventsRequiringHuman,
+      dead_letters_pending: this.deadLetters.getStats().pending,
+      events_held: this.heldEvents.getStats().held,
+    };
+  }
+
+  /**
+   * Get the dead letter queue
+   */
+  getDeadLetterQueue(): DeadLetterQueue {
+    return this.deadLetters;
+  }
+
+  /**
+   * Get the held event queue
+   */
+  getHeldEventQueue(): HeldEventQueue {
+    return this.heldEvents;
+  }
+
+  /**
+   * Dispatch a held event to its subscribers, skipping the guards
+   * A version check the publisher asked for is not repeated.
+   */
+  async releaseHeldEvent(holdId: string, releasedBy?: string, notes?: string): Promise<HeldEvent> {
+    const held = this.pendingHold(holdId);
+
+    await this.heldEvents.markReleased(holdId, releasedBy, notes);
+    await this.dispatch(held.event);
+
+    return this.heldEvents.get(holdId)!;
+  }
+
+  /**
+   * Drop a held event; its subscribers never see it
+   */
+  async discardHeldEvent(
+    holdId: string,
+    reason?: string,
+    discardedBy?: string
+  ): Promise<HeldEvent> {
+    this.pendingHold(holdId);
+    await this.heldEvents.discard(holdId, reason, discardedBy);
+    return this.heldEvents.get(holdId)!;
+  }
+
+  /**
+   * Release or discard the events held for an approval request once it is decided
+   * Returns the holds that were settled (none when nothing was held for it).
+   */
+  async settleHeldEvents(
+    approvalEventId: string,
+    approved: boolean,
+    decidedBy?: string,
+    notes?: string
+  ): Promise<HeldEvent[]> {
+    const settled: HeldEvent[] = [];
+
+    for (const held of this.heldEvents.findByApproval(approvalEventId)) {
+      settled.push(
+        approved
+          ? await this.releaseHeldEvent(held.hold_id, decidedBy, notes)
+          : await this.discardHeldEvent(held.hold_id, notes || 'Approval rejected', decidedBy)
+      );
+    }
+
+    return settled;
+  }
+
+  /**
+   * Re-deliver a pending dead letter to its subscriber
+   *
+   * Goes to the original subscription if it is still live, otherwise to the
+   * live subscription with the same name and event type (e.g. after a restart).
+   * The letter stays pending if the handler fails again.
+   */
+  async replayDeadLetter(deadLetterId: string): Promise<DeadLetter> {
+    const letter = this.deadLetters.get(deadLetterId);
+    if (!letter) {
+      throw new Error(`Dead letter not found: ${deadLetterId}`);
+    }
+    if (letter.status !== 'pending') {
+      throw new Error(`Dead letter ${deadLetterId} is already ${letter.status}`);
+    }
+
+    const subscription =
+      this.subscriptions.get(letter.subscription_id) ||
+      Array.from(this.subscriptions.values()).find(
+        (sub) =>
+          sub.name === letter.subscriber &&
+          (sub.eventType === undefined || sub.eventType === letter.event.event_type) &&
+          (!sub.filter || sub.filter(letter.event))
+      );
+
+    if (!subscription) {
+      throw new Error(`No live subscription for subscriber ${letter.subscriber}`);
+    }
+
+    const error = await this.attemptDelivery(subscription, letter.event);
+    await this.deadLetters.markReplayed(deadLetterId, error === undefined, error);
+
+    this.logger.info('Dead letter replayed', {
+      dead_letter_id: deadLetterId,
+      subscription_id: subscription.id,
+      succeeded: error === undefined,
+    });
+
+    return this.deadLetters.get(deadLetterId)!;
+  }
+
+  private pendingHold(holdId: string): HeldEvent {
+    const held = this.heldEvents.get(holdId);
+    if (!held) {
+      throw new Error(`Held event not found: ${holdId}`);
+    }
+    if (held.status !== 'held') {
+      throw new Error(`Held event ${holdId} is already ${held.status}`);
+    }
+    return held;
+  }
+
+  /**
+   * A guard that throws holds the event: failing closed keeps a broken
+   * safety check from waving everything through
+   */
+  private async runGuard(
+    registration: GuardRegistration,
+    event: EventEnvelope
+  ): Promise<GuardVerdict> {
+    try {
+      return await registration.guard(event);
+    } catch (error) {
+      this.logger.error('Event guard failed - holding event', {
+        guard: registration.name,
+        event_id: event.event_id,
+        event_type: event.event_type,
+        error,
+      });
+      return {
+        action: 'hold',
+        reason: `Guard ${registration.name} failed: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
+  private createSubscription(
+    handler: EventHandler,
+    options: SubscriptionOptions,
+    channel: string,
+    target: { filter?: EventFilter; eventType?: EventType }
+  ): EventSubscription {
+    const filter = target.filter;
+
+    const subscription: EventSubscription = {
+      id: crypto.randomUUID(),
+      name: options.name || 'anonymous',
+      handler,
+      filter,
+      filterDescription: options.filterDescription,
+      eventType: target.eventType,
+      retryPolicy: { ...DEFAULT_RETRY_POLICY, ...options.retry },
+      onDeadLetter: options.onDeadLetter,
+      channel,
+      listener: (event: EventEnvelope) => {
+        if (filter && !filter(event)) {
+          return;
+        }
+        void this.deliver(subscription, event);
+      },
+      delivered: 0,
+      failed: 0,
+      lastDeliveredAt: null,
     };
+
+    this.subscriptions.set(subscription.id, subscription);
+    this.emitter.on(channel, subscription.listener);
+
+    return subscription;
+  }
+
+  /**
+   * Deliver with retries; dead-letter the event once the policy is exhausted
+   */
+  private async deliver(subscription: EventSubscription, event: EventEnvelope): Promise<void> {
+    const error = await this.attemptDelivery(subscription, event);
+    if (error === undefined) {
+      return;
+    }
+
+    await this.deadLetters.add(event, subscription, error, subscription.retryPolicy.maxAttempts);
+
+    if (subscription.onDeadLetter) {
+      try {
+        await subscription.onDeadLetter(event, error);
+      } catch (callbackError) {
+        this.logger.error('Dead letter callback failed', {
+          subscription_id: subscription.id,
+          event_id: event.event_id,
+          error: callbackError,
+        });
+      }
+    }
+  }
+
+  /**
+   * Run the handler under the subscription's retry policy.
+   * Returns the last error, or undefined once the handler succeeds.
+   */
+  private async attemptDelivery(
+    subscription: EventSubscription,
+    event: EventEnvelope
+  ): Promise<unknown> {
+    const policy = subscription.retryPolicy;
+    let lastError: unknown;
+
+    for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+      try {
+        await subscription.handler(event);
+        subscription.delivered++;
+        subscription.lastDeliveredAt = new Date().toISOString();
+        return undefined;
+      } catch (error) {
+        lastError = error;
+
+        this.logger.error('Event handler error', {
+          subscription_id: subscription.id,
+          name: subscription.name,
+          event_id: event.event_id,
+          event_type: event.event_type,
+          attempt,
+          max_attempts: policy.maxAttempts,
+          error,
+        });
+
+        if (attempt < policy.maxAttempts) {
+          const delay = policy.backoffMs * Math.pow(policy.backoffMultiplier, attempt - 1);
+          await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+      }
+    }
+
+    subscription.failed++;
+    return lastError ?? new Error('Handler failed');
   }
 
   private addToHistory(event: EventEnvelope): void {
@@ -0,0 +1,271 @@
+/**
+ * HELD EVENT QUEUE - Events a Guard Stopped Before Dispatch
+ *
+ * An event guard (see EventBus.addGuard) can hold an event instead of letting
+ * the bus deliver it. Held events wait here, usually for the human approval
+ * request the guard raised, until they are released to their subscribers or
+ * discarded.
+ *
+ * Like the dead letter queue, it is event-sourced: every change is recorded
+ * as a delivery event in the EventStore, and load() rebuilds the queue, so
+ * held events survive a restart.
+ */
+
+import {
+  EventEnvelope,
+  EntityType,
+  EventEmitter,
+  DeliveryEventType,
+  EventHeldPayload,
+  HeldEventReleasedPayload,
+  HeldEventDiscardedPayload,
+  createEvent,
+} from '../events/types.js';
+import { EventStore } from '../store/EventStore.js';
+import { Logger } from '../../utils/logger.js';
+
+export type HeldEventStatus = 'held' | 'released' | 'discarded';
+
+export interface HeldEvent {
+  hold_id: string;
+  event: EventEnvelope;
+  guard: string;
+  reason: string;
+  approval_event_id?: string;
+  held_at: string;
+  status: HeldEventStatus;
+  resolved_at?: string;
+  resolved_by?: string;
+  resolution_note?: string;
+}
+
+export class HeldEventQueue {
+  private holds: Map<string, HeldEvent>;
+  private store: EventStore | null;
+  private logger: Logger;
+
+  constructor() {
+    this.holds = new Map();
+    this.store = null;
+    this.logger = new Logger('HeldEventQueue');
+  }
+
+  /**
+   * Persist holds to the event store
+   */
+  attachStore(store: EventStore): void {
+    this.store = store;
+  }
+
+  /**
+   * Rebuild the queue from the delivery events in the store
+   */
+  async load(): Promise<void> {
+    if (!this.store) {
+      return;
+    }
+
+    const events = await this.store.query({
+      eventTypes: [
+        DeliveryEventType.EVENT_HELD,
+        DeliveryEventType.HELD_EVENT_RELEASED,
+        DeliveryEventType.HELD_EVENT_DISCARDED,
+      ],
+    });
+
+    this.holds.clear();
+    for (const event of events) {
+      this.apply(event);
+    }
+
+    this.logger.info('Held event queue loaded', this.getStats());
+  }
+
+  /**
+   * Hold an event a guard stopped
+   */
+  async hold(
+    event: EventEnvelope,
+    guard: string,
+    reason: string,
+    approvalEventId?: string
+  ): Promise<HeldEvent> {
+    const holdId = crypto.randomUUID();
+
+    const payload: EventHeldPayload = {
+      hold_id: holdId,
+      event,
+      guard,
+      reason,
+      approval_event_id: approvalEventId,
+    };
+
+    await this.record(DeliveryEventType.EVENT_HELD, holdId, payload);
+
+    this.logger.warn('Event held before dispatch', {
+      hold_id: holdId,
+      event_id: event.event_id,
+      event_type: event.event_type,
+      guard,
+      reason,
+      approval_event_id: approvalEventId,
+    });
+
+    return this.holds.get(holdId)!;
+  }
+
+  /**
+   * Record that a held event was let through
+   */
+  async markReleased(holdId: string, releasedBy?: string, notes?: string): Promise<void> {
+    const held = this.holds.get(holdId)!;
+    const payload: HeldEventReleasedPayload = {
+      hold_id: holdId,
+      event_id: held.event.event_id,
+      released_by: releasedBy,
+      notes,
+    };
+
+    await this.record(DeliveryEventType.HELD_EVENT_RELEASED, holdId, payload);
+
+    this.logger.info('Held event released', { hold_id: holdId, released_by: releasedBy });
+  }
+
+  /**
+   * Drop a held event without delivering it
+   */
+  async discard(holdId: string, reason?: string, discardedBy?: string): Promise<void> {
+    const held = this.holds.get(holdId)!;
+    const payload: HeldEventDiscardedPayload = {
+      hold_id: holdId,
+      event_id: held.event.event_id,
+      reason,
+      discarded_by: discardedBy,
+    };
+
+    await this.record(DeliveryEventType.HELD_EVENT_DISCARDED, holdId, payload);
+
+    this.logger.info('Held event discarded', { hold_id: holdId, reason });
+  }
+
+  /**
+   * List holds, newest first
+   */
+  list(status?: HeldEventStatus): HeldEvent[] {
+    return Array.from(this.holds.values())
+      .filter((held) => !status || held.status === status)
+      .sort((a, b) => b.held_at.localeCompare(a.held_at));
+  }
+
+  /**
+   * Get a single hold
+   */
+  get(holdId: string): HeldEvent | undefined {
+    return this.holds.get(holdId);
+  }
+
+  /**
+   * Events still held for an approval request (or held themselves under that id)
+   */
+  findByApproval(eventId: string): HeldEvent[] {
+    return this.list('held').filter(
+      (held) => held.approval_event_id === eventId || held.event.event_id === eventId
+    );
+  }
+
+  /**
+   * The hold an event went through, if it was ever held
+   */
+  findByEvent(eventId: string): HeldEvent | undefined {
+    return Array.from(this.holds.values()).find((held) => held.event.event_id === eventId);
+  }
+
+  /**
+   * Get statistics
+   */
+  getStats(): { total: number; held: number; released: number; discarded: number } {
+    const stats = { total: this.holds.size, held: 0, released: 0, discarded: 0 };
+
+    for (const held of this.holds.values()) {
+      stats[held.status]++;
+    }
+
+    return stats;
+  }
+
+  /**
+   * Apply a delivery event and append it to the store.
+   * A store outage must not lose the hold, so it stays in memory.
+   */
+  private async record(
+    eventType: DeliveryEventType,
+    holdId: string,
+    payload: EventHeldPayload | HeldEventReleasedPayload | HeldEventDiscardedPayload
+  ): Promise<void> {
+    const event = createEvent(
+      eventType,
+      EntityType.SYSTEM,
+      holdId,
+      payload as unknown as Record<string, unknown>,
+      EventEmitter.SYSTEM
+    );
+
+    this.apply(event);
+
+    if (!this.store) {
+      return;
+    }
+
+    try {
+      await this.store.append(event);
+    } catch (error) {
+      this.logger.error('Failed to persist held event change', {
+        hold_id: holdId,
+        event_type: eventType,
+        error,
+      });
+    }
+  }
+
+  private apply(event: EventEnvelope): void {
+    switch (event.event_type) {
+      case DeliveryEventType.EVENT_HELD: {
+        const payload = event.payload as unknown as EventHeldPayload;
+        this.holds.set(payload.hold_id, {
+          hold_id: payload.hold_id,
+          event: payload.event,
+          guard: payload.guard,
+          reason: payload.reason,
+          approval_event_id: payload.approval_event_id,
+          held_at: event.created_at,
+          status: 'held',
+        });
+        break;
+      }
+
+      case DeliveryEventType.HELD_EVENT_RELEASED: {
+        const payload = event.payload as unknown as HeldEventReleasedPayload;
+        const held = this.holds.get(payload.hold_id);
+        if (!held) break;
+
+        held.status = 'released';
+        held.resolved_at = event.created_at;
+        held.resolved_by = payload.released_by;
+        held.resolution_note = payload.notes;
+        break;
+      }
+
+      case DeliveryEventType.HELD_EVENT_DISCARDED: {
+        const payload = event.payload as unknown as HeldEventDiscardedPayload;
+        const held = this.holds.get(payload.hold_id);
+        if (!held) break;
+
+        held.status = 'discarded';
+        held.resolved_at = event.created_at;
+        held.resolved_by = payload.discarded_by;
+        held.resolution_note = payload.reason;
+        break;
+      }
+    }
+  }
+}
@@ -128,17 +128,20 @@ export class SupabaseEventBus {
       const event: EventEnvelope = {
         event_id: row.event_id,
         event_type: row.event_type,
-        correlation_id: row.correlation_id,
-        causation_id: row.causation_id || undefined,
-        aggregate_type: row.aggregate_type,
-        aggregate_id: row.aggregate_id,
-        sequence_number: row.sequence_number,
+        entity_type: row.aggregate_type,
+        entity_id: row.aggregate_id,
         payload: row.payload,
-        metadata: row.metadata || {},
+        confidence: row.confidence ?? 1.0,
+        created_at: row.created_at,
         emitted_by: row.emitted_by,
-        confidence: row.confidence || undefined,
-        timestamp: new Date(row.timestamp),
-        created_at: new Date(row.created_at),
+        requires_human: row.requires_human || false,
+        metadata: {
+          ...(row.metadata || {}),
+          correlation_id: row.correlation_id,
+          causation_id: row.causation_id || undefined,
+          version: row.metadata?.version || 1,
+          position: Number(row.global_position),
+        },
       };
 
       this.logger.debug('Real-time event received', {
@@ -179,7 +182,7 @@ export class SupabaseEventBus {
     this.logger.info('Event published', {
       event_id: event.event_id,
       event_type: event.event_type,
-      aggregate: `${event.aggregate_type}:${event.aggregate_id}`,
+      aggregate: `${event.entity_type}:${event.entity_id}`,
       emitted_by: event.emitted_by,
     });
 
@@ -201,7 +204,7 @@ export class SupabaseEventBus {
     this.emitter.emit(`event:${event.event_type}`, event);
 
     // Emit to aggregate-specific subscribers
-    this.emitter.emit(`aggregate:${event.aggregate_type}:${event.aggregate_id}`, event);
+    this.emitter.emit(`aggregate:${event.entity_type}:${event.entity_id}`, event);
   }
 
   /**
@@ -364,7 +367,7 @@ export class SupabaseEventBus {
    */
   getEventsByAggregate(aggregateType: string, aggregateId: string): EventEnvelope[] {
     return this.eventHistory.filter(
-      (event) => event.aggregate_type === aggregateType && event.aggregate_id === aggregateId
+      (event) => event.entity_type === aggregateType && event.entity_id === aggregateId
     );
   }
 
@@ -0,0 +1,96 @@
+/**
+ * CAUSALITY - Why Did This Happen?
+ *
+ * Every event an agent emits records the event that triggered it
+ * (causation_id) and the id of the chain it belongs to (correlation_id).
+ * From one correlation's events we can rebuild the full causal tree,
+ * e.g. LEAD_RECEIVED → LEAD_QUALIFIED → MEETING_SCHEDULED → … → INVOICE_ISSUED.
+ */
+
+import { EventEnvelope } from './types.js';
+
+export interface CausalNode {
+  event: EventEnvelope;
+  children: CausalNode[];
+}
+
+export interface CausalStep {
+  event_id: string;
+  event_type: string;
+  entity_type: string;
+  entity_id: string;
+  emitted_by: string;
+  created_at: string;
+}
+
+export interface CausalTrace {
+  event_id: string;
+  correlation_id: string;
+  event_count: number;
+  /**
+   * Chain from the root cause down to the requested event
+   */
+  path: CausalStep[];
+  /**
+   * Usually a single root; more than one means part of the chain is missing
+   */
+  roots: CausalNode[];
+}
+
+/**
+ * Build the causal tree of a correlation around one of its events
+ */
+export function buildCausalTrace(
+  eventId: string,
+  correlationId: string,
+  events: EventEnvelope[]
+): CausalTrace {
+  const nodes = new Map<string, CausalNode>();
+  for (const event of events) {
+    nodes.set(event.event_id, { event, children: [] });
+  }
+
+  const roots: CausalNode[] = [];
+  for (const node of nodes.values()) {
+    const parentId = node.event.metadata?.causation_id;
+    const parent = parentId ? nodes.get(parentId) : undefined;
+
+    if (parent && parent !== node) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  // Walk causation links upwards from the requested event
+  const path: CausalStep[] = [];
+  const visited = new Set<string>();
+  let current = nodes.get(eventId);
+
+  while (current && !visited.has(current.event.event_id)) {
+    visited.add(current.event.event_id);
+    path.unshift(toStep(current.event));
+
+    const parentId = current.event.metadata?.causation_id;
+    current = parentId ? nodes.get(parentId) : undefined;
+  }
+
+  return {
+    event_id: eventId,
+    correlation_id: correlationId,
+    event_count: nodes.size,
+    path,
+    roots,
+  };
+}
+
+function toStep(event: EventEnvelope): CausalStep {
+  return {
+    event_id: event.event_id,
+    event_type: event.event_type,
+    entity_type: event.entity_type,
+    entity_id: event.entity_id,
+    emitted_by: event.emitted_by,
+    created_at: event.created_at,
+  };
+}
@@ -0,0 +1,604 @@
+/**
+ * EVENT PAYLOAD REGISTRY
+ *
+ * One Zod schema per event type. The EventBus validates every published
+ * payload against it, and the TypeScript types of emitEvent/subscribeToType
+ * are inferred from it, so an event type and its payload can never drift apart.
+ *
+ * Schemas describe the fields consumers rely on; extra fields pass through.
+ * A new event type must be registered here before it can be published.
+ *
+ * Schemas always describe the LATEST payload shape. Changing a shape means
+ * bumping the type's entry in EVENT_SCHEMA_VERSIONS and adding an upcaster
+ * for the previous version (see upcasting.ts), so stored events keep loading.
+ */
+
+import { z } from 'zod';
+import type { EventEnvelope } from './types.js';
+
+const payload = <T extends z.ZodRawShape>(shape: T) => z.object(shape).passthrough();
+
+const severity = z.enum(['low', 'medium', 'high', 'critical']);
+const urgency = z.enum(['low', 'medium', 'high']);
+
+export const EVENT_PAYLOAD_SCHEMAS = {
+  // Acquisition
+  LEAD_RECEIVED: payload({
+    lead_source: z.string(),
+    contact_name: z.string(),
+    contact_email: z.string(),
+    contact_phone: z.string().optional(),
+    company_name: z.string().optional(),
+    initial_message: z.string(),
+    urgency: urgency.optional(),
+  }),
+  LEAD_QUALIFIED: payload({
+    lead_id: z.string(),
+    qualification_score: z.number(),
+    budget_range: z.string().optional(),
+    timeline: z.string().optional(),
+    project_type: z.string().optional(),
+    qualification_notes: z.string(),
+  }),
+  MEETING_SCHEDULED: payload({
+    lead_id: z.string(),
+    meeting_datetime: z.string(),
+    meeting_type: z.enum(['discovery', 'strategy', 'review', 'kickoff']),
+    meeting_link: z.string().optional(),
+    attendees: z.array(z.string()),
+  }),
+
+  // Intelligence
+  MEETING_COMPLETED: payload({
+    meeting_id: z.string(),
+    duration_minutes: z.number(),
+    transcript: z.string().optional(),
+    summary: z.string(),
+    action_items: z.array(
+      z.object({
+        description: z.string(),
+        assignee: z.string().optional(),
+        due_date: z.string().optional(),
+      })
+    ),
+    sentiment: z.enum(['positive', 'neutral', 'negative']),
+  }),
+  INTENT_INFERRED: payload({
+    meeting_id: z.string(),
+    client_id: z.string(),
+    inferred_needs: z.array(z.string()),
+    suggested_services: z.array(z.string()),
+    estimated_budget_range: z.string(),
+    estimated_timeline: z.string(),
+    confidence_factors: z.record(z.number()),
+  }),
+  RISK_DETECTED: payload({
+    risk_type: z.enum(['financial', 'timeline', 'scope', 'relationship', 'legal', 'system']),
+    severity,
+    description: z.string(),
+    affected_entity_type: z.string(),
+    affected_entity_id: z.string(),
+    mitigation_suggestions: z.array(z.string()),
+  }),
+  CREATIVE_BRIEF_GENERATED: payload({
+    client_id: z.string(),
+    brief_title: z.string(),
+    objectives: z.array(z.string()),
+    target_audience: z.string(),
+    deliverables: z.array(z.string()),
+    brand_guidelines: z.string(),
+  }),
+  PROJECT_RECOMMENDED: payload({
+    client_id: z.string(),
+    project_name: z.string(),
+    project_type: z.string(),
+    phases: z.array(z.string()),
+    estimated_budget: z.number(),
+    estimated_timeline_weeks: z.number(),
+    team_requirements: z.array(z.string()),
+    success_metrics: z.array(z.string()),
+  }),
+
+  // Execution
+  TASK_CREATED: payload({
+    task_title: z.string(),
+    task_description: z.string(),
+    project_id: z.string().optional(),
+    estimated_hours: z.number().optional(),
+    priority: z.enum(['low', 'medium', 'high', 'urgent']),
+    due_date: z.string().optional(),
+    dependencies: z.array(z.string()).optional(),
+  }),
+  TASK_ASSIGNED: payload({
+    task_id: z.string(),
+    assigned_to: z.string(),
+    assigned_by: z.string(),
+    assignment_reason: z.string().optional(),
+  }),
+  TASK_COMPLETED: payload({
+    task_id: z.string(),
+    completed_by: z.string(),
+    actual_hours: z.number().optional(),
+    completion_notes: z.string().optional(),
+  }),
+  PROJECT_CREATED: payload({
+    name: z.string().optional(),
+    client_id: z.string().optional(),
+  }),
+  PROJECT_STARTED: payload({
+    project_name: z.string(),
+    client_id: z.string(),
+    project_type: z.string(),
+    budget: z.number(),
+    timeline_weeks: z.number(),
+    start_date: z.string(),
+    team_members: z.array(z.string()),
+  }),
+  PROJECT_AT_RISK: payload({
+    project_id: z.string(),
+    risk_factors: z.array(z.string()),
+    current_status: z.string(),
+    recommended_actions: z.array(z.string()),
+  }),
+  MILESTONE_COMPLETED: payload({
+    milestone_name: z.string().optional(),
+    progress_increment: z.number().optional(),
+  }),
+  PROJECT_COMPLETED: payload({
+    project_id: z.string().optional(),
+    completed_at: z.string().optional(),
+  }),
+
+  // Financial
+  QUOTE_GENERATED: payload({
+    client_id: z.string(),
+    quote_number: z.string(),
+    line_items: z.array(
+      z.object({
+        description: z.string(),
+        quantity: z.number(),
+        unit_price: z.number(),
+        total: z.number(),
+      })
+    ),
+    subtotal: z.number(),
+    tax: z.number(),
+    total: z.number(),
+    valid_until: z.string(),
+    terms: z.string(),
+  }),
+  QUOTE_APPROVED: payload({
+    quote_id: z.string(),
+    approved_by: z.string(),
+    approved_at: z.string(),
+    payment_terms: z.string(),
+  }),
+  INVOICE_ISSUED: payload({
+    invoice_number: z.string(),
+    client_id: z.string(),
+    project_id: z.string().optional(),
+    amount: z.number(),
+    due_date: z.string(),
+    payment_link: z.string().optional(),
+  }),
+  PAYMENT_RECEIVED: payload({
+    invoice_id: z.string(),
+    amount: z.number(),
+    payment_method: z.string(),
+    transaction_id: z.string(),
+    payment_date: z.string(),
+  }),
+  PAYMENT_REMINDER_SENT: payload({
+    invoice_id: z.string(),
+    days_past_due: z.number().optional(),
+  }),
+
+  // Control
+  HUMAN_APPROVAL_REQUESTED: payload({
+    request_type: z.string(),
+    request_reason: z.string(),
+    context: z.record(z.unknown()),
+    suggested_action: z.string().optional(),
+    urgency,
+    expires_at: z.string().optional(),
+    requested_by: z.string().optional(),
+    required_approvals: z.number().int().min(1).optional(),
+    approver_roles: z.array(z.string()).optional(),
+    on_expiry: z.enum(['approved', 'rejected']).optional(),
+  }),
+  HUMAN_OVERRIDE: payload({
+    original_event_id: z.string(),
+    override_reason: z.string(),
+    overridden_by: z.string(),
+    new_decision: z.record(z.unknown()),
+  }),
+  HUMAN_APPROVAL_VOTED: payload({
+    original_event_id: z.string(),
+    vote: z.enum(['approved', 'rejected']),
+    voter: z.string(),
+    on_behalf_of: z.string().optional(),
+    roles: z.array(z.string()),
+    notes: z.string().optional(),
+    amended_decision: z.record(z.unknown()).optional(),
+    approvals: z.number().int(),
+    required_approvals: z.number().int(),
+  }),
+  HUMAN_APPROVAL_RESOLVED: payload({
+    original_event_id: z.string(),
+    request_type: z.string(),
+    requested_by: z.string().optional(),
+    context: z.record(z.unknown()),
+    decision: z.enum(['approved', 'rejected']),
+    decided_by: z.string(),
+    notes: z.string().optional(),
+    amended_decision: z.record(z.unknown()).optional(),
+    approvers: z.array(z.string()).optional(),
+    expired: z.boolean().optional(),
+  }),
+  AUTONOMIC_DECISION_EXECUTED: payload({
+    decision_type: z.string(),
+    decision_outcome: z.string(),
+    confidence: z.number(),
+    reasoning: z.string(),
+    affected_entities: z.array(
+      z.object({
+        entity_type: z.string(),
+        entity_id: z.string(),
+      })
+    ),
+  }),
+
+  // Economic
+  SOP_EXECUTION_COMPLETED: payload({
+    sop_id: z.string(),
+    sop_version: z.string().optional(),
+    execution_id: z.string(),
+    status: z.enum(['completed', 'failed']).optional(),
+    cycle_time_hours: z.number(),
+    automation_rate: z.number(),
+    human_minutes: z.number(),
+    cost: z.number(),
+    quality_score: z.number().optional(),
+    deviations: z.array(
+      z.object({
+        step_id: z.string(),
+        deviation_type: z.string(),
+        description: z.string(),
+      })
+    ),
+  }),
+  SOP_OPTIMIZATION_RECOMMENDED: payload({
+    sop_id: z.string(),
+    current_metrics: z.object({
+      automation_rate: z.number(),
+      cycle_time_hours: z.number(),
+      cost_per_execution: z.number(),
+    }),
+    recommended_changes: z.array(
+      z.object({
+        step_id: z.string(),
+        change_type: z.enum(['automate', 'remove', 'simplify', 'reorder']),
+        expected_impact: z.string(),
+        confidence: z.number(),
+      })
+    ),
+    potential_savings: z.object({
+      time_hours_per_month: z.number(),
+      cost_per_month: z.number(),
+    }),
+  }),
+  AUTOMATION_OPPORTUNITY_DETECTED: payload({
+    manual_task_pattern: z.string(),
+    frequency_per_month: z.number(),
+    average_duration_minutes: z.number(),
+    total_monthly_cost: z.number(),
+    automation_feasibility: z.number(),
+    recommended_approach: z.string(),
+    roi_months: z.number(),
+  }),
+  MARGIN_EROSION_DETECTED: payload({
+    project_id: z.string(),
+    budgeted_hours: z.number(),
+    actual_hours: z.number(),
+    variance_percentage: z.number(),
+    causes: z.array(z.string()),
+    recommended_actions: z.array(z.string()),
+  }),
+  AUTOMATION_ROI_CALCULATED: payload({
+    period_start: z.string(),
+    period_end: z.string(),
+    total_automated_tasks: z.number(),
+    human_hours_saved: z.number(),
+    cost_savings: z.number(),
+    automation_investment: z.number(),
+    roi_percentage: z.number(),
+    top_performing_sops: z.array(
+      z.object({
+        sop_id: z.string(),
+        hours_saved: z.number(),
+        cost_saved: z.number(),
+      })
+    ),
+  }),
+  SOP_VERSION_PROPOSED: payload({
+    proposal_id: z.string(),
+    sop_id: z.string(),
+    current_version: z.string(),
+    proposed_version: z.string(),
+    changes: z.array(z.record(z.unknown())),
+    approval_required: z.enum(['silent_timeout', 'explicit_human', 'auto_approve']),
+  }),
+  SOP_VERSION_ACTIVATED: payload({
+    proposal_id: z.string(),
+    sop_id: z.string(),
+    version: z.string(),
+    changes_applied: z.array(z.record(z.unknown())),
+  }),
+  SOP_VERSION_REJECTED: payload({
+    proposal_id: z.string(),
+    sop_id: z.string(),
+    proposed_version: z.string(),
+    reason: z.string().optional(),
+    rejected_by: z.string().optional(),
+  }),
+  SOP_ROLLOUT_STARTED: payload({
+    proposal_id: z.string(),
+    sop_id: z.string(),
+    control_version: z.string(),
+    candidate_version: z.string(),
+    share: z.number(),
+    min_executions: z.number(),
+    // Definition the candidate runs, so a restart can resume the rollout
+    candidate: z.record(z.unknown()).optional(),
+    changes_applied: z.array(z.record(z.unknown())).optional(),
+    changes_skipped: z
+      .array(z.object({ change: z.record(z.unknown()), reason: z.string() }))
+      .optional(),
+  }),
+  SOP_ROLLOUT_EVALUATED: payload({
+    proposal_id: z.string(),
+    sop_id: z.string(),
+    control_version: z.string(),
+    candidate_version: z.string(),
+    decision: z.enum(['promote', 'rollback']),
+    // Set when the rollout ended before it could be evaluated (e.g. a manual rollback)
+    reason: z.string().optional(),
+    comparison: z.array(z.record(z.unknown())),
+    actual_vs_expected: z.record(z.unknown()),
+  }),
+
+  // Drift
+  PROCESS_DRIFT_DETECTED: payload({
+    sop_id: z.string(),
+    drift_type: z.enum(['timing', 'quality', 'cost', 'human_intervention']),
+    baseline_metric: z.number(),
+    current_metric: z.number(),
+    drift_percentage: z.number(),
+    trend: z.enum(['increasing', 'decreasing', 'volatile']),
+    duration_days: z.number(),
+    root_cause_hypothesis: z.string(),
+  }),
+  HUMAN_FATIGUE_SIGNAL: payload({
+    user_id: z.string(),
+    fatigue_indicators: z.array(
+      z.object({
+        indicator: z.string(),
+        severity: urgency,
+      })
+    ),
+    override_frequency: z.number(),
+    manual_task_increase: z.number(),
+    recommended_actions: z.array(z.string()),
+  }),
+  CLIENT_ATTENTION_DECAY: payload({
+    client_id: z.string(),
+    response_time_trend: z.object({
+      baseline_hours: z.number(),
+      current_hours: z.number(),
+      increase_percentage: z.number(),
+    }),
+    engagement_signals: z.object({
+      meeting_attendance: z.number(),
+      email_responsiveness: z.number(),
+      feedback_quality: z.number(),
+    }),
+    churn_risk_score: z.number(),
+    recommended_interventions: z.array(z.string()),
+  }),
+  CONFIDENCE_CALIBRATION_REQUIRED: payload({
+    agent_id: z.string(),
+    period_start: z.string(),
+    period_end: z.string(),
+    confidence_distribution: z.object({
+      always_high: z.number(),
+      always_low: z.number(),
+      well_calibrated: z.number(),
+    }),
+    calibration_score: z.number(),
+    recommended_adjustments: z.array(z.string()),
+  }),
+  AUTOMATION_GAP_FOUND: payload({
+    gap_type: z.enum(['manual_task', 'human_override', 'unstructured_process']),
+    task_description: z.string(),
+    frequency_per_week: z.number(),
+    time_per_occurrence_minutes: z.number(),
+    total_weekly_cost: z.number(),
+    automation_potential: z.number(),
+    blockers: z.array(z.string()),
+  }),
+  CEO_INTERRUPT_REQUIRED: payload({
+    interrupt_reason: z.enum(['financial_risk', 'reputation_risk', 'strategic_inflection']),
+    severity: z.enum(['high', 'critical']),
+    context: z.record(z.unknown()),
+    decision_required: z.string(),
+    time_sensitive: z.boolean(),
+    recommended_action: z.string().optional(),
+  }),
+  DRIFT_ALERT_ACKNOWLEDGED: payload({
+    alert_id: z.string(),
+    acknowledged_by: z.string().optional(),
+    resolution_note: z.string().optional(),
+    acknowledged_at: z.string(),
+  }),
+
+  // Chaos
+  CHAOS_EXPERIMENT_STARTED: payload({
+    experiment_id: z.string(),
+    type: z.string(),
+    intensity: z.enum(['low', 'medium', 'high']),
+    duration_minutes: z.number(),
+    target_filter: z
+      .object({
+        event_types: z.array(z.string()).optional(),
+        agent_ids: z.array(z.string()).optional(),
+        entity_types: z.array(z.string()).optional(),
+      })
+      .optional(),
+  }),
+  CHAOS_EXPERIMENT_COMPLETED: payload({
+    experiment_id: z.string(),
+    type: z.string(),
+    duration_minutes: z.number(),
+    metrics: z.record(z.unknown()),
+    resilience_score: z.number(),
+  }),
+  CHAOS_RESILIENCE_SCORE: payload({
+    resilience_score: z.number(),
+    recent_experiments: z.array(
+      z.object({
+        experiment_id: z.string(),
+        experiment_type: z.string(),
+        started_at: z.string(),
+      })
+    ),
+    trend: z.string(),
+  }),
+
+  // Notifications
+  NOTIFICATION_SENT: payload({
+    notification_id: z.string(),
+    delivery_id: z.string(),
+    channel: z.string(),
+    recipient_id: z.string(),
+    address: z.string(),
+    adapter: z.string(),
+    attempt: z.number(),
+    context: z.record(z.unknown()).optional(),
+  }),
+  NOTIFICATION_FAILED: payload({
+    notification_id: z.string(),
+    delivery_id: z.string(),
+    channel: z.string(),
+    recipient_id: z.string(),
+    attempt: z.number(),
+    error: z.string(),
+    retry_at: z.string().optional(),
+    context: z.record(z.unknown()).optional(),
+  }),
+  NOTIFICATION_DEFERRED: payload({
+    notification_id: z.string(),
+    delivery_id: z.string(),
+    channel: z.string(),
+    recipient_id: z.string(),
+    reason: z.string(),
+    deliver_at: z.string(),
+    context: z.record(z.unknown()).optional(),
+  }),
+
+  // Delivery
+  EVENT_DEAD_LETTERED: payload({
+    dead_letter_id: z.string(),
+    event: z.record(z.unknown()),
+    subscription_id: z.string(),
+    subscriber: z.string(),
+    attempts: z.number(),
+    error: z.string(),
+  }),
+  DEAD_LETTER_REPLAYED: payload({
+    dead_letter_id: z.string(),
+    succeeded: z.boolean(),
+    error: z.string().optional(),
+  }),
+  DEAD_LETTER_DISCARDED: payload({
+    dead_letter_id: z.string(),
+    reason: z.string().optional(),
+    discarded_by: z.string().optional(),
+  }),
+  EVENT_HELD: payload({
+    hold_id: z.string(),
+    event: z.record(z.unknown()),
+    guard: z.string(),
+    reason: z.string(),
+    approval_event_id: z.string().optional(),
+  }),
+  HELD_EVENT_RELEASED: payload({
+    hold_id: z.string(),
+    event_id: z.string(),
+    released_by: z.string().optional(),
+    notes: z.string().optional(),
+  }),
+  HELD_EVENT_DISCARDED: payload({
+    hold_id: z.string(),
+    event_id: z.string(),
+    reason: z.string().optional(),
+    discarded_by: z.string().optional(),
+  }),
+};
+
+/**
+ * Current schema version per event type (types not listed are at version 1)
+ */
+export const EVENT_SCHEMA_VERSIONS: Partial<Record<RegisteredEventType, number>> = {};
+
+/**
+ * Every event type the system knows about
+ */
+export type RegisteredEventType = keyof typeof EVENT_PAYLOAD_SCHEMAS;
+
+/**
+ * Payload an emitter must provide for an event type
+ */
+export type EventPayload<T extends RegisteredEventType> = z.input<
+  (typeof EVENT_PAYLOAD_SCHEMAS)[T]
+>;
+
+/**
+ * Envelope whose payload is narrowed to its event type (what subscribers receive)
+ */
+export type TypedEventEnvelope<T extends RegisteredEventType> = Omit<
+  EventEnvelope,
+  'event_type' | 'payload'
+> & {
+  event_type: T;
+  payload: z.output<(typeof EVENT_PAYLOAD_SCHEMAS)[T]>;
+};
+
+export function isRegisteredEventType(eventType: string): eventType is RegisteredEventType {
+  return Object.prototype.hasOwnProperty.call(EVENT_PAYLOAD_SCHEMAS, eventType);
+}
+
+/**
+ * Schema version new events of this type are written with
+ */
+export function currentSchemaVersion(eventType: string): number {
+  return isRegisteredEventType(eventType) ? EVENT_SCHEMA_VERSIONS[eventType] || 1 : 1;
+}
+
+/**
+ * Validate a payload against its event type's schema
+ * Returns a readable error message, or null if the payload is valid
+ */
+export function validateEventPayload(eventType: string, payload: unknown): string | null {
+  if (!isRegisteredEventType(eventType)) {
+    return `Unregistered event type: ${eventType}`;
+  }
+
+  const result = EVENT_PAYLOAD_SCHEMAS[eventType].safeParse(payload);
+  if (result.success) {
+    return null;
+  }
+
+  return result.error.issues
+    .map((issue) => `${issue.path.join('.') || 'payload'}: ${issue.message}`)
+    .join('; ');
+}
@@ -5,6 +5,7 @@
  */
 
 import { z } from 'zod';
+import { type RegisteredEventType, currentSchemaVersion } from './registry.js';
 
 /**
  * Entity Types in the System
@@ -66,6 +67,8 @@ export enum FinancialEventType {
 export enum ControlEventType {
   HUMAN_APPROVAL_REQUESTED = 'HUMAN_APPROVAL_REQUESTED',
   HUMAN_OVERRIDE = 'HUMAN_OVERRIDE',
+  HUMAN_APPROVAL_VOTED = 'HUMAN_APPROVAL_VOTED',
+  HUMAN_APPROVAL_RESOLVED = 'HUMAN_APPROVAL_RESOLVED',
   AUTONOMIC_DECISION_EXECUTED = 'AUTONOMIC_DECISION_EXECUTED',
 }
 
@@ -92,17 +95,37 @@ export enum DriftEventType {
   CEO_INTERRUPT_REQUIRED = 'CEO_INTERRUPT_REQUIRED',
 }
 
+/**
+ * Core Event Types - Delivery
+ * Recorded straight to the store (never dispatched) so a failing
+ * subscriber cannot dead-letter its own dead letters, and a guard
+ * cannot hold its own holds.
+ */
+export enum DeliveryEventType {
+  EVENT_DEAD_LETTERED = 'EVENT_DEAD_LETTERED',
+  DEAD_LETTER_REPLAYED = 'DEAD_LETTER_REPLAYED',
+  DEAD_LETTER_DISCARDED = 'DEAD_LETTER_DISCARDED',
+  EVENT_HELD = 'EVENT_HELD',
+  HELD_EVENT_RELEASED = 'HELD_EVENT_RELEASED',
+  HELD_EVENT_DISCARDED = 'HELD_EVENT_DISCARDED',
+}
+
+/**
+ * Core Event Types - Notifications
+ * One event per delivery attempt of a message to one recipient on one channel
+ */
+export enum NotificationEventType {
+  NOTIFICATION_SENT = 'NOTIFICATION_SENT',
+  NOTIFICATION_FAILED = 'NOTIFICATION_FAILED',
+  NOTIFICATION_DEFERRED = 'NOTIFICATION_DEFERRED',
+}
+
 /**
  * Union of all event types
+ * Every type has a payload schema in the registry (core/events/registry.ts);
+ * the enums above group the core types by domain.
  */
-export type EventType =
-  | AcquisitionEventType
-  | IntelligenceEventType
-  | ExecutionEventType
-  | FinancialEventType
-  | ControlEventType
-  | EconomicEventType
-  | DriftEventType;
+export type EventType = RegisteredEventType;
 
 /**
  * Event Emitter Sources
@@ -139,6 +162,8 @@ export const EventEnvelopeSchema = z.object({
       correlation_id: z.string().uuid().optional(),
       causation_id: z.string().uuid().optional(),
       version: z.number().default(1),
+      // Position in the global log, assigned by the store on append
+      position: z.number().optional(),
       tags: z.array(z.string()).optional(),
     })
     .optional(),
@@ -302,6 +327,14 @@ export interface HumanApprovalRequestedPayload {
   suggested_action?: string;
   urgency: 'low' | 'medium' | 'high';
   expires_at?: string;
+  /** Agent that raised the request; it is the one to act on the resolution */
+  requested_by?: string;
+  /** Distinct approvers needed to approve (default 1); one rejection settles it */
+  required_approvals?: number;
+  /** Only approvers holding one of these roles may vote (anyone when omitted) */
+  approver_roles?: string[];
+  /** Decision once expires_at passes undecided (default from the approvals file) */
+  on_expiry?: 'approved' | 'rejected';
 }
 
 export interface HumanOverridePayload {
@@ -311,6 +344,49 @@ export interface HumanOverridePayload {
   new_decision: Record<string, unknown>;
 }
 
+/**
+ * One approver's vote on a HUMAN_APPROVAL_REQUESTED
+ * Every vote is kept, so the votes on a request are its audit trail.
+ */
+export interface HumanApprovalVotedPayload {
+  /** The HUMAN_APPROVAL_REQUESTED event */
+  original_event_id: string;
+  vote: 'approved' | 'rejected';
+  /** Who cast the vote */
+  voter: string;
+  /** Approver the voter stands in for under a delegation */
+  on_behalf_of?: string;
+  /** Roles the vote was counted with */
+  roles: string[];
+  notes?: string;
+  amended_decision?: Record<string, unknown>;
+  /** Approvals so far, this vote included */
+  approvals: number;
+  required_approvals: number;
+}
+
+/**
+ * A human's answer to a HUMAN_APPROVAL_REQUESTED
+ * Carries the request's type, requester and context so the requester can
+ * carry on from the event alone.
+ */
+export interface HumanApprovalResolvedPayload {
+  /** The HUMAN_APPROVAL_REQUESTED event */
+  original_event_id: string;
+  request_type: string;
+  requested_by?: string;
+  context: Record<string, unknown>;
+  decision: 'approved' | 'rejected';
+  decided_by: string;
+  notes?: string;
+  /** Fields the human changed in the suggested action */
+  amended_decision?: Record<string, unknown>;
+  /** Approvers whose votes approved the request */
+  approvers?: string[];
+  /** Decided by the request's expiry rather than a vote */
+  expired?: boolean;
+}
+
 export interface AutonomicDecisionExecutedPayload {
   decision_type: string;
   decision_outcome: string;
@@ -326,6 +402,7 @@ export interface AutonomicDecisionExecutedPayload {
 export interface SOPExecutionCompletedPayload {
   sop_id: string;
   execution_id: string;
+  status?: 'completed' | 'failed';
   cycle_time_hours: number;
   automation_rate: number;
   human_minutes: number;
@@ -462,6 +539,85 @@ export interface CEOInterruptRequiredPayload {
   recommended_action?: string;
 }
 
+// Delivery Events
+export interface EventDeadLetteredPayload {
+  dead_letter_id: string;
+  event: EventEnvelope;
+  subscription_id: string;
+  subscriber: string;
+  attempts: number;
+  error: string;
+}
+
+export interface DeadLetterReplayedPayload {
+  dead_letter_id: string;
+  succeeded: boolean;
+  error?: string;
+}
+
+export interface DeadLetterDiscardedPayload {
+  dead_letter_id: string;
+  reason?: string;
+  discarded_by?: string;
+}
+
+export interface EventHeldPayload {
+  hold_id: string;
+  event: EventEnvelope;
+  guard: string;
+  reason: string;
+  /** Approval request whose resolution releases or discards the event */
+  approval_event_id?: string;
+}
+
+export interface HeldEventReleasedPayload {
+  hold_id: string;
+  event_id: string;
+  released_by?: string;
+  notes?: string;
+}
+
+export interface HeldEventDiscardedPayload {
+  hold_id: string;
+  event_id: string;
+  reason?: string;
+  discarded_by?: string;
+}
+
+// Notification Events
+export interface NotificationSentPayload {
+  notification_id: string;
+  delivery_id: string;
+  channel: string;
+  recipient_id: string;
+  address: string;
+  adapter: string;
+  attempt: number;
+  context?: Record<string, unknown>;
+}
+
+export interface NotificationFailedPayload {
+  notification_id: string;
+  delivery_id: string;
+  channel: string;
+  recipient_id: string;
+  attempt: number;
+  error: string;
+  /** Absent once the delivery has given up */
+  retry_at?: string;
+  context?: Record<string, unknown>;
+}
+
+export interface NotificationDeferredPayload {
+  notification_id: string;
+  delivery_id: string;
+  channel: string;
+  recipient_id: string;
+  reason: string;
+  deliver_at: string;
+  context?: Record<string, unknown>;
+}
+
 /**
  * Type guard for event validation
  */
@@ -471,6 +627,7 @@ export function isValidEvent(event: unknown): event is EventEnvelope {
 
 /**
  * Event factory helper
+ * Pass causedBy to link the new event into the triggering event's causal chain
  */
 export function createEvent(
   eventType: EventType,
@@ -479,10 +636,13 @@ export function createEvent(
   payload: Record<string, unknown>,
   emittedBy: EventEmitter,
   confidence: number = 1.0,
-  requiresHuman: boolean = false
+  requiresHuman: boolean = false,
+  causedBy?: EventEnvelope
 ): EventEnvelope {
+  const eventId = crypto.randomUUID();
+
   return {
-    event_id: crypto.randomUUID(),
+    event_id: eventId,
     event_type: eventType,
     entity_type: entityType,
     entity_id: entityId,
@@ -491,5 +651,13 @@ export function createEvent(
     created_at: new Date().toISOString(),
     emitted_by: emittedBy,
     requires_human: requiresHuman,
+    metadata: {
+      // A root event starts its own correlation; follow-ups inherit it
+      correlation_id: causedBy
+        ? causedBy.metadata?.correlation_id || causedBy.event_id
+        : eventId,
+      causation_id: causedBy?.event_id,
+      version: currentSchemaVersion(eventType),
+    },
   };
 }
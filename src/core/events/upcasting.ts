@@ -0,0 +1,133 @@
+/**
+ * UPCASTING - Old Events, Current Shapes
+ *
+ * The event log is immutable, so when a payload shape changes the stored
+ * events keep their old shape. Instead of migrating rows, each change ships
+ * an upcaster that lifts a payload from version N to N+1. The EventStore runs
+ * the chain on read, so projections and agents only ever see the latest shape.
+ *
+ * To change a payload shape:
+ *   1. Update the schema in registry.ts and bump EVENT_SCHEMA_VERSIONS
+ *   2. Register an upcaster below from the previous version
+ *
+ * e.g. renaming INVOICE_ISSUED.amount to amount_cents:
+ *   { eventType: 'INVOICE_ISSUED', fromVersion: 1,
+ *     upcast: ({ amount, ...rest }) => ({ ...rest, amount_cents: Math.round(Number(amount) * 100) }) }
+ */
+
+import { EventEnvelope } from './types.js';
+import { RegisteredEventType, currentSchemaVersion, validateEventPayload } from './registry.js';
+
+export interface EventUpcaster {
+  eventType: RegisteredEventType;
+  /**
+   * Version this upcaster reads; it produces fromVersion + 1
+   */
+  fromVersion: number;
+  upcast(payload: Record<string, unknown>, event: EventEnvelope): Record<string, unknown>;
+}
+
+export const EVENT_UPCASTERS: EventUpcaster[] = [];
+
+export class UpcastError extends Error {
+  constructor(
+    public readonly eventId: string,
+    public readonly eventType: string,
+    public readonly storedVersion: number,
+    reason: string
+  ) {
+    super(`Cannot upcast ${eventType} event ${eventId} from version ${storedVersion}: ${reason}`);
+    this.name = 'UpcastError';
+  }
+}
+
+export function isUpcastError(error: unknown): error is UpcastError {
+  return error instanceof UpcastError;
+}
+
+/**
+ * Schema version an event was stored with (events before versioning are 1)
+ */
+export function storedSchemaVersion(event: EventEnvelope): number {
+  return event.metadata?.version || 1;
+}
+
+/**
+ * Bring an event's payload up to the current schema version
+ * Returns the event untouched if it is already current; throws UpcastError
+ * if the chain has a gap or the event is newer than this build knows.
+ */
+export function upcastEvent(event: EventEnvelope): EventEnvelope {
+  const target = currentSchemaVersion(event.event_type);
+  let version = storedSchemaVersion(event);
+
+  if (version === target) {
+    return event;
+  }
+
+  if (version > target) {
+    throw new UpcastError(
+      event.event_id,
+      event.event_type,
+      version,
+      `stored version is newer than current version ${target}`
+    );
+  }
+
+  const storedVersion = version;
+  let payload = event.payload;
+
+  while (version < target) {
+    const upcaster = EVENT_UPCASTERS.find(
+      (u) => u.eventType === event.event_type && u.fromVersion === version
+    );
+
+    if (!upcaster) {
+      throw new UpcastError(
+        event.event_id,
+        event.event_type,
+        storedVersion,
+        `no upcaster registered from version ${version}`
+      );
+    }
+
+    try {
+      payload = upcaster.upcast(payload, event);
+    } catch (error) {
+      throw new UpcastError(
+        event.event_id,
+        event.event_type,
+        storedVersion,
+        `upcaster from version ${version} failed: ${String(error)}`
+      );
+    }
+
+    version++;
+  }
+
+  return {
+    ...event,
+    payload,
+    metadata: { ...event.metadata, version },
+  };
+}
+
+/**
+ * Check that a stored event can be read by this build
+ * Returns why it cannot, or null if it upcasts to a valid current payload
+ */
+export function checkUpcastable(event: EventEnvelope): string | null {
+  let upcasted: EventEnvelope;
+  try {
+    upcasted = upcastEvent(event);
+  } catch (error) {
+    return isUpcastError(error) ? error.message : String(error);
+  }
+
+  const payloadError = validateEventPayload(upcasted.event_type, upcasted.payload);
+  if (payloadError) {
+    return `Payload does not match current ${event.event_type} schema: ${payloadError}`;
+  }
+
+  return null;
+}
@@ -0,0 +1,682 @@
+/**
+ * NOTIFIER
+ *
+ * Delivers messages to people over channel adapters (email, slack, sms,
+ * dashboard, phone).
+ *
+ * - SOP escalations: a HUMAN_APPROVAL_REQUESTED whose context routes it
+ *   (escalate_to and notification_channels, set by the SOP executor from the
+ *   matching escalation rule) is sent to every recipient on every channel
+ * - SOP `notification` actions are sent through notifySOP()
+ *
+ * escalate_to and recipients name roles or people from the notifications file
+ * (NOTIFICATIONS_FILE); an email address is also accepted. Approval requests
+ * for someone with an active out-of-office delegation go to their delegate. Messages are
+ * rendered from templates (see templates.ts) with the execution context.
+ *
+ * Every delivery is recorded as an event: NOTIFICATION_SENT,
+ * NOTIFICATION_FAILED (with retry_at while it is retried under the retry
+ * policy) or NOTIFICATION_DEFERRED when the recipient is in quiet hours.
+ * Critical messages and the dashboard channel ignore quiet hours.
+ *
+ * Channels without an adapter use a recording stand-in that keeps messages in
+ * memory. Pending retries and deferred messages are held in memory, so a
+ * restart drops them (their events remain).
+ */
+
+import { readFile } from 'fs/promises';
+import { parse } from 'yaml';
+import { EventBus, RetryPolicy } from '../bus/EventBus.js';
+import { EntityType, EventEmitter, NotificationEventType, createEvent } from '../events/types.js';
+import { TypedEventEnvelope } from '../events/registry.js';
+import type { SOPNotification } from '../sop/SOPExecutor.js';
+import { localTime, nextLocalTime } from '../../utils/timezone.js';
+import { Logger } from '../../utils/logger.js';
+import { RecordingNotificationAdapter } from './adapters/RecordingNotificationAdapter.js';
+import {
+  SmtpNotificationAdapter,
+  SmtpNotificationAdapterConfig,
+} from './adapters/SmtpNotificationAdapter.js';
+import { DEFAULT_TEMPLATES, NotificationTemplate, renderTemplate } from './templates.js';
+import {
+  NOTIFICATION_CHANNELS,
+  NotificationAdapter,
+  NotificationChannel,
+  NotificationConfig,
+  NotificationConfigSchema,
+  NotificationDelivery,
+  NotificationMessage,
+  NotificationRecipient,
+  NotificationRequest,
+  NotificationUrgency,
+} from './types.js';
+
+const URGENCIES: NotificationUrgency[] = ['low', 'medium', 'high', 'critical'];
+
+/**
+ * Channels that carry one line of text
+ */
+const SHORT_CHANNELS: NotificationChannel[] = ['sms', 'phone'];
+
+/**
+ * Deliveries kept for listDeliveries(); older finished ones are dropped
+ */
+const MAX_DELIVERIES = 1000;
+
+/**
+ * Recipient of SOP notifications that name nobody (dashboard only)
+ */
+const EVERYONE = 'everyone';
+
+export const DEFAULT_NOTIFICATION_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  backoffMs: 30 * 1000,
+  backoffMultiplier: 4,
+};
+
+export interface NotifierOptions {
+  /**
+   * Notifications file (recipients and templates); optional
+   */
+  configFile?: string;
+  /**
+   * Adapter per channel; channels left out use the recording stand-in
+   */
+  adapters?: Partial<Record<NotificationChannel, NotificationAdapter>>;
+  retry?: Partial<RetryPolicy>;
+  /**
+   * Timezone of quiet hours for recipients without their own
+   */
+  defaultTimezone?: string;
+  /**
+   * Who stands in for a recipient who is away (recipient id or email -> delegate)
+   */
+  delegateFor?: (recipientId: string) => string | undefined;
+}
+
+/**
+ * Notifier settings from the engine configuration
+ */
+export interface NotifierSettings extends Omit<NotifierOptions, 'adapters'> {
+  /**
+   * Send email through this SMTP sink instead of recording it
+   */
+  smtp?: SmtpNotificationAdapterConfig;
+}
+
+/**
+ * Build the channel adapters the settings ask for
+ */
+export function createNotificationAdapters(
+  settings: NotifierSettings
+): Partial<Record<NotificationChannel, NotificationAdapter>> {
+  return settings.smtp ? { email: new SmtpNotificationAdapter(settings.smtp) } : {};
+}
+
+interface PendingDelivery {
+  delivery: NotificationDelivery;
+  message: NotificationMessage;
+  request: NotificationRequest;
+}
+
+export class Notifier {
+  private eventBus: EventBus;
+  private configFile?: string;
+  private config: NotificationConfig;
+  private adapters: Partial<Record<NotificationChannel, NotificationAdapter>>;
+  private recorder: RecordingNotificationAdapter;
+  private retryPolicy: RetryPolicy;
+  private defaultTimezone: string;
+  private delegateFor?: (recipientId: string) => string | undefined;
+  private deliveries: Map<string, NotificationDelivery>;
+  private pending: Map<string, PendingDelivery>;
+  private timers: Map<string, NodeJS.Timeout>;
+  private subscriptionIds: string[];
+  private logger: Logger;
+
+  constructor(eventBus: EventBus, options: NotifierOptions = {}) {
+    this.eventBus = eventBus;
+    this.configFile = options.configFile;
+    this.config = {};
+    this.adapters = options.adapters || {};
+    this.recorder = new RecordingNotificationAdapter();
+    this.retryPolicy = { ...DEFAULT_NOTIFICATION_RETRY_POLICY, ...options.retry };
+    this.defaultTimezone = options.defaultTimezone || process.env.BUSINESS_TIMEZONE || 'UTC';
+    this.delegateFor = options.delegateFor;
+    this.deliveries = new Map();
+    this.pending = new Map();
+    this.timers = new Map();
+    this.subscriptionIds = [];
+    this.logger = new Logger('Notifier');
+  }
+
+  /**
+   * Load the notifications file and start sending escalations
+   */
+  async initialize(): Promise<void> {
+    if (this.configFile) {
+      try {
+        this.configure(parse(await readFile(this.configFile, 'utf-8')) ?? {});
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+        this.logger.warn(
+          'Notifications file not found - escalations reach no configured recipients',
+          {
+            filepath: this.configFile,
+          }
+        );
+      }
+    }
+
+    this.subscriptionIds = [
+      this.eventBus.subscribeToType(
+        'HUMAN_APPROVAL_REQUESTED',
+        this.handleApprovalRequest.bind(this),
+        { name: 'Notifier' }
+      ),
+    ];
+
+    this.logger.info('Notifier initialized', {
+      recipients: Object.keys(this.config.recipients || {}).length,
+      templates: Object.keys(this.config.templates || {}).length,
+      adapters: Object.fromEntries(
+        NOTIFICATION_CHANNELS.map((c) => [c, (this.adapters[c] || this.recorder).name])
+      ),
+    });
+  }
+
+  /**
+   * Replace recipients and templates (throws on an invalid configuration)
+   */
+  configure(config: unknown): void {
+    const result = NotificationConfigSchema.safeParse(config);
+    if (!result.success) {
+      const details = result.error.issues
+        .map((i) => `${i.path.join('.')}: ${i.message}`)
+        .join('; ');
+      throw new Error(`Invalid notifications configuration: ${details}`);
+    }
+    this.config = result.data;
+  }
+
+  /**
+   * Stop sending, drop pending retries and deferred messages, close adapters
+   */
+  async shutdown(): Promise<void> {
+    for (const id of this.subscriptionIds) {
+      this.eventBus.unsubscribe(id);
+    }
+    this.subscriptionIds = [];
+
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+
+    if (this.pending.size > 0) {
+      this.logger.warn('Undelivered notifications dropped on shutdown', {
+        count: this.pending.size,
+      });
+    }
+    this.pending.clear();
+
+    for (const adapter of new Set(Object.values(this.adapters))) {
+      await adapter.close?.();
+    }
+  }
+
+  /**
+   * The stand-in adapter of channels without a real one
+   */
+  getRecorder(): RecordingNotificationAdapter {
+    return this.recorder;
+  }
+
+  /**
+   * Deliveries, most recent first
+   */
+  listDeliveries(filter: { status?: NotificationDelivery['status'] } = {}): NotificationDelivery[] {
+    return Array.from(this.deliveries.values())
+      .filter((d) => !filter.status || d.status === filter.status)
+      .reverse();
+  }
+
+  /**
+   * Send a message to every recipient on every channel
+   * Resolves once each delivery has been attempted, deferred or given up;
+   * retries continue in the background.
+   */
+  async notify(request: NotificationRequest): Promise<NotificationDelivery[]> {
+    const notificationId = crypto.randomUUID();
+    const template = this.template(request.template, request.fallback_template);
+    const deliveries: NotificationDelivery[] = [];
+
+    for (const recipient of this.resolveRecipients(
+      request.recipients,
+      request.forward_to_delegates
+    )) {
+      for (const channel of request.channels) {
+        const address = this.addressFor(recipient, channel);
+        const rendered = renderTemplate(
+          template,
+          { ...request.scope, recipient: { id: recipient.id, name: recipient.name } },
+          SHORT_CHANNELS.includes(channel)
+        );
+
+        const delivery: NotificationDelivery = {
+          delivery_id: crypto.randomUUID(),
+          notification_id: notificationId,
+          channel,
+          recipient_id: recipient.id,
+          address: address || '',
+          subject: rendered.subject,
+          urgency: request.urgency,
+          status: 'pending',
+          attempts: 0,
+          created_at: new Date().toISOString(),
+        };
+        this.track(delivery);
+        deliveries.push(delivery);
+
+        const pending: PendingDelivery = {
+          delivery,
+          message: {
+            notification_id: notificationId,
+            delivery_id: delivery.delivery_id,
+            channel,
+            recipient,
+            address: delivery.address,
+            ...rendered,
+            urgency: request.urgency,
+          },
+          request,
+        };
+
+        if (!address) {
+          await this.giveUp(pending, `No ${channel} address for ${recipient.id}`);
+          continue;
+        }
+
+        this.pending.set(delivery.delivery_id, pending);
+
+        const quietUntil = this.quietUntil(recipient, channel, request.urgency, new Date());
+        if (quietUntil) {
+          delivery.status = 'deferred';
+          delivery.next_attempt_at = quietUntil.toISOString();
+          await this.record(NotificationEventType.NOTIFICATION_DEFERRED, pending, {
+            reason: 'quiet_hours',
+            deliver_at: delivery.next_attempt_at,
+          });
+          this.schedule(delivery.delivery_id, quietUntil);
+          continue;
+        }
+
+        await this.attempt(delivery.delivery_id);
+      }
+    }
+
+    return deliveries;
+  }
+
+  /**
+   * Send an SOP step's `notification` action
+   * config.recipients (or config.assignee) name who receives it; without any,
+   * only the dashboard channel is delivered.
+   */
+  async notifySOP(notification: SOPNotification): Promise<void> {
+    const config = notification.config;
+    const recipients =
+      notification.recipients || (typeof config.assignee === 'string' ? [config.assignee] : []);
+    let channels = notification.channels.filter(isChannel);
+    if (recipients.length === 0) {
+      channels = channels.filter((c) => c === 'dashboard');
+    }
+
+    if (channels.length === 0) {
+      this.logger.warn('SOP notification has no recipients or channels to deliver to', {
+        sop_id: notification.sop_id,
+        step_id: notification.step_id,
+        channels: notification.channels,
+      });
+      return;
+    }
+
+    await this.notify({
+      template: notification.template || 'sop_notification',
+      fallback_template: 'sop_notification',
+      channels,
+      recipients: recipients.length > 0 ? recipients : [EVERYONE],
+      urgency: isUrgency(notification.urgency) ? notification.urgency : 'medium',
+      scope: {
+        ...config,
+        sop_id: notification.sop_id,
+        execution_id: notification.execution_id,
+        step_id: notification.step_id,
+        entity_type: notification.entity_type,
+        entity_id: notification.entity_id,
+        variables: notification.variables,
+      },
+      entity_type: notification.entity_type,
+      entity_id: notification.entity_id,
+      context: {
+        sop_id: notification.sop_id,
+        execution_id: notification.execution_id,
+        step_id: notification.step_id,
+      },
+    });
+  }
+
+  /**
+   * Escalate an approval request routed by an SOP escalation rule
+   */
+  private async handleApprovalRequest(
+    event: TypedEventEnvelope<'HUMAN_APPROVAL_REQUESTED'>
+  ): Promise<void> {
+    const context = event.payload.context;
+    const escalateTo = stringList(context.escalate_to);
+    const channels = stringList(context.notification_channels).filter(isChannel);
+    if (escalateTo.length === 0 || channels.length === 0) {
+      return;
+    }
+
+    await this.notify({
+      template: 'escalation',
+      channels,
+      recipients: escalateTo,
+      forward_to_delegates: true,
+      urgency: isUrgency(context.escalation_urgency)
+        ? context.escalation_urgency
+        : event.payload.urgency,
+      scope: {
+        ...context,
+        reason: event.payload.request_reason,
+        suggested_action: event.payload.suggested_action,
+        urgency: isUrgency(context.escalation_urgency)
+          ? context.escalation_urgency
+          : event.payload.urgency,
+        expires_at: event.payload.expires_at,
+        approval_event_id: event.event_id,
+        entity_type: context.entity_type ?? event.entity_type,
+        entity_id: context.entity_id ?? event.entity_id,
+      },
+      entity_type: event.entity_type,
+      entity_id: event.entity_id,
+      caused_by: event,
+      context: {
+        sop_id: context.sop_id,
+        execution_id: context.execution_id,
+        step_id: context.step_id,
+        approval_event_id: event.event_id,
+      },
+    });
+  }
+
+  /**
+   * One delivery attempt; failures are retried under the retry policy
+   */
+  private async attempt(deliveryId: string): Promise<void> {
+    const pending = this.pending.get(deliveryId);
+    if (!pending) {
+      return;
+    }
+
+    const { delivery, message } = pending;
+    const adapter = this.adapters[delivery.channel] || this.recorder;
+    delivery.attempts++;
+    delivery.adapter = adapter.name;
+    delivery.next_attempt_at = undefined;
+
+    try {
+      await adapter.send(message);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      if (delivery.attempts >= this.retryPolicy.maxAttempts) {
+        await this.giveUp(pending, reason);
+        return;
+      }
+
+      const delay =
+        this.retryPolicy.backoffMs *
+        Math.pow(this.retryPolicy.backoffMultiplier, delivery.attempts - 1);
+      const retryAt = new Date(Date.now() + delay);
+      delivery.status = 'retrying';
+      delivery.last_error = reason;
+      delivery.next_attempt_at = retryAt.toISOString();
+
+      this.logger.warn('Notification delivery failed - will retry', {
+        delivery_id: deliveryId,
+        channel: delivery.channel,
+        recipient_id: delivery.recipient_id,
+        attempt: delivery.attempts,
+        retry_at: delivery.next_attempt_at,
+        error: reason,
+      });
+
+      await this.record(NotificationEventType.NOTIFICATION_FAILED, pending, {
+        attempt: delivery.attempts,
+        error: reason,
+        retry_at: delivery.next_attempt_at,
+      });
+      this.schedule(deliveryId, retryAt);
+      return;
+    }
+
+    this.pending.delete(deliveryId);
+    delivery.status = 'sent';
+    delivery.sent_at = new Date().toISOString();
+    delivery.last_error = undefined;
+
+    await this.record(NotificationEventType.NOTIFICATION_SENT, pending, {
+      address: delivery.address,
+      adapter: adapter.name,
+      attempt: delivery.attempts,
+    });
+  }
+
+  private async giveUp(pending: PendingDelivery, reason: string): Promise<void> {
+    const { delivery } = pending;
+    this.pending.delete(delivery.delivery_id);
+    delivery.status = 'failed';
+    delivery.last_error = reason;
+
+    this.logger.error('Notification not delivered', {
+      delivery_id: delivery.delivery_id,
+      channel: delivery.channel,
+      recipient_id: delivery.recipient_id,
+      attempts: delivery.attempts,
+      error: reason,
+    });
+
+    await this.record(NotificationEventType.NOTIFICATION_FAILED, pending, {
+      attempt: delivery.attempts,
+      error: reason,
+    });
+  }
+
+  private schedule(deliveryId: string, at: Date): void {
+    this.timers.set(
+      deliveryId,
+      setTimeout(
+        () => {
+          this.timers.delete(deliveryId);
+          void this.attempt(deliveryId);
+        },
+        Math.max(0, at.getTime() - Date.now())
+      )
+    );
+  }
+
+  /**
+   * Record a delivery event; a failure to record never affects the delivery
+   */
+  private async record(
+    eventType: NotificationEventType,
+    { delivery, request }: PendingDelivery,
+    fields: Record<string, unknown>
+  ): Promise<void> {
+    try {
+      await this.eventBus.publish(
+        createEvent(
+          eventType,
+          request.entity_type as EntityType,
+          request.entity_id,
+          {
+            notification_id: delivery.notification_id,
+            delivery_id: delivery.delivery_id,
+            channel: delivery.channel,
+            recipient_id: delivery.recipient_id,
+            ...fields,
+            context: request.context,
+          },
+          EventEmitter.SYSTEM,
+          1.0,
+          false,
+          request.caused_by
+        )
+      );
+    } catch (error) {
+      this.logger.error('Failed to record notification delivery', {
+        event_type: eventType,
+        delivery_id: delivery.delivery_id,
+        error,
+      });
+    }
+  }
+
+  /**
+   * People behind role names, recipient ids and email addresses (deduplicated)
+   * With `forward`, people who are away are replaced by their delegates.
+   */
+  private resolveRecipients(names: string[], forward = false): NotificationRecipient[] {
+    const recipients = new Map<string, NotificationRecipient>();
+
+    for (const name of names) {
+      const configured = this.config.recipients?.[name];
+      if (configured) {
+        configured.forEach((r) => recipients.set(r.id, r));
+      } else if (name.includes('@')) {
+        recipients.set(name, { id: name, email: name });
+      } else {
+        if (name !== EVERYONE) {
+          this.logger.warn('No recipients configured for name - only the dashboard can reach it', {
+            name,
+          });
+        }
+        recipients.set(name, { id: name });
+      }
+    }
+
+    if (forward && this.delegateFor) {
+      for (const [id, recipient] of Array.from(recipients)) {
+        const delegate =
+          this.delegateFor(recipient.id) ||
+          (recipient.email ? this.delegateFor(recipient.email) : undefined);
+        if (!delegate) {
+          continue;
+        }
+
+        const forwarded = this.findRecipient(delegate);
+        this.logger.info('Forwarding to delegate', { recipient: recipient.id, delegate });
+        recipients.delete(id);
+        recipients.set(forwarded.id, forwarded);
+      }
+    }
+
+    return Array.from(recipients.values());
+  }
+
+  /**
+   * A person by recipient id or email, wherever the notifications file lists them
+   */
+  private findRecipient(idOrEmail: string): NotificationRecipient {
+    for (const people of Object.values(this.config.recipients || {})) {
+      const found = people.find((r) => r.id === idOrEmail || r.email === idOrEmail);
+      if (found) {
+        return found;
+      }
+    }
+    return idOrEmail.includes('@') ? { id: idOrEmail, email: idOrEmail } : { id: idOrEmail };
+  }
+
+  private addressFor(
+    recipient: NotificationRecipient,
+    channel: NotificationChannel
+  ): string | undefined {
+    switch (channel) {
+      case 'email':
+        return recipient.email;
+      case 'slack':
+        return recipient.slack;
+      case 'sms':
+      case 'phone':
+        return recipient.phone;
+      case 'dashboard':
+        return recipient.id;
+    }
+  }
+
+  /**
+   * End of the recipient's quiet hours, or null when the message can go now
+   */
+  private quietUntil(
+    recipient: NotificationRecipient,
+    channel: NotificationChannel,
+    urgency: NotificationUrgency,
+    now: Date
+  ): Date | null {
+    const quiet = recipient.quiet_hours;
+    if (!quiet || urgency === 'critical' || channel === 'dashboard') {
+      return null;
+    }
+
+    const timezone = recipient.timezone || this.defaultTimezone;
+    const local = localTime(now, timezone);
+    const inQuietHours =
+      quiet.start <= quiet.end
+        ? local >= quiet.start && local < quiet.end
+        : local >= quiet.start || local < quiet.end;
+
+    return inQuietHours ? nextLocalTime(now, quiet.end, timezone) : null;
+  }
+
+  private template(name: string, fallback?: string): NotificationTemplate {
+    const templates: Record<string, NotificationTemplate> = {
+      ...DEFAULT_TEMPLATES,
+      ...this.config.templates,
+    };
+    if (templates[name]) {
+      return templates[name];
+    }
+
+    this.logger.warn('Unknown notification template', { template: name, fallback });
+    return templates[fallback || 'sop_notification'];
+  }
+
+  private track(delivery: NotificationDelivery): void {
+    this.deliveries.set(delivery.delivery_id, delivery);
+    if (this.deliveries.size <= MAX_DELIVERIES) {
+      return;
+    }
+
+    for (const [id, d] of this.deliveries) {
+      if (d.status === 'sent' || d.status === 'failed') {
+        this.deliveries.delete(id);
+        return;
+      }
+    }
+  }
+}
+
+function isChannel(value: string): value is NotificationChannel {
+  return (NOTIFICATION_CHANNELS as readonly string[]).includes(value);
+}
+
+function isUrgency(value: unknown): value is NotificationUrgency {
+  return URGENCIES.includes(value as NotificationUrgency);
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
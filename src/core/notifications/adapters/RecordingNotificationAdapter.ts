@@ -0,0 +1,49 @@
+/**
+ * Local stand-in for a delivery channel: keeps every message in memory
+ *
+ * Used for channels without a real integration, in development and tests.
+ */
+
+import { NotificationAdapter, NotificationMessage } from '../types.js';
+import { Logger } from '../../../utils/logger.js';
+
+/**
+ * Oldest messages are dropped beyond this many
+ */
+const MAX_RECORDED = 1000;
+
+export class RecordingNotificationAdapter implements NotificationAdapter {
+  readonly name = 'recording';
+  private messages: Array<NotificationMessage & { recorded_at: string }>;
+  private logger: Logger;
+
+  constructor() {
+    this.messages = [];
+    this.logger = new Logger('RecordingNotificationAdapter');
+  }
+
+  async send(message: NotificationMessage): Promise<void> {
+    this.messages.push({ ...message, recorded_at: new Date().toISOString() });
+    if (this.messages.length > MAX_RECORDED) {
+      this.messages.shift();
+    }
+
+    this.logger.info('Notification recorded', {
+      channel: message.channel,
+      recipient_id: message.recipient.id,
+      address: message.address,
+      subject: message.subject,
+    });
+  }
+
+  /**
+   * Recorded messages, oldest first
+   */
+  getMessages(): Array<NotificationMessage & { recorded_at: string }> {
+    return [...this.messages];
+  }
+
+  clear(): void {
+    this.messages = [];
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Email over plain SMTP, for a local mail sink (Mailpit, MailHog, smtp4dev)
+ *
+ * Speaks the minimum of RFC 5321: no TLS and no authentication, so it is not
+ * meant for a real mail relay.
+ */
+
+import { Socket, createConnection } from 'net';
+import { NotificationAdapter, NotificationMessage } from '../types.js';
+
+export interface SmtpNotificationAdapterConfig {
+  host: string;
+  port?: number;
+  from: string;
+  /** Per SMTP command (default 10s) */
+  timeoutMs?: number;
+}
+
+export class SmtpNotificationAdapter implements NotificationAdapter {
+  readonly name = 'smtp';
+  private config: Required<SmtpNotificationAdapterConfig>;
+
+  constructor(config: SmtpNotificationAdapterConfig) {
+    this.config = { port: 1025, timeoutMs: 10000, ...config };
+  }
+
+  async send(message: NotificationMessage): Promise<void> {
+    const socket = createConnection({ host: this.config.host, port: this.config.port });
+    const session = new SmtpSession(socket, this.config.timeoutMs);
+
+    try {
+      await session.expect(220);
+      await session.command('EHLO bigbox-engine', 250);
+      await session.command(`MAIL FROM:<${this.config.from}>`, 250);
+      await session.command(`RCPT TO:<${message.address}>`, 250, 251);
+      await session.command('DATA', 354);
+      await session.command(`${this.format(message)}\r\n.`, 250);
+      await session.command('QUIT', 221);
+    } finally {
+      socket.destroy();
+    }
+  }
+
+  private format(message: NotificationMessage): string {
+    const headers = [
+      `From: ${this.config.from}`,
+      `To: ${message.address}`,
+      `Subject: ${message.subject.replace(/[\r\n]+/g, ' ')}`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: <${message.delivery_id}@bigbox-engine>`,
+      `X-Priority: ${message.urgency === 'critical' || message.urgency === 'high' ? 1 : 3}`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+    ];
+
+    // Dot-stuffing: a body line starting with "." must not end the DATA section
+    const body = message.body
+      .split(/\r?\n/)
+      .map((line) => (line.startsWith('.') ? `.${line}` : line))
+      .join('\r\n');
+
+    return `${headers.join('\r\n')}\r\n\r\n${body}`;
+  }
+}
+
+/**
+ * Reads SMTP replies (multi-line "250-..." continuations included) off a socket
+ */
+class SmtpSession {
+  private socket: Socket;
+  private timeoutMs: number;
+  private buffer: string;
+  private waiting: (() => void) | null;
+  private failure: Error | null;
+
+  constructor(socket: Socket, timeoutMs: number) {
+    this.socket = socket;
+    this.timeoutMs = timeoutMs;
+    this.buffer = '';
+    this.waiting = null;
+    this.failure = null;
+
+    socket.setEncoding('utf-8');
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      this.waiting?.();
+    });
+    socket.on('error', (error) => {
+      this.failure = error;
+      this.waiting?.();
+    });
+    socket.on('close', () => {
+      this.failure = this.failure || new Error('SMTP connection closed');
+      this.waiting?.();
+    });
+  }
+
+  async command(line: string, ...accepted: number[]): Promise<void> {
+    this.socket.write(`${line}\r\n`);
+    await this.expect(...accepted);
+  }
+
+  async expect(...accepted: number[]): Promise<void> {
+    const reply = await this.readReply();
+    const code = parseInt(reply.slice(0, 3), 10);
+    if (!accepted.includes(code)) {
+      throw new Error(`SMTP server replied ${reply.trim()}`);
+    }
+  }
+
+  private async readReply(): Promise<string> {
+    const deadline = Date.now() + this.timeoutMs;
+
+    for (;;) {
+      // A reply ends with a complete line whose code is followed by a space
+      const lines = this.buffer.split('\r\n');
+      const last = lines.slice(0, -1).findIndex((l) => /^\d{3} /.test(l) || /^\d{3}$/.test(l));
+      if (last >= 0) {
+        this.buffer = lines.slice(last + 1).join('\r\n');
+        return lines.slice(0, last + 1).join('\n');
+      }
+      if (this.failure) {
+        throw this.failure;
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new Error(`SMTP server did not reply within ${this.timeoutMs}ms`);
+      }
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, remaining);
+        this.waiting = () => {
+          clearTimeout(timer);
+          this.waiting = null;
+          resolve();
+        };
+      });
+    }
+  }
+}
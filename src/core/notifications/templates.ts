@@ -0,0 +1,78 @@
+/**
+ * NOTIFICATION TEMPLATES
+ *
+ * `{{ path }}` placeholders are replaced with values from the message scope
+ * (dotted paths reach into objects, e.g. `{{ variables.company_name }}`).
+ * A missing value renders as an empty string.
+ *
+ * `short` is used on channels that carry one line (sms, phone); the others get
+ * `subject` and `body`.
+ */
+
+import { z } from 'zod';
+import { fillPlaceholders } from '../../utils/placeholders.js';
+
+export const NotificationTemplateSchema = z.object({
+  subject: z.string(),
+  body: z.string(),
+  short: z.string().optional(),
+});
+
+export type NotificationTemplate = z.infer<typeof NotificationTemplateSchema>;
+
+export interface RenderedNotification {
+  subject: string;
+  body: string;
+}
+
+/**
+ * Used when a template name is unknown, and for SOP escalations unless overridden
+ */
+export const DEFAULT_TEMPLATES: Record<'escalation' | 'sop_notification', NotificationTemplate> = {
+  escalation: {
+    subject: '[{{ urgency }}] {{ step_name }} needs a human ({{ sop_id }})',
+    body: [
+      '{{ reason }}',
+      '',
+      'SOP: {{ sop_id }}',
+      'Step: {{ step_name }} ({{ step_id }})',
+      'Entity: {{ entity_type }} {{ entity_id }}',
+      'Execution: {{ execution_id }}',
+      'Respond by: {{ expires_at }}',
+      'Approval request: {{ approval_event_id }}',
+      '',
+      '{{ variables }}',
+    ].join('\n'),
+    short: '[{{ urgency }}] {{ sop_id }}: {{ step_name }} needs a human - {{ reason }}',
+  },
+  sop_notification: {
+    subject: '{{ sop_id }}: {{ step_id }}',
+    body: 'Step {{ step_id }} of {{ sop_id }} (execution {{ execution_id }})\n\n{{ variables }}',
+    short: '{{ sop_id }}: {{ step_id }}',
+  },
+};
+
+export function renderTemplate(
+  template: NotificationTemplate,
+  scope: Record<string, unknown>,
+  short: boolean
+): RenderedNotification {
+  return {
+    subject: fillPlaceholders(template.subject, scope, format),
+    body: fillPlaceholders(short && template.short ? template.short : template.body, scope, format),
+  };
+}
+
+function format(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (typeof value === 'object') {
+    // Objects (such as the execution's variables) render as "key: value" lines
+    return Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined && v !== null && v !== '')
+      .map(([k, v]) => `${k}: ${typeof v === 'object' ? JSON.stringify(v) : String(v)}`)
+      .join('\n');
+  }
+  return String(value);
+}
@@ -0,0 +1,116 @@
+/**
+ * Notification types: recipients, messages and channel adapters
+ */
+
+import { z } from 'zod';
+import type { EventEnvelope } from '../events/types.js';
+import { isValidTimezone } from '../../utils/timezone.js';
+import { NotificationTemplateSchema } from './templates.js';
+
+export const NOTIFICATION_CHANNELS = ['email', 'slack', 'sms', 'dashboard', 'phone'] as const;
+
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+
+export type NotificationUrgency = 'low' | 'medium' | 'high' | 'critical';
+
+const time = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:MM');
+
+export const NotificationRecipientSchema = z.object({
+  id: z.string(),
+  name: z.string().optional(),
+  email: z.string().optional(),
+  /** Slack user or channel */
+  slack: z.string().optional(),
+  /** For sms and phone */
+  phone: z.string().optional(),
+  timezone: z.string().refine(isValidTimezone, 'Unknown IANA timezone').optional(),
+  /**
+   * Local times between which only critical messages are delivered right away;
+   * the rest wait until `end` (start after end spans midnight)
+   */
+  quiet_hours: z.object({ start: time, end: time }).optional(),
+});
+
+export type NotificationRecipient = z.infer<typeof NotificationRecipientSchema>;
+
+/**
+ * Notifications file (NOTIFICATIONS_FILE)
+ * recipients: role or id used in escalate_to / recipients -> the people it reaches
+ * templates: named templates, overriding the defaults of the same name
+ */
+export const NotificationConfigSchema = z.object({
+  recipients: z.record(z.array(NotificationRecipientSchema)).optional(),
+  templates: z.record(NotificationTemplateSchema).optional(),
+});
+
+export type NotificationConfig = z.infer<typeof NotificationConfigSchema>;
+
+/**
+ * One message to one recipient on one channel
+ */
+export interface NotificationMessage {
+  notification_id: string;
+  delivery_id: string;
+  channel: NotificationChannel;
+  recipient: NotificationRecipient;
+  /** Channel address (email address, Slack handle, phone number, or recipient id) */
+  address: string;
+  subject: string;
+  body: string;
+  urgency: NotificationUrgency;
+}
+
+/**
+ * Delivers messages on a channel; a thrown error is retried by the Notifier
+ */
+export interface NotificationAdapter {
+  readonly name: string;
+  send(message: NotificationMessage): Promise<void>;
+  close?(): Promise<void>;
+}
+
+/**
+ * What to send, to whom and on which channels
+ */
+export interface NotificationRequest {
+  /** Template name (see templates.ts); unknown names fall back to `fallback_template` */
+  template: string;
+  fallback_template?: string;
+  channels: NotificationChannel[];
+  /** Roles or recipient ids from the notifications file, or email addresses */
+  recipients: string[];
+  /** Send to the delegates of recipients who are away (approval requests) */
+  forward_to_delegates?: boolean;
+  urgency: NotificationUrgency;
+  /** Values for the template placeholders */
+  scope: Record<string, unknown>;
+  /** Entity the delivery events are recorded against */
+  entity_type: string;
+  entity_id: string;
+  /** Event that caused the notification (linked as the delivery events' cause) */
+  caused_by?: EventEnvelope;
+  /** Correlation fields copied to the delivery events (sop_id, execution_id, ...) */
+  context?: Record<string, unknown>;
+}
+
+export type NotificationDeliveryStatus = 'pending' | 'deferred' | 'retrying' | 'sent' | 'failed';
+
+/**
+ * Progress of one message, as reported by Notifier.listDeliveries()
+ */
+export interface NotificationDelivery {
+  delivery_id: string;
+  notification_id: string;
+  channel: NotificationChannel;
+  recipient_id: string;
+  address: string;
+  subject: string;
+  urgency: NotificationUrgency;
+  status: NotificationDeliveryStatus;
+  attempts: number;
+  adapter?: string;
+  last_error?: string;
+  next_attempt_at?: string;
+  created_at: string;
+  sent_at?: string;
+}
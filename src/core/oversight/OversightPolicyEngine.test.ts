@@ -0,0 +1,294 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { stringify } from 'yaml';
+import { createEvent, EntityType, EventEmitter } from '../events/types.js';
+import { DEFAULT_OVERSIGHT_POLICY } from './defaultPolicy.js';
+import {
+  evaluateOversightPolicy,
+  OversightPolicyEngine,
+  parseOversightPolicy,
+} from './OversightPolicyEngine.js';
+import type { OversightPolicyDocument } from './types.js';
+
+const defaultPolicy = parseOversightPolicy(DEFAULT_OVERSIGHT_POLICY);
+
+function quote(amount: number, confidence = 0.9, requiresHuman = false) {
+  return createEvent(
+    'QUOTE_GENERATED',
+    EntityType.QUOTE,
+    'quote-1',
+    { amount },
+    EventEmitter.AI_FINANCE_AGENT,
+    confidence,
+    requiresHuman
+  );
+}
+
+function policyDocument(version: string, limit: number): OversightPolicyDocument {
+  return {
+    policy_id: 'test_oversight',
+    version,
+    parameters: { limit },
+    rules: [
+      {
+        id: 'over_limit',
+        when: 'amount > params.limit',
+        decision: 'block',
+        reason: 'Over {{ params.limit }}',
+      },
+    ],
+  };
+}
+
+describe('evaluateOversightPolicy', () => {
+  it('falls back to the policy default when no rule matches', () => {
+    expect(evaluateOversightPolicy(defaultPolicy, quote(500))).toEqual({
+      policy_id: 'default_oversight',
+      policy_version: '1.0.0',
+      decision: 'approve',
+      reason: 'All safety checks passed',
+      hold: false,
+    });
+  });
+
+  it('fills the reason from the evaluation scope', () => {
+    expect(evaluateOversightPolicy(defaultPolicy, quote(20000))).toMatchObject({
+      decision: 'escalate',
+      rule_id: 'financial_limit',
+      reason: 'Financial amount ($20000) exceeds threshold ($10000)',
+      hold: true,
+    });
+  });
+
+  it('lets a later holding rule win over an escalate-only first match', () => {
+    expect(evaluateOversightPolicy(defaultPolicy, quote(20000, 0.5))).toMatchObject({
+      decision: 'escalate',
+      rule_id: 'financial_limit',
+      hold: true,
+    });
+    expect(evaluateOversightPolicy(defaultPolicy, quote(20000, 0.9, true))).toMatchObject({
+      rule_id: 'financial_limit',
+      hold: true,
+    });
+  });
+
+  it('keeps the first escalate-only match when no later rule holds', () => {
+    expect(evaluateOversightPolicy(defaultPolicy, quote(500, 0.5))).toMatchObject({
+      decision: 'escalate',
+      rule_id: 'low_confidence',
+      reason: 'Low confidence (0.5) below threshold (0.75)',
+      hold: false,
+    });
+  });
+
+  it('does not let a holding rule override a first match that decides otherwise', () => {
+    const evaluation = evaluateOversightPolicy(defaultPolicy, quote(200000, 0.9));
+
+    expect(evaluation).toMatchObject({
+      decision: 'ceo_interrupt',
+      rule_id: 'ceo_financial_risk',
+      hold: true,
+    });
+    expect(evaluation.ceo_interrupt).toEqual({
+      interrupt_reason: 'financial_risk',
+      severity: 'critical',
+      context: { amount: 200000, event_type: 'QUOTE_GENERATED', entity_id: 'quote-1' },
+      decision_required: 'Approve financial commitment of $200000',
+      time_sensitive: true,
+      recommended_action: 'Review contract terms and client credit',
+    });
+  });
+
+  it('only applies rules to their event types', () => {
+    const risk = createEvent(
+      'RISK_DETECTED',
+      EntityType.PROJECT,
+      'project-1',
+      { risk_type: 'schedule', severity: 'critical', amount: 500000 },
+      EventEmitter.AI_PROJECT_AGENT
+    );
+
+    expect(evaluateOversightPolicy(defaultPolicy, risk)).toMatchObject({
+      decision: 'escalate',
+      rule_id: 'critical_risk',
+    });
+  });
+
+  it('lets caller parameters override the policy parameters', () => {
+    expect(
+      evaluateOversightPolicy(defaultPolicy, quote(5000), { financial_limit: 1000 })
+    ).toMatchObject({ rule_id: 'financial_limit' });
+    expect(
+      evaluateOversightPolicy(defaultPolicy, quote(500, 0.5), { confidence_threshold: 0.4 })
+    ).toMatchObject({ decision: 'approve', hold: false });
+  });
+});
+
+describe('parseOversightPolicy', () => {
+  it('applies schema defaults', () => {
+    const policy = parseOversightPolicy({
+      policy_id: 'minimal',
+      version: '1',
+      rules: [{ id: 'all', decision: 'escalate', reason: 'Always' }],
+    });
+
+    expect(policy.parameters).toEqual({});
+    expect(policy.rules[0].hold).toBe(false);
+    expect(policy.default).toEqual({ decision: 'approve', reason: 'All safety checks passed' });
+  });
+
+  it('rejects documents that do not match the schema', () => {
+    expect(() => parseOversightPolicy({ policy_id: 'broken' }, 'broken.yaml')).toThrow(
+      /^Invalid oversight policy in broken\.yaml: version: Required; rules: Required$/
+    );
+  });
+
+  it('rejects holds on rules that let the event through', () => {
+    const document = {
+      policy_id: 'bad_hold',
+      version: '1',
+      rules: [{ id: 'ok', decision: 'approve', hold: true, reason: 'Fine' }],
+    };
+
+    expect(() => parseOversightPolicy(document)).toThrow(
+      'rules.0.hold: Only escalate and ceo_interrupt rules can hold events'
+    );
+  });
+
+  it('rejects ceo_interrupt rules without an interrupt section', () => {
+    const document = {
+      policy_id: 'bad_interrupt',
+      version: '1',
+      rules: [{ id: 'ceo', decision: 'ceo_interrupt', reason: 'CEO' }],
+    };
+
+    expect(() => parseOversightPolicy(document)).toThrow(
+      'rules.0.ceo_interrupt: A ceo_interrupt rule needs a ceo_interrupt section'
+    );
+  });
+
+  it('rejects duplicate rule ids', () => {
+    const document = {
+      policy_id: 'duplicates',
+      version: '1',
+      rules: [
+        { id: 'same', decision: 'escalate', reason: 'One' },
+        { id: 'same', decision: 'block', reason: 'Two' },
+      ],
+    };
+
+    expect(() => parseOversightPolicy(document)).toThrow('rules.1.id: Duplicate rule id same');
+  });
+
+  it('rejects conditions that do not compile, naming the rule', () => {
+    const document = {
+      policy_id: 'bad_condition',
+      version: '1',
+      rules: [{ id: 'typo', when: 'amount >', decision: 'escalate', reason: 'Typo' }],
+    };
+
+    expect(() => parseOversightPolicy(document, 'policy.yaml')).toThrow(
+      /^Invalid condition in policy\.yaml: typo: Unexpected end of expression/
+    );
+  });
+});
+
+describe('OversightPolicyEngine', () => {
+  it('uses the built-in policy without a policy file', async () => {
+    const engine = new OversightPolicyEngine();
+    await engine.initialize();
+
+    expect(engine.getPolicy().policy_id).toBe('default_oversight');
+    expect(engine.evaluate(quote(20000))).toMatchObject({ rule_id: 'financial_limit' });
+  });
+
+  it('applies its parameters over the policy and under the caller', () => {
+    const engine = new OversightPolicyEngine(undefined, { financial_limit: 50000 });
+
+    expect(engine.evaluate(quote(20000))).toMatchObject({ decision: 'approve' });
+    expect(engine.evaluate(quote(20000), { financial_limit: 1000 })).toMatchObject({
+      rule_id: 'financial_limit',
+    });
+  });
+
+  it('keeps the current policy when configured with an invalid document', () => {
+    const engine = new OversightPolicyEngine();
+    engine.configure(policyDocument('2.0.0', 100));
+
+    expect(() => engine.configure({ policy_id: 'broken', version: '3.0.0', rules: 'x' })).toThrow(
+      /Invalid oversight policy/
+    );
+    expect(engine.getPolicy().version).toBe('2.0.0');
+  });
+
+  describe('with a policy file', () => {
+    let directory: string;
+    let filepath: string;
+    let engine: OversightPolicyEngine;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'oversight-policy-'));
+      filepath = join(directory, 'oversight.yaml');
+    });
+
+    afterEach(async () => {
+      await engine?.shutdown();
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('falls back to the built-in policy when the file is missing', async () => {
+      engine = new OversightPolicyEngine(filepath);
+      await engine.initialize();
+
+      expect(engine.getPolicy().policy_id).toBe('default_oversight');
+    });
+
+    it('fails to start on an invalid policy file', async () => {
+      await writeFile(filepath, stringify({ policy_id: 'broken', version: '1', rules: [{}] }));
+      engine = new OversightPolicyEngine(filepath);
+
+      await expect(engine.initialize()).rejects.toThrow(
+        /Invalid oversight policy in .*oversight\.yaml/
+      );
+    });
+
+    it('reloads the policy when the file changes', async () => {
+      await writeFile(filepath, stringify(policyDocument('1.0.0', 1000)));
+      engine = new OversightPolicyEngine(filepath);
+      await engine.initialize();
+
+      expect(engine.getPolicy().version).toBe('1.0.0');
+      expect(engine.evaluate(quote(5000))).toMatchObject({
+        decision: 'block',
+        reason: 'Over 1000',
+      });
+
+      await writeFile(filepath, stringify(policyDocument('1.1.0', 10000)));
+
+      await vi.waitFor(() => expect(engine.getPolicy().version).toBe('1.1.0'), {
+        timeout: 5000,
+        interval: 50,
+      });
+      expect(engine.evaluate(quote(5000))).toMatchObject({ decision: 'approve' });
+    });
+
+    it('keeps the current policy when the file changes to an invalid one', async () => {
+      await writeFile(filepath, stringify(policyDocument('1.0.0', 1000)));
+      engine = new OversightPolicyEngine(filepath);
+      await engine.initialize();
+
+      await writeFile(filepath, 'policy_id: broken\nrules: [');
+      await expect(engine.reload()).rejects.toThrow();
+      expect(engine.getPolicy().version).toBe('1.0.0');
+
+      // A later valid edit is still picked up by the watcher
+      await writeFile(filepath, stringify(policyDocument('1.2.0', 1000)));
+      await vi.waitFor(() => expect(engine.getPolicy().version).toBe('1.2.0'), {
+        timeout: 5000,
+        interval: 50,
+      });
+    });
+  });
+});
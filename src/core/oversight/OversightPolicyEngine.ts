@@ -0,0 +1,285 @@
+/**
+ * OVERSIGHT POLICY ENGINE
+ *
+ * Decides what the OversightAgent does with an event (approve, escalate,
+ * block, or interrupt the CEO) from a versioned policy document instead of
+ * hard-coded checks.
+ *
+ * The policy is loaded from OVERSIGHT_POLICY_FILE (YAML or JSON); without one
+ * the built-in DEFAULT_OVERSIGHT_POLICY applies. The file is watched, and a
+ * changed policy replaces the current one once it validates. An invalid edit
+ * is logged and the previous policy stays in force.
+ *
+ * The first matching rule decides, except that an escalate rule without hold
+ * gives way to a later matching rule that holds the event.
+ *
+ * Rules read an evaluation scope:
+ * - event, payload, and the envelope fields unprefixed (event_type,
+ *   entity_type, entity_id, confidence, requires_human, emitted_by)
+ * - amount: payload.amount, else payload.total, else 0
+ * - params: the policy's parameters, overridden by the engine's (FINANCIAL_LIMIT,
+ *   CONFIDENCE_THRESHOLD) and the caller's
+ *
+ * evaluateOversightPolicy() is a pure function of a policy and an event, so
+ * policies can be tried out without an agent or a bus.
+ */
+
+import { FSWatcher, watch } from 'fs';
+import { readFile } from 'fs/promises';
+import { basename, dirname } from 'path';
+import { parse } from 'yaml';
+import { EventEnvelope } from '../events/types.js';
+import { compileExpression, evaluateExpression } from '../sop/expressions.js';
+import { fillPlaceholders, lookupPath } from '../../utils/placeholders.js';
+import { Logger } from '../../utils/logger.js';
+import { DEFAULT_OVERSIGHT_POLICY } from './defaultPolicy.js';
+import {
+  OversightEvaluation,
+  OversightPolicy,
+  OversightPolicySchema,
+  OversightRule,
+} from './types.js';
+
+/**
+ * Editors write a file in several steps; reload once they are done
+ */
+const RELOAD_DEBOUNCE_MS = 250;
+
+export class OversightPolicyEngine {
+  private filepath?: string;
+  private parameters: Record<string, number>;
+  private policy: OversightPolicy;
+  private watcher: FSWatcher | null;
+  private reloadTimer: NodeJS.Timeout | null;
+  private logger: Logger;
+
+  /**
+   * parameters override the policy's, whichever version is loaded
+   */
+  constructor(filepath?: string, parameters: Record<string, number> = {}) {
+    this.filepath = filepath;
+    this.parameters = parameters;
+    this.policy = parseOversightPolicy(DEFAULT_OVERSIGHT_POLICY, 'built-in policy');
+    this.watcher = null;
+    this.reloadTimer = null;
+    this.logger = new Logger('OversightPolicyEngine');
+  }
+
+  /**
+   * Load the policy file and start watching it
+   */
+  async initialize(): Promise<void> {
+    if (!this.filepath) {
+      this.logger.info('No oversight policy file - using the built-in policy', {
+        policy_id: this.policy.policy_id,
+        version: this.policy.version,
+      });
+      return;
+    }
+
+    try {
+      await this.reload();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      this.logger.warn('Oversight policy file not found - using the built-in policy', {
+        filepath: this.filepath,
+      });
+      return;
+    }
+
+    // Watch the directory: editors often replace the file rather than write to it
+    const filename = basename(this.filepath);
+    this.watcher = watch(dirname(this.filepath), (_change, changed) => {
+      if (changed === filename) {
+        this.scheduleReload();
+      }
+    });
+    this.watcher.on('error', (error) => {
+      this.logger.error('Stopped watching oversight policy file', {
+        filepath: this.filepath,
+        error,
+      });
+    });
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = null;
+    }
+    this.watcher?.close();
+    this.watcher = null;
+  }
+
+  /**
+   * Re-read the policy file (throws, keeping the current policy, when it is invalid)
+   */
+  async reload(): Promise<OversightPolicy> {
+    if (!this.filepath) {
+      return this.policy;
+    }
+
+    const content = await readFile(this.filepath, 'utf-8');
+    return this.configure(parse(content), this.filepath);
+  }
+
+  /**
+   * Replace the policy (throws, keeping the current policy, when it is invalid)
+   */
+  configure(document: unknown, source = 'oversight policy'): OversightPolicy {
+    const policy = parseOversightPolicy(document, source);
+    const previous = this.policy;
+    this.policy = policy;
+
+    this.logger.info('Oversight policy loaded', {
+      policy_id: policy.policy_id,
+      version: policy.version,
+      previous_version: previous.version,
+      rules: policy.rules.length,
+    });
+    return policy;
+  }
+
+  getPolicy(): OversightPolicy {
+    return this.policy;
+  }
+
+  /**
+   * Decide on an event with the current policy
+   * `parameters` take precedence over the engine's own overrides.
+   */
+  evaluate(event: EventEnvelope, parameters: Record<string, number> = {}): OversightEvaluation {
+    return evaluateOversightPolicy(this.policy, event, { ...this.parameters, ...parameters });
+  }
+
+  private scheduleReload(): void {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+    }
+    this.reloadTimer = setTimeout(() => {
+      this.reloadTimer = null;
+      this.reload().catch((error) => {
+        this.logger.error('Oversight policy reload failed - keeping the current policy', {
+          filepath: this.filepath,
+          version: this.policy.version,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    }, RELOAD_DEBOUNCE_MS);
+  }
+}
+
+/**
+ * Validate a policy document and compile its conditions
+ * Throws with every problem found.
+ */
+export function parseOversightPolicy(
+  document: unknown,
+  source = 'oversight policy'
+): OversightPolicy {
+  const result = OversightPolicySchema.safeParse(document);
+  if (!result.success) {
+    const details = result.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ');
+    throw new Error(`Invalid oversight policy in ${source}: ${details}`);
+  }
+
+  // Conditions are checked up front so a typo fails the load, not a live decision
+  const issues: string[] = [];
+  for (const rule of result.data.rules) {
+    if (rule.when === undefined) {
+      continue;
+    }
+    try {
+      compileExpression(rule.when);
+    } catch (error) {
+      issues.push(`${rule.id}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  if (issues.length > 0) {
+    throw new Error(`Invalid condition in ${source}: ${issues.join('; ')}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Decide on an event: the first matching rule, else the policy default
+ * When the first match only escalates, a later matching rule that holds the
+ * event decides instead, so an earlier escalate-only rule (low confidence,
+ * flagged by the agent) cannot let an event through that must wait for approval.
+ */
+export function evaluateOversightPolicy(
+  policy: OversightPolicy,
+  event: EventEnvelope,
+  parameters: Record<string, number> = {}
+): OversightEvaluation {
+  const scope = policyScope(event, { ...policy.parameters, ...parameters });
+  const decided = { policy_id: policy.policy_id, policy_version: policy.version };
+
+  const matches = (rule: OversightRule) =>
+    (!rule.event_types || rule.event_types.includes(event.event_type)) &&
+    (rule.when === undefined || evaluateExpression(rule.when, scope));
+
+  const index = policy.rules.findIndex(matches);
+  if (index >= 0) {
+    const first = policy.rules[index];
+    const rule =
+      first.decision === 'escalate' && !first.hold
+        ? policy.rules.slice(index + 1).find((r) => r.hold && matches(r)) || first
+        : first;
+
+    const evaluation: OversightEvaluation = {
+      ...decided,
+      decision: rule.decision,
+      reason: fillPlaceholders(rule.reason, scope),
+      rule_id: rule.id,
+      hold: rule.hold,
+    };
+
+    if (rule.decision === 'ceo_interrupt' && rule.ceo_interrupt) {
+      const interrupt = rule.ceo_interrupt;
+      const recommended = interrupt.recommended_action
+        ? fillPlaceholders(interrupt.recommended_action, scope)
+        : '';
+      evaluation.ceo_interrupt = {
+        interrupt_reason: interrupt.interrupt_reason,
+        severity: interrupt.severity,
+        context: Object.fromEntries(
+          Object.entries(interrupt.context).map(([field, path]) => [field, lookupPath(scope, path)])
+        ),
+        decision_required: fillPlaceholders(interrupt.decision_required, scope),
+        time_sensitive: interrupt.time_sensitive,
+        recommended_action: recommended || undefined,
+      };
+    }
+
+    return evaluation;
+  }
+
+  return {
+    ...decided,
+    decision: policy.default.decision,
+    reason: fillPlaceholders(policy.default.reason, scope),
+    hold: false,
+  };
+}
+
+function policyScope(
+  event: EventEnvelope,
+  params: Record<string, number>
+): Record<string, unknown> {
+  return {
+    event,
+    payload: event.payload,
+    event_type: event.event_type,
+    entity_type: event.entity_type,
+    entity_id: event.entity_id,
+    confidence: event.confidence,
+    requires_human: event.requires_human,
+    emitted_by: event.emitted_by,
+    amount: event.payload.amount || event.payload.total || 0,
+    params,
+  };
+}
@@ -0,0 +1,169 @@
+/**
+ * Built-in oversight policy, used when no OVERSIGHT_POLICY_FILE is configured
+ *
+ * Rules are checked in order, so low confidence and CEO interrupts come before
+ * the ordinary escalations. Financial events over the limit are held until a
+ * human approves them, even when low confidence or the agent's flag matched
+ * first; everything else reaches its subscribers right away.
+ */
+
+import type { OversightPolicyDocument } from './types.js';
+
+const FINANCIAL_EVENTS = ['QUOTE_GENERATED', 'INVOICE_ISSUED', 'PAYMENT_RECEIVED'];
+
+export const DEFAULT_OVERSIGHT_POLICY: OversightPolicyDocument = {
+  policy_id: 'default_oversight',
+  version: '1.0.0',
+  description:
+    'Escalate low confidence, large amounts and critical risks; interrupt the CEO rarely',
+  parameters: {
+    confidence_threshold: 0.75,
+    financial_limit: 10000,
+    ceo_financial_limit: 100000,
+    ceo_savings_per_month: 50000,
+    ceo_churn_risk: 0.7,
+    ceo_project_risk_factors: 3,
+  },
+  rules: [
+    {
+      id: 'low_confidence',
+      when: 'confidence < params.confidence_threshold',
+      decision: 'escalate',
+      reason:
+        'Low confidence ({{ confidence }}) below threshold ({{ params.confidence_threshold }})',
+    },
+    {
+      id: 'ceo_financial_risk',
+      description: 'Only very high amounts reach the CEO',
+      event_types: FINANCIAL_EVENTS,
+      when: 'amount > params.ceo_financial_limit',
+      decision: 'ceo_interrupt',
+      hold: true,
+      reason: 'CEO interrupt required: financial_risk',
+      ceo_interrupt: {
+        interrupt_reason: 'financial_risk',
+        severity: 'critical',
+        decision_required: 'Approve financial commitment of ${{ amount }}',
+        time_sensitive: true,
+        recommended_action: 'Review contract terms and client credit',
+        context: { amount: 'amount', event_type: 'event_type', entity_id: 'entity_id' },
+      },
+    },
+    {
+      id: 'ceo_relationship_crisis',
+      event_types: ['RISK_DETECTED'],
+      when: 'payload.risk_type == "relationship" and payload.severity == "critical"',
+      decision: 'ceo_interrupt',
+      reason: 'CEO interrupt required: reputation_risk',
+      ceo_interrupt: {
+        interrupt_reason: 'reputation_risk',
+        severity: 'critical',
+        decision_required: 'Approve crisis response strategy',
+        time_sensitive: true,
+        recommended_action: '{{ payload.mitigation_suggestions.0 }}',
+        context: { risk_description: 'payload.description', client_id: 'entity_id' },
+      },
+    },
+    {
+      id: 'ceo_legal_risk',
+      event_types: ['RISK_DETECTED'],
+      when: 'payload.risk_type == "legal" and payload.severity == "high"',
+      decision: 'ceo_interrupt',
+      reason: 'CEO interrupt required: reputation_risk',
+      ceo_interrupt: {
+        interrupt_reason: 'reputation_risk',
+        severity: 'critical',
+        decision_required: 'Approve legal strategy',
+        time_sensitive: true,
+        context: { risk_description: 'payload.description', affected_entity: 'entity_id' },
+      },
+    },
+    {
+      id: 'ceo_process_redesign',
+      event_types: ['SOP_OPTIMIZATION_RECOMMENDED'],
+      when: 'payload.potential_savings.cost_per_month > params.ceo_savings_per_month',
+      decision: 'ceo_interrupt',
+      reason: 'CEO interrupt required: strategic_inflection',
+      ceo_interrupt: {
+        interrupt_reason: 'strategic_inflection',
+        severity: 'high',
+        decision_required: 'Approve major process redesign',
+        time_sensitive: false,
+        recommended_action: 'Review impact analysis and approve pilot',
+        context: {
+          sop_id: 'payload.sop_id',
+          potential_monthly_savings: 'payload.potential_savings.cost_per_month',
+          changes: 'payload.recommended_changes',
+        },
+      },
+    },
+    {
+      id: 'ceo_client_churn',
+      event_types: ['CLIENT_ATTENTION_DECAY'],
+      when: 'payload.churn_risk_score > params.ceo_churn_risk',
+      decision: 'ceo_interrupt',
+      reason: 'CEO interrupt required: reputation_risk',
+      ceo_interrupt: {
+        interrupt_reason: 'reputation_risk',
+        severity: 'high',
+        decision_required: 'Approve client retention strategy',
+        time_sensitive: true,
+        recommended_action: 'Personal outreach from CEO recommended',
+        context: {
+          client_id: 'entity_id',
+          churn_risk_score: 'payload.churn_risk_score',
+          engagement_signals: 'payload.engagement_signals',
+        },
+      },
+    },
+    {
+      id: 'ceo_project_at_risk',
+      description: 'Multiple compounding risks',
+      event_types: ['PROJECT_AT_RISK'],
+      when: 'payload.risk_factors.length > params.ceo_project_risk_factors',
+      decision: 'ceo_interrupt',
+      reason: 'CEO interrupt required: reputation_risk',
+      ceo_interrupt: {
+        interrupt_reason: 'reputation_risk',
+        severity: 'high',
+        decision_required: 'Approve project recovery plan',
+        time_sensitive: true,
+        recommended_action: 'Assign senior oversight to project',
+        context: {
+          project_id: 'entity_id',
+          risk_factors: 'payload.risk_factors',
+          recommended_actions: 'payload.recommended_actions',
+        },
+      },
+    },
+    {
+      id: 'flagged_by_agent',
+      description: 'Approval requests are already in front of a human',
+      when: 'requires_human and event_type != "HUMAN_APPROVAL_REQUESTED"',
+      decision: 'escalate',
+      reason: 'Event flagged for human review by emitting agent',
+    },
+    {
+      id: 'financial_limit',
+      event_types: FINANCIAL_EVENTS,
+      when: 'amount > params.financial_limit',
+      decision: 'escalate',
+      hold: true,
+      reason: 'Financial amount (${{ amount }}) exceeds threshold (${{ params.financial_limit }})',
+    },
+    {
+      id: 'critical_risk',
+      event_types: ['RISK_DETECTED'],
+      when: 'payload.severity == "critical"',
+      decision: 'escalate',
+      reason: 'Critical risk detected - human judgment required',
+    },
+    {
+      id: 'human_override',
+      event_types: ['HUMAN_OVERRIDE', 'HUMAN_APPROVAL_VOTED', 'HUMAN_APPROVAL_RESOLVED'],
+      decision: 'approve',
+      reason: 'Human decision - automatically approved',
+    },
+  ],
+  default: { decision: 'approve', reason: 'All safety checks passed' },
+};
@@ -0,0 +1,115 @@
+/**
+ * Oversight policy documents
+ *
+ * A policy is an ordered list of rules. The first rule whose event types and
+ * `when` expression match an event decides what the OversightAgent does with
+ * it, except that a later matching rule that holds the event wins over an
+ * earlier escalate-only match. Events no rule matches get the policy's
+ * `default` decision.
+ */
+
+import { z } from 'zod';
+
+export const OVERSIGHT_DECISIONS = ['approve', 'escalate', 'block', 'ceo_interrupt'] as const;
+
+export type OversightDecision = (typeof OVERSIGHT_DECISIONS)[number];
+
+/**
+ * What a ceo_interrupt rule puts in CEO_INTERRUPT_REQUIRED
+ */
+export const OversightCEOInterruptSchema = z.object({
+  interrupt_reason: z.enum(['financial_risk', 'reputation_risk', 'strategic_inflection']),
+  severity: z.enum(['high', 'critical']),
+  /** Template, like the rule's reason */
+  decision_required: z.string(),
+  time_sensitive: z.boolean().default(false),
+  /** Template; omitted from the event when it renders empty */
+  recommended_action: z.string().optional(),
+  /** Context field -> dotted path in the evaluation scope */
+  context: z.record(z.string()).default({}),
+});
+
+export const OversightRuleSchema = z
+  .object({
+    id: z.string().min(1),
+    description: z.string().optional(),
+    /** Event types the rule applies to (all when omitted) */
+    event_types: z.array(z.string()).optional(),
+    /** Condition in the SOP expression language (always true when omitted) */
+    when: z.string().optional(),
+    decision: z.enum(OVERSIGHT_DECISIONS),
+    /** Template with `{{ path }}` placeholders from the evaluation scope */
+    reason: z.string(),
+    /**
+     * escalate and ceo_interrupt: keep the event from its subscribers until
+     * the approval request is resolved (otherwise they see it right away)
+     */
+    hold: z.boolean().default(false),
+    ceo_interrupt: OversightCEOInterruptSchema.optional(),
+  })
+  .refine((rule) => rule.decision !== 'ceo_interrupt' || rule.ceo_interrupt, {
+    message: 'A ceo_interrupt rule needs a ceo_interrupt section',
+    path: ['ceo_interrupt'],
+  })
+  .refine(
+    (rule) => !rule.hold || rule.decision === 'escalate' || rule.decision === 'ceo_interrupt',
+    {
+      message: 'Only escalate and ceo_interrupt rules can hold events',
+      path: ['hold'],
+    }
+  );
+
+export const OversightPolicySchema = z
+  .object({
+    policy_id: z.string().min(1),
+    version: z.string().min(1),
+    description: z.string().optional(),
+    /** Named numbers rules read as `params.<name>` */
+    parameters: z.record(z.number()).default({}),
+    rules: z.array(OversightRuleSchema),
+    default: z
+      .object({ decision: z.enum(['approve', 'escalate', 'block']), reason: z.string() })
+      .default({ decision: 'approve', reason: 'All safety checks passed' }),
+  })
+  .superRefine((policy, ctx) => {
+    const seen = new Set<string>();
+    policy.rules.forEach((rule, index) => {
+      if (seen.has(rule.id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Duplicate rule id ${rule.id}`,
+          path: ['rules', index, 'id'],
+        });
+      }
+      seen.add(rule.id);
+    });
+  });
+
+export type OversightCEOInterrupt = z.infer<typeof OversightCEOInterruptSchema>;
+export type OversightRule = z.infer<typeof OversightRuleSchema>;
+export type OversightPolicy = z.infer<typeof OversightPolicySchema>;
+/** A policy as written, before defaults are applied */
+export type OversightPolicyDocument = z.input<typeof OversightPolicySchema>;
+
+/**
+ * Outcome of evaluating an event against a policy
+ */
+export interface OversightEvaluation {
+  decision: OversightDecision;
+  reason: string;
+  policy_id: string;
+  policy_version: string;
+  /** Rule that fired; absent when the policy default applied */
+  rule_id?: string;
+  /** Hold the event until its approval request is resolved */
+  hold: boolean;
+  /** Set for ceo_interrupt decisions: the CEO_INTERRUPT_REQUIRED payload */
+  ceo_interrupt?: {
+    interrupt_reason: OversightCEOInterrupt['interrupt_reason'];
+    severity: OversightCEOInterrupt['severity'];
+    context: Record<string, unknown>;
+    decision_required: string;
+    time_sensitive: boolean;
+    recommended_action?: string;
+  };
+}
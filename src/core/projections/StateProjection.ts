@@ -6,13 +6,57 @@
  *
  * If UI disappears, the system continues functioning.
  * Projections are just convenience views for humans.
+ *
+ * Checkpointing: a projection periodically saves its state together with the
+ * global log position it has folded in (as a snapshot of entity PROJECTION).
+ * On boot it restores the checkpoint and only replays events appended after it.
+ *
+ * Time travel: getStateAt() replays one entity's events up to a timestamp into
+ * a scratch instance, showing what the system believed at that moment.
  */
 
 import { EventBus } from '../bus/EventBus.js';
 import { EventEnvelope, EventType } from '../events/types.js';
-import { EventStore } from '../store/EventStore.js';
+import { EventStore, EventQuery } from '../store/EventStore.js';
 import { Logger } from '../../utils/logger.js';
 
+/**
+ * Snapshot entity type under which projection checkpoints are stored
+ */
+const CHECKPOINT_ENTITY_TYPE = 'PROJECTION';
+
+/**
+ * Events read per page when catching up (Supabase returns at most 1000 rows)
+ */
+const REPLAY_PAGE_SIZE = 500;
+
+interface ProjectionCheckpoint {
+  projection_version: number;
+  position: number;
+  state: Record<string, unknown>;
+  saved_at: string;
+}
+
+export interface ProjectionStatus {
+  name: string;
+  /**
+   * Last global log position folded into the state
+   */
+  position: number;
+  head_position: number;
+  /**
+   * Subscribed events appended after `position` that are not yet projected
+   */
+  lag: number;
+  state_count: number;
+  last_checkpoint_at: string | null;
+  /**
+   * Why the last checkpoint save failed; cleared by the next successful save
+   */
+  checkpoint_error: string | null;
+  rebuilding: boolean;
+}
+
 export abstract class StateProjection<T> {
   protected eventBus: EventBus;
   protected eventStore: EventStore;
@@ -21,6 +65,23 @@ export abstract class StateProjection<T> {
   protected subscribedEventTypes: EventType[];
   protected state: Map<string, T>;
   protected subscriptionIds: string[];
+  /**
+   * Bump when project() changes meaning; older checkpoints are then ignored
+   */
+  protected projectionVersion: number;
+  /**
+   * Save a checkpoint after this many live events
+   */
+  protected checkpointInterval: number;
+
+  private position: number;
+  private replayedThrough: number;
+  private lastEventId: string | null;
+  private eventsSinceCheckpoint: number;
+  private lastCheckpointAt: string | null;
+  private checkpointError: string | null;
+  private rebuilding: boolean;
+  private queue: Promise<void>;
 
   constructor(
     projectionName: string,
@@ -35,60 +96,82 @@ export abstract class StateProjection<T> {
     this.logger = new Logger(`Projection:${projectionName}`);
     this.state = new Map();
     this.subscriptionIds = [];
+    this.projectionVersion = 1;
+    this.checkpointInterval = 50;
+    this.position = 0;
+    this.replayedThrough = 0;
+    this.lastEventId = null;
+    this.eventsSinceCheckpoint = 0;
+    this.lastCheckpointAt = null;
+    this.checkpointError = null;
+    this.rebuilding = false;
+    this.queue = Promise.resolve();
   }
 
   /**
-   * Initialize the projection by replaying all events
+   * Projection name (as used in routes and checkpoints)
+   */
+  get name(): string {
+    return this.projectionName;
+  }
+
+  /**
+   * Initialize the projection from its checkpoint, then catch up
    */
   async initialize(): Promise<void> {
     this.logger.info('Initializing projection');
 
-    // Replay historical events
-    await this.replayEvents();
+    await this.restoreCheckpoint();
 
-    // Subscribe to new events
+    // Subscribe before catching up; live events queue behind the replay
     this.subscriptionIds = this.eventBus.subscribeToTypes(
       this.subscribedEventTypes,
-      this.handleEvent.bind(this)
+      this.handleEvent.bind(this),
+      { name: `Projection:${this.projectionName}` }
     );
 
+    await this.replayEvents();
+    await this.saveCheckpoint();
+
     this.logger.info('Projection initialized', {
       state_count: this.state.size,
+      position: this.position,
     });
   }
 
   /**
-   * Replay all historical events to rebuild state
+   * Replay events appended since the last checkpoint
    */
   async replayEvents(): Promise<void> {
-    this.logger.info('Replaying historical events');
-
-    const events = await this.eventStore.query({
-      eventTypes: this.subscribedEventTypes,
-    });
-
-    for (const event of events) {
-      await this.project(event);
-    }
-
-    this.logger.info('Historical events replayed', {
-      events_processed: events.length,
-      state_count: this.state.size,
-    });
+    await this.enqueue(() => this.catchUp());
   }
 
   /**
    * Handle new events
    */
   private async handleEvent(event: EventEnvelope): Promise<void> {
-    try {
-      await this.project(event);
-    } catch (error) {
-      this.logger.error('Error projecting event', {
-        event_id: event.event_id,
-        error,
-      });
-    }
+    await this.enqueue(async () => {
+      // Already folded in by the replay that ran before this event was delivered
+      const position = event.metadata?.position;
+      if (position !== undefined && position <= this.replayedThrough) {
+        return;
+      }
+
+      try {
+        await this.project(event);
+      } catch (error) {
+        this.logger.error('Error projecting event', {
+          event_id: event.event_id,
+          error,
+        });
+      }
+
+      this.advance(event);
+
+      if (this.eventsSinceCheckpoint >= this.checkpointInterval) {
+        await this.saveCheckpoint();
+      }
+    });
   }
 
   /**
@@ -96,6 +179,27 @@ export abstract class StateProjection<T> {
    */
   protected abstract project(event: EventEnvelope): Promise<void>;
 
+  /**
+   * Serialize state for a checkpoint (override if T is not plain JSON)
+   */
+  protected serializeState(): Record<string, unknown> {
+    return Object.fromEntries(this.state);
+  }
+
+  /**
+   * Restore state from a checkpoint (inverse of serializeState)
+   */
+  protected restoreState(data: Record<string, unknown>): void {
+    this.state = new Map(Object.entries(data) as [string, T][]);
+  }
+
+  /**
+   * Drop all derived state before a rebuild (override to clear extra indexes)
+   */
+  protected resetState(): void {
+    this.state.clear();
+  }
+
   /**
    * Get the current state for an entity
    */
@@ -110,6 +214,85 @@ export abstract class StateProjection<T> {
     return new Map(this.state);
   }
 
+  /**
+   * State of an entity as it was at a point in time
+   * Replays the entity's events up to asOf into a scratch instance, leaving
+   * the live state untouched.
+   */
+  async getStateAt(entityId: string, asOf: Date): Promise<T | undefined> {
+    // Queries may overlap, so events are merged by id before replaying in log order
+    const found = new Map<string, EventEnvelope>();
+    for (const query of this.historyQueries(entityId, asOf)) {
+      for (const event of await this.readHistory(query)) {
+        found.set(event.event_id, event);
+      }
+    }
+    const events = Array.from(found.values()).sort(
+      (a, b) => (a.metadata?.position || 0) - (b.metadata?.position || 0)
+    );
+
+    const scratch = this.createScratch();
+    for (const event of events) {
+      await scratch.project(event);
+    }
+
+    this.logger.debug('Reconstructed historical state', {
+      entity_id: entityId,
+      as_of: asOf.toISOString(),
+      events_replayed: events.length,
+    });
+
+    return scratch.getState(entityId);
+  }
+
+  /**
+   * Queries that together return the events making up an entity's state up to asOf
+   * Override if the projection keys state by something other than entity_id
+   */
+  protected historyQueries(entityId: string, asOf: Date): EventQuery[] {
+    return [
+      {
+        eventTypes: this.subscribedEventTypes,
+        entityId,
+        toDate: asOf,
+      },
+    ];
+  }
+
+  /**
+   * Every event matching a history query, paged by log position like catchUp()
+   */
+  private async readHistory(query: EventQuery): Promise<EventEnvelope[]> {
+    const events: EventEnvelope[] = [];
+    let position = 0;
+    for (;;) {
+      const page = await this.eventStore.query({
+        ...query,
+        afterPosition: position,
+        limit: REPLAY_PAGE_SIZE,
+      });
+      events.push(...page);
+
+      const from = position;
+      position = page[page.length - 1]?.metadata?.position ?? position;
+      if (page.length < REPLAY_PAGE_SIZE || position === from) {
+        return events;
+      }
+    }
+  }
+
+  /**
+   * Empty, unsubscribed instance used for time-travel replays
+   * Override if the subclass constructor is not (eventBus, eventStore)
+   */
+  protected createScratch(): StateProjection<T> {
+    const Projection = this.constructor as new (
+      eventBus: EventBus,
+      eventStore: EventStore
+    ) => StateProjection<T>;
+    return new Projection(this.eventBus, this.eventStore);
+  }
+
   /**
    * Query state with filter
    */
@@ -124,13 +307,50 @@ export abstract class StateProjection<T> {
   }
 
   /**
-   * Clear and rebuild projection
+   * Clear and rebuild projection from the start of the log
    */
   async rebuild(): Promise<void> {
     this.logger.info('Rebuilding projection');
-    this.state.clear();
-    await this.replayEvents();
-    this.logger.info('Projection rebuilt');
+    this.rebuilding = true;
+
+    try {
+      await this.enqueue(async () => {
+        this.resetState();
+        this.position = 0;
+        this.replayedThrough = 0;
+        this.lastEventId = null;
+        await this.catchUp();
+      });
+      await this.saveCheckpoint();
+    } finally {
+      this.rebuilding = false;
+    }
+
+    this.logger.info('Projection rebuilt', { position: this.position });
+  }
+
+  /**
+   * Checkpoint position and lag behind the head of the log
+   */
+  async getStatus(): Promise<ProjectionStatus> {
+    const [headPosition, lag] = await Promise.all([
+      this.eventStore.getHeadPosition(),
+      this.eventStore.count({
+        eventTypes: this.subscribedEventTypes,
+        afterPosition: this.position,
+      }),
+    ]);
+
+    return {
+      name: this.projectionName,
+      position: this.position,
+      head_position: headPosition,
+      lag,
+      state_count: this.state.size,
+      last_checkpoint_at: this.lastCheckpointAt,
+      checkpoint_error: this.checkpointError,
+      rebuilding: this.rebuilding,
+    };
   }
 
   /**
@@ -141,6 +361,124 @@ export abstract class StateProjection<T> {
       this.eventBus.unsubscribe(id);
     }
     this.subscriptionIds = [];
+
+    await this.queue;
+    await this.saveCheckpoint();
     this.logger.info('Projection shut down');
   }
+
+  /**
+   * Fold in every subscribed event after the current position, in log order
+   * Pages through the log by position, so no backend row limit truncates the replay.
+   */
+  private async catchUp(): Promise<void> {
+    this.logger.info('Replaying events since checkpoint', { position: this.position });
+
+    let processed = 0;
+    for (;;) {
+      const page = await this.eventStore.query({
+        eventTypes: this.subscribedEventTypes,
+        afterPosition: this.position,
+        limit: REPLAY_PAGE_SIZE,
+      });
+
+      const from = this.position;
+      for (const event of page) {
+        await this.project(event);
+        this.advance(event);
+      }
+      processed += page.length;
+
+      // A short page is the end of the log; a page without positions cannot be paged past
+      if (page.length < REPLAY_PAGE_SIZE || this.position === from) {
+        break;
+      }
+    }
+
+    this.replayedThrough = this.position;
+
+    this.logger.info('Historical events replayed', {
+      events_processed: processed,
+      state_count: this.state.size,
+      position: this.position,
+    });
+  }
+
+  private advance(event: EventEnvelope): void {
+    this.position = Math.max(this.position, event.metadata?.position || 0);
+    this.lastEventId = event.event_id;
+    this.eventsSinceCheckpoint++;
+  }
+
+  /**
+   * Run state changes one at a time so replays and live events never interleave
+   */
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async restoreCheckpoint(): Promise<void> {
+    try {
+      const snapshot = await this.eventStore.getSnapshot(
+        CHECKPOINT_ENTITY_TYPE,
+        this.projectionName
+      );
+      if (!snapshot) {
+        return;
+      }
+
+      const checkpoint = snapshot.data as unknown as ProjectionCheckpoint;
+      if (checkpoint.projection_version !== this.projectionVersion) {
+        this.logger.warn('Ignoring checkpoint from another projection version', {
+          checkpoint_version: checkpoint.projection_version,
+          projection_version: this.projectionVersion,
+        });
+        return;
+      }
+
+      this.restoreState(checkpoint.state);
+      this.position = checkpoint.position;
+      this.lastEventId = snapshot.lastEventId;
+      this.lastCheckpointAt = checkpoint.saved_at;
+
+      this.logger.info('Checkpoint restored', {
+        position: this.position,
+        state_count: this.state.size,
+      });
+    } catch (error) {
+      this.logger.warn('Failed to load checkpoint - replaying from the start', { error });
+    }
+  }
+
+  private async saveCheckpoint(): Promise<void> {
+    // Nothing folded in yet, nothing worth saving
+    if (!this.lastEventId || this.eventsSinceCheckpoint === 0) {
+      return;
+    }
+
+    const checkpoint: ProjectionCheckpoint = {
+      projection_version: this.projectionVersion,
+      position: this.position,
+      state: this.serializeState(),
+      saved_at: new Date().toISOString(),
+    };
+
+    try {
+      await this.eventStore.saveSnapshot(
+        CHECKPOINT_ENTITY_TYPE,
+        this.projectionName,
+        checkpoint as unknown as Record<string, unknown>,
+        this.lastEventId
+      );
+      this.eventsSinceCheckpoint = 0;
+      this.lastCheckpointAt = checkpoint.saved_at;
+      this.checkpointError = null;
+    } catch (error) {
+      // Without a checkpoint every boot replays the whole log; keep it visible in the status
+      this.checkpointError = error instanceof Error ? error.message : String(error);
+      this.logger.error('Failed to save checkpoint', { error: this.checkpointError });
+    }
+  }
 }
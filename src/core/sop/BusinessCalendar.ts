@@ -0,0 +1,281 @@
+/**
+ * BUSINESS CALENDAR
+ *
+ * Working hours per weekday, holidays and timezone, for the whole agency and
+ * per office, with clients assigned to an office or their own timezone.
+ *
+ * Loaded from a YAML file (BUSINESS_CALENDAR_FILE); without one every office
+ * works Monday to Friday, 09:00-17:00, in BUSINESS_TIMEZONE (default UTC).
+ *
+ * SOPs use it through automation_policy.time_restrictions:
+ * - business_hours_only: automated steps only run inside working hours
+ * - blackout_dates: no automation on these dates (YYYY-MM-DD, local time)
+ * - business_hours_timeouts: human waits time out after timeout_hours of
+ *   working time rather than wall-clock time
+ *
+ * Dates and times are evaluated in the resolved timezone, so an office's
+ * working day and a blackout date follow its local midnight and DST.
+ */
+
+import { readFile } from 'fs/promises';
+import { parse } from 'yaml';
+import { z } from 'zod';
+import {
+  isValidTimezone,
+  localDate,
+  nextDate,
+  weekdayOf,
+  zonedTime,
+} from '../../utils/timezone.js';
+import { Logger } from '../../utils/logger.js';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * How far ahead to look for an open slot before giving up
+ */
+const MAX_DAYS_AHEAD = 366;
+
+export const WEEKDAYS = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+const time = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$|^24:00$/, 'Expected HH:MM');
+const date = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+const timezone = z.string().refine(isValidTimezone, 'Unknown IANA timezone');
+
+const WorkingHoursSchema = z
+  .object({ start: time, end: time })
+  .refine((h) => h.start < h.end, 'start must be before end');
+
+const WorkingCalendarSchema = z.object({
+  timezone: timezone.optional(),
+  /** Weekdays left out (or null) are closed */
+  hours: z.record(z.enum(WEEKDAYS), WorkingHoursSchema.nullable()).optional(),
+  holidays: z.array(date).optional(),
+});
+
+export const BusinessCalendarConfigSchema = z.object({
+  default: WorkingCalendarSchema.optional(),
+  /** Overrides of the default calendar; holidays add to the default's */
+  offices: z.record(WorkingCalendarSchema).optional(),
+  clients: z
+    .record(
+      z.object({
+        office: z.string().optional(),
+        timezone: timezone.optional(),
+      })
+    )
+    .optional(),
+});
+
+export type BusinessCalendarConfig = z.infer<typeof BusinessCalendarConfigSchema>;
+
+export interface WorkingHours {
+  start: string;
+  end: string;
+}
+
+/**
+ * A fully resolved calendar for one office or client
+ */
+export interface WorkingCalendar {
+  timezone: string;
+  hours: Partial<Record<Weekday, WorkingHours | null>>;
+  holidays: string[];
+}
+
+/**
+ * Whose calendar applies (client first, then office, then the default)
+ */
+export interface CalendarSelector {
+  client_id?: string;
+  office?: string;
+}
+
+export interface AvailabilityOptions {
+  /** Only working hours count (otherwise any time of a non-blackout day) */
+  business_hours_only?: boolean;
+  /** Local dates (YYYY-MM-DD) that are closed whatever the hours */
+  blackout_dates?: string[];
+}
+
+const NINE_TO_FIVE: WorkingHours = { start: '09:00', end: '17:00' };
+
+export class BusinessCalendar {
+  private config: BusinessCalendarConfig;
+  private fallback: WorkingCalendar;
+  private filepath?: string;
+  private logger: Logger;
+
+  constructor(filepath?: string, defaultTimezone: string = process.env.BUSINESS_TIMEZONE || 'UTC') {
+    this.filepath = filepath;
+    this.config = {};
+    this.fallback = {
+      timezone: defaultTimezone,
+      hours: {
+        monday: NINE_TO_FIVE,
+        tuesday: NINE_TO_FIVE,
+        wednesday: NINE_TO_FIVE,
+        thursday: NINE_TO_FIVE,
+        friday: NINE_TO_FIVE,
+      },
+      holidays: [],
+    };
+    this.logger = new Logger('BusinessCalendar');
+  }
+
+  /**
+   * Load the calendar file; a missing file keeps the default calendar
+   */
+  async initialize(): Promise<void> {
+    if (!this.filepath) {
+      return;
+    }
+
+    let content: string;
+    try {
+      content = await readFile(this.filepath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        this.logger.info('No business calendar file - using default working hours', {
+          filepath: this.filepath,
+          timezone: this.fallback.timezone,
+        });
+        return;
+      }
+      throw error;
+    }
+
+    this.configure(parse(content) ?? {});
+    this.logger.info('Business calendar loaded', {
+      filepath: this.filepath,
+      offices: Object.keys(this.config.offices || {}).length,
+      clients: Object.keys(this.config.clients || {}).length,
+    });
+  }
+
+  /**
+   * Replace the calendar configuration (throws on an invalid one)
+   */
+  configure(config: unknown): void {
+    const result = BusinessCalendarConfigSchema.safeParse(config);
+    if (!result.success) {
+      const details = result.error.issues
+        .map((i) => `${i.path.join('.')}: ${i.message}`)
+        .join('; ');
+      throw new Error(
+        `Invalid business calendar${this.filepath ? ` in ${this.filepath}` : ''}: ${details}`
+      );
+    }
+    this.config = result.data;
+  }
+
+  /**
+   * The calendar that applies to a client or office
+   * Unknown offices fall back to the default calendar.
+   */
+  resolve(selector: CalendarSelector = {}): WorkingCalendar {
+    const client = selector.client_id ? this.config.clients?.[selector.client_id] : undefined;
+    const officeName = client?.office ?? selector.office;
+    const base = this.config.default || {};
+    const office = (officeName && this.config.offices?.[officeName]) || {};
+
+    return {
+      timezone: client?.timezone ?? office.timezone ?? base.timezone ?? this.fallback.timezone,
+      hours: office.hours ?? base.hours ?? this.fallback.hours,
+      holidays: [...(base.holidays || []), ...(office.holidays || [])],
+    };
+  }
+
+  /**
+   * Whether `at` falls inside an open slot
+   */
+  isOpen(selector: CalendarSelector, at: Date, options: AvailabilityOptions = {}): boolean {
+    return this.nextOpen(selector, at, options)?.getTime() === at.getTime();
+  }
+
+  /**
+   * Earliest instant at or after `from` inside an open slot
+   * Null when nothing opens within a year.
+   */
+  nextOpen(selector: CalendarSelector, from: Date, options: AvailabilityOptions = {}): Date | null {
+    for (const slot of this.slots(this.resolve(selector), from, options)) {
+      if (from < slot.end) {
+        return from > slot.start ? from : slot.start;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * The instant `hours` of working time after `from`
+   * Holidays and closed weekdays do not count; blackout dates are not involved.
+   */
+  addBusinessHours(selector: CalendarSelector, from: Date, hours: number): Date {
+    const calendar = this.resolve(selector);
+    let remaining = hours * 60 * MINUTE_MS;
+
+    for (const slot of this.slots(calendar, from, { business_hours_only: true })) {
+      const start = from > slot.start ? from : slot.start;
+      if (start >= slot.end) {
+        continue;
+      }
+
+      const available = slot.end.getTime() - start.getTime();
+      if (remaining <= available) {
+        return new Date(start.getTime() + remaining);
+      }
+      remaining -= available;
+    }
+
+    // A calendar with no working hours at all
+    this.logger.warn(
+      'No working hours in business calendar - timeout counted in wall-clock hours',
+      {
+        timezone: calendar.timezone,
+      }
+    );
+    return new Date(from.getTime() + hours * 60 * MINUTE_MS);
+  }
+
+  /**
+   * Open slots day by day from the local date of `from`
+   */
+  private *slots(
+    calendar: WorkingCalendar,
+    from: Date,
+    options: AvailabilityOptions
+  ): Generator<{ start: Date; end: Date }> {
+    const blackouts = new Set(options.blackout_dates || []);
+    const holidays = new Set(calendar.holidays);
+    let day = localDate(from, calendar.timezone);
+
+    for (let i = 0; i < MAX_DAYS_AHEAD; i++, day = nextDate(day)) {
+      if (blackouts.has(day)) {
+        continue;
+      }
+
+      let window: WorkingHours | null | undefined = { start: '00:00', end: '24:00' };
+      if (options.business_hours_only) {
+        window = holidays.has(day) ? null : calendar.hours[WEEKDAYS[weekdayOf(day)]];
+      }
+      if (!window) {
+        continue;
+      }
+
+      yield {
+        start: zonedTime(day, window.start, calendar.timezone),
+        end: zonedTime(day, window.end, calendar.timezone),
+      };
+    }
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * SOP DEFINITION STORE - Revision History
+ *
+ * Every activated SOP version is saved as a revision in `sop_definitions`
+ * (supabase/migrations 001 and 005), so it survives restarts and can be viewed
+ * or restored. Only the latest revision of an SOP is active.
+ *
+ * Backends follow the event store: Supabase, a direct PostgreSQL, or memory
+ * (see createSOPDefinitionStore in SOPVersionManager.ts).
+ */
+
+import { SOPDefinition, SOPDefinitionChange } from './types.js';
+
+export type SOPApprovalMechanism = 'auto_approve' | 'silent_timeout' | 'explicit_human';
+
+/**
+ * One saved version of an SOP definition
+ */
+export interface SOPRevision {
+  sop_id: string;
+  /** 1, 2, 3... per SOP */
+  revision: number;
+  /** metadata.version of the definition */
+  version: string;
+  definition: SOPDefinition;
+  activated_at: string;
+  deactivated_at: string | null;
+  previous_revision: number | null;
+  /** null for definitions loaded from YAML as-is */
+  approval_mechanism: SOPApprovalMechanism | null;
+  proposal_id: string | null;
+  changes: SOPDefinitionChange[];
+}
+
+/**
+ * Contract every SOP definition backend must implement
+ */
+export interface SOPDefinitionStore {
+  readonly backend: string;
+
+  /**
+   * Verify connectivity / prepare storage
+   */
+  initialize(): Promise<void>;
+
+  /**
+   * Save a new active revision and deactivate the SOP's previous one
+   */
+  saveRevision(revision: SOPRevision): Promise<void>;
+
+  /**
+   * Every revision of an SOP, oldest first
+   */
+  listRevisions(sopId: string): Promise<SOPRevision[]>;
+
+  /**
+   * Release connections
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * A `sop_definitions` row
+ */
+export interface SOPDefinitionRow {
+  sop_id: string;
+  version: number;
+  semver: string;
+  definition: SOPDefinition;
+  activated_at: string;
+  deactivated_at: string | null;
+  previous_version: number | null;
+  approval_mechanism: SOPApprovalMechanism | null;
+  proposal_id: string | null;
+  changes: SOPDefinitionChange[];
+}
+
+export function toSOPDefinitionRow(revision: SOPRevision): SOPDefinitionRow {
+  return {
+    sop_id: revision.sop_id,
+    version: revision.revision,
+    semver: revision.version,
+    definition: revision.definition,
+    activated_at: revision.activated_at,
+    deactivated_at: revision.deactivated_at,
+    previous_version: revision.previous_revision,
+    approval_mechanism: revision.approval_mechanism,
+    proposal_id: revision.proposal_id,
+    changes: revision.changes,
+  };
+}
+
+export function fromSOPDefinitionRow(row: SOPDefinitionRow): SOPRevision {
+  return {
+    sop_id: row.sop_id,
+    revision: row.version,
+    version: row.semver || row.definition.metadata.version,
+    definition: row.definition,
+    activated_at: new Date(row.activated_at).toISOString(),
+    deactivated_at: row.deactivated_at ? new Date(row.deactivated_at).toISOString() : null,
+    previous_revision: row.previous_version,
+    approval_mechanism: row.approval_mechanism,
+    proposal_id: row.proposal_id,
+    changes: row.changes || [],
+  };
+}
@@ -9,28 +9,37 @@
  *
  * Core Principle:
  * "A process that cannot propose its own improvement is a dead process."
+ *
+ * An activated proposal is applied to the SOP definition and saved as a new
+ * revision through the SOPVersionManager, which hot-reloads it.
+ *
+ * Rollouts live in the event log: SOP_ROLLOUT_STARTED carries the candidate
+ * definition, and on initialize running and decided rollouts are rebuilt from
+ * it, their outcomes and their evaluation, so executions that run on a
+ * candidate resume after a restart.
  */
 
 import { EventBus } from '../../core/bus/EventBus.js';
+import { EntityType, EventEmitter, EventEnvelope, createEvent } from '../../core/events/types.js';
+import { EventPayload, TypedEventEnvelope } from '../../core/events/registry.js';
 import { EventStore } from '../../core/store/EventStore.js';
-import { SOPResolver } from '../../core/sop/SOPResolver.js';
-import { SOPDefinition, SOPStep } from '../../core/sop/types.js';
+import { SOPResolver, assertValidSOP } from '../../core/sop/SOPResolver.js';
+import { SOPRevision, SOPVersionManager } from '../../core/sop/SOPVersionManager.js';
+import { diffSOPDefinitions } from '../../core/sop/diff.js';
+import { SOPDefinition, SOPDefinitionChange } from '../../core/sop/types.js';
+import { applySOPChanges, incrementVersion } from '../../core/sop/versioning.js';
+import { SOPMetricComparison, SOPOutcome, compareOutcomes } from '../../core/sop/experiment.js';
 import { Logger } from '../../utils/logger.js';
 
 /**
- * SOP Version Proposal
+ * SOP Version Proposal, published as the SOP_VERSION_PROPOSED payload
  */
-export interface SOPVersionProposal {
+export type SOPVersionProposal = {
   proposal_id: string;
   sop_id: string;
   current_version: string;
   proposed_version: string;
-  changes: Array<{
-    type: 'increase_automation' | 'remove_step' | 'add_step' | 'reorder' | 'adjust_threshold';
-    step_id?: string;
-    change_description: string;
-    rationale: string;
-  }>;
+  changes: SOPDefinitionChange[];
   expected_impact: {
     automation_rate_delta: number; // +0.15 = 15% improvement
     cycle_time_delta_hours: number; // -2 = 2 hours faster
@@ -44,6 +53,59 @@ export interface SOPVersionProposal {
   };
   approval_required: 'silent_timeout' | 'explicit_human' | 'auto_approve';
   timeout_hours?: number;
+};
+
+/**
+ * An Economic Controller recommendation
+ */
+type Recommendation = EventPayload<'SOP_OPTIMIZATION_RECOMMENDED'>;
+
+/**
+ * Economic Controller change types and the SOP change each becomes
+ * Recommendations without a concrete SOP change (e.g. simplify) are left out of proposals.
+ */
+const RECOMMENDED_CHANGE_TYPES: Record<string, SOPDefinitionChange['type'] | undefined> = {
+  automate: 'increase_automation',
+  remove: 'remove_step',
+  reorder: 'reorder',
+};
+
+/**
+ * A proposed version running on a share of new executions before promotion
+ */
+export interface SOPRollout {
+  proposal: SOPVersionProposal;
+  control_version: string;
+  candidate: SOPDefinition;
+  changes_applied: SOPDefinitionChange[];
+  changes_skipped: Array<{ change: SOPDefinitionChange; reason: string }>;
+  share: number;
+  started_at: string;
+  outcomes: { control: SOPOutcome[]; candidate: SOPOutcome[] };
+  status: 'running' | 'promoted' | 'rolled_back';
+  comparison?: SOPMetricComparison[];
+  actual_impact?: SOPVersionProposal['expected_impact'] & { human_minutes_delta: number };
+  decided_at?: string;
+}
+
+/**
+ * Outcome of activating a proposal: the rollout it started (or promoted
+ * directly), or why it was dropped
+ */
+export type SOPActivation =
+  | { activated: true; rollout: SOPRollout }
+  | { activated: false; reason: string };
+
+export interface SOPEvolutionEngineOptions {
+  /**
+   * Share of new executions that run a proposed version before it is promoted
+   * (0 activates approved proposals directly)
+   */
+  rollout_share?: number;
+  /** Outcomes needed from each version before a rollout is evaluated */
+  min_executions_per_version?: number;
+  /** p-value below which a metric difference counts */
+  significance?: number;
 }
 
 /**
@@ -67,17 +129,33 @@ export class SOPEvolutionEngine {
   private eventBus: EventBus;
   private eventStore: EventStore;
   private sopResolver: SOPResolver;
+  private versions: SOPVersionManager;
   private logger: Logger;
   private evolutionMetrics: Map<string, SOPEvolutionMetrics>;
   private proposalTimeouts: Map<string, NodeJS.Timeout>;
+  private rollouts: Map<string, SOPRollout>;
+  private options: Required<SOPEvolutionEngineOptions>;
 
-  constructor(eventBus: EventBus, eventStore: EventStore, sopResolver: SOPResolver) {
+  constructor(
+    eventBus: EventBus,
+    eventStore: EventStore,
+    sopResolver: SOPResolver,
+    versions: SOPVersionManager,
+    options: SOPEvolutionEngineOptions = {}
+  ) {
     this.eventBus = eventBus;
     this.eventStore = eventStore;
     this.sopResolver = sopResolver;
+    this.versions = versions;
     this.logger = new Logger('SOPEvolutionEngine');
     this.evolutionMetrics = new Map();
     this.proposalTimeouts = new Map();
+    this.rollouts = new Map();
+    this.options = {
+      rollout_share: options.rollout_share ?? 0.2,
+      min_executions_per_version: options.min_executions_per_version ?? 30,
+      significance: options.significance ?? 0.05,
+    };
   }
 
   /**
@@ -87,14 +165,34 @@ export class SOPEvolutionEngine {
     this.logger.info('Initializing SOP Evolution Engine');
 
     // Subscribe to optimization recommendations
-    this.eventBus.subscribeToType('SOP_OPTIMIZATION_RECOMMENDED' as any, async (event) => {
-      await this.handleOptimizationRecommendation(event);
-    });
+    this.eventBus.subscribeToType(
+      'SOP_OPTIMIZATION_RECOMMENDED',
+      async (event) => {
+        await this.handleOptimizationRecommendation(event);
+      },
+      { name: 'SOPEvolutionEngine' }
+    );
 
     // Subscribe to automation opportunities
-    this.eventBus.subscribeToType('AUTOMATION_OPPORTUNITY_DETECTED' as any, async (event) => {
-      await this.handleAutomationOpportunity(event);
-    });
+    this.eventBus.subscribeToType(
+      'AUTOMATION_OPPORTUNITY_DETECTED',
+      async (event) => {
+        await this.handleAutomationOpportunity(event);
+      },
+      { name: 'SOPEvolutionEngine' }
+    );
+
+    // Measure versions under rollout
+    this.eventBus.subscribeToType(
+      'SOP_EXECUTION_COMPLETED',
+      async (event) => {
+        await this.handleExecutionCompleted(event);
+      },
+      { name: 'SOPEvolutionEngine' }
+    );
+
+    // Candidates must be known before executions running on them resume
+    await this.restoreRollouts();
 
     // Load existing SOPs and initialize tracking
     const sops = this.sopResolver.getActiveSOPs();
@@ -118,13 +216,122 @@ export class SOPEvolutionEngine {
 
     this.logger.info('SOP Evolution Engine initialized', {
       tracked_sops: this.evolutionMetrics.size,
+      running_rollouts: this.getRollouts().filter((r) => r.status === 'running').length,
     });
   }
 
+  /**
+   * Rebuild each SOP's latest rollout from the event log
+   * A running rollout takes its share of executions again; the candidate of a
+   * decided one stays available to executions still running on it.
+   */
+  private async restoreRollouts(): Promise<void> {
+    let events: EventEnvelope[];
+    try {
+      events = await this.eventStore.query({
+        eventTypes: [
+          'SOP_VERSION_PROPOSED',
+          'SOP_ROLLOUT_STARTED',
+          'SOP_ROLLOUT_EVALUATED',
+          'SOP_EXECUTION_COMPLETED',
+        ],
+      });
+    } catch (error) {
+      this.logger.warn('Could not load SOP rollouts - running rollouts are not resumed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+
+    const proposals = new Map<string, SOPVersionProposal>();
+    for (const event of events) {
+      switch (event.event_type) {
+        case 'SOP_VERSION_PROPOSED':
+          // Published as the proposal itself
+          proposals.set(event.entity_id, event.payload as unknown as SOPVersionProposal);
+          break;
+
+        case 'SOP_ROLLOUT_STARTED': {
+          const { payload } = event as TypedEventEnvelope<'SOP_ROLLOUT_STARTED'>;
+          const proposal = [...proposals.values()].find(
+            (p) => p.proposal_id === payload.proposal_id
+          );
+          try {
+            assertValidSOP(payload.candidate, `rollout ${payload.proposal_id}`);
+          } catch (error) {
+            this.logger.warn('Skipping SOP rollout without a valid candidate', {
+              proposal_id: payload.proposal_id,
+              sop_id: payload.sop_id,
+              error: error instanceof Error ? error.message : String(error),
+            });
+            break;
+          }
+          if (!proposal) {
+            this.logger.warn('Skipping SOP rollout without its proposal', {
+              proposal_id: payload.proposal_id,
+              sop_id: payload.sop_id,
+            });
+            break;
+          }
+
+          const changesApplied = payload.changes_applied || [];
+          const changesSkipped = payload.changes_skipped || [];
+          this.rollouts.set(payload.sop_id, {
+            proposal,
+            control_version: payload.control_version,
+            candidate: payload.candidate,
+            // Recorded from an SOPRollout
+            changes_applied: changesApplied as unknown as SOPDefinitionChange[],
+            changes_skipped: changesSkipped as unknown as SOPRollout['changes_skipped'],
+            share: payload.share,
+            started_at: event.created_at,
+            outcomes: { control: [], candidate: [] },
+            status: 'running',
+          });
+          break;
+        }
+
+        case 'SOP_ROLLOUT_EVALUATED': {
+          const { payload } = event as TypedEventEnvelope<'SOP_ROLLOUT_EVALUATED'>;
+          const rollout = this.rollouts.get(payload.sop_id);
+          if (rollout?.proposal.proposal_id === payload.proposal_id) {
+            rollout.status = payload.decision === 'promote' ? 'promoted' : 'rolled_back';
+            rollout.comparison = payload.comparison as unknown as SOPMetricComparison[];
+            rollout.decided_at = event.created_at;
+          }
+          break;
+        }
+
+        case 'SOP_EXECUTION_COMPLETED':
+          this.recordOutcome(event as TypedEventEnvelope<'SOP_EXECUTION_COMPLETED'>);
+          break;
+      }
+    }
+
+    for (const rollout of this.rollouts.values()) {
+      if (rollout.status === 'running') {
+        this.sopResolver.setRollout(rollout.candidate, rollout.share);
+        this.logger.info('SOP rollout resumed', {
+          proposal_id: rollout.proposal.proposal_id,
+          sop_id: rollout.proposal.sop_id,
+          version: `${rollout.control_version} vs ${rollout.candidate.metadata.version}`,
+          executions: {
+            control: rollout.outcomes.control.length,
+            candidate: rollout.outcomes.candidate.length,
+          },
+        });
+      } else {
+        this.sopResolver.addHistoricalVersion(rollout.candidate);
+      }
+    }
+  }
+
   /**
    * Handle optimization recommendation from Economic Controller
    */
-  private async handleOptimizationRecommendation(event: any): Promise<void> {
+  private async handleOptimizationRecommendation(
+    event: TypedEventEnvelope<'SOP_OPTIMIZATION_RECOMMENDED'>
+  ): Promise<void> {
     const sopId = event.payload.sop_id;
     const currentMetrics = event.payload.current_metrics;
     const recommendedChanges = event.payload.recommended_changes;
@@ -152,7 +359,9 @@ export class SOPEvolutionEngine {
   /**
    * Handle automation opportunity from Coverage Agent
    */
-  private async handleAutomationOpportunity(event: any): Promise<void> {
+  private async handleAutomationOpportunity(
+    event: TypedEventEnvelope<'AUTOMATION_OPPORTUNITY_DETECTED'>
+  ): Promise<void> {
     const taskPattern = event.payload.manual_task_pattern;
     const frequency = event.payload.frequency_per_month;
     const automationPotential = event.payload.automation_feasibility;
@@ -181,9 +390,9 @@ export class SOPEvolutionEngine {
    */
   private async generateVersionProposal(
     sopId: string,
-    currentMetrics: any,
-    changes: any[],
-    savings: any
+    currentMetrics: Recommendation['current_metrics'],
+    changes: Recommendation['recommended_changes'],
+    savings: Recommendation['potential_savings']
   ): Promise<SOPVersionProposal | null> {
     const sop = this.sopResolver.getSOPById(sopId);
     if (!sop) return null;
@@ -205,13 +414,15 @@ export class SOPEvolutionEngine {
       proposal_id: crypto.randomUUID(),
       sop_id: sopId,
       current_version: sop.metadata.version,
-      proposed_version: this.incrementVersion(sop.metadata.version),
-      changes: changes.map((c: any) => ({
-        type: c.change_type,
-        step_id: c.step_id,
-        change_description: `${c.change_type}: ${c.step_id}`,
-        rationale: c.expected_impact,
-      })),
+      proposed_version: incrementVersion(sop.metadata.version),
+      changes: changes
+        .filter((c) => RECOMMENDED_CHANGE_TYPES[c.change_type])
+        .map((c) => ({
+          type: RECOMMENDED_CHANGE_TYPES[c.change_type]!,
+          step_id: c.step_id,
+          change_description: `${c.change_type}: ${c.step_id}`,
+          rationale: c.expected_impact,
+        })),
       expected_impact: {
         automation_rate_delta: automationDelta,
         cycle_time_delta_hours: cycleTimeDelta,
@@ -236,7 +447,7 @@ export class SOPEvolutionEngine {
   private async generateAutomationProposal(
     sopId: string,
     taskPattern: string,
-    opportunityData: any
+    opportunityData: EventPayload<'AUTOMATION_OPPORTUNITY_DETECTED'>
   ): Promise<SOPVersionProposal | null> {
     const sop = this.sopResolver.getSOPById(sopId);
     if (!sop) return null;
@@ -245,7 +456,7 @@ export class SOPEvolutionEngine {
       proposal_id: crypto.randomUUID(),
       sop_id: sopId,
       current_version: sop.metadata.version,
-      proposed_version: this.incrementVersion(sop.metadata.version, 'minor'),
+      proposed_version: incrementVersion(sop.metadata.version, 'minor'),
       changes: [
         {
           type: 'increase_automation',
@@ -289,17 +500,18 @@ export class SOPEvolutionEngine {
     }
 
     // Emit proposal event
-    await this.eventBus.publish({
-      event_id: crypto.randomUUID(),
-      event_type: 'SOP_VERSION_PROPOSED' as any,
-      entity_type: 'SYSTEM' as any,
-      entity_id: proposal.sop_id,
-      payload: proposal as any,
-      confidence: proposal.evidence.confidence,
-      created_at: new Date().toISOString(),
-      emitted_by: 'system' as any,
-      requires_human: proposal.approval_required === 'explicit_human',
-    });
+    const payload: EventPayload<'SOP_VERSION_PROPOSED'> = proposal;
+    await this.eventBus.publish(
+      createEvent(
+        'SOP_VERSION_PROPOSED',
+        EntityType.SYSTEM,
+        proposal.sop_id,
+        payload,
+        EventEmitter.SYSTEM,
+        proposal.evidence.confidence,
+        proposal.approval_required === 'explicit_human'
+      )
+    );
 
     // Handle approval mechanism
     if (proposal.approval_required === 'auto_approve') {
@@ -321,8 +533,11 @@ export class SOPEvolutionEngine {
 
   /**
    * Activate SOP version (apply changes)
+   * With a rollout share configured, the new version first runs on that share
+   * of new executions; it is promoted or rolled back once both versions have
+   * enough measured outcomes (see evaluateRollout).
    */
-  private async activateSOPVersion(proposalId: string): Promise<void> {
+  private async activateSOPVersion(proposalId: string): Promise<SOPActivation> {
     // Find proposal
     let proposal: SOPVersionProposal | undefined;
     let sopMetrics: SOPEvolutionMetrics | undefined;
@@ -338,7 +553,7 @@ export class SOPEvolutionEngine {
 
     if (!proposal || !sopMetrics) {
       this.logger.warn('Proposal not found for activation', { proposal_id: proposalId });
-      return;
+      return { activated: false, reason: 'Proposal is not pending' };
     }
 
     this.logger.info('Activating SOP version', {
@@ -354,21 +569,379 @@ export class SOPEvolutionEngine {
       this.proposalTimeouts.delete(proposalId);
     }
 
-    // Update version history
+    // Remove from pending
+    sopMetrics.pending_proposals = sopMetrics.pending_proposals.filter(
+      (p) => p.proposal_id !== proposalId
+    );
+
+    // Apply the changes and write the new revision
+    const sop = this.sopResolver.getSOPById(proposal.sop_id);
+    if (!sop) {
+      this.logger.warn('SOP not found for activation', {
+        proposal_id: proposalId,
+        sop_id: proposal.sop_id,
+      });
+      return { activated: false, reason: `SOP ${proposal.sop_id} not found` };
+    }
+
+    const { definition, applied, skipped } = applySOPChanges(
+      sop,
+      proposal.changes,
+      proposal.proposed_version
+    );
+    for (const { change, reason } of skipped) {
+      this.logger.warn('Proposed SOP change not applied', {
+        proposal_id: proposalId,
+        change: change.change_description,
+        reason,
+      });
+    }
+
+    if (applied.length === 0) {
+      this.logger.warn('No proposed SOP change could be applied, dropping proposal', {
+        proposal_id: proposalId,
+        sop_id: proposal.sop_id,
+      });
+      return { activated: false, reason: 'None of the proposed changes could be applied' };
+    }
+
+    const rollout: SOPRollout = {
+      proposal,
+      control_version: sop.metadata.version,
+      candidate: definition,
+      changes_applied: applied,
+      changes_skipped: skipped,
+      share: this.options.rollout_share,
+      started_at: new Date().toISOString(),
+      outcomes: { control: [], candidate: [] },
+      status: 'running',
+    };
+
+    if (rollout.share <= 0 || rollout.share >= 1) {
+      if (!(await this.promote(rollout, sopMetrics))) {
+        return { activated: false, reason: 'The new version could not be saved' };
+      }
+      rollout.status = 'promoted';
+      rollout.decided_at = new Date().toISOString();
+      return { activated: true, rollout };
+    }
+
+    const running = this.rollouts.get(proposal.sop_id);
+    if (running?.status === 'running') {
+      this.logger.warn('A rollout is already running for this SOP, dropping proposal', {
+        proposal_id: proposalId,
+        sop_id: proposal.sop_id,
+        running_proposal_id: running.proposal.proposal_id,
+      });
+      return { activated: false, reason: 'A rollout is already running for this SOP' };
+    }
+
+    await this.startRollout(rollout);
+    return { activated: true, rollout };
+  }
+
+  /**
+   * Proposals waiting for a human or their silent-approval timeout
+   */
+  getPendingProposals(): SOPVersionProposal[] {
+    return Array.from(this.evolutionMetrics.values()).flatMap((m) => m.pending_proposals);
+  }
+
+  /**
+   * Approve a pending proposal and activate it
+   */
+  async approveProposal(proposalId: string, approvedBy?: string): Promise<SOPActivation> {
+    this.logger.info('SOP proposal approved', { proposal_id: proposalId, approved_by: approvedBy });
+    return this.activateSOPVersion(proposalId);
+  }
+
+  /**
+   * Reject a pending proposal (emits SOP_VERSION_REJECTED)
+   * Returns false when no such proposal is pending.
+   */
+  async rejectProposal(
+    proposalId: string,
+    options: { reason?: string; rejected_by?: string } = {}
+  ): Promise<boolean> {
+    const sopMetrics = Array.from(this.evolutionMetrics.values()).find((m) =>
+      m.pending_proposals.some((p) => p.proposal_id === proposalId)
+    );
+    const proposal = sopMetrics?.pending_proposals.find((p) => p.proposal_id === proposalId);
+    if (!sopMetrics || !proposal) {
+      return false;
+    }
+
+    const timeout = this.proposalTimeouts.get(proposalId);
+    if (timeout) {
+      clearTimeout(timeout);
+      this.proposalTimeouts.delete(proposalId);
+    }
+    sopMetrics.pending_proposals = sopMetrics.pending_proposals.filter(
+      (p) => p.proposal_id !== proposalId
+    );
+
+    const payload: EventPayload<'SOP_VERSION_REJECTED'> = {
+      proposal_id: proposalId,
+      sop_id: proposal.sop_id,
+      proposed_version: proposal.proposed_version,
+      reason: options.reason,
+      rejected_by: options.rejected_by,
+    };
+    await this.eventBus.publish(
+      createEvent(
+        'SOP_VERSION_REJECTED',
+        EntityType.SYSTEM,
+        proposal.sop_id,
+        payload,
+        EventEmitter.SYSTEM,
+        1.0,
+        false
+      )
+    );
+
+    this.logger.info('SOP proposal rejected', {
+      proposal_id: proposalId,
+      sop_id: proposal.sop_id,
+      rejected_by: options.rejected_by,
+    });
+    return true;
+  }
+
+  /**
+   * Send a share of new executions to the candidate version
+   */
+  private async startRollout(rollout: SOPRollout): Promise<void> {
+    const { proposal } = rollout;
+
+    this.rollouts.set(proposal.sop_id, rollout);
+    this.sopResolver.setRollout(rollout.candidate, rollout.share);
+
+    const payload: EventPayload<'SOP_ROLLOUT_STARTED'> = {
+      proposal_id: proposal.proposal_id,
+      sop_id: proposal.sop_id,
+      control_version: rollout.control_version,
+      candidate_version: proposal.proposed_version,
+      share: rollout.share,
+      min_executions: this.options.min_executions_per_version,
+      // The candidate is restored from here after a restart
+      candidate: rollout.candidate,
+      changes_applied: rollout.changes_applied,
+      changes_skipped: rollout.changes_skipped,
+    };
+    await this.eventBus.publish(
+      createEvent(
+        'SOP_ROLLOUT_STARTED',
+        EntityType.SYSTEM,
+        proposal.sop_id,
+        payload,
+        EventEmitter.SYSTEM,
+        1.0,
+        false
+      )
+    );
+
+    this.logger.info('SOP rollout started', {
+      proposal_id: proposal.proposal_id,
+      sop_id: proposal.sop_id,
+      version: `${rollout.control_version} vs ${proposal.proposed_version}`,
+      share: rollout.share,
+    });
+  }
+
+  /**
+   * Record the outcome of an execution that ran on either version of a rollout
+   */
+  private async handleExecutionCompleted(
+    event: TypedEventEnvelope<'SOP_EXECUTION_COMPLETED'>
+  ): Promise<void> {
+    const rollout = this.recordOutcome(event);
+    if (!rollout) {
+      return;
+    }
+
+    const min = this.options.min_executions_per_version;
+    if (rollout.outcomes.control.length >= min && rollout.outcomes.candidate.length >= min) {
+      await this.evaluateRollout(rollout);
+    }
+  }
+
+  /**
+   * Add an execution's outcome to its version's arm of a running rollout
+   * Returns the rollout it counted towards, if any.
+   */
+  private recordOutcome(
+    event: TypedEventEnvelope<'SOP_EXECUTION_COMPLETED'>
+  ): SOPRollout | undefined {
+    const rollout = this.rollouts.get(event.payload.sop_id);
+    if (!rollout || rollout.status !== 'running') {
+      return undefined;
+    }
+
+    const version = event.payload.sop_version;
+    const arm =
+      version === rollout.candidate.metadata.version
+        ? rollout.outcomes.candidate
+        : version === rollout.control_version
+          ? rollout.outcomes.control
+          : undefined;
+    if (!arm) {
+      return undefined;
+    }
+
+    arm.push({
+      cycle_time_hours: event.payload.cycle_time_hours,
+      automation_rate: event.payload.automation_rate,
+      human_minutes: event.payload.human_minutes,
+      cost: event.payload.cost,
+    });
+    return rollout;
+  }
+
+  /**
+   * Compare the two versions, report it, then promote the candidate or roll it back
+   * The candidate is rolled back when any metric is significantly worse.
+   */
+  private async evaluateRollout(rollout: SOPRollout): Promise<void> {
+    const { proposal } = rollout;
+    const comparison = compareOutcomes(
+      rollout.outcomes.control,
+      rollout.outcomes.candidate,
+      this.options.significance
+    );
+    const regressions = comparison.filter((c) => c.improved === false).map((c) => c.metric);
+    const decision = regressions.length > 0 ? 'rollback' : 'promote';
+
+    rollout.comparison = comparison;
+    rollout.actual_impact = actualImpact(comparison);
+    rollout.status = decision === 'promote' ? 'promoted' : 'rolled_back';
+    rollout.decided_at = new Date().toISOString();
+    this.sopResolver.clearRollout(proposal.sop_id);
+
+    const payload: EventPayload<'SOP_ROLLOUT_EVALUATED'> = {
+      proposal_id: proposal.proposal_id,
+      sop_id: proposal.sop_id,
+      control_version: rollout.control_version,
+      candidate_version: proposal.proposed_version,
+      decision,
+      regressions,
+      comparison,
+      actual_vs_expected: {
+        expected: proposal.expected_impact,
+        actual: rollout.actual_impact,
+        delta: {
+          automation_rate:
+            rollout.actual_impact.automation_rate_delta -
+            proposal.expected_impact.automation_rate_delta,
+          cycle_time_hours:
+            rollout.actual_impact.cycle_time_delta_hours -
+            proposal.expected_impact.cycle_time_delta_hours,
+          cost: rollout.actual_impact.cost_delta - proposal.expected_impact.cost_delta,
+        },
+      },
+    };
+    await this.eventBus.publish(
+      createEvent(
+        'SOP_ROLLOUT_EVALUATED',
+        EntityType.SYSTEM,
+        proposal.sop_id,
+        payload,
+        EventEmitter.SYSTEM,
+        1.0,
+        false
+      )
+    );
+
+    this.logger.info('SOP rollout evaluated', {
+      proposal_id: proposal.proposal_id,
+      sop_id: proposal.sop_id,
+      decision,
+      regressions,
+      executions: {
+        control: rollout.outcomes.control.length,
+        candidate: rollout.outcomes.candidate.length,
+      },
+    });
+
+    const sopMetrics = this.evolutionMetrics.get(proposal.sop_id);
+    if (decision === 'promote' && sopMetrics) {
+      await this.promote(rollout, sopMetrics);
+    }
+  }
+
+  /**
+   * End a running rollout without evaluating it: the candidate is rolled back
+   * and stops receiving executions
+   */
+  private async cancelRollout(rollout: SOPRollout, reason: string): Promise<void> {
+    const { proposal } = rollout;
+
+    rollout.status = 'rolled_back';
+    rollout.decided_at = new Date().toISOString();
+    this.sopResolver.clearRollout(proposal.sop_id);
+
+    const payload: EventPayload<'SOP_ROLLOUT_EVALUATED'> = {
+      proposal_id: proposal.proposal_id,
+      sop_id: proposal.sop_id,
+      control_version: rollout.control_version,
+      candidate_version: proposal.proposed_version,
+      decision: 'rollback',
+      reason,
+      regressions: [],
+      comparison: [],
+      actual_vs_expected: { expected: proposal.expected_impact },
+    };
+    await this.eventBus.publish(
+      createEvent(
+        'SOP_ROLLOUT_EVALUATED',
+        EntityType.SYSTEM,
+        proposal.sop_id,
+        payload,
+        EventEmitter.SYSTEM,
+        1.0,
+        false
+      )
+    );
+
+    this.logger.info('SOP rollout cancelled', {
+      proposal_id: proposal.proposal_id,
+      sop_id: proposal.sop_id,
+      reason,
+    });
+  }
+
+  /**
+   * Make the rollout's candidate the live version (false when it could not be saved)
+   */
+  private async promote(rollout: SOPRollout, sopMetrics: SOPEvolutionMetrics): Promise<boolean> {
+    const { proposal } = rollout;
+
+    let revision: SOPRevision;
+    try {
+      revision = await this.versions.activate(rollout.candidate, {
+        approval_mechanism: proposal.approval_required,
+        proposal_id: proposal.proposal_id,
+        changes: rollout.changes_applied,
+      });
+    } catch (error) {
+      this.logger.error('Failed to activate SOP version', {
+        proposal_id: proposal.proposal_id,
+        sop_id: proposal.sop_id,
+        error,
+      });
+      return false;
+    }
+
+    // Update version history, with measured outcomes when the version was rolled out
     const lastVersion = sopMetrics.version_history[sopMetrics.version_history.length - 1];
+    const impact = rollout.actual_impact || proposal.expected_impact;
     sopMetrics.version_history.push({
       version: proposal.proposed_version,
       activated_at: new Date().toISOString(),
-      automation_rate: lastVersion.automation_rate + proposal.expected_impact.automation_rate_delta,
-      cycle_time_hours: lastVersion.cycle_time_hours + proposal.expected_impact.cycle_time_delta_hours,
-      cost: lastVersion.cost + proposal.expected_impact.cost_delta,
+      automation_rate: lastVersion.automation_rate + impact.automation_rate_delta,
+      cycle_time_hours: lastVersion.cycle_time_hours + impact.cycle_time_delta_hours,
+      cost: lastVersion.cost + impact.cost_delta,
     });
 
-    // Remove from pending
-    sopMetrics.pending_proposals = sopMetrics.pending_proposals.filter(
-      (p) => p.proposal_id !== proposalId
-    );
-
     // Calculate evolution velocity
     const monthsSinceFirst =
       (new Date().getTime() - new Date(sopMetrics.version_history[0].activated_at).getTime()) /
@@ -376,52 +949,120 @@ export class SOPEvolutionEngine {
     sopMetrics.evolution_velocity = sopMetrics.version_history.length / Math.max(monthsSinceFirst, 1);
 
     // Emit activation event
-    await this.eventBus.publish({
-      event_id: crypto.randomUUID(),
-      event_type: 'SOP_VERSION_ACTIVATED' as any,
-      entity_type: 'SYSTEM' as any,
-      entity_id: proposal.sop_id,
-      payload: {
-        proposal_id: proposalId,
-        sop_id: proposal.sop_id,
-        version: proposal.proposed_version,
-        changes_applied: proposal.changes,
-        actual_impact: proposal.expected_impact, // Would track actual vs expected over time
-      } as any,
-      confidence: 1.0,
-      created_at: new Date().toISOString(),
-      emitted_by: 'system' as any,
-      requires_human: false,
-    });
+    const payload: EventPayload<'SOP_VERSION_ACTIVATED'> = {
+      proposal_id: proposal.proposal_id,
+      sop_id: proposal.sop_id,
+      version: proposal.proposed_version,
+      revision: revision.revision,
+      changes_applied: rollout.changes_applied,
+      changes_skipped: rollout.changes_skipped,
+      expected_impact: proposal.expected_impact,
+      actual_impact: rollout.actual_impact, // Measured during the rollout, if there was one
+    };
+    await this.eventBus.publish(
+      createEvent(
+        'SOP_VERSION_ACTIVATED',
+        EntityType.SYSTEM,
+        proposal.sop_id,
+        payload,
+        EventEmitter.SYSTEM,
+        1.0,
+        false
+      )
+    );
 
     this.logger.info('SOP version activated', {
       sop_id: proposal.sop_id,
       version: proposal.proposed_version,
-      automation_rate: lastVersion.automation_rate + proposal.expected_impact.automation_rate_delta,
+      automation_rate: lastVersion.automation_rate + impact.automation_rate_delta,
     });
-
-    // TODO: Actually update the SOP definition file
-    // This would require writing back to the YAML file
-    // For now, we track the evolution in memory
+    return true;
   }
 
   /**
-   * Helpers
+   * Roll an SOP back to an earlier revision
+   * The revision's definition is activated again as a new version and announced
+   * with SOP_VERSION_ACTIVATED, like any approved proposal. A rollout running
+   * on the SOP ends first, rolled back.
    */
+  async rollbackSOPVersion(
+    sopId: string,
+    toRevision: number,
+    options: { reason?: string; requested_by?: string } = {}
+  ): Promise<SOPRevision> {
+    const current = this.sopResolver.getSOPById(sopId);
+    if (!current) {
+      throw new Error(`SOP ${sopId} not found`);
+    }
+
+    // Its control version is being replaced, so it can no longer be measured or promoted
+    const running = this.rollouts.get(sopId);
+    if (running?.status === 'running') {
+      await this.cancelRollout(running, `Rolled back to revision ${toRevision}`);
+    }
 
-  private incrementVersion(version: string, type: 'major' | 'minor' = 'minor'): string {
-    const parts = version.split('.');
-    if (type === 'major') {
-      parts[0] = String(parseInt(parts[0]) + 1);
-      parts[1] = '0';
-      parts[2] = '0';
-    } else {
-      parts[1] = String(parseInt(parts[1]) + 1);
+    const proposalId = crypto.randomUUID();
+    const revision = await this.versions.restore(sopId, toRevision, {
+      approval_mechanism: 'explicit_human',
+      proposal_id: proposalId,
+    });
+    const diff = diffSOPDefinitions(current, revision.definition);
+
+    // The restored version's measurements stand in for the new one
+    const metrics = this.evolutionMetrics.get(sopId);
+    if (metrics) {
+      const target = await this.versions.getRevision(sopId, toRevision);
+      const restored =
+        metrics.version_history.find((v) => v.version === target?.version) ||
+        metrics.version_history[metrics.version_history.length - 1];
+      metrics.version_history.push({
+        ...restored,
+        version: revision.version,
+        activated_at: revision.activated_at,
+      });
     }
-    return parts.join('.');
+
+    const payload: EventPayload<'SOP_VERSION_ACTIVATED'> = {
+      proposal_id: proposalId,
+      sop_id: sopId,
+      version: revision.version,
+      revision: revision.revision,
+      changes_applied: [],
+      rollback: {
+        from_version: current.metadata.version,
+        to_revision: toRevision,
+        reason: options.reason,
+        requested_by: options.requested_by,
+        diff,
+      },
+    };
+    await this.eventBus.publish(
+      createEvent(
+        'SOP_VERSION_ACTIVATED',
+        EntityType.SYSTEM,
+        sopId,
+        payload,
+        EventEmitter.SYSTEM,
+        1.0,
+        false
+      )
+    );
+
+    this.logger.info('SOP version rolled back', {
+      sop_id: sopId,
+      version: `${current.metadata.version} → ${revision.version}`,
+      to_revision: toRevision,
+      change_count: diff.change_count,
+    });
+
+    return revision;
   }
 
-  private assessRiskDelta(changes: any[]): number {
+  /**
+   * Helpers
+   */
+
+  private assessRiskDelta(changes: Recommendation['recommended_changes']): number {
     // More aggressive changes = higher risk
     const automateCount = changes.filter((c) => c.change_type === 'automate').length;
     const removeCount = changes.filter((c) => c.change_type === 'remove').length;
@@ -442,6 +1083,13 @@ export class SOPEvolutionEngine {
     return null;
   }
 
+  /**
+   * Latest rollout of each SOP, running or decided
+   */
+  getRollouts(): SOPRollout[] {
+    return Array.from(this.rollouts.values());
+  }
+
   /**
    * Get evolution statistics
    */
@@ -469,3 +1117,19 @@ export class SOPEvolutionEngine {
     };
   }
 }
+
+/**
+ * Measured counterpart of a proposal's expected_impact (candidate minus control means)
+ */
+function actualImpact(comparison: SOPMetricComparison[]): NonNullable<SOPRollout['actual_impact']> {
+  const delta = (metric: SOPMetricComparison['metric']) =>
+    comparison.find((c) => c.metric === metric)?.delta ?? 0;
+
+  return {
+    automation_rate_delta: delta('automation_rate'),
+    cycle_time_delta_hours: delta('cycle_time_hours'),
+    cost_delta: delta('cost'),
+    human_minutes_delta: delta('human_minutes'),
+    risk_delta: 0, // Not measured
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * SOP EXECUTION STORE - Durable Execution State
+ *
+ * The SOPExecutor saves an execution on every step transition, so a restart
+ * resumes in-flight executions (with their timers and human waits) where
+ * they stopped. Rows land in `sop_executions`, which /api/sop/executions reads.
+ *
+ * Backends follow the event store: Supabase, a direct PostgreSQL, or memory
+ * (see createSOPExecutionStore in SOPExecutor.ts).
+ */
+
+import { correlationIdOf } from '../store/EventStoreAdapter.js';
+import { SOPExecution, SOPExecutionResult } from './types.js';
+
+/**
+ * Contract every SOP execution backend must implement
+ */
+export interface SOPExecutionStore {
+  readonly backend: string;
+
+  /**
+   * Verify connectivity / prepare storage
+   */
+  initialize(): Promise<void>;
+
+  /**
+   * Insert or replace an execution (keyed by execution_id)
+   */
+  save(execution: SOPExecution, result: SOPExecutionResult): Promise<void>;
+
+  /**
+   * Executions still in progress or escalated, oldest first
+   */
+  loadInFlight(): Promise<SOPExecution[]>;
+
+  /**
+   * Release connections
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * A `sop_executions` row (supabase/migrations 001 and 004)
+ */
+export interface SOPExecutionRow {
+  execution_id: string;
+  sop_id: string;
+  sop_semver: string;
+  correlation_id: string;
+  current_step: string | null;
+  started_at: string;
+  completed_at: string | null;
+  updated_at: string;
+  cycle_time_hours: number | null;
+  total_steps: number;
+  automated_steps: number;
+  automation_rate: number;
+  human_hours: number;
+  estimated_cost: number;
+  status: SOPExecutionResult['status'];
+  outcome: Record<string, unknown>;
+  execution_state: SOPExecution;
+}
+
+/**
+ * Flatten an execution into its table row
+ * total_steps and automated_steps count completed steps, matching automation_rate
+ */
+export function toSOPExecutionRow(
+  execution: SOPExecution,
+  result: SOPExecutionResult
+): SOPExecutionRow {
+  const completed = execution.steps.filter((r) => r.status === 'completed');
+  const finished = execution.completed_at !== undefined;
+
+  return {
+    execution_id: execution.context.execution_id,
+    sop_id: execution.context.sop_id,
+    sop_semver: execution.sop_version,
+    correlation_id: correlationIdOf(execution.trigger),
+    current_step: finished ? null : execution.context.current_step || null,
+    started_at: execution.context.started_at,
+    completed_at: execution.completed_at || null,
+    updated_at: new Date().toISOString(),
+    cycle_time_hours: finished ? result.cycle_time_hours : null,
+    total_steps: completed.length,
+    automated_steps: completed.filter((r) => r.completed_by === 'automation').length,
+    automation_rate: result.automation_rate,
+    human_hours: Math.round((result.human_minutes / 60) * 100) / 100,
+    estimated_cost: result.cost,
+    status: result.status,
+    outcome: {
+      entity_type: execution.context.entity_type,
+      entity_id: execution.context.entity_id,
+      trigger_event_id: execution.trigger.event_id,
+      deviations: result.deviations,
+      human_interventions: execution.context.human_interventions,
+    },
+    execution_state: execution,
+  };
+}
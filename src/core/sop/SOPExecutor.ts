@@ -0,0 +1,1200 @@
+/**
+ * SOP EXECUTOR
+ *
+ * Runs a resolved SOP as a state machine, one step at a time.
+ *
+ * - An event that resolves to an SOP starts an execution
+ * - Steps run once their dependencies are done, in definition order
+ * - Automated steps perform their actions (emit_event, notification,
+ *   decision, external_api); manual steps, steps that require a human and
+ *   low-confidence steps wait for a human via HUMAN_APPROVAL_REQUESTED
+ * - The request's HUMAN_APPROVAL_RESOLVED (or a HUMAN_OVERRIDE of it) resolves
+ *   the step; a rejection fails it
+ * - Failures are retried per failure_handling.retry_count, then handed to
+ *   the fallback_step, then escalated to a human, then fail the execution
+ * - timeout_hours bounds every attempt; human waits count it in working hours
+ *   when the automation policy sets business_hours_timeouts
+ * - A step that would run outside the policy's time restrictions (business
+ *   hours, blackout dates) is deferred to the next allowed slot
+ * - Step `when` guards, action conditions, success_criteria and escalation
+ *   thresholds are SOP expressions (see conditions.ts); a step whose guard is
+ *   false is skipped, and one whose success criteria do not hold has failed
+ *
+ * When no step can advance any more, the execution emits
+ * SOP_EXECUTION_COMPLETED with its measured cycle time and automation rate.
+ * An execution stays on the SOP version it started on, even after a newer
+ * version is activated.
+ *
+ * Every transition is saved to the SOPExecutionStore. On initialize, in-flight
+ * executions are reloaded: human waits re-arm their deadlines, deferred steps
+ * their slots, human decisions
+ * made while the engine was down are applied from the event log, and a step
+ * interrupted mid-attempt runs again.
+ */
+
+import { EventBus } from '../bus/EventBus.js';
+import { EventEnvelope, EventEmitter, EventType, createEvent } from '../events/types.js';
+import { isRegisteredEventType } from '../events/registry.js';
+import { EventStore, EventStoreConfig } from '../store/EventStore.js';
+import { SOPResolver } from './SOPResolver.js';
+import { SOPDefinition, SOPStep, SOPStepRun, SOPExecution, SOPExecutionResult } from './types.js';
+import { SOPExecutionStore } from './SOPExecutionStore.js';
+import {
+  declaredPayload,
+  escalationTriggered,
+  expressionScope,
+  resolvePayloadFrom,
+  unmetCriteria,
+} from './conditions.js';
+import { evaluateExpression } from './expressions.js';
+import { InMemorySOPExecutionStore } from './stores/InMemorySOPExecutionStore.js';
+import { PostgresSOPExecutionStore } from './stores/PostgresSOPExecutionStore.js';
+import { SupabaseSOPExecutionStore } from './stores/SupabaseSOPExecutionStore.js';
+import { Logger } from '../../utils/logger.js';
+
+export type { SOPExecutionStore } from './SOPExecutionStore.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Longest delay setTimeout supports; a timer further out re-arms on wake-up
+ */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+/**
+ * Human time booked for an intervention that does not report its own
+ */
+const DEFAULT_HUMAN_MINUTES = 15;
+
+/**
+ * Cost of human time ($100/hour)
+ */
+const HUMAN_COST_PER_MINUTE = 100 / 60;
+
+export interface SOPNotification {
+  execution_id: string;
+  sop_id: string;
+  step_id: string;
+  entity_type: string;
+  entity_id: string;
+  /** The execution's variables, for templates */
+  variables: Record<string, unknown>;
+  channels: string[];
+  template?: string;
+  recipients?: string[];
+  urgency?: string;
+  config: Record<string, unknown>;
+}
+
+/**
+ * Side effects the executor cannot perform through the event bus
+ */
+export interface SOPActionHandlers {
+  notify(notification: SOPNotification): Promise<void>;
+  callExternalApi(
+    api: string,
+    params: Record<string, unknown>,
+    execution: SOPExecution
+  ): Promise<Record<string, unknown> | void>;
+}
+
+const defaultActionHandlers = (logger: Logger): SOPActionHandlers => ({
+  async notify(notification) {
+    logger.info('SOP notification', { ...notification });
+  },
+  async callExternalApi(api) {
+    throw new Error(`No integration registered for external API '${api}'`);
+  },
+});
+
+/**
+ * Build the execution store matching the event store backend
+ * A custom event store adapter has no table to write to, so executions stay in memory.
+ */
+export function createSOPExecutionStore(config: EventStoreConfig): SOPExecutionStore {
+  switch (config.backend) {
+    case 'postgres':
+      return new PostgresSOPExecutionStore({
+        connectionString: config.connectionString,
+        ssl: config.ssl,
+      });
+    case 'memory':
+    case 'custom':
+      return new InMemorySOPExecutionStore();
+    case 'supabase':
+    case undefined:
+      return new SupabaseSOPExecutionStore({
+        supabaseUrl: config.supabaseUrl,
+        supabaseKey: config.supabaseKey,
+      });
+  }
+}
+
+export interface SOPExecutorOptions {
+  /**
+   * Where executions are saved (in memory by default)
+   */
+  executionStore?: SOPExecutionStore;
+  /**
+   * Event log, read on resume for human decisions made while the engine was down
+   */
+  eventStore?: EventStore;
+  handlers?: Partial<SOPActionHandlers>;
+  /**
+   * Current time for time restrictions, deadlines and timestamps (the wall
+   * clock by default). The simulator runs each execution at its trigger's time.
+   */
+  now?: () => Date;
+}
+
+export interface SOPExecutionFilter {
+  sop_id?: string;
+  status?: SOPExecutionResult['status'];
+}
+
+export class SOPExecutor {
+  private eventBus: EventBus;
+  private sopResolver: SOPResolver;
+  private handlers: SOPActionHandlers;
+  private executionStore: SOPExecutionStore;
+  private eventStore: EventStore | null;
+  private logger: Logger;
+  private executions: Map<string, SOPExecution>;
+  private timers: Map<string, NodeJS.Timeout>;
+  private subscriptionIds: string[];
+  private queue: Promise<void>;
+  private now: () => Date;
+
+  constructor(eventBus: EventBus, sopResolver: SOPResolver, options: SOPExecutorOptions = {}) {
+    this.eventBus = eventBus;
+    this.sopResolver = sopResolver;
+    this.logger = new Logger('SOPExecutor');
+    this.handlers = { ...defaultActionHandlers(this.logger), ...options.handlers };
+    this.executionStore = options.executionStore || new InMemorySOPExecutionStore();
+    this.eventStore = options.eventStore || null;
+    this.executions = new Map();
+    this.timers = new Map();
+    this.subscriptionIds = [];
+    this.queue = Promise.resolve();
+    this.now = options.now || (() => new Date());
+  }
+
+  /**
+   * Resume in-flight executions, then start executing SOPs for incoming events
+   */
+  async initialize(): Promise<void> {
+    let resumed: SOPExecution[] = [];
+    try {
+      await this.executionStore.initialize();
+      resumed = await this.executionStore.loadInFlight();
+    } catch (error) {
+      this.logger.warn('SOP execution store unavailable - executions will not survive a restart', {
+        backend: this.executionStore.backend,
+        error,
+      });
+      this.executionStore = new InMemorySOPExecutionStore();
+    }
+
+    for (const execution of resumed) {
+      this.executions.set(execution.context.execution_id, execution);
+    }
+
+    // Subscribe before resuming; live events queue behind the resume
+    this.subscriptionIds = [
+      this.eventBus.subscribe(this.handleEvent.bind(this), undefined, { name: 'SOPExecutor' }),
+    ];
+
+    if (resumed.length > 0) {
+      await this.enqueue(() => this.resume(resumed));
+    }
+
+    this.logger.info('SOP executor initialized', {
+      backend: this.executionStore.backend,
+      resumed: resumed.length,
+    });
+  }
+
+  /**
+   * Stop listening and cancel pending step timeouts
+   */
+  async shutdown(): Promise<void> {
+    for (const id of this.subscriptionIds) {
+      this.eventBus.unsubscribe(id);
+    }
+    this.subscriptionIds = [];
+
+    await this.queue;
+
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+
+    // In-flight executions are already saved and resume on the next start
+    await this.executionStore.close();
+
+    this.logger.info('SOP executor shut down');
+  }
+
+  /**
+   * Resolves once no work is queued, including work queued while waiting
+   */
+  async idle(): Promise<void> {
+    let queue: Promise<void>;
+    do {
+      queue = this.queue;
+      await queue;
+      // Let bus dispatches triggered by that work enqueue theirs
+      await new Promise((resolve) => setImmediate(resolve));
+    } while (queue !== this.queue);
+  }
+
+  /**
+   * Start an SOP for an event (normally done by resolving incoming events)
+   */
+  async start(sop: SOPDefinition, trigger: EventEnvelope): Promise<SOPExecution> {
+    let execution: SOPExecution | undefined;
+    await this.enqueue(async () => {
+      execution = await this.startExecution(sop, trigger);
+    });
+    return execution!;
+  }
+
+  getExecution(executionId: string): SOPExecution | undefined {
+    return this.executions.get(executionId);
+  }
+
+  /**
+   * Executions, most recently started first
+   */
+  listExecutions(filter: SOPExecutionFilter = {}): SOPExecution[] {
+    return Array.from(this.executions.values())
+      .filter((e) => !filter.sop_id || e.context.sop_id === filter.sop_id)
+      .filter((e) => !filter.status || e.status === filter.status)
+      .sort((a, b) => b.context.started_at.localeCompare(a.context.started_at));
+  }
+
+  /**
+   * Metrics of an execution (final once it has completed or failed)
+   */
+  getResult(executionId: string): SOPExecutionResult | undefined {
+    const execution = this.executions.get(executionId);
+    return execution ? this.buildResult(execution) : undefined;
+  }
+
+  /**
+   * Route an event: human decisions resume waiting steps, anything else may start an SOP
+   */
+  private async handleEvent(event: EventEnvelope): Promise<void> {
+    // Events an execution emitted itself never start another one
+    if (event.payload.sop_execution_id) {
+      return;
+    }
+
+    await this.enqueue(async () => {
+      if (event.event_type === 'HUMAN_APPROVAL_RESOLVED' || event.event_type === 'HUMAN_OVERRIDE') {
+        await this.handleHumanDecision(event);
+        return;
+      }
+
+      const sop = this.sopResolver.resolve(event, event.payload);
+      if (!sop || this.isStartedBy(event.event_id)) {
+        return;
+      }
+
+      // A version under rollout takes its share of new executions
+      await this.startExecution(this.sopResolver.selectVersion(sop, event.event_id), event);
+    });
+  }
+
+  private async startExecution(sop: SOPDefinition, trigger: EventEnvelope): Promise<SOPExecution> {
+    const fallbackTargets = new Set(
+      sop.steps.map((s) => s.failure_handling?.fallback_step).filter(Boolean)
+    );
+
+    const execution: SOPExecution = {
+      context: this.sopResolver.createExecutionContext(
+        sop,
+        trigger,
+        { ...trigger.payload },
+        this.now()
+      ),
+      sop_version: sop.metadata.version,
+      status: 'in_progress',
+      trigger,
+      steps: sop.steps.map((step) => ({
+        step_id: step.step_id,
+        status: 'pending',
+        attempts: 0,
+        active: !fallbackTargets.has(step.step_id),
+        escalated: false,
+      })),
+      deviations: [],
+      human_minutes: 0,
+    };
+    this.executions.set(execution.context.execution_id, execution);
+
+    this.logger.info('SOP execution started', {
+      execution_id: execution.context.execution_id,
+      sop_id: sop.metadata.id,
+      sop_version: sop.metadata.version,
+      trigger_event_id: trigger.event_id,
+      entity_id: trigger.entity_id,
+    });
+
+    await this.persist(execution);
+    await this.advance(execution);
+    return execution;
+  }
+
+  /**
+   * Pick reloaded executions back up where they stopped
+   */
+  private async resume(executions: SOPExecution[]): Promise<void> {
+    for (const execution of executions) {
+      for (const run of execution.steps) {
+        if (run.status === 'running') {
+          // Interrupted mid-attempt; its actions may run a second time
+          run.status = 'pending';
+          run.attempts = Math.max(0, run.attempts - 1);
+        } else if (run.status === 'waiting_human') {
+          this.armTimeout(execution, run);
+        } else if (run.status === 'deferred') {
+          this.armDeferral(execution, run);
+        }
+      }
+
+      this.logger.info('SOP execution resumed', {
+        execution_id: execution.context.execution_id,
+        sop_id: execution.context.sop_id,
+        current_step: execution.context.current_step,
+      });
+    }
+
+    await this.applyMissedDecisions(executions);
+
+    for (const execution of executions) {
+      if (!execution.completed_at) {
+        await this.advance(execution);
+      }
+    }
+  }
+
+  /**
+   * Apply human decisions appended while the engine was down
+   */
+  private async applyMissedDecisions(executions: SOPExecution[]): Promise<void> {
+    const waitingSince = executions
+      .flatMap((e) => e.steps)
+      .filter((r) => r.status === 'waiting_human' && r.started_at)
+      .map((r) => r.started_at!)
+      .sort()[0];
+
+    if (!this.eventStore || !waitingSince) {
+      return;
+    }
+
+    try {
+      const decisions = await this.eventStore.query({
+        eventTypes: ['HUMAN_APPROVAL_RESOLVED', 'HUMAN_OVERRIDE'],
+        fromDate: new Date(waitingSince),
+      });
+      decisions.sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+      for (const decision of decisions) {
+        await this.handleHumanDecision(decision);
+      }
+    } catch (error) {
+      this.logger.warn('Failed to read human decisions made during downtime', { error });
+    }
+  }
+
+  /**
+   * Run every step that is ready, then finish the execution if nothing is left to do
+   */
+  private async advance(execution: SOPExecution): Promise<void> {
+    const sop = this.sopResolver.getSOPById(execution.context.sop_id, execution.sop_version);
+    if (!sop) {
+      this.logger.error('SOP definition disappeared during execution', {
+        execution_id: execution.context.execution_id,
+        sop_id: execution.context.sop_id,
+        sop_version: execution.sop_version,
+      });
+      await this.finish(execution, 'failed');
+      return;
+    }
+
+    // A step that fails for good finishes the execution (sets completed_at)
+    let ready = execution.completed_at ? [] : this.readySteps(sop, execution);
+    while (ready.length > 0) {
+      for (const run of ready) {
+        const step = sop.steps.find((s) => s.step_id === run.step_id)!;
+        if (step.when && !evaluateExpression(step.when, this.scopeFor(execution))) {
+          this.skipStep(execution, run, step.when);
+          continue;
+        }
+        await this.runStep(sop, execution, step, run);
+        if (execution.completed_at) {
+          return;
+        }
+      }
+      ready = this.readySteps(sop, execution);
+    }
+
+    const busy = execution.steps.some(
+      (r) => r.status === 'running' || r.status === 'waiting_human' || r.status === 'deferred'
+    );
+    if (busy || execution.completed_at) {
+      return;
+    }
+
+    // Anything still pending is blocked behind a step that failed for good
+    const blocked = execution.steps.filter((r) => r.active && r.status === 'pending');
+    for (const run of blocked) {
+      run.status = 'skipped';
+      execution.deviations.push({
+        step_id: run.step_id,
+        deviation_type: 'blocked',
+        description: 'Dependencies never completed',
+      });
+    }
+
+    await this.finish(execution, blocked.length > 0 ? 'failed' : 'completed');
+  }
+
+  /**
+   * Active pending steps whose dependencies are done, in definition order
+   */
+  private readySteps(sop: SOPDefinition, execution: SOPExecution): SOPStepRun[] {
+    const runs = new Map(execution.steps.map((r) => [r.step_id, r]));
+
+    const satisfied = (stepId: string): boolean => {
+      const run = runs.get(stepId);
+      if (!run || !run.active) {
+        // Unknown steps and fallbacks that were never needed do not block anyone
+        return true;
+      }
+      if (run.status === 'completed' || run.status === 'skipped') {
+        return true;
+      }
+      // A failed step is covered once its fallback has completed
+      return run.status === 'failed' && !!run.fallback_to && runs.get(run.fallback_to)?.status === 'completed';
+    };
+
+    return sop.steps
+      .map((step) => runs.get(step.step_id)!)
+      .filter((run) => run.active && run.status === 'pending')
+      .filter((run) => {
+        const step = sop.steps.find((s) => s.step_id === run.step_id)!;
+        // A fallback takes over from the step that failed, so it does not wait on it
+        const fallbackFor = execution.steps.find((r) => r.fallback_to === run.step_id);
+        return (step.dependencies || [])
+          .filter((dep) => dep !== fallbackFor?.step_id)
+          .every(satisfied);
+      });
+  }
+
+  /**
+   * Attempt a step: hand it to a human, or perform its actions
+   */
+  private async runStep(
+    sop: SOPDefinition,
+    execution: SOPExecution,
+    step: SOPStep,
+    run: SOPStepRun
+  ): Promise<void> {
+    const context = execution.context;
+    const now = this.now();
+    const humanRequired = step.automation_level === 'manual' || step.requires_human;
+
+    // Outside the policy's time restrictions, wait for the next allowed slot
+    const slot = humanRequired
+      ? now
+      : this.sopResolver.nextAutomationSlot(sop, now, context.variables);
+    if (slot && slot > now) {
+      await this.deferStep(execution, run, slot);
+      return;
+    }
+
+    run.status = 'running';
+    run.attempts++;
+    run.started_at = run.started_at || this.now().toISOString();
+    run.error = undefined;
+    context.current_step = step.step_id;
+    await this.persist(execution);
+
+    const confidence = execution.trigger.confidence;
+    const thresholds = (step.actions || [])
+      .map((a) => a.config.confidence_threshold)
+      .filter((t): t is number => typeof t === 'number');
+    const lowConfidence = this.sopResolver.getEscalationRule(sop, 'low_confidence');
+    const automated =
+      this.sopResolver.canAutomate(sop, step.step_id, confidence, now, context.variables) &&
+      thresholds.every((t) => confidence >= t) &&
+      !(lowConfidence?.threshold !== undefined && escalationTriggered(lowConfidence, this.scopeFor(execution, run)));
+
+    const reason = humanRequired
+      ? 'Step requires a human'
+      : automated
+        ? 'Confidence meets automation threshold'
+        : !slot
+          ? 'Time restrictions allow no automation within a year'
+          : `Confidence ${confidence} below automation threshold`;
+
+    context.automation_decisions.push({
+      step_id: step.step_id,
+      automated,
+      confidence,
+      reason,
+      timestamp: this.now().toISOString(),
+    });
+
+    if (!automated) {
+      if (!humanRequired) {
+        execution.deviations.push({
+          step_id: step.step_id,
+          deviation_type: 'low_confidence',
+          description: reason,
+        });
+      }
+      await this.requestHuman(sop, execution, step, run, humanRequired ? undefined : 'low_confidence', reason);
+      return;
+    }
+
+    try {
+      await this.withTimeout(step, this.performActions(execution, step));
+
+      const unmet = unmetCriteria(step.success_criteria, this.scopeFor(execution, run));
+      if (unmet.length > 0) {
+        throw new Error(`Success criteria not met: ${unmet.join(', ')}`);
+      }
+    } catch (error) {
+      await this.failStep(sop, execution, step, run, error instanceof Error ? error.message : String(error));
+      return;
+    }
+
+    await this.completeStep(execution, run, 'automation');
+  }
+
+  /**
+   * Perform a step's declared actions in order; any failure fails the attempt
+   */
+  private async performActions(execution: SOPExecution, step: SOPStep): Promise<void> {
+    const context = execution.context;
+
+    for (const action of step.actions || []) {
+      const config = action.config;
+
+      // `condition` is an expression that must hold for the action to run
+      if (
+        typeof config.condition === 'string' &&
+        !evaluateExpression(config.condition, this.scopeFor(execution))
+      ) {
+        this.logger.debug('Action skipped by condition', {
+          execution_id: context.execution_id,
+          step_id: step.step_id,
+          condition: config.condition,
+        });
+        continue;
+      }
+
+      switch (action.type) {
+        case 'emit_event':
+          await this.emitStepEvent(execution, step, config);
+          break;
+
+        case 'notification':
+          await this.handlers.notify({
+            execution_id: context.execution_id,
+            sop_id: context.sop_id,
+            step_id: step.step_id,
+            entity_type: context.entity_type,
+            entity_id: context.entity_id,
+            variables: context.variables,
+            channels: (config.channels as string[]) || [],
+            template: config.template as string | undefined,
+            recipients: config.recipients as string[] | undefined,
+            urgency: config.urgency as string | undefined,
+            config,
+          });
+          break;
+
+        case 'decision': {
+          const missing = ((config.check_fields as string[]) || []).filter(
+            (field) => context.variables[field] === undefined || context.variables[field] === ''
+          );
+          if (missing.length > 0) {
+            throw new Error(`Missing required fields: ${missing.join(', ')}`);
+          }
+          break;
+        }
+
+        case 'external_api': {
+          const api = config.api as string;
+          const result = await this.handlers.callExternalApi(
+            api,
+            (config.params as Record<string, unknown>) || {},
+            execution
+          );
+          // Later actions can use what the API returned (e.g. a booked meeting time)
+          Object.assign(context.variables, result || {});
+          break;
+        }
+      }
+    }
+  }
+
+  /**
+   * Publish an emit_event action; the payload is the action's config fields and
+   * `payload`, plus `payload_from` fields read from the execution's scope
+   */
+  private async emitStepEvent(
+    execution: SOPExecution,
+    step: SOPStep,
+    config: Record<string, unknown>
+  ): Promise<void> {
+    const eventType = config.event_type;
+    if (typeof eventType !== 'string' || !isRegisteredEventType(eventType)) {
+      throw new Error(`Unknown event type '${String(eventType)}'`);
+    }
+
+    await this.publish(
+      execution,
+      eventType,
+      {
+        ...declaredPayload(config),
+        ...resolvePayloadFrom(config.payload_from, this.scopeFor(execution)),
+        sop_step_id: step.step_id,
+      },
+      this.emitterFor(step)
+    );
+  }
+
+  /**
+   * Park a step until a human resolves its approval request
+   */
+  private async requestHuman(
+    sop: SOPDefinition,
+    execution: SOPExecution,
+    step: SOPStep,
+    run: SOPStepRun,
+    trigger: 'low_confidence' | 'timeout' | 'error' | undefined,
+    reason: string
+  ): Promise<void> {
+    // A rule whose threshold is not reached leaves the request with default routing
+    const candidate = trigger ? this.sopResolver.getEscalationRule(sop, trigger) : undefined;
+    const rule =
+      candidate && escalationTriggered(candidate, this.scopeFor(execution, run)) ? candidate : undefined;
+    const deadline = step.timeout_hours
+      ? this.sopResolver
+          .timeoutDeadline(sop, this.now(), step.timeout_hours, execution.context.variables)
+          .toISOString()
+      : undefined;
+
+    const request = await this.publish(
+      execution,
+      'HUMAN_APPROVAL_REQUESTED',
+      {
+        request_type: 'sop_step',
+        request_reason: reason,
+        context: {
+          sop_id: sop.metadata.id,
+          execution_id: execution.context.execution_id,
+          step_id: step.step_id,
+          step_name: step.name,
+          entity_type: execution.context.entity_type,
+          entity_id: execution.context.entity_id,
+          escalate_to: rule?.escalate_to || [],
+          notification_channels: rule?.notification_channels || [],
+          escalation_urgency: rule?.urgency,
+          ...(rule?.include_context ? { variables: execution.context.variables } : {}),
+        },
+        suggested_action: step.description,
+        urgency: rule ? (rule.urgency === 'critical' ? 'high' : rule.urgency) : 'medium',
+        expires_at: deadline,
+        required_approvals: sop.automation_policy.require_dual_approval ? 2 : 1,
+        approver_roles: sop.automation_policy.approver_roles,
+        // An unanswered step times out, however the approvals file decides expiries
+        on_expiry: deadline ? 'rejected' : undefined,
+      },
+      EventEmitter.SYSTEM,
+      true
+    );
+
+    run.status = 'waiting_human';
+    run.approval_event_id = request.event_id;
+    run.deadline = deadline;
+    this.armTimeout(execution, run);
+    await this.persist(execution);
+
+    this.logger.info('SOP step waiting for human', {
+      execution_id: execution.context.execution_id,
+      step_id: step.step_id,
+      approval_event_id: request.event_id,
+      reason,
+    });
+  }
+
+  /**
+   * Resolve a waiting step from a human decision on its approval request
+   * HUMAN_APPROVAL_RESOLVED: a rejection fails the step (an expired request
+   * times it out); amended_decision may carry human_minutes and variables
+   * HUMAN_OVERRIDE: new_decision.outcome 'completed' (default) or 'failed',
+   * plus human_minutes and variables
+   * human_minutes: time the human spent
+   * variables: values merged into the execution context
+   */
+  private async handleHumanDecision(event: EventEnvelope): Promise<void> {
+    const originalEventId = event.payload.original_event_id as string;
+    const resolved = event.event_type === 'HUMAN_APPROVAL_RESOLVED';
+    const decidedBy = (resolved ? event.payload.decided_by : event.payload.overridden_by) as string;
+    const decision = ((resolved ? event.payload.amended_decision : event.payload.new_decision) ||
+      {}) as Record<string, unknown>;
+    const rejected = resolved
+      ? event.payload.decision === 'rejected'
+      : decision.outcome === 'failed';
+    const reason = (
+      resolved ? event.payload.notes || event.payload.decision : event.payload.override_reason
+    ) as string;
+    const expired = resolved && event.payload.expired === true;
+
+    for (const execution of this.executions.values()) {
+      const run = execution.steps.find(
+        (r) => r.status === 'waiting_human' && r.approval_event_id === originalEventId
+      );
+      if (!run) {
+        continue;
+      }
+
+      const sop = this.sopResolver.getSOPById(execution.context.sop_id, execution.sop_version);
+      const step = sop?.steps.find((s) => s.step_id === run.step_id);
+      if (!sop || !step) {
+        return;
+      }
+
+      const minutes =
+        typeof decision.human_minutes === 'number' ? decision.human_minutes : DEFAULT_HUMAN_MINUTES;
+
+      this.clearTimeout(execution, run);
+      if (!expired) {
+        execution.human_minutes += minutes;
+        execution.context.human_interventions.push({
+          step_id: run.step_id,
+          intervened_by: decidedBy,
+          reason,
+          timestamp: event.created_at,
+        });
+      }
+      Object.assign(
+        execution.context.variables,
+        (decision.variables as Record<string, unknown>) || {}
+      );
+
+      if (expired && rejected) {
+        await this.failStep(
+          sop,
+          execution,
+          step,
+          run,
+          `No human response within ${step.timeout_hours} hour(s)`,
+          'timeout'
+        );
+      } else if (rejected) {
+        await this.failStep(sop, execution, step, run, `Rejected by ${decidedBy}`, 'rejected');
+      } else {
+        await this.completeStep(execution, run, 'human');
+      }
+
+      if (!execution.completed_at) {
+        const stillEscalated = execution.steps.some(
+          (r) => r.status === 'waiting_human' && r.escalated
+        );
+        execution.status = stillEscalated ? 'escalated' : 'in_progress';
+        await this.persist(execution);
+      }
+      await this.advance(execution);
+      return;
+    }
+  }
+
+  /**
+   * Apply failure_handling: retry, then fallback step, then human escalation
+   * A human rejection skips straight to the fallback step
+   */
+  private async failStep(
+    sop: SOPDefinition,
+    execution: SOPExecution,
+    step: SOPStep,
+    run: SOPStepRun,
+    error: string,
+    cause: 'error' | 'timeout' | 'rejected' = 'error'
+  ): Promise<void> {
+    const handling = step.failure_handling;
+    const final = run.escalated || cause === 'rejected';
+    run.error = error;
+
+    execution.deviations.push({
+      step_id: step.step_id,
+      deviation_type: cause === 'error' ? 'step_failed' : cause,
+      description: error,
+    });
+
+    this.logger.warn('SOP step failed', {
+      execution_id: execution.context.execution_id,
+      step_id: step.step_id,
+      attempt: run.attempts,
+      error,
+    });
+
+    if (!final && run.attempts <= (handling?.retry_count || 0)) {
+      await this.runStep(sop, execution, step, run);
+      return;
+    }
+
+    const fallback = execution.steps.find((r) => r.step_id === handling?.fallback_step);
+    if (fallback && !fallback.active) {
+      run.status = 'failed';
+      run.finished_at = this.now().toISOString();
+      run.fallback_to = fallback.step_id;
+      fallback.active = true;
+      execution.deviations.push({
+        step_id: step.step_id,
+        deviation_type: 'fallback',
+        description: `Handed over to ${fallback.step_id}`,
+      });
+      await this.persist(execution);
+      return;
+    }
+
+    if (!final && (handling?.escalate_to_human ?? true)) {
+      run.escalated = true;
+      execution.status = 'escalated';
+      execution.deviations.push({
+        step_id: step.step_id,
+        deviation_type: 'escalated',
+        description: `Escalated to a human after ${run.attempts} attempt(s)`,
+      });
+      await this.requestHuman(sop, execution, step, run, cause as 'error' | 'timeout', error);
+      return;
+    }
+
+    run.status = 'failed';
+    run.finished_at = this.now().toISOString();
+    await this.finish(execution, 'failed');
+  }
+
+  /**
+   * Hold a step back until its next allowed slot; the attempt is not counted
+   */
+  private async deferStep(execution: SOPExecution, run: SOPStepRun, until: Date): Promise<void> {
+    run.status = 'deferred';
+    run.deferred_until = until.toISOString();
+    this.armDeferral(execution, run);
+    await this.persist(execution);
+
+    this.logger.info('SOP step deferred by time restrictions', {
+      execution_id: execution.context.execution_id,
+      step_id: run.step_id,
+      deferred_until: run.deferred_until,
+    });
+  }
+
+  /**
+   * Skip a step whose `when` guard is false; dependents proceed without it
+   */
+  private skipStep(execution: SOPExecution, run: SOPStepRun, guard: string): void {
+    run.status = 'skipped';
+    run.finished_at = this.now().toISOString();
+
+    this.logger.info('SOP step skipped by guard', {
+      execution_id: execution.context.execution_id,
+      step_id: run.step_id,
+      when: guard,
+    });
+  }
+
+  /**
+   * Expression scope for an execution: trigger event, variables and, for a
+   * step attempt, its confidence, attempts and elapsed hours
+   */
+  private scopeFor(execution: SOPExecution, run?: SOPStepRun): Record<string, unknown> {
+    return expressionScope(execution.trigger, execution.context.variables, {
+      confidence: execution.trigger.confidence,
+      attempts: run?.attempts ?? 0,
+      elapsed_hours: run?.started_at
+        ? (this.now().getTime() - new Date(run.started_at).getTime()) / HOUR_MS
+        : 0,
+    });
+  }
+
+  private async completeStep(
+    execution: SOPExecution,
+    run: SOPStepRun,
+    completedBy: 'automation' | 'human'
+  ): Promise<void> {
+    run.status = 'completed';
+    run.completed_by = completedBy;
+    run.finished_at = this.now().toISOString();
+    run.approval_event_id = undefined;
+    run.deadline = undefined;
+
+    this.logger.info('SOP step completed', {
+      execution_id: execution.context.execution_id,
+      step_id: run.step_id,
+      completed_by: completedBy,
+    });
+
+    await this.persist(execution);
+  }
+
+  /**
+   * Close the execution and report its economics
+   */
+  private async finish(
+    execution: SOPExecution,
+    status: 'completed' | 'failed'
+  ): Promise<void> {
+    for (const run of execution.steps) {
+      this.clearTimeout(execution, run);
+      if (run.status === 'pending' || run.status === 'deferred') {
+        run.status = 'skipped';
+      }
+    }
+
+    execution.status = status;
+    execution.completed_at = this.now().toISOString();
+    await this.persist(execution);
+
+    const result = this.buildResult(execution);
+
+    try {
+      await this.publish(execution, 'SOP_EXECUTION_COMPLETED', {
+        sop_id: result.sop_id,
+        sop_version: execution.sop_version,
+        execution_id: result.execution_id,
+        status,
+        cycle_time_hours: result.cycle_time_hours,
+        automation_rate: result.automation_rate,
+        human_minutes: result.human_minutes,
+        cost: result.cost,
+        deviations: result.deviations,
+      });
+    } catch (error) {
+      this.logger.error('Failed to emit SOP execution result', {
+        execution_id: result.execution_id,
+        error,
+      });
+    }
+
+    this.logger.info('SOP execution finished', {
+      execution_id: result.execution_id,
+      sop_id: result.sop_id,
+      status,
+      cycle_time_hours: result.cycle_time_hours,
+      automation_rate: result.automation_rate,
+    });
+  }
+
+  private buildResult(execution: SOPExecution): SOPExecutionResult {
+    const end = execution.completed_at
+      ? new Date(execution.completed_at).getTime()
+      : this.now().getTime();
+    const cycleTimeHours = (end - new Date(execution.context.started_at).getTime()) / HOUR_MS;
+
+    // Share of finished steps that no human had to touch
+    const completed = execution.steps.filter((r) => r.status === 'completed');
+    const automated = completed.filter((r) => r.completed_by === 'automation');
+
+    return {
+      sop_id: execution.context.sop_id,
+      execution_id: execution.context.execution_id,
+      status: execution.status,
+      completed_at: execution.completed_at,
+      cycle_time_hours: Math.round(cycleTimeHours * 100) / 100,
+      automation_rate:
+        completed.length > 0 ? Math.round((automated.length / completed.length) * 100) / 100 : 0,
+      human_minutes: execution.human_minutes,
+      cost: Math.round(execution.human_minutes * HUMAN_COST_PER_MINUTE * 100) / 100,
+      deviations: execution.deviations,
+    };
+  }
+
+  /**
+   * Save an execution; a store outage is logged, the execution keeps running in memory
+   */
+  private async persist(execution: SOPExecution): Promise<void> {
+    try {
+      await this.executionStore.save(execution, this.buildResult(execution));
+    } catch (error) {
+      this.logger.error('Failed to save SOP execution', {
+        execution_id: execution.context.execution_id,
+        error,
+      });
+    }
+  }
+
+  /**
+   * Publish an event on behalf of an execution, caused by its trigger
+   */
+  private async publish(
+    execution: SOPExecution,
+    eventType: EventType,
+    payload: Record<string, unknown>,
+    emittedBy: EventEmitter = EventEmitter.SYSTEM,
+    requiresHuman: boolean = false
+  ): Promise<EventEnvelope> {
+    const event = createEvent(
+      eventType,
+      execution.context.entity_type,
+      execution.context.entity_id,
+      { ...payload, sop_execution_id: execution.context.execution_id },
+      emittedBy,
+      1.0,
+      requiresHuman,
+      execution.trigger
+    );
+
+    await this.eventBus.publish(event);
+    return event;
+  }
+
+  private emitterFor(step: SOPStep): EventEmitter {
+    const emitters = Object.values(EventEmitter) as string[];
+    return step.responsible_agent && emitters.includes(step.responsible_agent)
+      ? (step.responsible_agent as EventEmitter)
+      : EventEmitter.SYSTEM;
+  }
+
+  /**
+   * Bound an automated attempt by the step's timeout_hours
+   */
+  private async withTimeout(step: SOPStep, work: Promise<void>): Promise<void> {
+    if (!step.timeout_hours) {
+      return work;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      const arm = (remaining: number): void => {
+        timer = setTimeout(
+          () =>
+            remaining > MAX_TIMER_MS
+              ? arm(remaining - MAX_TIMER_MS)
+              : reject(new Error(`Timed out after ${step.timeout_hours} hour(s)`)),
+          Math.min(remaining, MAX_TIMER_MS)
+        );
+      };
+      arm(step.timeout_hours! * HOUR_MS);
+    });
+
+    try {
+      await Promise.race([work, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Fail a human wait once its deadline passes
+   */
+  private armTimeout(execution: SOPExecution, run: SOPStepRun): void {
+    if (!run.deadline) {
+      return;
+    }
+
+    const key = `${execution.context.execution_id}:${run.step_id}`;
+    const approvalEventId = run.approval_event_id;
+    const delay = Math.max(0, new Date(run.deadline).getTime() - this.now().getTime());
+
+    this.timers.set(
+      key,
+      setTimeout(() => {
+        this.timers.delete(key);
+        if (new Date(run.deadline!).getTime() > this.now().getTime()) {
+          this.armTimeout(execution, run);
+          return;
+        }
+        void this.enqueue(async () => {
+          // Resolved or re-requested in the meantime
+          if (run.status !== 'waiting_human' || run.approval_event_id !== approvalEventId) {
+            return;
+          }
+
+          const sop = this.sopResolver.getSOPById(execution.context.sop_id, execution.sop_version);
+          const step = sop?.steps.find((s) => s.step_id === run.step_id);
+          if (!sop || !step) {
+            return;
+          }
+
+          await this.failStep(
+            sop,
+            execution,
+            step,
+            run,
+            `No human response within ${step.timeout_hours} hour(s)`,
+            'timeout'
+          );
+          await this.advance(execution);
+        });
+      }, Math.min(delay, MAX_TIMER_MS))
+    );
+  }
+
+  /**
+   * Put a deferred step back in line once its slot opens
+   */
+  private armDeferral(execution: SOPExecution, run: SOPStepRun): void {
+    if (!run.deferred_until) {
+      return;
+    }
+
+    const key = `${execution.context.execution_id}:${run.step_id}`;
+    const delay = Math.max(0, new Date(run.deferred_until).getTime() - this.now().getTime());
+
+    this.timers.set(
+      key,
+      setTimeout(() => {
+        this.timers.delete(key);
+        void this.enqueue(async () => {
+          if (run.status !== 'deferred' || execution.completed_at) {
+            return;
+          }
+
+          // runStep checks the restrictions again, so an early wake-up defers once more
+          run.status = 'pending';
+          run.deferred_until = undefined;
+          await this.advance(execution);
+        });
+      }, Math.min(delay, MAX_TIMER_MS))
+    );
+  }
+
+  private clearTimeout(execution: SOPExecution, run: SOPStepRun): void {
+    const key = `${execution.context.execution_id}:${run.step_id}`;
+    const timer = this.timers.get(key);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(key);
+    }
+  }
+
+  private isStartedBy(eventId: string): boolean {
+    for (const execution of this.executions.values()) {
+      if (execution.trigger.event_id === eventId) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Process one event or timer at a time so executions never interleave mid-step
+   */
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(task);
+    this.queue = run.catch((error) => {
+      this.logger.error('SOP executor task failed', { error });
+    });
+    return run;
+  }
+}
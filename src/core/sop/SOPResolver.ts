@@ -5,24 +5,95 @@
  * Loads SOP definitions and provides them to agents.
  *
  * Critical: This sits BETWEEN events and agent reasoning.
+ *
+ * When several SOPs match, the highest metadata.priority wins, then the most
+ * specific: the one whose preconditions constrained the input the most.
+ * Active SOPs that can match the same input with the same rank are reported
+ * as conflicts when the definitions load.
+ *
+ * Definitions can also be registered at runtime (a newly activated version,
+ * see SOPVersionManager). Superseded versions stay available by version so
+ * executions that started on them can finish on them.
+ *
+ * During a rollout, a candidate version takes a share of new executions
+ * (selectVersion); the rest stay on the live version.
+ *
+ * Time restrictions of an automation policy are evaluated against the business
+ * calendar of the execution's client_id or office (see BusinessCalendar).
  */
 
+import { createHash } from 'crypto';
 import { readFile, readdir } from 'fs/promises';
 import { join } from 'path';
 import { parse } from 'yaml';
 import { SOPDefinition, SOPPrecondition, validateSOP, SOPExecutionContext } from './types.js';
 import { EventEnvelope, EntityType } from '../events/types.js';
+import {
+  compileSOPExpressions,
+  criterionExpression,
+  expressionScope,
+  isComparisonCriterion,
+} from './conditions.js';
+import { evaluateExpression } from './expressions.js';
+import { BusinessCalendar, CalendarSelector } from './BusinessCalendar.js';
 import { Logger } from '../../utils/logger.js';
 
+/**
+ * A matching SOP and why it matched
+ */
+export interface SOPMatch {
+  sop: SOPDefinition;
+  priority: number;
+  /** Number of preconditions that constrained this input */
+  specificity: number;
+  reasons: string[];
+}
+
+/**
+ * Two active SOPs that can match the same input with equal rank
+ */
+export interface SOPConflict {
+  sop_ids: [string, string];
+  priority: number;
+  specificity: number;
+  /** Context fields the clashing input leaves out */
+  missing_fields: string[];
+}
+
+/**
+ * A candidate version running alongside the live one
+ */
+export interface SOPRolloutSplit {
+  candidate: SOPDefinition;
+  /** Share of new executions (0..1) that run the candidate */
+  share: number;
+}
+
+/**
+ * Context fields whose preconditions are only checked when the input carries them
+ */
+const OPTIONAL_FIELDS = ['budget', 'service_type'] as const;
+
+type OptionalField = (typeof OPTIONAL_FIELDS)[number];
+
 export class SOPResolver {
   private sops: Map<string, SOPDefinition>;
+  private sopFiles: Map<string, string>;
+  /** Superseded definitions keyed by `id@version` */
+  private history: Map<string, SOPDefinition>;
+  private rollouts: Map<string, SOPRolloutSplit>;
   private logger: Logger;
   private sopDirectory: string;
+  private calendar: BusinessCalendar;
 
-  constructor(sopDirectory: string = './sops') {
+  constructor(sopDirectory: string = './sops', calendar: BusinessCalendar = new BusinessCalendar()) {
     this.sops = new Map();
+    this.sopFiles = new Map();
+    this.history = new Map();
+    this.rollouts = new Map();
     this.logger = new Logger('SOPResolver');
     this.sopDirectory = sopDirectory;
+    this.calendar = calendar;
   }
 
   /**
@@ -40,6 +111,12 @@ export class SOPResolver {
       }
 
       this.logger.info('SOP definitions loaded', { count: this.sops.size });
+
+      for (const conflict of this.getConflicts()) {
+        this.logger.warn('SOPs can match the same input with equal rank; set metadata.priority', {
+          ...conflict,
+        });
+      }
     } catch (error) {
       this.logger.error('Failed to load SOPs', { error });
       throw error;
@@ -52,57 +129,206 @@ export class SOPResolver {
   private async loadSOP(filepath: string): Promise<void> {
     try {
       const content = await readFile(filepath, 'utf-8');
-      const sopData = parse(content);
-
-      if (!validateSOP(sopData)) {
-        throw new Error(`Invalid SOP definition in ${filepath}`);
-      }
-
-      this.sops.set(sopData.metadata.id, sopData);
-
-      this.logger.info('SOP loaded', {
-        id: sopData.metadata.id,
-        name: sopData.metadata.name,
-        version: sopData.metadata.version,
-      });
+      this.register(parse(content), filepath);
     } catch (error) {
       this.logger.error('Failed to load SOP', { filepath, error });
       throw error;
     }
   }
 
+  /**
+   * Validate a definition and make it the live version of its SOP
+   * The version it replaces stays available through getSOPById(id, version).
+   */
+  register(sopData: unknown, filepath?: string): SOPDefinition {
+    assertValidSOP(sopData, filepath || 'SOP definition');
+
+    const previous = this.sops.get(sopData.metadata.id);
+    if (previous && previous.metadata.version !== sopData.metadata.version) {
+      this.addHistoricalVersion(previous);
+    }
+
+    this.sops.set(sopData.metadata.id, sopData);
+    if (filepath) {
+      this.sopFiles.set(sopData.metadata.id, filepath);
+    }
+
+    this.logger.info('SOP loaded', {
+      id: sopData.metadata.id,
+      name: sopData.metadata.name,
+      version: sopData.metadata.version,
+    });
+
+    return sopData;
+  }
+
+  /**
+   * Keep a superseded definition for executions still running on it
+   */
+  addHistoricalVersion(sop: SOPDefinition): void {
+    this.history.set(`${sop.metadata.id}@${sop.metadata.version}`, sop);
+  }
+
   /**
    * Resolve which SOP applies to an event
    */
   resolve(event: EventEnvelope, context?: Record<string, unknown>): SOPDefinition | null {
+    const [best, runnerUp] = this.resolveAll(event, context);
+
+    if (!best) {
+      this.logger.debug('No SOP matched', {
+        event_type: event.event_type,
+        entity_type: event.entity_type,
+      });
+      return null;
+    }
+
+    if (runnerUp && compareMatches(best, runnerUp) === 0) {
+      this.logger.warn('Ambiguous SOP resolution, picking by id', {
+        candidates: [best.sop.metadata.id, runnerUp.sop.metadata.id],
+        event_type: event.event_type,
+        entity_id: event.entity_id,
+      });
+    }
+
+    this.logger.debug('SOP resolved', {
+      sop_id: best.sop.metadata.id,
+      event_type: event.event_type,
+      entity_id: event.entity_id,
+      reasons: best.reasons,
+    });
+    return best.sop;
+  }
+
+  /**
+   * Every active SOP matching an event, best first, with the preconditions that matched
+   */
+  resolveAll(event: EventEnvelope, context?: Record<string, unknown>): SOPMatch[] {
+    const matches: SOPMatch[] = [];
+
     for (const sop of this.sops.values()) {
       if (sop.metadata.status !== 'active') {
         continue;
       }
 
-      if (this.matchesPreconditions(sop.preconditions, event, context)) {
-        this.logger.debug('SOP resolved', {
-          sop_id: sop.metadata.id,
-          event_type: event.event_type,
-          entity_id: event.entity_id,
+      const reasons = this.matchPreconditions(sop.preconditions, event, context);
+      if (reasons) {
+        matches.push({
+          sop,
+          priority: sop.metadata.priority ?? 0,
+          specificity: reasons.length,
+          reasons,
         });
-        return sop;
       }
     }
 
-    this.logger.debug('No SOP matched', {
-      event_type: event.event_type,
-      entity_type: event.entity_type,
+    return matches.sort(
+      (a, b) => compareMatches(a, b) || a.sop.metadata.id.localeCompare(b.sop.metadata.id)
+    );
+  }
+
+  /**
+   * Pairs of active SOPs whose preconditions overlap and that rank equally
+   */
+  getConflicts(): SOPConflict[] {
+    const active = this.getActiveSOPs();
+    const conflicts: SOPConflict[] = [];
+
+    for (let i = 0; i < active.length; i++) {
+      for (let j = i + 1; j < active.length; j++) {
+        const [a, b] = [active[i], active[j]];
+        const priority = a.metadata.priority ?? 0;
+        if (priority !== (b.metadata.priority ?? 0)) {
+          continue;
+        }
+
+        // Try every combination of optional fields the input might carry
+        for (let mask = (1 << OPTIONAL_FIELDS.length) - 1; mask >= 0; mask--) {
+          const present = new Set(OPTIONAL_FIELDS.filter((_, k) => mask & (1 << k)));
+          const specificity = preconditionCount(a.preconditions, present);
+
+          if (
+            specificity === preconditionCount(b.preconditions, present) &&
+            preconditionsOverlap(a.preconditions, b.preconditions, present)
+          ) {
+            conflicts.push({
+              sop_ids: [a.metadata.id, b.metadata.id],
+              priority,
+              specificity,
+              missing_fields: OPTIONAL_FIELDS.filter((field) => !present.has(field)),
+            });
+            break;
+          }
+        }
+      }
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Directory SOP definitions are loaded from
+   */
+  getSOPDirectory(): string {
+    return this.sopDirectory;
+  }
+
+  /**
+   * YAML file an SOP was loaded from
+   */
+  getSOPFile(sopId: string): string | null {
+    return this.sopFiles.get(sopId) || null;
+  }
+
+  /**
+   * Get SOP by ID, optionally at a specific metadata.version
+   */
+  getSOPById(sopId: string, version?: string): SOPDefinition | null {
+    const sop = this.sops.get(sopId) || null;
+    if (version === undefined || sop?.metadata.version === version) {
+      return sop;
+    }
+    return this.history.get(`${sopId}@${version}`) || null;
+  }
+
+  /**
+   * Get every loaded SOP, whatever its status
+   */
+  getAllSOPs(): SOPDefinition[] {
+    return Array.from(this.sops.values());
+  }
+
+  /**
+   * Run a candidate version on a share of new executions of its SOP
+   */
+  setRollout(candidate: SOPDefinition, share: number): void {
+    this.addHistoricalVersion(candidate);
+    this.rollouts.set(candidate.metadata.id, {
+      candidate,
+      share: Math.min(Math.max(share, 0), 1),
     });
+  }
+
+  clearRollout(sopId: string): void {
+    this.rollouts.delete(sopId);
+  }
 
-    return null;
+  getRollout(sopId: string): SOPRolloutSplit | null {
+    return this.rollouts.get(sopId) || null;
   }
 
   /**
-   * Get SOP by ID
+   * Version a new execution should run: the candidate for its share of keys, else the live one
+   * The same key (e.g. the trigger event id) always gets the same version.
    */
-  getSOPById(sopId: string): SOPDefinition | null {
-    return this.sops.get(sopId) || null;
+  selectVersion(sop: SOPDefinition, key: string): SOPDefinition {
+    const rollout = this.rollouts.get(sop.metadata.id);
+    if (!rollout) {
+      return sop;
+    }
+
+    const bucket = createHash('sha256').update(key).digest().readUInt32BE(0) / 0x100000000;
+    return bucket < rollout.share ? rollout.candidate : sop;
   }
 
   /**
@@ -114,61 +340,82 @@ export class SOPResolver {
 
   /**
    * Check if event/context matches SOP preconditions
+   * Returns the preconditions that held, or null when one did not.
+   * Preconditions on a context field the input does not carry are not checked.
    */
-  private matchesPreconditions(
+  private matchPreconditions(
     preconditions: SOPPrecondition,
     event: EventEnvelope,
     context?: Record<string, unknown>
-  ): boolean {
+  ): string[] | null {
+    const reasons: string[] = [];
+
     // Check required events
     if (preconditions.required_events) {
       if (!preconditions.required_events.includes(event.event_type)) {
-        return false;
+        return null;
       }
+      reasons.push(`event_type ${event.event_type} is required`);
     }
 
     // Check entity types
     if (preconditions.entity_types) {
       if (!preconditions.entity_types.includes(event.entity_type)) {
-        return false;
+        return null;
       }
+      reasons.push(`entity_type ${event.entity_type} is allowed`);
     }
 
     // Check budget range
     if (preconditions.budget_range && context?.budget) {
       const budget = context.budget as number;
-      if (preconditions.budget_range.min && budget < preconditions.budget_range.min) {
-        return false;
+      if (preconditions.budget_range.min) {
+        if (budget < preconditions.budget_range.min) {
+          return null;
+        }
+        reasons.push(`budget ${budget} >= ${preconditions.budget_range.min}`);
       }
-      if (preconditions.budget_range.max && budget > preconditions.budget_range.max) {
-        return false;
+      if (preconditions.budget_range.max) {
+        if (budget > preconditions.budget_range.max) {
+          return null;
+        }
+        reasons.push(`budget ${budget} <= ${preconditions.budget_range.max}`);
       }
     }
 
     // Check service type
     if (preconditions.service_type && context?.service_type) {
       if (!preconditions.service_type.includes(context.service_type as string)) {
-        return false;
+        return null;
       }
+      reasons.push(`service_type ${context.service_type} is covered`);
     }
 
     // Check client tier
     if (preconditions.client_tier && preconditions.client_tier !== 'all') {
       if (context?.client_tier !== preconditions.client_tier) {
-        return false;
+        return null;
       }
+      reasons.push(`client_tier is ${preconditions.client_tier}`);
     }
 
-    // Check custom conditions
-    if (preconditions.custom_conditions && context) {
-      for (const [key, value] of Object.entries(preconditions.custom_conditions)) {
-        if (context[key] !== value) {
-          return false;
-        }
+    // Check custom conditions and the condition expression
+    const scope = expressionScope(event, context || event.payload);
+    for (const [key, value] of Object.entries(preconditions.custom_conditions || {})) {
+      const expression = criterionExpression(key, value);
+      if (!evaluateExpression(expression, scope)) {
+        return null;
+      }
+      reasons.push(expression);
+    }
+    if (preconditions.condition) {
+      if (!evaluateExpression(preconditions.condition, scope)) {
+        return null;
       }
+      reasons.push(preconditions.condition);
     }
 
-    return true;
+    return reasons;
   }
 
   /**
@@ -177,12 +424,13 @@ export class SOPResolver {
   createExecutionContext(
     sop: SOPDefinition,
     event: EventEnvelope,
-    variables: Record<string, unknown> = {}
+    variables: Record<string, unknown> = {},
+    startedAt: Date = new Date()
   ): SOPExecutionContext {
     return {
       sop_id: sop.metadata.id,
       execution_id: crypto.randomUUID(),
-      started_at: new Date().toISOString(),
+      started_at: startedAt.toISOString(),
       current_step: sop.steps[0]?.step_id || '',
       entity_type: event.entity_type,
       entity_id: event.entity_id,
@@ -194,13 +442,26 @@ export class SOPResolver {
 
   /**
    * Check if automation is allowed for step
+   * `at` must fall inside the policy's time restrictions, on the calendar of
+   * the context's client_id or office.
    */
-  canAutomate(sop: SOPDefinition, stepId: string, confidence: number): boolean {
+  canAutomate(
+    sop: SOPDefinition,
+    stepId: string,
+    confidence: number,
+    at: Date = new Date(),
+    context: Record<string, unknown> = {}
+  ): boolean {
     const step = sop.steps.find((s) => s.step_id === stepId);
     if (!step) {
       return false;
     }
 
+    // Check time restrictions
+    if (this.nextAutomationSlot(sop, at, context)?.getTime() !== at.getTime()) {
+      return false;
+    }
+
     // Check automation level
     if (step.automation_level === 'manual') {
       return false;
@@ -219,6 +480,44 @@ export class SOPResolver {
     return true;
   }
 
+  /**
+   * Earliest instant at or after `at` when the policy's time restrictions allow
+   * automation; null when nothing opens within a year
+   */
+  nextAutomationSlot(
+    sop: SOPDefinition,
+    at: Date,
+    context: Record<string, unknown> = {}
+  ): Date | null {
+    const restrictions = sop.automation_policy.time_restrictions;
+    if (!restrictions?.business_hours_only && !restrictions?.blackout_dates?.length) {
+      return at;
+    }
+
+    return this.calendar.nextOpen(calendarSelector(context), at, restrictions);
+  }
+
+  /**
+   * When a wait of `hours` started at `from` times out: in working hours when
+   * the policy sets business_hours_timeouts, otherwise in wall-clock hours
+   */
+  timeoutDeadline(
+    sop: SOPDefinition,
+    from: Date,
+    hours: number,
+    context: Record<string, unknown> = {}
+  ): Date {
+    if (!sop.automation_policy.time_restrictions?.business_hours_timeouts) {
+      return new Date(from.getTime() + hours * 60 * 60 * 1000);
+    }
+
+    return this.calendar.addBusinessHours(calendarSelector(context), from, hours);
+  }
+
+  getCalendar(): BusinessCalendar {
+    return this.calendar;
+  }
+
   /**
    * Get escalation rule for trigger
    */
@@ -230,7 +529,11 @@ export class SOPResolver {
    * Reload SOPs (for development/updates)
    */
   async reload(): Promise<void> {
+    for (const sop of this.sops.values()) {
+      this.addHistoricalVersion(sop);
+    }
     this.sops.clear();
+    this.sopFiles.clear();
     await this.initialize();
   }
 
@@ -260,3 +563,94 @@ export class SOPResolver {
     return stats;
   }
 }
+
+/**
+ * Whose business calendar applies to an execution context
+ */
+function calendarSelector(context: Record<string, unknown>): CalendarSelector {
+  return {
+    client_id: typeof context.client_id === 'string' ? context.client_id : undefined,
+    office: typeof context.office === 'string' ? context.office : undefined,
+  };
+}
+
+/**
+ * Throw unless the data is a valid SOP definition whose expressions all compile
+ */
+export function assertValidSOP(sopData: unknown, source: string): asserts sopData is SOPDefinition {
+  if (!validateSOP(sopData)) {
+    throw new Error(`Invalid SOP definition in ${source}`);
+  }
+
+  // Expressions are checked up front so a typo fails the load, not a live execution
+  const issues = compileSOPExpressions(sopData);
+  if (issues.length > 0) {
+    const details = issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ');
+    throw new Error(`Invalid expression in ${source}: ${details}`);
+  }
+}
+
+/**
+ * Higher priority first, then higher specificity
+ */
+function compareMatches(a: SOPMatch, b: SOPMatch): number {
+  return b.priority - a.priority || b.specificity - a.specificity;
+}
+
+/**
+ * Specificity of a match for an input carrying the given optional fields
+ */
+function preconditionCount(preconditions: SOPPrecondition, present: Set<OptionalField>): number {
+  const budget = present.has('budget');
+  return (
+    (preconditions.required_events ? 1 : 0) +
+    (preconditions.entity_types ? 1 : 0) +
+    (budget && preconditions.budget_range?.min ? 1 : 0) +
+    (budget && preconditions.budget_range?.max ? 1 : 0) +
+    (present.has('service_type') && preconditions.service_type ? 1 : 0) +
+    (preconditions.client_tier && preconditions.client_tier !== 'all' ? 1 : 0) +
+    Object.keys(preconditions.custom_conditions || {}).length +
+    (preconditions.condition ? 1 : 0)
+  );
+}
+
+/**
+ * Whether some input carrying the given optional fields could satisfy both sets of preconditions
+ * Expressions are assumed satisfiable; only plain values are compared.
+ */
+function preconditionsOverlap(
+  a: SOPPrecondition,
+  b: SOPPrecondition,
+  present: Set<OptionalField>
+): boolean {
+  const listsOverlap = (x?: unknown[], y?: unknown[]): boolean =>
+    !x || !y || x.some((item) => y.includes(item));
+
+  if (!listsOverlap(a.required_events, b.required_events)) return false;
+  if (!listsOverlap(a.entity_types, b.entity_types)) return false;
+  if (present.has('service_type') && !listsOverlap(a.service_type, b.service_type)) return false;
+
+  const tierA = a.client_tier === 'all' ? undefined : a.client_tier;
+  const tierB = b.client_tier === 'all' ? undefined : b.client_tier;
+  if (tierA && tierB && tierA !== tierB) return false;
+
+  if (present.has('budget')) {
+    const lower = Math.max(a.budget_range?.min || -Infinity, b.budget_range?.min || -Infinity);
+    const upper = Math.min(a.budget_range?.max || Infinity, b.budget_range?.max || Infinity);
+    if (lower > upper) return false;
+  }
+
+  // Plain values (not comparisons) for the same field must be able to coincide
+  const values = (criterion: unknown): unknown[] | undefined => {
+    if (Array.isArray(criterion)) return criterion;
+    if (isComparisonCriterion(criterion)) return undefined;
+    return [criterion ?? null];
+  };
+  for (const [key, criterion] of Object.entries(a.custom_conditions || {})) {
+    if (b.custom_conditions && key in b.custom_conditions) {
+      if (!listsOverlap(values(criterion), values(b.custom_conditions[key]))) return false;
+    }
+  }
+
+  return true;
+}
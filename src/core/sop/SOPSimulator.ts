@@ -0,0 +1,341 @@
+/**
+ * SOP SIMULATOR
+ *
+ * Dry-runs an SOP definition (current or proposed) against stored events.
+ *
+ * Events from a time window are replayed, oldest first, through a sandbox:
+ * a private EventBus with no store, a SOPResolver holding the live SOPs with
+ * the simulated definition in place of its SOP, and a SOPExecutor with an
+ * in-memory execution store. Notifications and external API calls are
+ * recorded instead of performed, and nothing reaches the live bus.
+ *
+ * Human approval requests are answered as approved (unless disabled), so the
+ * simulation continues past them and books the default human minutes.
+ */
+
+import { EventBus } from '../bus/EventBus.js';
+import { EventStore } from '../store/EventStore.js';
+import { EntityType, EventEmitter, EventEnvelope, createEvent } from '../events/types.js';
+import { SOPResolver } from './SOPResolver.js';
+import { SOPExecutor } from './SOPExecutor.js';
+import { SOPDefinition, SOPExecution, SOPStepStatus } from './types.js';
+import { Logger } from '../../utils/logger.js';
+
+const PAGE_SIZE = 500;
+
+export interface SOPSimulationOptions {
+  from: Date;
+  to: Date;
+  /**
+   * Stop after this many stored events (default 10000)
+   */
+  max_events?: number;
+  /**
+   * Answer human approval requests as approved (default true)
+   */
+  assume_human_approval?: boolean;
+}
+
+/**
+ * What a step would have done in one simulated execution
+ */
+export type SOPSimulatedStepOutcome =
+  | 'automated'
+  | 'human'
+  | 'waiting_human'
+  | 'deferred'
+  | 'skipped'
+  | 'failed'
+  | 'not_reached';
+
+export interface SOPSimulatedExecution {
+  trigger_event_id: string;
+  trigger_event_type: string;
+  trigger_created_at: string;
+  entity_id: string;
+  status: SOPExecution['status'];
+  steps: Array<{ step_id: string; outcome: SOPSimulatedStepOutcome; escalated: boolean }>;
+  human_minutes: number;
+  cost: number;
+  automation_rate: number;
+}
+
+export interface SOPSimulationReport {
+  sop_id: string;
+  sop_version: string;
+  window: { from: string; to: string };
+  events_scanned: number;
+  /** Stored events the sandbox bus rejected (e.g. payloads failing the current schema) */
+  events_rejected: number;
+  truncated: boolean;
+  executions: SOPSimulatedExecution[];
+  steps: Record<string, Record<SOPSimulatedStepOutcome, number> & { escalated: number }>;
+  totals: {
+    executions: number;
+    steps_automated: number;
+    steps_human: number;
+    steps_escalated: number;
+    human_minutes: number;
+    cost: number;
+    automation_rate: number;
+  };
+  notifications: number;
+  external_api_calls: number;
+}
+
+export class SOPSimulator {
+  private eventStore: EventStore;
+  private liveResolver: SOPResolver;
+  private logger: Logger;
+
+  constructor(eventStore: EventStore, liveResolver: SOPResolver) {
+    this.eventStore = eventStore;
+    this.liveResolver = liveResolver;
+    this.logger = new Logger('SOPSimulator');
+  }
+
+  /**
+   * Replay the window's events and report what the definition would have done
+   */
+  async simulate(
+    definition: SOPDefinition,
+    options: SOPSimulationOptions
+  ): Promise<SOPSimulationReport> {
+    const sopId = definition.metadata.id;
+    const maxEvents = options.max_events ?? 10000;
+    const assumeApproval = options.assume_human_approval ?? true;
+
+    // Competing SOPs still win the events they outrank this one on
+    const resolver = new SOPResolver(
+      this.liveResolver.getSOPDirectory(),
+      this.liveResolver.getCalendar()
+    );
+    for (const sop of this.liveResolver.getAllSOPs()) {
+      resolver.register(sop);
+    }
+    resolver.register(definition);
+
+    let notifications = 0;
+    let externalApiCalls = 0;
+    // Each execution runs at its trigger's time, so business hours and blackouts
+    // are checked as they stood then; the clock moves on in real time from there
+    let clockStart = { at: options.from.getTime(), wall: Date.now() };
+    const bus = new EventBus(0);
+    const executor = new SOPExecutor(bus, resolver, {
+      now: () => new Date(clockStart.at + Date.now() - clockStart.wall),
+      handlers: {
+        async notify() {
+          notifications++;
+        },
+        async callExternalApi() {
+          externalApiCalls++;
+        },
+      },
+    });
+    await executor.initialize();
+
+    if (assumeApproval) {
+      bus.subscribeToType(
+        'HUMAN_APPROVAL_REQUESTED',
+        async (request) => {
+          await bus.publish(
+            createEvent(
+              'HUMAN_APPROVAL_RESOLVED',
+              EntityType.SYSTEM,
+              request.event_id,
+              {
+                original_event_id: request.event_id,
+                request_type: request.payload.request_type,
+                context: request.payload.context,
+                decision: 'approved',
+                decided_by: 'sop_simulator',
+                notes: 'Simulated approval',
+              },
+              EventEmitter.HUMAN_USER,
+              1.0,
+              false,
+              request
+            )
+          );
+        },
+        { name: 'SOPSimulator' }
+      );
+    }
+
+    const triggers = new Map<string, EventEnvelope>();
+    let scanned = 0;
+    let rejected = 0;
+    let truncated = false;
+
+    try {
+      // Page by log position: pages come back in log order, and events appended
+      // while the simulation runs cannot shift a later page
+      let position = 0;
+      for (;;) {
+        const page = await this.eventStore.query({
+          fromDate: options.from,
+          toDate: options.to,
+          afterPosition: position,
+          limit: PAGE_SIZE,
+        });
+        const from = position;
+
+        for (const event of page) {
+          if (scanned >= maxEvents) {
+            truncated = true;
+            break;
+          }
+          scanned++;
+
+          // Only events the simulated SOP would have started on; live executions' own events
+          // and past human decisions mean nothing in the sandbox
+          if (
+            event.payload.sop_execution_id ||
+            event.event_type === 'HUMAN_APPROVAL_VOTED' ||
+            event.event_type === 'HUMAN_APPROVAL_RESOLVED' ||
+            event.event_type === 'HUMAN_OVERRIDE'
+          ) {
+            continue;
+          }
+          if (resolver.resolve(event, event.payload)?.metadata.id !== sopId) {
+            continue;
+          }
+
+          try {
+            triggers.set(event.event_id, event);
+            clockStart = { at: new Date(event.created_at).getTime(), wall: Date.now() };
+            await bus.publish(structuredClone(event));
+            await executor.idle();
+          } catch (error) {
+            rejected++;
+            triggers.delete(event.event_id);
+            this.logger.debug('Stored event rejected by sandbox bus', {
+              event_id: event.event_id,
+              error,
+            });
+          }
+        }
+
+        position = page[page.length - 1]?.metadata?.position ?? position;
+        if (truncated || page.length < PAGE_SIZE || position === from) break;
+      }
+    } finally {
+      await executor.shutdown();
+    }
+
+    const executions = executor
+      .listExecutions({ sop_id: sopId })
+      .filter((execution) => triggers.has(execution.trigger.event_id))
+      .reverse()
+      .map((execution) => {
+        const result = executor.getResult(execution.context.execution_id)!;
+        return {
+          trigger_event_id: execution.trigger.event_id,
+          trigger_event_type: execution.trigger.event_type,
+          trigger_created_at: execution.trigger.created_at,
+          entity_id: execution.context.entity_id,
+          status: execution.status,
+          steps: execution.steps.map((run) => ({
+            step_id: run.step_id,
+            outcome: stepOutcome(run.status, run.completed_by),
+            escalated: run.escalated,
+          })),
+          human_minutes: execution.human_minutes,
+          cost: result.cost,
+          automation_rate: result.automation_rate,
+        };
+      });
+
+    const report: SOPSimulationReport = {
+      sop_id: sopId,
+      sop_version: definition.metadata.version,
+      window: { from: options.from.toISOString(), to: options.to.toISOString() },
+      events_scanned: scanned,
+      events_rejected: rejected,
+      truncated,
+      executions,
+      ...summarize(definition, executions),
+      notifications,
+      external_api_calls: externalApiCalls,
+    };
+
+    this.logger.info('SOP simulation finished', {
+      sop_id: sopId,
+      sop_version: definition.metadata.version,
+      events_scanned: scanned,
+      executions: executions.length,
+      human_minutes: report.totals.human_minutes,
+    });
+
+    return report;
+  }
+}
+
+function stepOutcome(
+  status: SOPStepStatus,
+  completedBy: 'automation' | 'human' | undefined
+): SOPSimulatedStepOutcome {
+  switch (status) {
+    case 'completed':
+      return completedBy === 'human' ? 'human' : 'automated';
+    case 'waiting_human':
+    case 'deferred':
+    case 'skipped':
+    case 'failed':
+      return status;
+    default:
+      // Unused fallback steps and steps behind an unfinished dependency
+      return 'not_reached';
+  }
+}
+
+/**
+ * Step outcome counts and totals across simulated executions
+ */
+function summarize(
+  definition: SOPDefinition,
+  executions: SOPSimulatedExecution[]
+): Pick<SOPSimulationReport, 'steps' | 'totals'> {
+  const steps: SOPSimulationReport['steps'] = {};
+  for (const step of definition.steps) {
+    steps[step.step_id] = {
+      automated: 0,
+      human: 0,
+      waiting_human: 0,
+      deferred: 0,
+      skipped: 0,
+      failed: 0,
+      not_reached: 0,
+      escalated: 0,
+    };
+  }
+
+  for (const execution of executions) {
+    for (const step of execution.steps) {
+      const counts = steps[step.step_id];
+      counts[step.outcome]++;
+      if (step.escalated) {
+        counts.escalated++;
+      }
+    }
+  }
+
+  const counts = Object.values(steps);
+  const sum = (values: number[]) => values.reduce((total, v) => total + v, 0);
+
+  return {
+    steps,
+    totals: {
+      executions: executions.length,
+      steps_automated: sum(counts.map((c) => c.automated)),
+      steps_human: sum(counts.map((c) => c.human + c.waiting_human)),
+      steps_escalated: sum(counts.map((c) => c.escalated)),
+      human_minutes: sum(executions.map((e) => e.human_minutes)),
+      cost: sum(executions.map((e) => e.cost)),
+      automation_rate:
+        executions.length > 0
+          ? sum(executions.map((e) => e.automation_rate)) / executions.length
+          : 0,
+    },
+  };
+}
@@ -0,0 +1,380 @@
+/**
+ * SOP VERSION MANAGER
+ *
+ * Activates new SOP versions and keeps every earlier one.
+ *
+ * Activating a definition:
+ * 1. saves it as the SOP's next revision in the SOPDefinitionStore
+ * 2. writes it to <sop directory>/revisions/<sop_id>/r<revision>-v<version>.yaml
+ * 3. rewrites the SOP's live YAML file
+ * 4. hot-reloads it into the SOPResolver
+ *
+ * Revision files carry a top-level `revision` block next to the definition,
+ * which SOP validation ignores. They let the in-memory backend keep its
+ * history across restarts.
+ *
+ * On initialize, the store and the YAML directory are reconciled: an SOP
+ * without stored revisions is seeded from its revision files (or from the
+ * YAML as revision 1), a newer stored version is loaded over the YAML, and a
+ * YAML whose version was bumped by hand becomes a new revision.
+ */
+
+import { access, mkdir, readFile, readdir, rename, writeFile } from 'fs/promises';
+import { basename, dirname, join } from 'path';
+import { parse, stringify } from 'yaml';
+import { EventStoreConfig } from '../store/EventStore.js';
+import { SOPResolver, assertValidSOP } from './SOPResolver.js';
+import { SOPDefinition, SOPDefinitionChange } from './types.js';
+import { SOPApprovalMechanism, SOPDefinitionStore, SOPRevision } from './SOPDefinitionStore.js';
+import { compareVersions, incrementVersion } from './versioning.js';
+import { InMemorySOPDefinitionStore } from './stores/InMemorySOPDefinitionStore.js';
+import { PostgresSOPDefinitionStore } from './stores/PostgresSOPDefinitionStore.js';
+import { SupabaseSOPDefinitionStore } from './stores/SupabaseSOPDefinitionStore.js';
+import { Logger } from '../../utils/logger.js';
+
+export type { SOPDefinitionStore, SOPRevision } from './SOPDefinitionStore.js';
+
+/**
+ * SOP definition store for the configured event store backend
+ */
+export function createSOPDefinitionStore(config: EventStoreConfig): SOPDefinitionStore {
+  switch (config.backend) {
+    case 'postgres':
+      return new PostgresSOPDefinitionStore({
+        connectionString: config.connectionString,
+        ssl: config.ssl,
+      });
+    case 'memory':
+    case 'custom':
+      return new InMemorySOPDefinitionStore();
+    case 'supabase':
+    case undefined:
+      return new SupabaseSOPDefinitionStore({
+        supabaseUrl: config.supabaseUrl,
+        supabaseKey: config.supabaseKey,
+      });
+  }
+}
+
+/**
+ * How a version came to be activated
+ */
+export interface SOPActivation {
+  approval_mechanism?: SOPApprovalMechanism | null;
+  proposal_id?: string | null;
+  changes?: SOPDefinitionChange[];
+}
+
+/**
+ * Revision metadata stored alongside the definition in a revision file
+ */
+interface RevisionFileHeader {
+  number: number;
+  previous_revision: number | null;
+  activated_at: string;
+  approval_mechanism: SOPApprovalMechanism | null;
+  proposal_id: string | null;
+  changes: SOPDefinitionChange[];
+}
+
+export class SOPVersionManager {
+  private sopResolver: SOPResolver;
+  private store: SOPDefinitionStore;
+  private logger: Logger;
+  /** Serializes activations so revision numbers never collide */
+  private queue: Promise<unknown>;
+
+  constructor(
+    sopResolver: SOPResolver,
+    store: SOPDefinitionStore = new InMemorySOPDefinitionStore()
+  ) {
+    this.sopResolver = sopResolver;
+    this.store = store;
+    this.logger = new Logger('SOPVersionManager');
+    this.queue = Promise.resolve();
+  }
+
+  /**
+   * Reconcile stored revisions with the SOP directory (run after the resolver has loaded)
+   */
+  async initialize(): Promise<void> {
+    try {
+      await this.store.initialize();
+    } catch (error) {
+      this.logger.warn(
+        'SOP definition store unavailable - revisions are kept in revision files only',
+        {
+          backend: this.store.backend,
+          error,
+        }
+      );
+      this.store = new InMemorySOPDefinitionStore();
+    }
+
+    for (const sop of this.sopResolver.getAllSOPs()) {
+      await this.reconcile(sop);
+    }
+
+    this.logger.info('SOP version manager initialized', {
+      backend: this.store.backend,
+      sops: this.sopResolver.getAllSOPs().length,
+    });
+  }
+
+  /**
+   * Make a definition the live version of its SOP
+   * The version must be newer than the one it replaces.
+   */
+  async activate(definition: unknown, activation: SOPActivation = {}): Promise<SOPRevision> {
+    return this.enqueue(() => this.activateNow(definition, activation));
+  }
+
+  /**
+   * Activate an earlier revision's definition again, as a new minor version
+   */
+  async restore(
+    sopId: string,
+    revision: number,
+    activation: SOPActivation = {}
+  ): Promise<SOPRevision> {
+    const target = await this.getRevision(sopId, revision);
+    if (!target) {
+      throw new Error(`SOP ${sopId} has no revision ${revision}`);
+    }
+
+    const current = this.sopResolver.getSOPById(sopId);
+    const definition = structuredClone(target.definition);
+    definition.metadata.version = incrementVersion(
+      current?.metadata.version || target.version,
+      'minor'
+    );
+    definition.metadata.updated_at = new Date().toISOString();
+
+    this.logger.info('Restoring SOP revision', {
+      sop_id: sopId,
+      revision,
+      version: `${target.version} → ${definition.metadata.version}`,
+    });
+
+    return this.activate(definition, {
+      approval_mechanism: 'explicit_human',
+      ...activation,
+    });
+  }
+
+  /**
+   * Every revision of an SOP, oldest first
+   */
+  async listRevisions(sopId: string): Promise<SOPRevision[]> {
+    return this.store.listRevisions(sopId);
+  }
+
+  async getRevision(sopId: string, revision: number): Promise<SOPRevision | null> {
+    const revisions = await this.store.listRevisions(sopId);
+    return revisions.find((r) => r.revision === revision) || null;
+  }
+
+  async close(): Promise<void> {
+    await this.queue;
+    await this.store.close();
+  }
+
+  private async activateNow(definition: unknown, activation: SOPActivation): Promise<SOPRevision> {
+    assertValidSOP(definition, 'activated SOP definition');
+
+    const sopId = definition.metadata.id;
+    const current = this.sopResolver.getSOPById(sopId);
+    if (current && compareVersions(definition.metadata.version, current.metadata.version) <= 0) {
+      throw new Error(
+        `SOP ${sopId} version ${definition.metadata.version} must be newer than ${current.metadata.version}`
+      );
+    }
+
+    const revisions = await this.store.listRevisions(sopId);
+    const previous = revisions[revisions.length - 1];
+    const revision = await this.saveRevision(definition, previous, activation);
+
+    // The store is authoritative: a YAML that fails to write is replaced by it on restart
+    const file =
+      this.sopResolver.getSOPFile(sopId) ||
+      join(this.sopResolver.getSOPDirectory(), `${sopId}.yaml`);
+    try {
+      if (previous) {
+        await this.writeRevisionFile(previous, false);
+      }
+      await this.writeRevisionFile(revision, true);
+      await writeFileAtomic(file, stringify(definition));
+    } catch (error) {
+      this.logger.warn('Failed to write SOP revision to YAML', { sop_id: sopId, file, error });
+    }
+
+    this.sopResolver.register(definition, file);
+
+    this.logger.info('SOP version activated', {
+      sop_id: sopId,
+      revision: revision.revision,
+      version: `${current?.metadata.version ?? 'none'} → ${revision.version}`,
+      approval_mechanism: revision.approval_mechanism,
+      proposal_id: revision.proposal_id,
+    });
+
+    return revision;
+  }
+
+  /**
+   * Bring the store, the revision files and the resolver into agreement for one SOP
+   */
+  private async reconcile(sop: SOPDefinition): Promise<void> {
+    const sopId = sop.metadata.id;
+    let revisions = await this.store.listRevisions(sopId);
+
+    if (revisions.length === 0) {
+      for (const revision of await this.readRevisionFiles(sopId)) {
+        await this.store.saveRevision(revision);
+      }
+      revisions = await this.store.listRevisions(sopId);
+    }
+
+    for (const revision of revisions) {
+      this.sopResolver.addHistoricalVersion(revision.definition);
+    }
+
+    const active = revisions[revisions.length - 1];
+    const order = active ? compareVersions(active.version, sop.metadata.version) : -1;
+
+    if (order > 0) {
+      this.logger.warn('SOP YAML is behind its latest activated version, loading the stored one', {
+        sop_id: sopId,
+        yaml_version: sop.metadata.version,
+        active_version: active.version,
+      });
+      this.sopResolver.register(active.definition, this.sopResolver.getSOPFile(sopId) || undefined);
+    } else if (order < 0) {
+      const revision = await this.saveRevision(sop, active, {});
+      this.logger.info('Recorded SOP YAML as a new revision', {
+        sop_id: sopId,
+        revision: revision.revision,
+        version: revision.version,
+      });
+    }
+  }
+
+  private async saveRevision(
+    definition: SOPDefinition,
+    previous: SOPRevision | undefined,
+    activation: SOPActivation
+  ): Promise<SOPRevision> {
+    const revision: SOPRevision = {
+      sop_id: definition.metadata.id,
+      revision: (previous?.revision ?? 0) + 1,
+      version: definition.metadata.version,
+      definition,
+      activated_at: new Date().toISOString(),
+      deactivated_at: null,
+      previous_revision: previous?.revision ?? null,
+      approval_mechanism: activation.approval_mechanism ?? null,
+      proposal_id: activation.proposal_id ?? null,
+      changes: activation.changes || [],
+    };
+
+    await this.store.saveRevision(revision);
+    return revision;
+  }
+
+  private revisionDirectory(sopId: string): string {
+    return join(this.sopResolver.getSOPDirectory(), 'revisions', sopId);
+  }
+
+  /**
+   * Write a revision file; an existing one is only replaced when asked
+   */
+  private async writeRevisionFile(revision: SOPRevision, overwrite: boolean): Promise<void> {
+    const directory = this.revisionDirectory(revision.sop_id);
+    const file = join(directory, `r${revision.revision}-v${revision.version}.yaml`);
+
+    if (!overwrite && (await exists(file))) {
+      return;
+    }
+
+    const header: RevisionFileHeader = {
+      number: revision.revision,
+      previous_revision: revision.previous_revision,
+      activated_at: revision.activated_at,
+      approval_mechanism: revision.approval_mechanism,
+      proposal_id: revision.proposal_id,
+      changes: revision.changes,
+    };
+
+    await mkdir(directory, { recursive: true });
+    await writeFileAtomic(file, stringify({ revision: header, ...revision.definition }));
+  }
+
+  /**
+   * Revisions saved as files, oldest first; unreadable files are skipped
+   */
+  private async readRevisionFiles(sopId: string): Promise<SOPRevision[]> {
+    const directory = this.revisionDirectory(sopId);
+    let files: string[];
+    try {
+      files = (await readdir(directory)).filter((f) => /^r\d+-v.+\.ya?ml$/.test(f));
+    } catch {
+      return [];
+    }
+
+    const revisions: SOPRevision[] = [];
+    for (const file of files) {
+      try {
+        const { revision: header, ...definition } = parse(
+          await readFile(join(directory, file), 'utf-8')
+        ) as { revision: RevisionFileHeader } & Record<string, unknown>;
+        assertValidSOP(definition, join(directory, file));
+
+        revisions.push({
+          sop_id: sopId,
+          revision: header.number,
+          version: definition.metadata.version,
+          definition,
+          activated_at: header.activated_at,
+          deactivated_at: null,
+          previous_revision: header.previous_revision,
+          approval_mechanism: header.approval_mechanism,
+          proposal_id: header.proposal_id,
+          changes: header.changes || [],
+        });
+      } catch (error) {
+        this.logger.warn('Skipping unreadable SOP revision file', { file, error });
+      }
+    }
+
+    revisions.sort((a, b) => a.revision - b.revision);
+    revisions.forEach((revision, i) => {
+      revision.deactivated_at = revisions[i + 1]?.activated_at ?? null;
+    });
+
+    return revisions;
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+async function exists(file: string): Promise<boolean> {
+  try {
+    await access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Write through a temporary file so readers never see a half-written YAML
+ */
+async function writeFileAtomic(file: string, content: string): Promise<void> {
+  const temporary = join(dirname(file), `.${basename(file)}.${process.pid}.tmp`);
+  await writeFile(temporary, content, 'utf-8');
+  await rename(temporary, file);
+}
@@ -0,0 +1,253 @@
+/**
+ * SOP CONDITIONS
+ *
+ * Where SOP definitions use the expression language (see expressions.ts):
+ *
+ * - preconditions.condition            whole expression
+ * - preconditions.custom_conditions    { field: criterion }
+ * - steps[].when                       guard; a false guard skips the step
+ * - steps[].success_criteria           { field: criterion }, checked after the actions
+ * - steps[].actions[].config.condition guard for a single action
+ * - steps[].actions[].config.payload_from  { payload field: path }, read when the event is emitted
+ * - escalation_rules[].threshold       number (per-trigger default) or expression
+ *
+ * A criterion is shorthand for a comparison against its field:
+ *   qualification_score: ">= 50"   →  qualification_score >= 50
+ *   severity: critical             →  severity == "critical"
+ *   tier: [gold, platinum]         →  tier in ["gold", "platinum"]
+ */
+
+import { EventEnvelope } from '../events/types.js';
+import { SOPDefinition, SOPEscalationRule } from './types.js';
+import { compileExpression, evaluateExpression, isExpressionError } from './expressions.js';
+
+export interface SOPExpressionIssue {
+  path: Array<string | number>;
+  expression: string;
+  message: string;
+}
+
+const OPERATOR_PREFIX = /^\s*(==|!=|<=|>=|<|>|not\s+in\b|in\b)/;
+
+const PATH = /^[A-Za-z_]\w*(\.[A-Za-z_]\w*)*$/;
+
+/**
+ * Whether a criterion is a comparison (">= 50") rather than a plain value
+ */
+export function isComparisonCriterion(criterion: unknown): criterion is string {
+  return typeof criterion === 'string' && OPERATOR_PREFIX.test(criterion);
+}
+
+/**
+ * Expand a `{ field: criterion }` entry into a full expression
+ */
+export function criterionExpression(field: string, criterion: unknown): string {
+  if (typeof criterion === 'string') {
+    return isComparisonCriterion(criterion)
+      ? `${field} ${criterion.trim()}`
+      : `${field} == ${JSON.stringify(criterion)}`;
+  }
+  if (Array.isArray(criterion)) {
+    return `${field} in [${criterion.map((item) => JSON.stringify(item)).join(', ')}]`;
+  }
+  return `${field} == ${JSON.stringify(criterion ?? null)}`;
+}
+
+/**
+ * Expression for an escalation rule threshold
+ * A bare number compares against the metric the trigger is about.
+ */
+export function thresholdExpression(rule: SOPEscalationRule): string | undefined {
+  if (typeof rule.threshold === 'string') {
+    return rule.threshold;
+  }
+  if (typeof rule.threshold !== 'number') {
+    return undefined;
+  }
+
+  switch (rule.trigger) {
+    case 'low_confidence':
+      return `confidence < ${rule.threshold}`;
+    case 'timeout':
+      return `elapsed_hours >= ${rule.threshold}`;
+    case 'error':
+      return `attempts >= ${rule.threshold}`;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Variables an SOP expression can read
+ * Execution variables are also available unprefixed.
+ */
+export function expressionScope(
+  event: EventEnvelope,
+  variables: Record<string, unknown>,
+  extra: Record<string, unknown> = {}
+): Record<string, unknown> {
+  return {
+    ...variables,
+    ...extra,
+    variables,
+    event,
+    payload: event.payload,
+  };
+}
+
+/**
+ * Criteria that do not hold in the given scope, as their expanded expressions
+ */
+export function unmetCriteria(
+  criteria: Record<string, unknown> | undefined,
+  scope: Record<string, unknown>
+): string[] {
+  return Object.entries(criteria || {})
+    .map(([field, criterion]) => criterionExpression(field, criterion))
+    .filter((expression) => !evaluateExpression(expression, scope));
+}
+
+/**
+ * Payload an emit_event action declares: its config fields overlaid by `payload`
+ */
+export function declaredPayload(config: Record<string, unknown>): Record<string, unknown> {
+  const {
+    event_type: _eventType,
+    payload,
+    payload_from: _payloadFrom,
+    condition: _condition,
+    confidence_threshold: _threshold,
+    ...fields
+  } = config;
+  return { ...fields, ...((payload as Record<string, unknown>) || {}) };
+}
+
+/**
+ * Payload fields of an emit_event's `payload_from`, read from the scope
+ * Paths that resolve to nothing are left out, so the payload schema reports them.
+ */
+export function resolvePayloadFrom(
+  payloadFrom: unknown,
+  scope: Record<string, unknown>
+): Record<string, unknown> {
+  const resolved: Record<string, unknown> = {};
+  for (const [field, path] of Object.entries((payloadFrom as Record<string, unknown>) || {})) {
+    let value: unknown = scope;
+    for (const segment of String(path).split('.')) {
+      value =
+        value !== null && typeof value === 'object'
+          ? (value as Record<string, unknown>)[segment]
+          : undefined;
+    }
+    if (value !== undefined && value !== null) {
+      resolved[field] = value;
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Whether an escalation rule applies; rules without a threshold always do
+ */
+export function escalationTriggered(
+  rule: SOPEscalationRule,
+  scope: Record<string, unknown>
+): boolean {
+  const expression = thresholdExpression(rule);
+  return expression ? evaluateExpression(expression, scope) : true;
+}
+
+/**
+ * Parse and type-check every expression in an SOP definition
+ */
+export function compileSOPExpressions(sop: SOPDefinition): SOPExpressionIssue[] {
+  const issues: SOPExpressionIssue[] = [];
+
+  const check = (path: Array<string | number>, expression: string): void => {
+    try {
+      compileExpression(expression);
+    } catch (error) {
+      issues.push({
+        path,
+        expression,
+        message: isExpressionError(error) ? error.message : String(error),
+      });
+    }
+  };
+
+  const checkCriteria = (path: Array<string | number>, criteria?: Record<string, unknown>): void => {
+    for (const [field, criterion] of Object.entries(criteria || {})) {
+      check([...path, field], criterionExpression(field, criterion));
+    }
+  };
+
+  if (sop.preconditions.condition) {
+    check(['preconditions', 'condition'], sop.preconditions.condition);
+  }
+  checkCriteria(['preconditions', 'custom_conditions'], sop.preconditions.custom_conditions);
+
+  sop.steps.forEach((step, i) => {
+    if (step.when) {
+      check(['steps', i, 'when'], step.when);
+    }
+    checkCriteria(['steps', i, 'success_criteria'], step.success_criteria);
+
+    (step.actions || []).forEach((action, j) => {
+      const payloadFrom = action.config.payload_from;
+      if (payloadFrom !== undefined) {
+        const entries =
+          payloadFrom !== null && typeof payloadFrom === 'object' && !Array.isArray(payloadFrom)
+            ? Object.entries(payloadFrom)
+            : [];
+        if (entries.length === 0) {
+          issues.push({
+            path: ['steps', i, 'actions', j, 'config', 'payload_from'],
+            expression: String(payloadFrom),
+            message: 'payload_from must map payload fields to paths',
+          });
+        }
+        for (const [field, path] of entries) {
+          if (typeof path !== 'string' || !PATH.test(path)) {
+            issues.push({
+              path: ['steps', i, 'actions', j, 'config', 'payload_from', field],
+              expression: String(path),
+              message: `payload_from.${field} must be a dotted path, e.g. event.entity_id`,
+            });
+          }
+        }
+      }
+
+      const condition = action.config.condition;
+      if (condition === undefined) {
+        return;
+      }
+      if (typeof condition !== 'string') {
+        issues.push({
+          path: ['steps', i, 'actions', j, 'config', 'condition'],
+          expression: String(condition),
+          message: 'Action condition must be an expression string',
+        });
+        return;
+      }
+      check(['steps', i, 'actions', j, 'config', 'condition'], condition);
+    });
+  });
+
+  sop.escalation_rules.forEach((rule, i) => {
+    if (rule.threshold === undefined) {
+      return;
+    }
+    const expression = thresholdExpression(rule);
+    if (!expression) {
+      issues.push({
+        path: ['escalation_rules', i, 'threshold'],
+        expression: String(rule.threshold),
+        message: `Threshold must be an expression, or a number for low_confidence, timeout and error rules`,
+      });
+      return;
+    }
+    check(['escalation_rules', i, 'threshold'], expression);
+  });
+
+  return issues;
+}
@@ -0,0 +1,188 @@
+/**
+ * SOP DIFF
+ *
+ * Structural comparison of two SOP definitions, in the terms the SOP is
+ * written in rather than as a text diff:
+ *
+ * - steps added, removed or moved, and field changes of the steps both share
+ *   (automation_level, requires_human, dependencies, guards, criteria...)
+ * - automation policy changes (confidence threshold, limits, restrictions)
+ * - escalation rules added, removed or changed, matched by trigger
+ * - metadata, precondition and metric changes
+ */
+
+import { SOPDefinition, SOPEscalationRule, SOPStep } from './types.js';
+
+/**
+ * One field that differs; path is dotted from the compared object
+ */
+export interface SOPFieldChange {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface SOPStepChange {
+  step_id: string;
+  changes: SOPFieldChange[];
+}
+
+export interface SOPEscalationRuleChange {
+  /** Trigger, with #2, #3... for further rules on the same trigger */
+  rule: string;
+  changes: SOPFieldChange[];
+}
+
+export interface SOPDiff {
+  sop_id: string;
+  from_version: string;
+  to_version: string;
+  steps: {
+    added: string[];
+    removed: string[];
+    /** Order of the steps both versions share, when it differs */
+    reordered: { before: string[]; after: string[] } | null;
+    changed: SOPStepChange[];
+  };
+  automation_policy: SOPFieldChange[];
+  escalation_rules: {
+    added: string[];
+    removed: string[];
+    changed: SOPEscalationRuleChange[];
+  };
+  metadata: SOPFieldChange[];
+  preconditions: SOPFieldChange[];
+  metrics: SOPFieldChange[];
+  /** Number of individual differences above */
+  change_count: number;
+}
+
+/**
+ * Metadata fields that change with every version and are not worth reporting
+ */
+const VERSION_STAMP_FIELDS = ['version', 'created_at', 'updated_at'];
+
+/**
+ * Compare two definitions of the same SOP
+ */
+export function diffSOPDefinitions(from: SOPDefinition, to: SOPDefinition): SOPDiff {
+  const steps = diffSteps(from.steps, to.steps);
+  const escalationRules = diffEscalationRules(from.escalation_rules, to.escalation_rules);
+
+  const diff: SOPDiff = {
+    sop_id: to.metadata.id,
+    from_version: from.metadata.version,
+    to_version: to.metadata.version,
+    steps,
+    automation_policy: diffFields(from.automation_policy, to.automation_policy),
+    escalation_rules: escalationRules,
+    metadata: diffFields(from.metadata, to.metadata).filter(
+      (change) => !VERSION_STAMP_FIELDS.includes(change.path)
+    ),
+    preconditions: diffFields(from.preconditions, to.preconditions),
+    metrics: diffFields(from.metrics, to.metrics),
+    change_count: 0,
+  };
+
+  diff.change_count =
+    steps.added.length +
+    steps.removed.length +
+    (steps.reordered ? 1 : 0) +
+    steps.changed.reduce((n, step) => n + step.changes.length, 0) +
+    diff.automation_policy.length +
+    escalationRules.added.length +
+    escalationRules.removed.length +
+    escalationRules.changed.reduce((n, rule) => n + rule.changes.length, 0) +
+    diff.metadata.length +
+    diff.preconditions.length +
+    diff.metrics.length;
+
+  return diff;
+}
+
+function diffSteps(before: SOPStep[], after: SOPStep[]): SOPDiff['steps'] {
+  const beforeById = new Map(before.map((step) => [step.step_id, step]));
+  const afterById = new Map(after.map((step) => [step.step_id, step]));
+
+  const sharedBefore = before.map((s) => s.step_id).filter((id) => afterById.has(id));
+  const sharedAfter = after.map((s) => s.step_id).filter((id) => beforeById.has(id));
+  const moved = sharedBefore.some((id, i) => sharedAfter[i] !== id);
+
+  const changed: SOPStepChange[] = [];
+  for (const step_id of sharedAfter) {
+    const changes = diffFields(beforeById.get(step_id), afterById.get(step_id));
+    if (changes.length > 0) {
+      changed.push({ step_id, changes });
+    }
+  }
+
+  return {
+    added: after.map((s) => s.step_id).filter((id) => !beforeById.has(id)),
+    removed: before.map((s) => s.step_id).filter((id) => !afterById.has(id)),
+    reordered: moved ? { before: sharedBefore, after: sharedAfter } : null,
+    changed,
+  };
+}
+
+function diffEscalationRules(
+  before: SOPEscalationRule[],
+  after: SOPEscalationRule[]
+): SOPDiff['escalation_rules'] {
+  const beforeByKey = keyRules(before);
+  const afterByKey = keyRules(after);
+
+  const changed: SOPEscalationRuleChange[] = [];
+  for (const [rule, definition] of afterByKey) {
+    const previous = beforeByKey.get(rule);
+    if (!previous) {
+      continue;
+    }
+    const changes = diffFields(previous, definition);
+    if (changes.length > 0) {
+      changed.push({ rule, changes });
+    }
+  }
+
+  return {
+    added: [...afterByKey.keys()].filter((rule) => !beforeByKey.has(rule)),
+    removed: [...beforeByKey.keys()].filter((rule) => !afterByKey.has(rule)),
+    changed,
+  };
+}
+
+/**
+ * Escalation rules keyed by trigger, numbering repeated triggers in order
+ */
+function keyRules(rules: SOPEscalationRule[]): Map<string, SOPEscalationRule> {
+  const keyed = new Map<string, SOPEscalationRule>();
+  const seen = new Map<string, number>();
+
+  for (const rule of rules) {
+    const n = (seen.get(rule.trigger) || 0) + 1;
+    seen.set(rule.trigger, n);
+    keyed.set(n === 1 ? rule.trigger : `${rule.trigger}#${n}`, rule);
+  }
+
+  return keyed;
+}
+
+/**
+ * Leaf-level differences between two values
+ * Objects are compared key by key; arrays and scalars are compared whole.
+ */
+function diffFields(before: unknown, after: unknown, path: string[] = []): SOPFieldChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+    return keys.flatMap((key) => diffFields(before[key], after[key], [...path, key]));
+  }
+
+  if (JSON.stringify(before) === JSON.stringify(after)) {
+    return [];
+  }
+
+  return [{ path: path.join('.'), before, after }];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,188 @@
+/**
+ * SOP EXPERIMENTS
+ *
+ * Statistics for comparing two versions of an SOP from the outcomes of their
+ * executions (SOP_EXECUTION_COMPLETED): cycle time, automation rate, human
+ * minutes and cost.
+ *
+ * Each metric is compared with Welch's t-test (unequal variances, two-sided).
+ */
+
+export const SOP_OUTCOME_METRICS = [
+  'cycle_time_hours',
+  'automation_rate',
+  'human_minutes',
+  'cost',
+] as const;
+
+export type SOPOutcomeMetric = (typeof SOP_OUTCOME_METRICS)[number];
+
+/**
+ * Measured outcome of one execution
+ */
+export type SOPOutcome = Record<SOPOutcomeMetric, number>;
+
+/**
+ * Metrics where a higher value is an improvement; lower is better for the rest
+ */
+const HIGHER_IS_BETTER: SOPOutcomeMetric[] = ['automation_rate'];
+
+export interface SampleSummary {
+  n: number;
+  mean: number;
+  std_dev: number;
+}
+
+/**
+ * One metric of a rollout comparison (a type, so it fits SOP_ROLLOUT_EVALUATED's payload)
+ */
+export type SOPMetricComparison = {
+  metric: SOPOutcomeMetric;
+  control: SampleSummary;
+  candidate: SampleSummary;
+  /** candidate mean - control mean */
+  delta: number;
+  /** delta relative to the control mean (null when the control mean is 0) */
+  relative_delta: number | null;
+  t_statistic: number;
+  p_value: number;
+  significant: boolean;
+  /** Direction of a significant difference; null when not significant */
+  improved: boolean | null;
+};
+
+export function summarize(values: number[]): SampleSummary {
+  const n = values.length;
+  const mean = n > 0 ? values.reduce((sum, v) => sum + v, 0) / n : 0;
+  const variance = n > 1 ? values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1) : 0;
+  return { n, mean, std_dev: Math.sqrt(variance) };
+}
+
+/**
+ * Welch's two-sample t-test, two-sided
+ * Samples with no variance at all are significant exactly when their means differ.
+ */
+export function welchTTest(
+  a: SampleSummary,
+  b: SampleSummary
+): { t_statistic: number; p_value: number } {
+  if (a.n < 2 || b.n < 2) {
+    return { t_statistic: 0, p_value: 1 };
+  }
+
+  const va = a.std_dev ** 2 / a.n;
+  const vb = b.std_dev ** 2 / b.n;
+  const se = Math.sqrt(va + vb);
+  if (se === 0) {
+    return a.mean === b.mean
+      ? { t_statistic: 0, p_value: 1 }
+      : { t_statistic: b.mean > a.mean ? Infinity : -Infinity, p_value: 0 };
+  }
+
+  const t = (b.mean - a.mean) / se;
+  const df = (va + vb) ** 2 / (va ** 2 / (a.n - 1) + vb ** 2 / (b.n - 1));
+
+  // Two-sided tail of Student's t: I_{df/(df+t²)}(df/2, 1/2)
+  const p = regularizedIncompleteBeta(df / (df + t * t), df / 2, 0.5);
+  return { t_statistic: t, p_value: Math.min(1, Math.max(0, p)) };
+}
+
+/**
+ * Compare every outcome metric of a candidate version against the control
+ */
+export function compareOutcomes(
+  control: SOPOutcome[],
+  candidate: SOPOutcome[],
+  significance: number
+): SOPMetricComparison[] {
+  return SOP_OUTCOME_METRICS.map((metric) => {
+    const c = summarize(control.map((o) => o[metric]));
+    const x = summarize(candidate.map((o) => o[metric]));
+    const { t_statistic, p_value } = welchTTest(c, x);
+    const delta = x.mean - c.mean;
+    const significant = p_value < significance;
+
+    return {
+      metric,
+      control: c,
+      candidate: x,
+      delta,
+      relative_delta: c.mean !== 0 ? delta / Math.abs(c.mean) : null,
+      t_statistic,
+      p_value,
+      significant,
+      improved: significant ? (delta > 0) === HIGHER_IS_BETTER.includes(metric) : null,
+    };
+  });
+}
+
+/**
+ * I_x(a, b) by continued fraction (Numerical Recipes, betacf)
+ */
+function regularizedIncompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const front = Math.exp(
+    logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x)
+  );
+
+  // The continued fraction converges fast only below the mean; use the symmetry above it
+  if (x > (a + 1) / (a + b + 2)) {
+    return 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+  }
+  return (front * betaContinuedFraction(x, a, b)) / a;
+}
+
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const TINY = 1e-30;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  d = Math.abs(d) < TINY ? TINY : d;
+  d = 1 / d;
+  let h = d;
+
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    for (const aa of [
+      (m * (b - m) * x) / ((a + m2 - 1) * (a + m2)),
+      (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1)),
+    ]) {
+      d = 1 + aa * d;
+      d = Math.abs(d) < TINY ? TINY : d;
+      c = 1 + aa / c;
+      c = Math.abs(c) < TINY ? TINY : c;
+      d = 1 / d;
+      h *= d * c;
+    }
+    if (Math.abs(d * c - 1) < 1e-12) {
+      break;
+    }
+  }
+
+  return h;
+}
+
+/**
+ * Lanczos approximation of ln Γ(z)
+ */
+function logGamma(z: number): number {
+  const g = 7;
+  const coefficients = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+    1.5056327351493116e-7,
+  ];
+
+  if (z < 0.5) {
+    return Math.log(Math.PI / Math.sin(Math.PI * z)) - logGamma(1 - z);
+  }
+
+  z -= 1;
+  let x = coefficients[0];
+  for (let i = 1; i < g + 2; i++) {
+    x += coefficients[i] / (z + i);
+  }
+  const t = z + g + 0.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(x);
+}
@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compileExpression,
+  evaluateExpression,
+  ExpressionError,
+  isExpressionError,
+} from './expressions.js';
+
+function compileError(source: string): ExpressionError {
+  try {
+    compileExpression(source);
+  } catch (error) {
+    if (isExpressionError(error)) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error(`Expected "${source}" not to compile`);
+}
+
+describe('compileExpression', () => {
+  it('parses paths, literals and lists', () => {
+    expect(compileExpression('payload.score')).toEqual({
+      kind: 'path',
+      segments: ['payload', 'score'],
+    });
+    expect(compileExpression('stage in ["new", -1, true, null]')).toEqual({
+      kind: 'compare',
+      operator: 'in',
+      left: { kind: 'path', segments: ['stage'] },
+      right: {
+        kind: 'list',
+        items: [
+          { kind: 'literal', value: 'new' },
+          { kind: 'literal', value: -1 },
+          { kind: 'literal', value: true },
+          { kind: 'literal', value: null },
+        ],
+      },
+    });
+  });
+
+  it('binds "and" tighter than "or" and accepts the symbolic operators', () => {
+    const words = compileExpression('a or b and c');
+    const symbols = compileExpression('a || b && c');
+
+    expect(words).toEqual({
+      kind: 'logical',
+      operator: 'or',
+      left: { kind: 'path', segments: ['a'] },
+      right: {
+        kind: 'logical',
+        operator: 'and',
+        left: { kind: 'path', segments: ['b'] },
+        right: { kind: 'path', segments: ['c'] },
+      },
+    });
+    expect(symbols).toEqual(words);
+  });
+
+  it('reads "not in" as one comparison and "not" before it as negation', () => {
+    expect(compileExpression('tier not in ["gold"]')).toMatchObject({
+      kind: 'compare',
+      operator: 'not in',
+    });
+    expect(compileExpression('not tier in ["gold"]')).toMatchObject({
+      kind: 'not',
+      operand: { kind: 'compare', operator: 'in' },
+    });
+  });
+
+  it('caches compiled expressions by source', () => {
+    expect(compileExpression('budget > 5000')).toBe(compileExpression('budget > 5000'));
+  });
+
+  it('reports syntax errors with their column', () => {
+    expect(compileError('score >= ')).toMatchObject({
+      column: 10,
+      reason: 'Unexpected end of expression',
+    });
+    expect(compileError('name == "open')).toMatchObject({
+      column: 9,
+      reason: 'Unterminated string',
+    });
+    expect(compileError('score > 5 $')).toMatchObject({
+      column: 11,
+      reason: "Unexpected character '$'",
+    });
+    expect(compileError('(a and b')).toMatchObject({ reason: "Expected ')'" });
+    expect(compileError('payload.')).toMatchObject({ reason: 'Expected a name after "."' });
+    expect(compileError('a b')).toMatchObject({ column: 3, reason: "Unexpected 'b'" });
+  });
+
+  it('rejects type mismatches between literals', () => {
+    expect(compileError('"high" == 3').reason).toBe('Cannot compare string with number');
+    expect(compileError('true < 3').reason).toBe('"<" needs numbers or strings, got boolean');
+    expect(compileError('"a" < 3').reason).toBe('Cannot order string against number');
+    expect(compileError('stage in 3').reason).toBe(
+      '"in" needs a list or string on the right, got number'
+    );
+    expect(compileError('3 in "abc"').reason).toBe('Cannot look for number in a string');
+    expect(compileError('not 3').reason).toBe('"not" needs a boolean, got number');
+    expect(compileError('a and "yes"').reason).toBe('"and" needs booleans, got string');
+  });
+
+  it('rejects conditions that cannot be true or false', () => {
+    expect(compileError('42').reason).toBe('Condition must be true or false, got number');
+    expect(compileError('["a"]').reason).toBe('Condition must be true or false, got list');
+  });
+
+  it('formats the error message from source, column and reason', () => {
+    const error = compileError('score >');
+
+    expect(error).toBeInstanceOf(ExpressionError);
+    expect(error.message).toBe('Unexpected end of expression at column 8 in "score >"');
+    expect(isExpressionError(new Error('other'))).toBe(false);
+  });
+});
+
+describe('evaluateExpression', () => {
+  const scope = {
+    qualification_score: 72,
+    stage: 'qualified',
+    event: { entity_type: 'LEAD', payload: { urgency: 'high', tags: ['vip', 'inbound'] } },
+    archived: false,
+  };
+
+  it('compares numbers, strings and booleans', () => {
+    expect(evaluateExpression('qualification_score >= 50', scope)).toBe(true);
+    expect(evaluateExpression('qualification_score < 50', scope)).toBe(false);
+    expect(evaluateExpression('stage == "qualified"', scope)).toBe(true);
+    expect(evaluateExpression("stage != 'qualified'", scope)).toBe(false);
+    expect(evaluateExpression('stage > "new"', scope)).toBe(true);
+    expect(evaluateExpression('archived == false', scope)).toBe(true);
+  });
+
+  it('resolves nested paths and checks membership', () => {
+    expect(evaluateExpression('event.payload.urgency in ["high", "medium"]', scope)).toBe(true);
+    expect(evaluateExpression('"vip" in event.payload.tags', scope)).toBe(true);
+    expect(evaluateExpression('"partner" not in event.payload.tags', scope)).toBe(true);
+    expect(evaluateExpression('"qual" in stage', scope)).toBe(true);
+  });
+
+  it('applies boolean logic', () => {
+    expect(
+      evaluateExpression('not (event.entity_type == "LEAD" or qualification_score < 50)', scope)
+    ).toBe(false);
+    expect(evaluateExpression('!archived && stage == "qualified"', scope)).toBe(true);
+    expect(evaluateExpression('archived or qualification_score > 70', scope)).toBe(true);
+  });
+
+  it('reads missing paths as null', () => {
+    expect(evaluateExpression('event.payload.budget == null', scope)).toBe(true);
+    expect(evaluateExpression('stage.length == null', scope)).toBe(true);
+    expect(evaluateExpression('missing', scope)).toBe(false);
+  });
+
+  it('is false for comparisons between mismatched runtime types', () => {
+    expect(evaluateExpression('stage > 10', scope)).toBe(false);
+    expect(evaluateExpression('qualification_score == "72"', scope)).toBe(false);
+    expect(evaluateExpression('missing < 10', scope)).toBe(false);
+    expect(evaluateExpression('"vip" in qualification_score', scope)).toBe(false);
+  });
+
+  it('accepts a compiled expression', () => {
+    const expression = compileExpression('qualification_score > -1');
+
+    expect(evaluateExpression(expression, scope)).toBe(true);
+    expect(evaluateExpression(expression, { qualification_score: -5 })).toBe(false);
+  });
+
+  it('throws ExpressionError for a source that does not compile', () => {
+    expect(() => evaluateExpression('score >', scope)).toThrow(ExpressionError);
+  });
+});
@@ -0,0 +1,504 @@
+/**
+ * SOP EXPRESSION LANGUAGE
+ *
+ * A small, side-effect free language for the conditions SOP definitions carry
+ * (preconditions, success criteria, escalation thresholds, step guards).
+ *
+ *   qualification_score >= 50 and payload.urgency in ["high", "medium"]
+ *   not (event.entity_type == "LEAD" or budget < 5000)
+ *
+ * - Literals: numbers, 'single' or "double" quoted strings, true, false, null,
+ *   lists [1, 2, 3]
+ * - Paths: dotted names resolved against the evaluation scope (missing → null)
+ * - Comparisons: == != < <= > >= in, not in
+ * - Boolean logic: and/&&, or/||, not/!, parentheses
+ *
+ * There are no function calls, assignments or arithmetic, so an SOP author can
+ * never run code. Expressions are parsed and type-checked once, when the YAML
+ * loads; evaluation never throws.
+ */
+
+export type ExpressionValueType = 'number' | 'string' | 'boolean' | 'null' | 'list' | 'unknown';
+
+type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in' | 'not in';
+
+export type Expression =
+  | { kind: 'literal'; value: number | string | boolean | null }
+  | { kind: 'path'; segments: string[] }
+  | { kind: 'list'; items: Expression[] }
+  | { kind: 'not'; operand: Expression }
+  | { kind: 'logical'; operator: 'and' | 'or'; left: Expression; right: Expression }
+  | { kind: 'compare'; operator: ComparisonOperator; left: Expression; right: Expression };
+
+/**
+ * Raised when an expression does not parse or type-check
+ */
+export class ExpressionError extends Error {
+  constructor(
+    public readonly source: string,
+    public readonly column: number,
+    public readonly reason: string
+  ) {
+    super(`${reason} at column ${column} in "${source}"`);
+    this.name = 'ExpressionError';
+  }
+}
+
+export function isExpressionError(error: unknown): error is ExpressionError {
+  return error instanceof ExpressionError;
+}
+
+/**
+ * Tokenizer
+ */
+
+type TokenType = 'number' | 'string' | 'identifier' | 'operator' | 'punctuation' | 'end';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  column: number;
+}
+
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '<', '>', '!'];
+const PUNCTUATION = ['(', ')', '[', ']', ',', '.'];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+    const column = i + 1;
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    // Negative numbers only where a value is expected
+    const previous = tokens[tokens.length - 1];
+    const valueExpected =
+      !previous ||
+      previous.type === 'operator' ||
+      (previous.type === 'punctuation' && ['(', '[', ','].includes(previous.value)) ||
+      (previous.type === 'identifier' && ['and', 'or', 'not', 'in'].includes(previous.value));
+
+    if (/[0-9]/.test(char) || (char === '-' && valueExpected && /[0-9]/.test(source[i + 1] || ''))) {
+      const match = /^-?[0-9]+(\.[0-9]+)?/.exec(source.slice(i))!;
+      tokens.push({ type: 'number', value: match[0], column });
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      let j = i + 1;
+      while (j < source.length && source[j] !== char) {
+        if (source[j] === '\\' && j + 1 < source.length) {
+          j++;
+        }
+        value += source[j];
+        j++;
+      }
+      if (j >= source.length) {
+        throw new ExpressionError(source, column, 'Unterminated string');
+      }
+      tokens.push({ type: 'string', value, column });
+      i = j + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+      tokens.push({ type: 'identifier', value: match[0], column });
+      i += match[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, i));
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator, column });
+      i += operator.length;
+      continue;
+    }
+
+    if (PUNCTUATION.includes(char)) {
+      tokens.push({ type: 'punctuation', value: char, column });
+      i++;
+      continue;
+    }
+
+    throw new ExpressionError(source, column, `Unexpected character '${char}'`);
+  }
+
+  tokens.push({ type: 'end', value: '', column: source.length + 1 });
+  return tokens;
+}
+
+/**
+ * Parser (recursive descent)
+ *
+ *   or         := and (("or" | "||") and)*
+ *   and        := not (("and" | "&&") not)*
+ *   not        := ("not" | "!") not | comparison
+ *   comparison := value (("==" | "!=" | "<" | "<=" | ">" | ">=" | "in" | "not in") value)?
+ *   value      := literal | path | "[" (or ("," or)*)? "]" | "(" or ")"
+ */
+class Parser {
+  private tokens: Token[];
+  private index: number;
+
+  constructor(private source: string) {
+    this.tokens = tokenize(source);
+    this.index = 0;
+  }
+
+  parse(): Expression {
+    const expression = this.parseOr();
+    const token = this.peek();
+    if (token.type !== 'end') {
+      throw this.error(token, `Unexpected '${token.value}'`);
+    }
+    return expression;
+  }
+
+  private parseOr(): Expression {
+    let left = this.parseAnd();
+    while (this.matchKeyword('or') || this.matchOperator('||')) {
+      left = { kind: 'logical', operator: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): Expression {
+    let left = this.parseNot();
+    while (this.matchKeyword('and') || this.matchOperator('&&')) {
+      left = { kind: 'logical', operator: 'and', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): Expression {
+    // "not in" is a comparison, handled below
+    if (this.isKeyword(this.peek(), 'not') && !this.isKeyword(this.peek(1), 'in')) {
+      this.index++;
+      return { kind: 'not', operand: this.parseNot() };
+    }
+    if (this.matchOperator('!')) {
+      return { kind: 'not', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Expression {
+    const left = this.parseValue();
+    const token = this.peek();
+
+    let operator: ComparisonOperator | null = null;
+    if (token.type === 'operator' && ['==', '!=', '<', '<=', '>', '>='].includes(token.value)) {
+      operator = token.value as ComparisonOperator;
+      this.index++;
+    } else if (this.isKeyword(token, 'in')) {
+      operator = 'in';
+      this.index++;
+    } else if (this.isKeyword(token, 'not') && this.isKeyword(this.peek(1), 'in')) {
+      operator = 'not in';
+      this.index += 2;
+    }
+
+    if (!operator) {
+      return left;
+    }
+    return { kind: 'compare', operator, left, right: this.parseValue() };
+  }
+
+  private parseValue(): Expression {
+    const token = this.peek();
+    this.index++;
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: parseFloat(token.value) };
+
+      case 'string':
+        return { kind: 'literal', value: token.value };
+
+      case 'identifier': {
+        if (token.value === 'true' || token.value === 'false') {
+          return { kind: 'literal', value: token.value === 'true' };
+        }
+        if (token.value === 'null') {
+          return { kind: 'literal', value: null };
+        }
+        if (['and', 'or', 'not', 'in'].includes(token.value)) {
+          throw this.error(token, `Expected a value but found '${token.value}'`);
+        }
+
+        const segments = [token.value];
+        while (this.peek().type === 'punctuation' && this.peek().value === '.') {
+          this.index++;
+          const next = this.peek();
+          if (next.type !== 'identifier') {
+            throw this.error(next, 'Expected a name after "."');
+          }
+          segments.push(next.value);
+          this.index++;
+        }
+        return { kind: 'path', segments };
+      }
+
+      case 'punctuation':
+        if (token.value === '(') {
+          const inner = this.parseOr();
+          this.expectPunctuation(')');
+          return inner;
+        }
+        if (token.value === '[') {
+          const items: Expression[] = [];
+          if (!this.matchPunctuation(']')) {
+            do {
+              items.push(this.parseOr());
+            } while (this.matchPunctuation(','));
+            this.expectPunctuation(']');
+          }
+          return { kind: 'list', items };
+        }
+        break;
+
+      case 'end':
+        throw this.error(token, 'Unexpected end of expression');
+    }
+
+    throw this.error(token, `Unexpected '${token.value}'`);
+  }
+
+  private peek(offset: number = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private isKeyword(token: Token, keyword: string): boolean {
+    return token.type === 'identifier' && token.value === keyword;
+  }
+
+  private matchKeyword(keyword: string): boolean {
+    if (this.isKeyword(this.peek(), keyword)) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private matchOperator(operator: string): boolean {
+    const token = this.peek();
+    if (token.type === 'operator' && token.value === operator) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private matchPunctuation(value: string): boolean {
+    const token = this.peek();
+    if (token.type === 'punctuation' && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectPunctuation(value: string): void {
+    if (!this.matchPunctuation(value)) {
+      throw this.error(this.peek(), `Expected '${value}'`);
+    }
+  }
+
+  private error(token: Token, reason: string): ExpressionError {
+    return new ExpressionError(this.source, token.column, reason);
+  }
+}
+
+/**
+ * Type checker
+ * Paths are 'unknown' until evaluation; only mismatches between known types are errors.
+ */
+function typeOf(expression: Expression, source: string): ExpressionValueType {
+  const fail = (reason: string): never => {
+    throw new ExpressionError(source, 1, reason);
+  };
+
+  switch (expression.kind) {
+    case 'literal':
+      if (expression.value === null) return 'null';
+      return typeof expression.value as 'number' | 'string' | 'boolean';
+
+    case 'path':
+      return 'unknown';
+
+    case 'list':
+      expression.items.forEach((item) => typeOf(item, source));
+      return 'list';
+
+    case 'not': {
+      const operand = typeOf(expression.operand, source);
+      if (!['boolean', 'unknown'].includes(operand)) {
+        fail(`"not" needs a boolean, got ${operand}`);
+      }
+      return 'boolean';
+    }
+
+    case 'logical': {
+      for (const side of [expression.left, expression.right]) {
+        const type = typeOf(side, source);
+        if (!['boolean', 'unknown'].includes(type)) {
+          fail(`"${expression.operator}" needs booleans, got ${type}`);
+        }
+      }
+      return 'boolean';
+    }
+
+    case 'compare': {
+      const left = typeOf(expression.left, source);
+      const right = typeOf(expression.right, source);
+      const known = left !== 'unknown' && right !== 'unknown';
+
+      switch (expression.operator) {
+        case '==':
+        case '!=':
+          if (known && left !== right && left !== 'null' && right !== 'null') {
+            fail(`Cannot compare ${left} with ${right}`);
+          }
+          break;
+
+        case 'in':
+        case 'not in':
+          if (!['list', 'string', 'unknown'].includes(right)) {
+            fail(`"${expression.operator}" needs a list or string on the right, got ${right}`);
+          }
+          if (right === 'string' && !['string', 'unknown'].includes(left)) {
+            fail(`Cannot look for ${left} in a string`);
+          }
+          break;
+
+        default:
+          for (const type of [left, right]) {
+            if (!['number', 'string', 'unknown'].includes(type)) {
+              fail(`"${expression.operator}" needs numbers or strings, got ${type}`);
+            }
+          }
+          if (known && left !== right) {
+            fail(`Cannot order ${left} against ${right}`);
+          }
+      }
+      return 'boolean';
+    }
+  }
+}
+
+const compiled = new Map<string, Expression>();
+
+/**
+ * Parse and type-check a condition (must produce a boolean or a path)
+ * Compiled expressions are cached by source.
+ * Throws ExpressionError.
+ */
+export function compileExpression(source: string): Expression {
+  const cached = compiled.get(source);
+  if (cached) {
+    return cached;
+  }
+
+  const expression = new Parser(source).parse();
+  const type = typeOf(expression, source);
+  if (!['boolean', 'unknown'].includes(type)) {
+    throw new ExpressionError(source, 1, `Condition must be true or false, got ${type}`);
+  }
+
+  compiled.set(source, expression);
+  return expression;
+}
+
+/**
+ * Evaluate an expression against a scope
+ * Missing paths read as null, and comparisons between mismatched runtime types are false.
+ */
+export function evaluateExpression(
+  expression: Expression | string,
+  scope: Record<string, unknown>
+): boolean {
+  const parsed = typeof expression === 'string' ? compileExpression(expression) : expression;
+  return Boolean(evaluate(parsed, scope));
+}
+
+function evaluate(expression: Expression, scope: Record<string, unknown>): unknown {
+  switch (expression.kind) {
+    case 'literal':
+      return expression.value;
+
+    case 'path': {
+      let value: unknown = scope;
+      for (const segment of expression.segments) {
+        if (value === null || typeof value !== 'object') {
+          return null;
+        }
+        value = (value as Record<string, unknown>)[segment];
+      }
+      return value === undefined ? null : value;
+    }
+
+    case 'list':
+      return expression.items.map((item) => evaluate(item, scope));
+
+    case 'not':
+      return !evaluate(expression.operand, scope);
+
+    case 'logical':
+      return expression.operator === 'and'
+        ? Boolean(evaluate(expression.left, scope)) && Boolean(evaluate(expression.right, scope))
+        : Boolean(evaluate(expression.left, scope)) || Boolean(evaluate(expression.right, scope));
+
+    case 'compare': {
+      const left = evaluate(expression.left, scope);
+      const right = evaluate(expression.right, scope);
+
+      switch (expression.operator) {
+        case '==':
+          return left === right;
+        case '!=':
+          return left !== right;
+        case 'in':
+          return contains(right, left);
+        case 'not in':
+          return !contains(right, left);
+      }
+
+      const comparable =
+        (typeof left === 'number' && typeof right === 'number') ||
+        (typeof left === 'string' && typeof right === 'string');
+      if (!comparable) {
+        return false;
+      }
+
+      switch (expression.operator) {
+        case '<':
+          return (left as number) < (right as number);
+        case '<=':
+          return (left as number) <= (right as number);
+        case '>':
+          return (left as number) > (right as number);
+        case '>=':
+          return (left as number) >= (right as number);
+      }
+    }
+  }
+}
+
+function contains(container: unknown, value: unknown): boolean {
+  if (Array.isArray(container)) {
+    return container.includes(value);
+  }
+  if (typeof container === 'string' && typeof value === 'string') {
+    return container.includes(value);
+  }
+  return false;
+}
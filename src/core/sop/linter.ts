@@ -0,0 +1,387 @@
+/**
+ * SOP LINTER
+ *
+ * Static checks over SOP YAML beyond the Zod shape (validateSOP):
+ *
+ * - YAML syntax and schema errors
+ * - Expressions that do not parse or type-check (conditions.ts)
+ * - Duplicate step ids, dependencies on missing steps, dependency cycles
+ * - fallback_step naming a missing step
+ * - responsible_agent that is not a known agent
+ * - emit_event of an unregistered event type, or one no agent may emit
+ * - emit_event payloads that do not match the event type's schema
+ * - Duplicate SOP ids across files
+ *
+ * Every issue is located to a file, line and column of the YAML source.
+ */
+
+import { readFile, readdir } from 'fs/promises';
+import { join } from 'path';
+import { Document, LineCounter, parseDocument, isNode } from 'yaml';
+import { SOPDefinition, SOPDefinitionSchema } from './types.js';
+import { compileSOPExpressions, declaredPayload } from './conditions.js';
+import { EVENT_PAYLOAD_SCHEMAS, isRegisteredEventType } from '../events/registry.js';
+import { AgentMandate, UNRESTRICTED_EVENT_TYPES } from '../agents/AutonomicAgent.js';
+
+export type SOPLintSeverity = 'error' | 'warning';
+
+export interface SOPLintIssue {
+  file: string;
+  line: number;
+  column: number;
+  /** Dotted path into the definition, e.g. steps.2.dependencies.0 */
+  path: string;
+  severity: SOPLintSeverity;
+  rule: string;
+  message: string;
+}
+
+export interface SOPLintReport {
+  files: string[];
+  issues: SOPLintIssue[];
+  error_count: number;
+  warning_count: number;
+}
+
+export interface SOPLintOptions {
+  /** Agents SOP steps may name as responsible_agent, keyed by emitter id */
+  agents: Partial<Record<string, Pick<AgentMandate, 'emits'>>>;
+}
+
+type Path = Array<string | number>;
+
+/**
+ * Lint one SOP YAML source
+ */
+export function lintSOPSource(
+  source: string,
+  file: string,
+  options: SOPLintOptions
+): SOPLintIssue[] {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(source, { lineCounter });
+  const issues: SOPLintIssue[] = [];
+
+  const report = (severity: SOPLintSeverity, rule: string, path: Path, message: string): void => {
+    issues.push({
+      file,
+      ...locate(doc, lineCounter, path),
+      path: path.join('.'),
+      severity,
+      rule,
+      message,
+    });
+  };
+
+  for (const error of doc.errors) {
+    const [start] = error.linePos || [{ line: 1, col: 1 }];
+    issues.push({
+      file,
+      line: start.line,
+      column: start.col,
+      path: '',
+      severity: 'error',
+      rule: 'yaml-syntax',
+      message: error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, ''),
+    });
+  }
+  if (doc.errors.length > 0) {
+    return issues;
+  }
+
+  const parsed = SOPDefinitionSchema.safeParse(doc.toJS());
+  if (!parsed.success) {
+    for (const issue of parsed.error.issues) {
+      report('error', 'schema', issue.path, issue.message);
+    }
+    return issues;
+  }
+
+  const sop = parsed.data;
+
+  for (const issue of compileSOPExpressions(sop)) {
+    report('error', 'expression', issue.path, issue.message);
+  }
+
+  checkStepGraph(sop, report);
+  checkAgents(sop, options, report);
+  checkPayloads(sop, report);
+
+  return issues;
+}
+
+/**
+ * Lint every SOP YAML file in a directory, including cross-file checks
+ */
+export async function lintSOPDirectory(
+  directory: string,
+  options: SOPLintOptions
+): Promise<SOPLintReport> {
+  const files = (await readdir(directory))
+    .filter((f) => f.endsWith('.yaml') || f.endsWith('.yml'))
+    .sort()
+    .map((f) => join(directory, f));
+
+  const issues: SOPLintIssue[] = [];
+  const ids = new Map<string, string>();
+
+  for (const file of files) {
+    const source = await readFile(file, 'utf-8');
+    issues.push(...lintSOPSource(source, file, options));
+
+    const lineCounter = new LineCounter();
+    const doc = parseDocument(source, { lineCounter });
+    const id = doc.getIn(['metadata', 'id']);
+    if (typeof id !== 'string') {
+      continue;
+    }
+
+    const first = ids.get(id);
+    if (first) {
+      issues.push({
+        file,
+        ...locate(doc, lineCounter, ['metadata', 'id']),
+        path: 'metadata.id',
+        severity: 'error',
+        rule: 'duplicate-sop-id',
+        message: `SOP id '${id}' is already defined in ${first}`,
+      });
+    } else {
+      ids.set(id, file);
+    }
+  }
+
+  return summarize(files, issues);
+}
+
+/**
+ * Collapse a list of issues into a report
+ */
+export function summarize(files: string[], issues: SOPLintIssue[]): SOPLintReport {
+  return {
+    files,
+    issues,
+    error_count: issues.filter((i) => i.severity === 'error').length,
+    warning_count: issues.filter((i) => i.severity === 'warning').length,
+  };
+}
+
+/**
+ * file:line:column severity [rule] message
+ */
+export function formatLintIssue(issue: SOPLintIssue): string {
+  return `${issue.file}:${issue.line}:${issue.column} ${issue.severity} [${issue.rule}] ${issue.message}`;
+}
+
+/**
+ * Position of the nearest node that exists on the path, so a missing field points at its parent
+ */
+function locate(
+  doc: Document,
+  lineCounter: LineCounter,
+  path: Path
+): { line: number; column: number } {
+  for (let depth = path.length; depth >= 0; depth--) {
+    const node = depth === 0 ? doc.contents : doc.getIn(path.slice(0, depth), true);
+    if (isNode(node) && node.range) {
+      const { line, col } = lineCounter.linePos(node.range[0]);
+      return { line, column: col };
+    }
+  }
+  return { line: 1, column: 1 };
+}
+
+type Reporter = (severity: SOPLintSeverity, rule: string, path: Path, message: string) => void;
+
+/**
+ * Step ids, dependencies, fallbacks and cycles
+ */
+function checkStepGraph(sop: SOPDefinition, report: Reporter): void {
+  const index = new Map<string, number>();
+
+  sop.steps.forEach((step, i) => {
+    if (index.has(step.step_id)) {
+      report(
+        'error',
+        'duplicate-step',
+        ['steps', i, 'step_id'],
+        `Step '${step.step_id}' is defined twice`
+      );
+    } else {
+      index.set(step.step_id, i);
+    }
+  });
+
+  sop.steps.forEach((step, i) => {
+    (step.dependencies || []).forEach((dep, k) => {
+      if (!index.has(dep)) {
+        report(
+          'error',
+          'missing-dependency',
+          ['steps', i, 'dependencies', k],
+          `Step '${step.step_id}' depends on unknown step '${dep}'`
+        );
+      }
+    });
+
+    const fallback = step.failure_handling?.fallback_step;
+    if (fallback !== undefined) {
+      if (!index.has(fallback)) {
+        report(
+          'error',
+          'missing-fallback',
+          ['steps', i, 'failure_handling', 'fallback_step'],
+          `Fallback step '${fallback}' does not exist`
+        );
+      } else if (fallback === step.step_id) {
+        report(
+          'error',
+          'missing-fallback',
+          ['steps', i, 'failure_handling', 'fallback_step'],
+          `Step '${step.step_id}' cannot be its own fallback`
+        );
+      }
+    }
+  });
+
+  // Depth-first search; a back edge closes a cycle
+  const state = new Map<string, 'visiting' | 'done'>();
+  const reported = new Set<string>();
+
+  const visit = (stepId: string, trail: string[]): void => {
+    if (state.get(stepId) === 'done') {
+      return;
+    }
+    if (state.get(stepId) === 'visiting') {
+      const cycle = [...trail.slice(trail.indexOf(stepId)), stepId];
+      const key = [...cycle.slice(0, -1)].sort().join(',');
+      if (!reported.has(key)) {
+        reported.add(key);
+        report(
+          'error',
+          'dependency-cycle',
+          ['steps', index.get(stepId)!, 'dependencies'],
+          `Dependency cycle: ${cycle.join(' → ')}`
+        );
+      }
+      return;
+    }
+
+    state.set(stepId, 'visiting');
+    const step = sop.steps[index.get(stepId)!];
+    for (const dep of step.dependencies || []) {
+      if (index.has(dep)) {
+        visit(dep, [...trail, stepId]);
+      }
+    }
+    state.set(stepId, 'done');
+  };
+
+  for (const stepId of index.keys()) {
+    visit(stepId, []);
+  }
+}
+
+/**
+ * Responsible agents and the events their steps emit
+ */
+function checkAgents(sop: SOPDefinition, options: SOPLintOptions, report: Reporter): void {
+  const mayEmit = (eventType: string, agent?: string): boolean => {
+    if ((UNRESTRICTED_EVENT_TYPES as string[]).includes(eventType)) {
+      return true;
+    }
+    const mandates = agent ? [options.agents[agent]] : Object.values(options.agents);
+    return mandates.some((mandate) =>
+      (mandate?.emits as string[] | undefined)?.includes(eventType)
+    );
+  };
+
+  sop.steps.forEach((step, i) => {
+    const agent = step.responsible_agent;
+    const knownAgent = agent !== undefined && options.agents[agent] !== undefined;
+
+    if (agent !== undefined && !knownAgent) {
+      report(
+        'error',
+        'unknown-agent',
+        ['steps', i, 'responsible_agent'],
+        `Unknown responsible_agent '${agent}' (known: ${Object.keys(options.agents).join(', ')})`
+      );
+    }
+
+    (step.actions || []).forEach((action, j) => {
+      if (action.type !== 'emit_event') {
+        return;
+      }
+
+      const path = ['steps', i, 'actions', j, 'config', 'event_type'];
+      const eventType = action.config.event_type;
+
+      if (typeof eventType !== 'string' || !isRegisteredEventType(eventType)) {
+        report(
+          'error',
+          'unknown-event',
+          path,
+          `Event type '${String(eventType)}' is not registered`
+        );
+      } else if (!mayEmit(eventType)) {
+        report('error', 'unauthorized-event', path, `No agent may emit ${eventType}`);
+      } else if (knownAgent && !mayEmit(eventType, agent)) {
+        report('warning', 'unauthorized-event', path, `${agent} may not emit ${eventType}`);
+      }
+    });
+  });
+}
+
+/**
+ * emit_event payloads against the event type's schema
+ * payload_from fields are only known at run time, so they count as present.
+ */
+function checkPayloads(sop: SOPDefinition, report: Reporter): void {
+  sop.steps.forEach((step, i) => {
+    (step.actions || []).forEach((action, j) => {
+      const eventType = action.config.event_type;
+      if (
+        action.type !== 'emit_event' ||
+        typeof eventType !== 'string' ||
+        !isRegisteredEventType(eventType)
+      ) {
+        return;
+      }
+
+      const config = action.config;
+      const fromScope = Object.keys((config.payload_from as Record<string, unknown>) || {});
+      const declared = (config.payload as Record<string, unknown>) || {};
+      const result = EVENT_PAYLOAD_SCHEMAS[eventType].safeParse(declaredPayload(config));
+      if (result.success) {
+        return;
+      }
+
+      for (const issue of result.error.issues) {
+        const [field] = issue.path;
+        if (typeof field === 'string' && fromScope.includes(field)) {
+          continue;
+        }
+
+        const base = ['steps', i, 'actions', j, 'config'];
+        const path =
+          field === undefined
+            ? base
+            : field in declared
+              ? [...base, 'payload', ...issue.path]
+              : field in config
+                ? [...base, ...issue.path]
+                : base;
+        report(
+          'error',
+          'invalid-payload',
+          path,
+          field === undefined
+            ? `${eventType} payload: ${issue.message}`
+            : `${eventType} payload field '${issue.path.join('.')}': ${issue.message}` +
+                (field in declared || field in config ? '' : ' (set it in payload or payload_from)')
+        );
+      }
+    });
+  });
+}
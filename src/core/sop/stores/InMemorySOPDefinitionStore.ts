@@ -0,0 +1,35 @@
+/**
+ * IN-MEMORY SOP DEFINITION STORE
+ *
+ * Zero-dependency backend for offline development and tests.
+ * The history kept under the SOP directory's revisions/ folder is loaded
+ * back into it on startup (see SOPVersionManager).
+ */
+
+import { SOPDefinitionStore, SOPRevision } from '../SOPDefinitionStore.js';
+
+export class InMemorySOPDefinitionStore implements SOPDefinitionStore {
+  readonly backend = 'memory';
+  private revisions: Map<string, SOPRevision[]>;
+
+  constructor() {
+    this.revisions = new Map();
+  }
+
+  async initialize(): Promise<void> {}
+
+  async saveRevision(revision: SOPRevision): Promise<void> {
+    const history = this.revisions.get(revision.sop_id) || [];
+    for (const previous of history) {
+      previous.deactivated_at = previous.deactivated_at || revision.activated_at;
+    }
+    history.push(structuredClone(revision));
+    this.revisions.set(revision.sop_id, history);
+  }
+
+  async listRevisions(sopId: string): Promise<SOPRevision[]> {
+    return (this.revisions.get(sopId) || []).map((r) => structuredClone(r));
+  }
+
+  async close(): Promise<void> {}
+}
@@ -0,0 +1,36 @@
+/**
+ * IN-MEMORY SOP EXECUTION STORE
+ *
+ * Zero-dependency backend for offline development and tests.
+ * Executions are lost on restart.
+ */
+
+import { SOPExecution, SOPExecutionResult } from '../types.js';
+import { SOPExecutionStore } from '../SOPExecutionStore.js';
+
+export class InMemorySOPExecutionStore implements SOPExecutionStore {
+  readonly backend = 'memory';
+  private executions: Map<string, SOPExecution>;
+
+  constructor() {
+    this.executions = new Map();
+  }
+
+  async initialize(): Promise<void> {}
+
+  /**
+   * Stored as a copy so later in-process mutations do not leak into the "saved" state
+   */
+  async save(execution: SOPExecution, _result: SOPExecutionResult): Promise<void> {
+    this.executions.set(execution.context.execution_id, structuredClone(execution));
+  }
+
+  async loadInFlight(): Promise<SOPExecution[]> {
+    return Array.from(this.executions.values())
+      .filter((e) => e.status === 'in_progress' || e.status === 'escalated')
+      .sort((a, b) => a.context.started_at.localeCompare(b.context.started_at))
+      .map((e) => structuredClone(e));
+  }
+
+  async close(): Promise<void> {}
+}
@@ -0,0 +1,105 @@
+/**
+ * POSTGRES SOP DEFINITION STORE
+ *
+ * Direct `pg` backend writing `sop_definitions` (supabase/migrations 001 and 005),
+ * used alongside the Postgres event store adapter.
+ */
+
+import pg from 'pg';
+import {
+  SOPDefinitionRow,
+  SOPDefinitionStore,
+  SOPRevision,
+  fromSOPDefinitionRow,
+  toSOPDefinitionRow,
+} from '../SOPDefinitionStore.js';
+import { Logger } from '../../../utils/logger.js';
+
+export interface PostgresSOPDefinitionStoreConfig {
+  connectionString: string;
+  ssl?: boolean;
+  maxConnections?: number;
+}
+
+export class PostgresSOPDefinitionStore implements SOPDefinitionStore {
+  readonly backend = 'postgres';
+  private pool: pg.Pool;
+  private logger: Logger;
+
+  constructor(config: PostgresSOPDefinitionStoreConfig) {
+    this.pool = new pg.Pool({
+      connectionString: config.connectionString,
+      ssl: config.ssl ? { rejectUnauthorized: false } : undefined,
+      max: config.maxConnections || 2,
+    });
+    this.logger = new Logger('PostgresSOPDefinitionStore');
+  }
+
+  /**
+   * Schema is managed via migrations; only verify it is reachable
+   */
+  async initialize(): Promise<void> {
+    try {
+      await this.pool.query('SELECT semver FROM sop_definitions LIMIT 1');
+    } catch (error) {
+      this.logger.error('Failed to reach sop_definitions', { error });
+      throw new Error(`PostgreSQL connection failed: ${String(error)}`);
+    }
+  }
+
+  /**
+   * Deactivate and insert in one transaction so an SOP never has two active revisions
+   */
+  async saveRevision(revision: SOPRevision): Promise<void> {
+    const row = toSOPDefinitionRow(revision);
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      await client.query(
+        `UPDATE sop_definitions SET deactivated_at = $2
+         WHERE sop_id = $1 AND deactivated_at IS NULL`,
+        [row.sop_id, row.activated_at]
+      );
+      await client.query(
+        `INSERT INTO sop_definitions (
+           sop_id, version, semver, definition, activated_at, deactivated_at,
+           previous_version, approval_mechanism, proposal_id, changes
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+        [
+          row.sop_id,
+          row.version,
+          row.semver,
+          JSON.stringify(row.definition),
+          row.activated_at,
+          row.deactivated_at,
+          row.previous_version,
+          row.approval_mechanism,
+          row.proposal_id,
+          JSON.stringify(row.changes),
+        ]
+      );
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async listRevisions(sopId: string): Promise<SOPRevision[]> {
+    const result = await this.pool.query<SOPDefinitionRow>(
+      `SELECT sop_id, version, semver, definition, activated_at, deactivated_at,
+              previous_version, approval_mechanism, proposal_id, changes
+       FROM sop_definitions WHERE sop_id = $1 ORDER BY version ASC`,
+      [sopId]
+    );
+
+    return result.rows.map(fromSOPDefinitionRow);
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * POSTGRES SOP EXECUTION STORE
+ *
+ * Direct `pg` backend writing `sop_executions` (supabase/migrations 001 and 004),
+ * used alongside the Postgres event store adapter.
+ */
+
+import pg from 'pg';
+import { SOPExecution, SOPExecutionResult } from '../types.js';
+import { SOPExecutionStore, toSOPExecutionRow } from '../SOPExecutionStore.js';
+import { Logger } from '../../../utils/logger.js';
+
+export interface PostgresSOPExecutionStoreConfig {
+  connectionString: string;
+  ssl?: boolean;
+  maxConnections?: number;
+}
+
+export class PostgresSOPExecutionStore implements SOPExecutionStore {
+  readonly backend = 'postgres';
+  private pool: pg.Pool;
+  private logger: Logger;
+
+  constructor(config: PostgresSOPExecutionStoreConfig) {
+    this.pool = new pg.Pool({
+      connectionString: config.connectionString,
+      ssl: config.ssl ? { rejectUnauthorized: false } : undefined,
+      max: config.maxConnections || 2,
+    });
+    this.logger = new Logger('PostgresSOPExecutionStore');
+  }
+
+  /**
+   * Schema is managed via migrations; only verify it is reachable
+   */
+  async initialize(): Promise<void> {
+    try {
+      await this.pool.query('SELECT execution_state FROM sop_executions LIMIT 1');
+    } catch (error) {
+      this.logger.error('Failed to reach sop_executions', { error });
+      throw new Error(`PostgreSQL connection failed: ${String(error)}`);
+    }
+  }
+
+  async save(execution: SOPExecution, result: SOPExecutionResult): Promise<void> {
+    const row = toSOPExecutionRow(execution, result);
+
+    await this.pool.query(
+      `INSERT INTO sop_executions (
+         execution_id, sop_id, sop_semver, correlation_id, current_step,
+         started_at, completed_at, updated_at, cycle_time_hours,
+         total_steps, automated_steps, automation_rate,
+         human_hours, estimated_cost, status, outcome, execution_state
+       ) VALUES (
+         $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17
+       )
+       ON CONFLICT (execution_id) DO UPDATE SET
+         current_step = EXCLUDED.current_step,
+         completed_at = EXCLUDED.completed_at,
+         updated_at = EXCLUDED.updated_at,
+         cycle_time_hours = EXCLUDED.cycle_time_hours,
+         total_steps = EXCLUDED.total_steps,
+         automated_steps = EXCLUDED.automated_steps,
+         automation_rate = EXCLUDED.automation_rate,
+         human_hours = EXCLUDED.human_hours,
+         estimated_cost = EXCLUDED.estimated_cost,
+         status = EXCLUDED.status,
+         outcome = EXCLUDED.outcome,
+         execution_state = EXCLUDED.execution_state`,
+      [
+        row.execution_id,
+        row.sop_id,
+        row.sop_semver,
+        row.correlation_id,
+        row.current_step,
+        row.started_at,
+        row.completed_at,
+        row.updated_at,
+        row.cycle_time_hours,
+        row.total_steps,
+        row.automated_steps,
+        row.automation_rate,
+        row.human_hours,
+        row.estimated_cost,
+        row.status,
+        JSON.stringify(row.outcome),
+        JSON.stringify(row.execution_state),
+      ]
+    );
+  }
+
+  async loadInFlight(): Promise<SOPExecution[]> {
+    const result = await this.pool.query<{ execution_state: SOPExecution }>(
+      `SELECT execution_state FROM sop_executions
+       WHERE status IN ('in_progress', 'escalated') AND execution_state IS NOT NULL
+       ORDER BY started_at ASC`
+    );
+
+    return result.rows.map((row) => row.execution_state);
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
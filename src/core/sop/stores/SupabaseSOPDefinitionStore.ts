@@ -0,0 +1,92 @@
+/**
+ * SUPABASE SOP DEFINITION STORE
+ *
+ * Cloud-native backend writing `sop_definitions` (supabase/migrations 001 and 005).
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import {
+  SOPDefinitionRow,
+  SOPDefinitionStore,
+  SOPRevision,
+  fromSOPDefinitionRow,
+  toSOPDefinitionRow,
+} from '../SOPDefinitionStore.js';
+import { Logger } from '../../../utils/logger.js';
+
+export interface SupabaseSOPDefinitionStoreConfig {
+  supabaseUrl: string;
+  supabaseKey: string;
+}
+
+export class SupabaseSOPDefinitionStore implements SOPDefinitionStore {
+  readonly backend = 'supabase';
+  private supabase: SupabaseClient;
+  private logger: Logger;
+
+  constructor(config: SupabaseSOPDefinitionStoreConfig) {
+    this.supabase = createClient(config.supabaseUrl, config.supabaseKey);
+    this.logger = new Logger('SupabaseSOPDefinitionStore');
+  }
+
+  /**
+   * Tables are created via migrations; verify 005 has been applied
+   */
+  async initialize(): Promise<void> {
+    const { error } = await this.supabase.from('sop_definitions').select('semver').limit(1);
+
+    if (error) {
+      this.logger.error('Failed to reach sop_definitions', { error });
+      throw new Error(`Supabase connection failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Deactivate first: the partial unique index allows one active revision per SOP
+   */
+  async saveRevision(revision: SOPRevision): Promise<void> {
+    const row = toSOPDefinitionRow(revision);
+
+    const { error: deactivateError } = await this.supabase
+      .from('sop_definitions')
+      .update({ deactivated_at: row.activated_at })
+      .eq('sop_id', row.sop_id)
+      .is('deactivated_at', null);
+
+    if (deactivateError) {
+      this.logger.error('Failed to deactivate SOP revision', {
+        sop_id: row.sop_id,
+        error: deactivateError.message,
+      });
+      throw deactivateError;
+    }
+
+    const { error } = await this.supabase.from('sop_definitions').insert(row);
+
+    if (error) {
+      this.logger.error('Failed to save SOP revision', {
+        sop_id: row.sop_id,
+        revision: row.version,
+        error: error.message,
+      });
+      throw error;
+    }
+  }
+
+  async listRevisions(sopId: string): Promise<SOPRevision[]> {
+    const { data, error } = await this.supabase
+      .from('sop_definitions')
+      .select('*')
+      .eq('sop_id', sopId)
+      .order('version', { ascending: true });
+
+    if (error) {
+      this.logger.error('Failed to load SOP revisions', { sop_id: sopId, error: error.message });
+      throw error;
+    }
+
+    return (data || []).map((row) => fromSOPDefinitionRow(row as SOPDefinitionRow));
+  }
+
+  async close(): Promise<void> {}
+}
@@ -0,0 +1,73 @@
+/**
+ * SUPABASE SOP EXECUTION STORE
+ *
+ * Cloud-native backend writing `sop_executions` (supabase/migrations 001 and 004).
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { SOPExecution, SOPExecutionResult } from '../types.js';
+import { SOPExecutionStore, toSOPExecutionRow } from '../SOPExecutionStore.js';
+import { Logger } from '../../../utils/logger.js';
+
+export interface SupabaseSOPExecutionStoreConfig {
+  supabaseUrl: string;
+  supabaseKey: string;
+}
+
+export class SupabaseSOPExecutionStore implements SOPExecutionStore {
+  readonly backend = 'supabase';
+  private supabase: SupabaseClient;
+  private logger: Logger;
+
+  constructor(config: SupabaseSOPExecutionStoreConfig) {
+    this.supabase = createClient(config.supabaseUrl, config.supabaseKey);
+    this.logger = new Logger('SupabaseSOPExecutionStore');
+  }
+
+  /**
+   * Tables are created via migrations; verify 004 has been applied
+   */
+  async initialize(): Promise<void> {
+    const { error } = await this.supabase
+      .from('sop_executions')
+      .select('execution_state')
+      .limit(1);
+
+    if (error) {
+      this.logger.error('Failed to reach sop_executions', { error });
+      throw new Error(`Supabase connection failed: ${error.message}`);
+    }
+  }
+
+  async save(execution: SOPExecution, result: SOPExecutionResult): Promise<void> {
+    const { error } = await this.supabase
+      .from('sop_executions')
+      .upsert(toSOPExecutionRow(execution, result), { onConflict: 'execution_id' });
+
+    if (error) {
+      this.logger.error('Failed to save SOP execution', {
+        execution_id: execution.context.execution_id,
+        error: error.message,
+      });
+      throw error;
+    }
+  }
+
+  async loadInFlight(): Promise<SOPExecution[]> {
+    const { data, error } = await this.supabase
+      .from('sop_executions')
+      .select('execution_state')
+      .in('status', ['in_progress', 'escalated'])
+      .not('execution_state', 'is', null)
+      .order('started_at', { ascending: true });
+
+    if (error) {
+      this.logger.error('Failed to load in-flight SOP executions', { error: error.message });
+      throw error;
+    }
+
+    return (data || []).map((row) => row.execution_state as SOPExecution);
+  }
+
+  async close(): Promise<void> {}
+}
@@ -11,7 +11,7 @@
  */
 
 import { z } from 'zod';
-import { EventType, EntityType } from '../events/types.js';
+import { EventType, EntityType, EventEnvelope } from '../events/types.js';
 
 /**
  * SOP Metadata
@@ -25,6 +25,7 @@ export const SOPMetadataSchema = z.object({
   updated_at: z.string().datetime(),
   status: z.enum(['active', 'deprecated', 'draft']),
   tags: z.array(z.string()),
+  priority: z.number().int().optional(),
 });
 
 export type SOPMetadata = z.infer<typeof SOPMetadataSchema>;
@@ -44,6 +45,7 @@ export const SOPPreconditionSchema = z.object({
     })
     .optional(),
   custom_conditions: z.record(z.unknown()).optional(),
+  condition: z.string().optional(),
 });
 
 export type SOPPrecondition = z.infer<typeof SOPPreconditionSchema>;
@@ -60,6 +62,7 @@ export const SOPStepSchema = z.object({
   requires_human: z.boolean().default(false),
   timeout_hours: z.number().optional(),
   dependencies: z.array(z.string()).optional(),
+  when: z.string().optional(),
   actions: z.array(
     z.object({
       type: z.enum(['emit_event', 'external_api', 'notification', 'decision']),
@@ -86,11 +89,21 @@ export const SOPAutomationPolicySchema = z.object({
   forbidden_actions: z.array(z.string()),
   confidence_threshold: z.number().min(0).max(1),
   financial_limit: z.number().optional(),
+  /** Human steps need two distinct approvers instead of one */
   require_dual_approval: z.boolean().default(false),
+  /** Only approvers with one of these roles may approve human steps */
+  approver_roles: z.array(z.string()).optional(),
+  /**
+   * Evaluated against the business calendar of the execution's client or office
+   * (see BusinessCalendar); automated steps outside the window are deferred
+   */
   time_restrictions: z
     .object({
       business_hours_only: z.boolean().default(false),
-      blackout_dates: z.array(z.string()).optional(),
+      /** Local dates (YYYY-MM-DD) without automation */
+      blackout_dates: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)).optional(),
+      /** Count timeout_hours of human waits in working hours */
+      business_hours_timeouts: z.boolean().default(false),
     })
     .optional(),
 });
@@ -187,6 +200,84 @@ export interface SOPExecutionResult {
   }>;
 }
 
+/**
+ * Lifecycle of one step within an execution
+ */
+export type SOPStepStatus =
+  | 'pending'
+  | 'running'
+  | 'waiting_human'
+  | 'deferred'
+  | 'completed'
+  | 'failed'
+  | 'skipped';
+
+/**
+ * Progress of one step within an execution
+ */
+export interface SOPStepRun {
+  step_id: string;
+  status: SOPStepStatus;
+  attempts: number;
+  /**
+   * Fallback steps stay inactive until a failing step hands over to them
+   */
+  active: boolean;
+  escalated: boolean;
+  completed_by?: 'automation' | 'human';
+  /**
+   * HUMAN_APPROVAL_REQUESTED event the step is waiting on
+   */
+  approval_event_id?: string;
+  /**
+   * When the current attempt times out (from timeout_hours)
+   */
+  deadline?: string;
+  /**
+   * Next allowed slot of a step held back by the automation policy's time restrictions
+   */
+  deferred_until?: string;
+  fallback_to?: string;
+  started_at?: string;
+  finished_at?: string;
+  error?: string;
+}
+
+/**
+ * Full state of a running or finished SOP execution (plain JSON)
+ */
+export interface SOPExecution {
+  context: SOPExecutionContext;
+  /**
+   * metadata.version of the SOP definition the execution started on
+   */
+  sop_version: string;
+  status: SOPExecutionResult['status'];
+  trigger: EventEnvelope;
+  steps: SOPStepRun[];
+  deviations: SOPExecutionResult['deviations'];
+  human_minutes: number;
+  completed_at?: string;
+}
+
+/**
+ * One change of an SOP version proposal
+ * The optional fields carry what a change needs to be applied to a definition.
+ * A type rather than an interface, so it fits Record-typed event payloads.
+ */
+export type SOPDefinitionChange = {
+  type: 'increase_automation' | 'remove_step' | 'add_step' | 'reorder' | 'adjust_threshold';
+  step_id?: string;
+  change_description: string;
+  rationale: string;
+  /** add_step: the new step */
+  step?: SOPStep;
+  /** reorder: every step_id in the new order */
+  order?: string[];
+  /** adjust_threshold: new automation_policy.confidence_threshold */
+  value?: number;
+};
+
 /**
  * Validate SOP definition
  */
@@ -0,0 +1,153 @@
+/**
+ * SOP VERSIONING
+ *
+ * Semantic version helpers and the translation of a version proposal's
+ * changes into a concrete SOP definition.
+ */
+
+import { SOPDefinition, SOPDefinitionChange, SOPStepSchema } from './types.js';
+
+const AUTOMATION_LEVELS = ['manual', 'assisted', 'full'] as const;
+
+export interface AppliedSOPChanges {
+  definition: SOPDefinition;
+  applied: SOPDefinitionChange[];
+  skipped: Array<{ change: SOPDefinitionChange; reason: string }>;
+}
+
+export function incrementVersion(version: string, type: 'major' | 'minor' = 'minor'): string {
+  const parts = version.split('.');
+  if (type === 'major') {
+    parts[0] = String(parseInt(parts[0]) + 1);
+    parts[1] = '0';
+    parts[2] = '0';
+  } else {
+    parts[1] = String(parseInt(parts[1]) + 1);
+  }
+  return parts.join('.');
+}
+
+/**
+ * Order two "major.minor.patch" versions (missing parts count as 0)
+ */
+export function compareVersions(a: string, b: string): number {
+  const pa = a.split('.').map((p) => parseInt(p) || 0);
+  const pb = b.split('.').map((p) => parseInt(p) || 0);
+
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] || 0) - (pb[i] || 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Apply proposal changes to a copy of an SOP and stamp it with the new version
+ * Changes that cannot be applied (unknown step, missing parameters) are skipped.
+ */
+export function applySOPChanges(
+  sop: SOPDefinition,
+  changes: SOPDefinitionChange[],
+  version: string
+): AppliedSOPChanges {
+  const definition = structuredClone(sop);
+  const applied: SOPDefinitionChange[] = [];
+  const skipped: AppliedSOPChanges['skipped'] = [];
+
+  const findStep = (stepId?: string) => definition.steps.find((s) => s.step_id === stepId);
+
+  for (const change of changes) {
+    const reason = applyChange(definition, change, findStep);
+    if (reason) {
+      skipped.push({ change, reason });
+    } else {
+      applied.push(change);
+    }
+  }
+
+  definition.metadata.version = version;
+  definition.metadata.updated_at = new Date().toISOString();
+
+  return { definition, applied, skipped };
+}
+
+/**
+ * Returns why a change could not be applied, or null once applied
+ */
+function applyChange(
+  definition: SOPDefinition,
+  change: SOPDefinitionChange,
+  findStep: (stepId?: string) => SOPDefinition['steps'][number] | undefined
+): string | null {
+  switch (change.type) {
+    case 'increase_automation': {
+      const step = findStep(change.step_id);
+      if (!step) {
+        return `Unknown step '${change.step_id ?? ''}'`;
+      }
+      const level = AUTOMATION_LEVELS.indexOf(step.automation_level);
+      step.automation_level = AUTOMATION_LEVELS[Math.min(level + 1, AUTOMATION_LEVELS.length - 1)];
+      step.requires_human = false;
+      return null;
+    }
+
+    case 'remove_step': {
+      const step = findStep(change.step_id);
+      if (!step) {
+        return `Unknown step '${change.step_id ?? ''}'`;
+      }
+      definition.steps = definition.steps.filter((s) => s !== step);
+
+      // Dependents now wait on what the removed step waited on
+      for (const other of definition.steps) {
+        if (other.dependencies?.includes(step.step_id)) {
+          other.dependencies = [
+            ...new Set([
+              ...other.dependencies.filter((d) => d !== step.step_id),
+              ...(step.dependencies || []),
+            ]),
+          ];
+        }
+        if (other.failure_handling?.fallback_step === step.step_id) {
+          delete other.failure_handling.fallback_step;
+        }
+      }
+      return null;
+    }
+
+    case 'add_step': {
+      const parsed = SOPStepSchema.safeParse(change.step);
+      if (!parsed.success) {
+        return 'add_step needs a valid step';
+      }
+      if (findStep(parsed.data.step_id)) {
+        return `Step '${parsed.data.step_id}' already exists`;
+      }
+      definition.steps.push(parsed.data);
+      return null;
+    }
+
+    case 'reorder': {
+      const order = change.order || [];
+      const ids = definition.steps.map((s) => s.step_id);
+      if (order.length !== ids.length || !ids.every((id) => order.includes(id))) {
+        return 'reorder needs every step_id exactly once';
+      }
+      definition.steps = order.map((id) => findStep(id)!);
+      return null;
+    }
+
+    case 'adjust_threshold': {
+      if (typeof change.value !== 'number' || change.value < 0 || change.value > 1) {
+        return 'adjust_threshold needs a value between 0 and 1';
+      }
+      definition.automation_policy.confidence_threshold = change.value;
+      return null;
+    }
+
+    default:
+      return `Unsupported change type '${(change as SOPDefinitionChange).type}'`;
+  }
+}
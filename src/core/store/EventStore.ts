@@ -6,166 +6,192 @@
  *
  * This is an append-only, immutable data structure.
  * Events are NEVER modified or deleted (except for GDPR compliance).
- * 
- * Now powered by Supabase for cloud-native event storage.
+ *
+ * Storage is pluggable (see EventStoreAdapter): Supabase in the cloud,
+ * a direct PostgreSQL connection locally, or memory for offline runs and tests.
+ *
+ * Reads upcast stored payloads to the current schema version (see upcasting.ts).
  */
 
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import { EventEnvelope, EventType } from '../events/types.js';
+import { EventEnvelope } from '../events/types.js';
+import { CausalTrace, buildCausalTrace } from '../events/causality.js';
+import { upcastEvent } from '../events/upcasting.js';
 import { Logger } from '../../utils/logger.js';
+import {
+  EventStoreAdapter,
+  EventQuery,
+  EntitySnapshot,
+  EventStoreStats,
+  correlationIdOf,
+} from './EventStoreAdapter.js';
+import { SupabaseEventStoreAdapter } from './adapters/SupabaseEventStoreAdapter.js';
+import { PostgresEventStoreAdapter } from './adapters/PostgresEventStoreAdapter.js';
+import { InMemoryEventStoreAdapter } from './adapters/InMemoryEventStoreAdapter.js';
+import { AppendOptions } from './concurrency.js';
+
+export type { EventQuery, EventStoreAdapter } from './EventStoreAdapter.js';
+export type { AppendOptions } from './concurrency.js';
+export { ConcurrencyConflictError } from './concurrency.js';
+
+export type EventStoreBackend = 'supabase' | 'postgres' | 'memory';
+
+export type EventStoreConfig =
+  | {
+      backend?: 'supabase';
+      supabaseUrl: string;
+      supabaseKey: string;
+    }
+  | {
+      backend: 'postgres';
+      connectionString: string;
+      ssl?: boolean;
+    }
+  | {
+      backend: 'memory';
+      seedEvents?: EventEnvelope[];
+    }
+  | {
+      backend: 'custom';
+      adapter: EventStoreAdapter;
+    };
 
-export interface EventStoreConfig {
-  supabaseUrl: string;
-  supabaseKey: string;
-}
-
-export interface EventQuery {
-  eventTypes?: EventType[];
-  entityType?: string;
-  entityId?: string;
-  emittedBy?: string;
-  fromDate?: Date;
-  toDate?: Date;
-  requiresHuman?: boolean;
-  limit?: number;
-  offset?: number;
+/**
+ * Build the adapter for a backend configuration
+ */
+export function createEventStoreAdapter(config: EventStoreConfig): EventStoreAdapter {
+  switch (config.backend) {
+    case 'postgres':
+      return new PostgresEventStoreAdapter({
+        connectionString: config.connectionString,
+        ssl: config.ssl,
+      });
+    case 'memory':
+      return new InMemoryEventStoreAdapter(config.seedEvents);
+    case 'custom':
+      return config.adapter;
+    case 'supabase':
+    case undefined:
+      return new SupabaseEventStoreAdapter({
+        supabaseUrl: config.supabaseUrl,
+        supabaseKey: config.supabaseKey,
+      });
+  }
 }
 
 export class EventStore {
-  private supabase: SupabaseClient;
+  private adapter: EventStoreAdapter;
   private logger: Logger;
 
   constructor(config: EventStoreConfig) {
-    this.supabase = createClient(config.supabaseUrl, config.supabaseKey);
+    this.adapter = createEventStoreAdapter(config);
     this.logger = new Logger('EventStore');
   }
 
+  /**
+   * Name of the active storage backend
+   */
+  get backend(): string {
+    return this.adapter.backend;
+  }
+
   /**
    * Initialize the event store
-   * With Supabase, tables are already created via migrations
    */
   async initialize(): Promise<void> {
-    this.logger.info('Initializing Supabase event store');
-
-    // Verify connection by checking if the events table exists
-    const { error } = await this.supabase
-      .from('events')
-      .select('event_id')
-      .limit(1);
-
-    if (error) {
-      this.logger.error('Failed to connect to Supabase event store', { error });
-      throw new Error(`Supabase connection failed: ${error.message}`);
-    }
-
-    this.logger.info('Supabase event store initialized successfully');
+    this.logger.info('Initializing event store', { backend: this.adapter.backend });
+    await this.adapter.initialize();
+    this.logger.info('Event store initialized successfully', { backend: this.adapter.backend });
   }
 
   /**
    * Append an event to the store
    * This is the ONLY way to write to the event store
+   *
+   * Pass expectedVersion to reject the write if the entity stream moved on
+   * since the caller read it (throws ConcurrencyConflictError).
+   * Returns the event's position in the global log.
    */
-  async append(event: EventEnvelope): Promise<void> {
-    const { error } = await this.supabase.from('events').insert({
-      event_id: event.event_id,
-      event_type: event.event_type,
-      aggregate_type: event.entity_type,
-      aggregate_id: event.entity_id,
-      payload: event.payload,
-      confidence: event.confidence,
-      created_at: event.created_at,
-      timestamp: event.created_at,
-      emitted_by: event.emitted_by,
-      requires_human: event.requires_human,
-      metadata: event.metadata || {},
-      correlation_id: event.event_id, // Use event_id as correlation_id if not provided
-    });
-
-    if (error) {
-      this.logger.error('Failed to append event', {
-        event_id: event.event_id,
-        error: error.message,
-      });
-      throw error;
-    }
+  async append(event: EventEnvelope, options: AppendOptions = {}): Promise<number> {
+    const position = await this.adapter.append(event, options);
 
     this.logger.debug('Event appended to store', {
       event_id: event.event_id,
       event_type: event.event_type,
+      expected_version: options.expectedVersion,
+      position,
     });
+
+    return position;
   }
 
   /**
-   * Query events from the store
+   * Position of the newest event in the log (0 if the log is empty)
    */
-  async query(query: EventQuery): Promise<EventEnvelope[]> {
-    let queryBuilder = this.supabase
-      .from('events')
-      .select('*')
-      .order('sequence_number', { ascending: true });
-
-    if (query.eventTypes && query.eventTypes.length > 0) {
-      queryBuilder = queryBuilder.in('event_type', query.eventTypes);
-    }
-
-    if (query.entityType) {
-      queryBuilder = queryBuilder.eq('aggregate_type', query.entityType);
-    }
-
-    if (query.entityId) {
-      queryBuilder = queryBuilder.eq('aggregate_id', query.entityId);
-    }
+  async getHeadPosition(): Promise<number> {
+    return this.adapter.getHeadPosition();
+  }
 
-    if (query.emittedBy) {
-      queryBuilder = queryBuilder.eq('emitted_by', query.emittedBy);
-    }
+  /**
+   * Current version of an entity stream (0 if the entity has no events)
+   */
+  async getStreamVersion(entityType: string, entityId: string): Promise<number> {
+    return this.adapter.getStreamVersion(entityType, entityId);
+  }
 
-    if (query.fromDate) {
-      queryBuilder = queryBuilder.gte('created_at', query.fromDate.toISOString());
-    }
+  /**
+   * Query events from the store
+   */
+  async query(query: EventQuery): Promise<EventEnvelope[]> {
+    return this.upcast(await this.adapter.query(query));
+  }
 
-    if (query.toDate) {
-      queryBuilder = queryBuilder.lte('created_at', query.toDate.toISOString());
-    }
+  /**
+   * Number of events a query matches (limit and offset ignored)
+   */
+  async count(query: EventQuery): Promise<number> {
+    return this.adapter.count(query);
+  }
 
-    if (query.requiresHuman !== undefined) {
-      queryBuilder = queryBuilder.eq('requires_human', query.requiresHuman);
-    }
+  /**
+   * Query events exactly as stored, without upcasting (for audits and schema checks)
+   */
+  async queryStored(query: EventQuery): Promise<EventEnvelope[]> {
+    return this.adapter.query(query);
+  }
 
-    if (query.limit) {
-      queryBuilder = queryBuilder.limit(query.limit);
-    }
+  /**
+   * Get a single event by id
+   */
+  async getEvent(eventId: string): Promise<EventEnvelope | null> {
+    const events = await this.query({ eventId, limit: 1 });
+    return events[0] || null;
+  }
 
-    if (query.offset) {
-      queryBuilder = queryBuilder.range(query.offset, query.offset + (query.limit || 100) - 1);
+  /**
+   * Rebuild the causal tree an event belongs to (null if the event is unknown)
+   */
+  async getCausalTrace(eventId: string): Promise<CausalTrace | null> {
+    const event = await this.getEvent(eventId);
+    if (!event) {
+      return null;
     }
 
-    const { data, error } = await queryBuilder;
+    const correlationId = correlationIdOf(event);
+    const events = await this.adapter.query({ correlationId });
 
-    if (error) {
-      this.logger.error('Failed to query events', { error: error.message });
-      throw error;
+    // Events written before correlation was recorded only correlate with themselves
+    if (!events.some((e) => e.event_id === event.event_id)) {
+      events.push(event);
     }
 
-    return (data || []).map((row) => ({
-      event_id: row.event_id,
-      event_type: row.event_type as EventType,
-      entity_type: row.aggregate_type,
-      entity_id: row.aggregate_id,
-      payload: row.payload,
-      confidence: parseFloat(row.confidence) || 1.0,
-      created_at: row.created_at,
-      emitted_by: row.emitted_by,
-      requires_human: row.requires_human || false,
-      metadata: row.metadata,
-    }));
+    return buildCausalTrace(eventId, correlationId, events);
   }
 
   /**
    * Get all events for an entity (for state reconstruction)
    */
   async getEntityHistory(entityType: string, entityId: string): Promise<EventEnvelope[]> {
-    return this.query({ entityType, entityId });
+    return this.upcast(await this.adapter.getEntityHistory(entityType, entityId));
   }
 
   /**
@@ -184,124 +210,50 @@ export class EventStore {
     snapshotData: Record<string, unknown>,
     lastEventId: string
   ): Promise<void> {
-    const { error } = await this.supabase.from('event_snapshots').upsert(
-      {
-        snapshot_id: crypto.randomUUID(),
-        aggregate_type: entityType,
-        aggregate_id: entityId,
-        snapshot_data: snapshotData,
-        snapshot_at: new Date().toISOString(),
-        last_event_id: lastEventId,
-        sequence_number: 0, // Will be updated based on actual sequence
-      },
-      {
-        onConflict: 'aggregate_type,aggregate_id',
-      }
-    );
-
-    if (error) {
-      this.logger.error('Failed to save snapshot', { error: error.message });
-      throw error;
-    }
-
+    await this.adapter.saveSnapshot(entityType, entityId, snapshotData, lastEventId);
     this.logger.debug('Snapshot saved', { aggregate_type: entityType, aggregate_id: entityId });
   }
 
   /**
    * Get snapshot for an entity
    */
-  async getSnapshot(
-    entityType: string,
-    entityId: string
-  ): Promise<{ data: Record<string, unknown>; lastEventId: string } | null> {
-    const { data, error } = await this.supabase
-      .from('event_snapshots')
-      .select('snapshot_data, last_event_id')
-      .eq('aggregate_type', entityType)
-      .eq('aggregate_id', entityId)
-      .single();
-
-    if (error) {
-      if (error.code === 'PGRST116') {
-        // No rows returned
-        return null;
-      }
-      this.logger.error('Failed to get snapshot', { error: error.message });
-      throw error;
-    }
-
-    if (!data) {
-      return null;
-    }
-
-    return {
-      data: data.snapshot_data,
-      lastEventId: data.last_event_id,
-    };
+  async getSnapshot(entityType: string, entityId: string): Promise<EntitySnapshot | null> {
+    return this.adapter.getSnapshot(entityType, entityId);
   }
 
   /**
    * Get statistics
    */
-  async getStats(): Promise<{
-    total_events: number;
-    events_by_type: Record<string, number>;
-    events_requiring_human: number;
-    oldest_event: string | null;
-    newest_event: string | null;
-  }> {
-    // Get total count
-    const { count: totalCount } = await this.supabase
-      .from('events')
-      .select('*', { count: 'exact', head: true });
-
-    // Get events requiring human
-    const { count: humanCount } = await this.supabase
-      .from('events')
-      .select('*', { count: 'exact', head: true })
-      .eq('requires_human', true);
-
-    // Get oldest event
-    const { data: oldestData } = await this.supabase
-      .from('events')
-      .select('created_at')
-      .order('created_at', { ascending: true })
-      .limit(1)
-      .single();
-
-    // Get newest event
-    const { data: newestData } = await this.supabase
-      .from('events')
-      .select('created_at')
-      .order('created_at', { ascending: false })
-      .limit(1)
-      .single();
-
-    // Get events by type (using RPC would be better, but this works for now)
-    const { data: allEvents } = await this.supabase
-      .from('events')
-      .select('event_type');
+  async getStats(): Promise<EventStoreStats & { backend: string }> {
+    const stats = await this.adapter.getStats();
+    return { ...stats, backend: this.adapter.backend };
+  }
 
-    const eventsByType: Record<string, number> = {};
-    if (allEvents) {
-      for (const event of allEvents) {
-        eventsByType[event.event_type] = (eventsByType[event.event_type] || 0) + 1;
+  /**
+   * Upcast stored events to their current schema version.
+   * An event that cannot be upcast is returned as stored rather than failing
+   * the whole read; `npm run check:events` lists them.
+   */
+  private upcast(events: EventEnvelope[]): EventEnvelope[] {
+    return events.map((event) => {
+      try {
+        return upcastEvent(event);
+      } catch (error) {
+        this.logger.warn('Event could not be upcast, returning stored shape', {
+          event_id: event.event_id,
+          event_type: event.event_type,
+          error: String(error),
+        });
+        return event;
       }
-    }
-
-    return {
-      total_events: totalCount || 0,
-      events_by_type: eventsByType,
-      events_requiring_human: humanCount || 0,
-      oldest_event: oldestData?.created_at || null,
-      newest_event: newestData?.created_at || null,
-    };
+    });
   }
 
   /**
-   * Close the connection (no-op for Supabase client)
+   * Close the underlying connection
    */
   async close(): Promise<void> {
+    await this.adapter.close();
     this.logger.info('Event store connection closed');
   }
 }
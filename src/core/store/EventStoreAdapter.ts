@@ -0,0 +1,171 @@
+/**
+ * EVENT STORE ADAPTER - Pluggable Persistence Backends
+ *
+ * The EventStore owns the rules (append-only, ordered, replayable).
+ * Adapters own the storage. Any backend that can honour this contract
+ * can hold the log of truth: Supabase, a local PostgreSQL, or memory.
+ */
+
+import { EventEnvelope, EventType } from '../events/types.js';
+import { AppendOptions } from './concurrency.js';
+
+export interface EventQuery {
+  eventId?: string;
+  correlationId?: string;
+  eventTypes?: EventType[];
+  entityType?: string;
+  entityId?: string;
+  emittedBy?: string;
+  fromDate?: Date;
+  toDate?: Date;
+  requiresHuman?: boolean;
+  /**
+   * Only events appended after this global log position
+   */
+  afterPosition?: number;
+  limit?: number;
+  offset?: number;
+}
+
+export interface EntitySnapshot {
+  data: Record<string, unknown>;
+  lastEventId: string;
+}
+
+export interface EventStoreStats {
+  total_events: number;
+  events_by_type: Record<string, number>;
+  events_requiring_human: number;
+  oldest_event: string | null;
+  newest_event: string | null;
+}
+
+/**
+ * Contract every event store backend must implement
+ */
+export interface EventStoreAdapter {
+  /**
+   * Backend identifier (for logs and health checks)
+   */
+  readonly backend: string;
+
+  /**
+   * Verify connectivity / prepare storage
+   */
+  initialize(): Promise<void>;
+
+  /**
+   * Append a single event (never update, never delete)
+   * Returns the event's position in the global log.
+   * Throws ConcurrencyConflictError when expectedVersion does not match the stream
+   */
+  append(event: EventEnvelope, options?: AppendOptions): Promise<number>;
+
+  /**
+   * Position of the last appended event across all streams (0 if empty)
+   */
+  getHeadPosition(): Promise<number>;
+
+  /**
+   * Current version of an entity stream (last sequence_number, 0 if empty)
+   */
+  getStreamVersion(entityType: string, entityId: string): Promise<number>;
+
+  /**
+   * Query events in log order (ascending global position, across streams)
+   */
+  query(query: EventQuery): Promise<EventEnvelope[]>;
+
+  /**
+   * Number of events a query matches, ignoring its limit and offset
+   */
+  count(query: EventQuery): Promise<number>;
+
+  /**
+   * Get all events for an entity in log order
+   */
+  getEntityHistory(entityType: string, entityId: string): Promise<EventEnvelope[]>;
+
+  /**
+   * Save the latest snapshot for an entity
+   */
+  saveSnapshot(
+    entityType: string,
+    entityId: string,
+    snapshotData: Record<string, unknown>,
+    lastEventId: string
+  ): Promise<void>;
+
+  /**
+   * Get the latest snapshot for an entity
+   */
+  getSnapshot(entityType: string, entityId: string): Promise<EntitySnapshot | null>;
+
+  /**
+   * Get store statistics
+   */
+  getStats(): Promise<EventStoreStats>;
+
+  /**
+   * Release connections
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Check whether an event matches a query (shared by non-SQL backends)
+ */
+export function matchesEventQuery(event: EventEnvelope, query: EventQuery): boolean {
+  if (query.eventId && event.event_id !== query.eventId) {
+    return false;
+  }
+
+  if (query.correlationId && correlationIdOf(event) !== query.correlationId) {
+    return false;
+  }
+
+  if (query.eventTypes && query.eventTypes.length > 0) {
+    if (!query.eventTypes.includes(event.event_type as EventType)) {
+      return false;
+    }
+  }
+
+  if (query.entityType && event.entity_type !== query.entityType) {
+    return false;
+  }
+
+  if (query.entityId && event.entity_id !== query.entityId) {
+    return false;
+  }
+
+  if (query.emittedBy && event.emitted_by !== query.emittedBy) {
+    return false;
+  }
+
+  const createdAt = new Date(event.created_at).getTime();
+
+  if (query.fromDate && createdAt < query.fromDate.getTime()) {
+    return false;
+  }
+
+  if (query.toDate && createdAt > query.toDate.getTime()) {
+    return false;
+  }
+
+  if (query.requiresHuman !== undefined && event.requires_human !== query.requiresHuman) {
+    return false;
+  }
+
+  if (query.afterPosition !== undefined && (event.metadata?.position || 0) <= query.afterPosition) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Correlation id of an event (a root event correlates with itself)
+ */
+export function correlationIdOf(event: EventEnvelope): string {
+  return event.metadata?.correlation_id || event.event_id;
+}
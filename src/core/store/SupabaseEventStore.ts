@@ -11,10 +11,13 @@
  * Events are NEVER modified or deleted (except for GDPR compliance).
  */
 
-import { EventEnvelope } from '../events/types.js';
+import { EventEnvelope, EntityType, EventEmitter } from '../events/types.js';
+import { correlationIdOf } from './EventStoreAdapter.js';
 import { Logger } from '../../utils/logger.js';
 import { getSupabaseAdminClient } from '../../infrastructure/supabase/client.js';
-import type { Database } from '../../infrastructure/supabase/types';
+import type { Database, Json } from '../../infrastructure/supabase/types';
+
+type EventRow = Database['public']['Tables']['events']['Row'];
 
 export interface EventQuery {
   eventTypes?: string[];
@@ -85,12 +88,12 @@ export class SupabaseEventStore {
       // Use the append_event function for automatic sequence numbering
       const { data: eventId, error } = await supabase.rpc('append_event', {
         p_event_type: event.event_type,
-        p_correlation_id: event.correlation_id,
-        p_causation_id: event.causation_id || null,
-        p_aggregate_type: event.aggregate_type,
-        p_aggregate_id: event.aggregate_id,
-        p_payload: event.payload as any,
-        p_metadata: (event.metadata || {}) as any,
+        p_correlation_id: correlationIdOf(event),
+        p_causation_id: event.metadata?.causation_id || null,
+        p_aggregate_type: event.entity_type,
+        p_aggregate_id: event.entity_id,
+        p_payload: event.payload as Json,
+        p_metadata: (event.metadata || {}) as Json,
         p_emitted_by: event.emitted_by,
         p_confidence: event.confidence || null,
       });
@@ -102,7 +105,7 @@ export class SupabaseEventStore {
       this.logger.debug('Event appended to store', {
         event_id: eventId,
         event_type: event.event_type,
-        aggregate: `${event.aggregate_type}:${event.aggregate_id}`,
+        aggregate: `${event.entity_type}:${event.entity_id}`,
       });
     } catch (error) {
       this.logger.error('Failed to append event', {
@@ -169,21 +172,7 @@ export class SupabaseEventStore {
       }
 
       // Map database rows to EventEnvelope
-      return (data || []).map((row) => ({
-        event_id: row.event_id,
-        event_type: row.event_type,
-        correlation_id: row.correlation_id,
-        causation_id: row.causation_id || undefined,
-        aggregate_type: row.aggregate_type,
-        aggregate_id: row.aggregate_id,
-        sequence_number: row.sequence_number,
-        payload: row.payload as Record<string, unknown>,
-        metadata: (row.metadata || {}) as Record<string, unknown>,
-        emitted_by: row.emitted_by,
-        confidence: row.confidence || undefined,
-        timestamp: new Date(row.timestamp),
-        created_at: new Date(row.created_at),
-      }));
+      return (data || []).map((row) => this.toEnvelope(row));
     } catch (error) {
       this.logger.error('Failed to query events', { query, error });
       throw error;
@@ -212,21 +201,7 @@ export class SupabaseEventStore {
         throw error;
       }
 
-      return (data || []).map((row) => ({
-        event_id: row.event_id,
-        event_type: row.event_type,
-        correlation_id: row.correlation_id,
-        causation_id: row.causation_id || undefined,
-        aggregate_type: row.aggregate_type,
-        aggregate_id: row.aggregate_id,
-        sequence_number: row.sequence_number,
-        payload: row.payload as Record<string, unknown>,
-        metadata: (row.metadata || {}) as Record<string, unknown>,
-        emitted_by: row.emitted_by,
-        confidence: row.confidence || undefined,
-        timestamp: new Date(row.timestamp),
-        created_at: new Date(row.created_at),
-      }));
+      return (data || []).map((row) => this.toEnvelope(row));
     } catch (error) {
       this.logger.error('Failed to get aggregate history', {
         aggregate_type: aggregateType,
@@ -450,12 +425,16 @@ export class SupabaseEventStore {
         .order('timestamp', { ascending: true })
         .limit(1);
 
+      if (dateError) throw dateError;
+
       const { data: newestData, error: newestError } = await supabase
         .from('events')
         .select('timestamp')
         .order('timestamp', { ascending: false })
         .limit(1);
 
+      if (newestError) throw newestError;
+
       return {
         total_events: totalEvents || 0,
         events_by_type: eventsByType,
@@ -477,4 +456,31 @@ export class SupabaseEventStore {
     // No explicit close needed
     this.logger.info('Supabase event store closed');
   }
+
+  /**
+   * Map a database row to EventEnvelope
+   * Correlation, causation and log position live in the envelope metadata
+   */
+  private toEnvelope(row: EventRow): EventEnvelope {
+    const metadata = (row.metadata || {}) as NonNullable<EventEnvelope['metadata']>;
+
+    return {
+      event_id: row.event_id,
+      event_type: row.event_type,
+      entity_type: row.aggregate_type as EntityType,
+      entity_id: row.aggregate_id,
+      payload: row.payload as Record<string, unknown>,
+      confidence: row.confidence ?? 1.0,
+      created_at: row.created_at,
+      emitted_by: row.emitted_by as EventEmitter,
+      requires_human: row.requires_human || false,
+      metadata: {
+        ...metadata,
+        correlation_id: row.correlation_id,
+        causation_id: row.causation_id || undefined,
+        version: metadata.version || 1,
+        position: Number(row.global_position),
+      },
+    };
+  }
 }
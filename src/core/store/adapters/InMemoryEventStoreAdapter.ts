@@ -0,0 +1,142 @@
+/**
+ * IN-MEMORY EVENT STORE ADAPTER
+ *
+ * Zero-dependency backend for offline development and tests.
+ * Honours the same append-only contract; state is lost on restart.
+ */
+
+import { EventEnvelope } from '../../events/types.js';
+import {
+  EventStoreAdapter,
+  EventQuery,
+  EntitySnapshot,
+  EventStoreStats,
+  matchesEventQuery,
+} from '../EventStoreAdapter.js';
+import { AppendOptions, ConcurrencyConflictError } from '../concurrency.js';
+
+export class InMemoryEventStoreAdapter implements EventStoreAdapter {
+  readonly backend = 'memory';
+  private events: EventEnvelope[];
+  private snapshots: Map<string, EntitySnapshot>;
+  private streamVersions: Map<string, number>;
+
+  constructor(seedEvents: EventEnvelope[] = []) {
+    this.events = [];
+    this.snapshots = new Map();
+    this.streamVersions = new Map();
+
+    for (const event of seedEvents) {
+      this.store(event);
+    }
+  }
+
+  async initialize(): Promise<void> {}
+
+  async append(event: EventEnvelope, options: AppendOptions = {}): Promise<number> {
+    if (this.events.some((e) => e.event_id === event.event_id)) {
+      throw new Error(`Duplicate event_id: ${event.event_id}`);
+    }
+
+    if (options.expectedVersion !== undefined) {
+      const actualVersion = this.currentVersion(event.entity_type, event.entity_id);
+      if (actualVersion !== options.expectedVersion) {
+        throw new ConcurrencyConflictError(
+          event.entity_type,
+          event.entity_id,
+          options.expectedVersion,
+          actualVersion
+        );
+      }
+    }
+
+    return this.store(event);
+  }
+
+  async getHeadPosition(): Promise<number> {
+    return this.events.length;
+  }
+
+  async getStreamVersion(entityType: string, entityId: string): Promise<number> {
+    return this.currentVersion(entityType, entityId);
+  }
+
+  async query(query: EventQuery): Promise<EventEnvelope[]> {
+    // Appended in global position order
+    const matched = this.events.filter((event) => matchesEventQuery(event, query));
+    const offset = query.offset || 0;
+    const end = query.limit ? offset + query.limit : undefined;
+
+    return matched.slice(offset, end).map((event) => structuredClone(event));
+  }
+
+  async count(query: EventQuery): Promise<number> {
+    return this.events.filter((event) => matchesEventQuery(event, query)).length;
+  }
+
+  async getEntityHistory(entityType: string, entityId: string): Promise<EventEnvelope[]> {
+    return this.query({ entityType, entityId });
+  }
+
+  async saveSnapshot(
+    entityType: string,
+    entityId: string,
+    snapshotData: Record<string, unknown>,
+    lastEventId: string
+  ): Promise<void> {
+    this.snapshots.set(this.entityKey(entityType, entityId), {
+      data: structuredClone(snapshotData),
+      lastEventId,
+    });
+  }
+
+  async getSnapshot(entityType: string, entityId: string): Promise<EntitySnapshot | null> {
+    const snapshot = this.snapshots.get(this.entityKey(entityType, entityId));
+    return snapshot ? structuredClone(snapshot) : null;
+  }
+
+  async getStats(): Promise<EventStoreStats> {
+    const eventsByType: Record<string, number> = {};
+    let eventsRequiringHuman = 0;
+
+    for (const event of this.events) {
+      eventsByType[event.event_type] = (eventsByType[event.event_type] || 0) + 1;
+      if (event.requires_human) {
+        eventsRequiringHuman++;
+      }
+    }
+
+    const timestamps = this.events.map((e) => e.created_at).sort();
+
+    return {
+      total_events: this.events.length,
+      events_by_type: eventsByType,
+      events_requiring_human: eventsRequiringHuman,
+      oldest_event: timestamps[0] || null,
+      newest_event: timestamps[timestamps.length - 1] || null,
+    };
+  }
+
+  async close(): Promise<void> {}
+
+  private store(event: EventEnvelope): number {
+    const key = this.entityKey(event.entity_type, event.entity_id);
+    this.streamVersions.set(key, (this.streamVersions.get(key) || 0) + 1);
+
+    // Store a frozen copy so later mutation by callers cannot rewrite history
+    const position = this.events.length + 1;
+    const stored = structuredClone(event);
+    stored.metadata = { ...stored.metadata, version: stored.metadata?.version || 1, position };
+    this.events.push(Object.freeze(stored));
+
+    return position;
+  }
+
+  private currentVersion(entityType: string, entityId: string): number {
+    return this.streamVersions.get(this.entityKey(entityType, entityId)) || 0;
+  }
+
+  private entityKey(entityType: string, entityId: string): string {
+    return `${entityType}:${entityId}`;
+  }
+}
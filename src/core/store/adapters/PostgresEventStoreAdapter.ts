@@ -0,0 +1,367 @@
+/**
+ * POSTGRES EVENT STORE ADAPTER
+ *
+ * Direct `pg` backend for a local (or self-hosted) PostgreSQL.
+ * Runs against the same schema as Supabase (supabase/migrations),
+ * so the engine can run offline without a Supabase project.
+ */
+
+import pg from 'pg';
+import { EventEnvelope, EventType } from '../../events/types.js';
+import {
+  EventStoreAdapter,
+  EventQuery,
+  EntitySnapshot,
+  EventStoreStats,
+  correlationIdOf,
+} from '../EventStoreAdapter.js';
+import {
+  AppendOptions,
+  ConcurrencyConflictError,
+  SEQUENCE_ALLOCATION_ATTEMPTS,
+} from '../concurrency.js';
+import { Logger } from '../../../utils/logger.js';
+
+export interface PostgresEventStoreAdapterConfig {
+  connectionString: string;
+  ssl?: boolean;
+  maxConnections?: number;
+}
+
+interface EventRow {
+  event_id: string;
+  event_type: string;
+  correlation_id: string;
+  causation_id: string | null;
+  aggregate_type: string;
+  aggregate_id: string;
+  payload: Record<string, unknown>;
+  metadata: Record<string, unknown> | null;
+  emitted_by: string;
+  confidence: string | null;
+  requires_human: boolean | null;
+  created_at: Date;
+  global_position: string;
+}
+
+export class PostgresEventStoreAdapter implements EventStoreAdapter {
+  readonly backend = 'postgres';
+  private pool: pg.Pool;
+  private logger: Logger;
+
+  constructor(config: PostgresEventStoreAdapterConfig) {
+    this.pool = new pg.Pool({
+      connectionString: config.connectionString,
+      ssl: config.ssl ? { rejectUnauthorized: false } : undefined,
+      max: config.maxConnections || 10,
+    });
+    this.logger = new Logger('PostgresEventStoreAdapter');
+  }
+
+  /**
+   * Schema is managed via migrations; only verify it is reachable
+   */
+  async initialize(): Promise<void> {
+    try {
+      await this.pool.query('SELECT event_id FROM events LIMIT 1');
+    } catch (error) {
+      this.logger.error('Failed to connect to PostgreSQL event store', { error });
+      throw new Error(`PostgreSQL connection failed: ${String(error)}`);
+    }
+  }
+
+  /**
+   * Sequence numbers are assigned per aggregate, mirroring append_event().
+   * The (aggregate_type, aggregate_id, sequence_number) unique constraint
+   * is what makes the expected-version check atomic. Without an expected
+   * version, losing that race just means taking the next number.
+   */
+  async append(event: EventEnvelope, options: AppendOptions = {}): Promise<number> {
+    const sequenceSql =
+      options.expectedVersion !== undefined
+        ? '$13::bigint + 1'
+        : `(SELECT COALESCE(MAX(sequence_number), 0) + 1 FROM events
+            WHERE aggregate_type = $5 AND aggregate_id = $6)`;
+
+    const params: unknown[] = [
+      event.event_id,
+      event.event_type,
+      correlationIdOf(event),
+      event.metadata?.causation_id || null,
+      event.entity_type,
+      event.entity_id,
+      JSON.stringify(event.payload),
+      JSON.stringify(event.metadata || {}),
+      event.emitted_by,
+      event.confidence,
+      event.requires_human,
+      event.created_at,
+    ];
+
+    if (options.expectedVersion !== undefined) {
+      const actualVersion = await this.getStreamVersion(event.entity_type, event.entity_id);
+      if (actualVersion !== options.expectedVersion) {
+        throw new ConcurrencyConflictError(
+          event.entity_type,
+          event.entity_id,
+          options.expectedVersion,
+          actualVersion
+        );
+      }
+      params.push(options.expectedVersion);
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = await this.pool.query<{ global_position: string }>(
+          `INSERT INTO events (
+             event_id, event_type, correlation_id, causation_id,
+             aggregate_type, aggregate_id, sequence_number,
+             payload, metadata, emitted_by, confidence, requires_human,
+             timestamp, created_at
+           ) VALUES (
+             $1, $2, $3, $4, $5, $6, ${sequenceSql},
+             $7, $8, $9, $10, $11, $12, $12
+           )
+           RETURNING global_position`,
+          params
+        );
+
+        return parseInt(result.rows[0].global_position);
+      } catch (error) {
+        if (!this.isSequenceViolation(error)) {
+          throw error;
+        }
+        // A concurrent writer claimed the same sequence number
+        if (options.expectedVersion === undefined && attempt < SEQUENCE_ALLOCATION_ATTEMPTS) {
+          continue;
+        }
+        throw new ConcurrencyConflictError(
+          event.entity_type,
+          event.entity_id,
+          options.expectedVersion ?? -1,
+          null
+        );
+      }
+    }
+  }
+
+  async getStreamVersion(entityType: string, entityId: string): Promise<number> {
+    const result = await this.pool.query<{ version: string }>(
+      `SELECT COALESCE(MAX(sequence_number), 0) AS version FROM events
+       WHERE aggregate_type = $1 AND aggregate_id = $2`,
+      [entityType, entityId]
+    );
+
+    return parseInt(result.rows[0].version);
+  }
+
+  async getHeadPosition(): Promise<number> {
+    const result = await this.pool.query<{ position: string }>(
+      'SELECT COALESCE(MAX(global_position), 0) AS position FROM events'
+    );
+
+    return parseInt(result.rows[0].position);
+  }
+
+  async query(query: EventQuery): Promise<EventEnvelope[]> {
+    const { where, params } = this.where(query);
+    let sql = `SELECT * FROM events${where} ORDER BY global_position ASC`;
+
+    if (query.limit) {
+      params.push(query.limit);
+      sql += ` LIMIT $${params.length}`;
+    }
+
+    if (query.offset) {
+      params.push(query.offset);
+      sql += ` OFFSET $${params.length}`;
+    }
+
+    const result = await this.pool.query<EventRow>(sql, params);
+    return result.rows.map((row) => this.toEnvelope(row));
+  }
+
+  async count(query: EventQuery): Promise<number> {
+    const { where, params } = this.where(query);
+    const result = await this.pool.query<{ count: string }>(
+      `SELECT COUNT(*) AS count FROM events${where}`,
+      params
+    );
+    return parseInt(result.rows[0].count);
+  }
+
+  async getEntityHistory(entityType: string, entityId: string): Promise<EventEnvelope[]> {
+    const result = await this.pool.query<EventRow>(
+      `SELECT * FROM events
+       WHERE aggregate_type = $1 AND aggregate_id = $2
+       ORDER BY sequence_number ASC`,
+      [entityType, entityId]
+    );
+
+    return result.rows.map((row) => this.toEnvelope(row));
+  }
+
+  /**
+   * Snapshots are kept as history; each save adds a newer row
+   */
+  async saveSnapshot(
+    entityType: string,
+    entityId: string,
+    snapshotData: Record<string, unknown>,
+    lastEventId: string
+  ): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO event_snapshots (aggregate_type, aggregate_id, sequence_number, state, last_event_id)
+       VALUES (
+         $1, $2,
+         (SELECT COALESCE(MAX(sequence_number), 0) + 1 FROM event_snapshots
+          WHERE aggregate_type = $1 AND aggregate_id = $2),
+         $3, $4
+       )`,
+      [entityType, entityId, JSON.stringify(snapshotData), lastEventId]
+    );
+  }
+
+  async getSnapshot(entityType: string, entityId: string): Promise<EntitySnapshot | null> {
+    const result = await this.pool.query<{ state: Record<string, unknown>; last_event_id: string }>(
+      `SELECT state, last_event_id FROM event_snapshots
+       WHERE aggregate_type = $1 AND aggregate_id = $2
+       ORDER BY sequence_number DESC
+       LIMIT 1`,
+      [entityType, entityId]
+    );
+
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+
+    return {
+      data: row.state,
+      lastEventId: row.last_event_id,
+    };
+  }
+
+  async getStats(): Promise<EventStoreStats> {
+    const totals = await this.pool.query<{
+      total: string;
+      requiring_human: string;
+      oldest: Date | null;
+      newest: Date | null;
+    }>(
+      `SELECT COUNT(*) AS total,
+              COUNT(*) FILTER (WHERE requires_human) AS requiring_human,
+              MIN(created_at) AS oldest,
+              MAX(created_at) AS newest
+       FROM events`
+    );
+
+    const byType = await this.pool.query<{ event_type: string; count: string }>(
+      'SELECT event_type, COUNT(*) AS count FROM events GROUP BY event_type'
+    );
+
+    const eventsByType: Record<string, number> = {};
+    for (const row of byType.rows) {
+      eventsByType[row.event_type] = parseInt(row.count);
+    }
+
+    const row = totals.rows[0];
+
+    return {
+      total_events: parseInt(row.total),
+      events_by_type: eventsByType,
+      events_requiring_human: parseInt(row.requiring_human),
+      oldest_event: row.oldest ? row.oldest.toISOString() : null,
+      newest_event: row.newest ? row.newest.toISOString() : null,
+    };
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+
+  /**
+   * WHERE clause (with its leading space) and parameters for a query's filters
+   */
+  private where(query: EventQuery): { where: string; params: unknown[] } {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    const addCondition = (sql: string, value: unknown) => {
+      params.push(value);
+      conditions.push(sql.replace('?', `$${params.length}`));
+    };
+
+    if (query.eventId) {
+      addCondition('event_id = ?', query.eventId);
+    }
+
+    if (query.correlationId) {
+      addCondition('correlation_id = ?', query.correlationId);
+    }
+
+    if (query.eventTypes && query.eventTypes.length > 0) {
+      addCondition('event_type = ANY(?)', query.eventTypes);
+    }
+
+    if (query.entityType) {
+      addCondition('aggregate_type = ?', query.entityType);
+    }
+
+    if (query.entityId) {
+      addCondition('aggregate_id = ?', query.entityId);
+    }
+
+    if (query.emittedBy) {
+      addCondition('emitted_by = ?', query.emittedBy);
+    }
+
+    if (query.fromDate) {
+      addCondition('created_at >= ?', query.fromDate.toISOString());
+    }
+
+    if (query.toDate) {
+      addCondition('created_at <= ?', query.toDate.toISOString());
+    }
+
+    if (query.requiresHuman !== undefined) {
+      addCondition('requires_human = ?', query.requiresHuman);
+    }
+
+    if (query.afterPosition !== undefined) {
+      addCondition('global_position > ?', query.afterPosition);
+    }
+
+    return {
+      where: conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '',
+      params,
+    };
+  }
+
+  private isSequenceViolation(error: unknown): boolean {
+    const pgError = error as { code?: string; constraint?: string };
+    return pgError.code === '23505' && pgError.constraint === 'events_aggregate_sequence';
+  }
+
+  private toEnvelope(row: EventRow): EventEnvelope {
+    return {
+      event_id: row.event_id,
+      event_type: row.event_type as EventType,
+      entity_type: row.aggregate_type as EventEnvelope['entity_type'],
+      entity_id: row.aggregate_id,
+      payload: row.payload,
+      confidence: row.confidence !== null ? parseFloat(row.confidence) : 1.0,
+      created_at: row.created_at.toISOString(),
+      emitted_by: row.emitted_by as EventEnvelope['emitted_by'],
+      requires_human: row.requires_human || false,
+      metadata: {
+        ...(row.metadata || {}),
+        correlation_id: row.correlation_id,
+        causation_id: row.causation_id || undefined,
+        version: (row.metadata?.version as number) || 1,
+        position: parseInt(row.global_position),
+      },
+    };
+  }
+}
@@ -0,0 +1,375 @@
+/**
+ * SUPABASE EVENT STORE ADAPTER
+ *
+ * Cloud-native backend for the event store.
+ * Requires a live Supabase project with the autonomic schema applied.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { EventEnvelope, EventType } from '../../events/types.js';
+import {
+  EventStoreAdapter,
+  EventQuery,
+  EntitySnapshot,
+  EventStoreStats,
+  correlationIdOf,
+} from '../EventStoreAdapter.js';
+import {
+  AppendOptions,
+  ConcurrencyConflictError,
+  SEQUENCE_ALLOCATION_ATTEMPTS,
+} from '../concurrency.js';
+import { Logger } from '../../../utils/logger.js';
+
+export interface SupabaseEventStoreAdapterConfig {
+  supabaseUrl: string;
+  supabaseKey: string;
+}
+
+export class SupabaseEventStoreAdapter implements EventStoreAdapter {
+  readonly backend = 'supabase';
+  private supabase: SupabaseClient;
+  private logger: Logger;
+
+  constructor(config: SupabaseEventStoreAdapterConfig) {
+    this.supabase = createClient(config.supabaseUrl, config.supabaseKey);
+    this.logger = new Logger('SupabaseEventStoreAdapter');
+  }
+
+  /**
+   * With Supabase, tables are already created via migrations
+   */
+  async initialize(): Promise<void> {
+    // Verify connection by checking if the events table exists
+    const { error } = await this.supabase
+      .from('events')
+      .select('event_id')
+      .limit(1);
+
+    if (error) {
+      this.logger.error('Failed to connect to Supabase event store', { error });
+      throw new Error(`Supabase connection failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * The (aggregate_type, aggregate_id, sequence_number) unique constraint
+   * rejects a concurrent writer that read the same stream version. Without an
+   * expected version, the losing writer re-reads the version and tries again.
+   */
+  async append(event: EventEnvelope, options: AppendOptions = {}): Promise<number> {
+    for (let attempt = 1; ; attempt++) {
+      const position = await this.insert(event, options);
+      if (position !== null) {
+        return position;
+      }
+      if (options.expectedVersion !== undefined || attempt >= SEQUENCE_ALLOCATION_ATTEMPTS) {
+        throw new ConcurrencyConflictError(
+          event.entity_type,
+          event.entity_id,
+          options.expectedVersion ?? -1,
+          null
+        );
+      }
+    }
+  }
+
+  /**
+   * Insert at the next sequence number (null when a concurrent writer took it)
+   */
+  private async insert(event: EventEnvelope, options: AppendOptions): Promise<number | null> {
+    const currentVersion = await this.getStreamVersion(event.entity_type, event.entity_id);
+
+    if (options.expectedVersion !== undefined && currentVersion !== options.expectedVersion) {
+      throw new ConcurrencyConflictError(
+        event.entity_type,
+        event.entity_id,
+        options.expectedVersion,
+        currentVersion
+      );
+    }
+
+    const { data, error } = await this.supabase
+      .from('events')
+      .insert({
+        event_id: event.event_id,
+        event_type: event.event_type,
+        aggregate_type: event.entity_type,
+        aggregate_id: event.entity_id,
+        sequence_number: currentVersion + 1,
+        payload: event.payload,
+        confidence: event.confidence,
+        created_at: event.created_at,
+        timestamp: event.created_at,
+        emitted_by: event.emitted_by,
+        requires_human: event.requires_human,
+        metadata: event.metadata || {},
+        correlation_id: correlationIdOf(event),
+        causation_id: event.metadata?.causation_id || null,
+      })
+      .select('global_position')
+      .single();
+
+    if (error?.code === '23505' && error.message.includes('events_aggregate_sequence')) {
+      return null;
+    }
+
+    if (error) {
+      this.logger.error('Failed to append event', {
+        event_id: event.event_id,
+        error: error.message,
+      });
+      throw error;
+    }
+
+    return Number(data.global_position);
+  }
+
+  async getHeadPosition(): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('events')
+      .select('global_position')
+      .order('global_position', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      this.logger.error('Failed to read head position', { error: error.message });
+      throw error;
+    }
+
+    return data && data.length > 0 ? Number(data[0].global_position) : 0;
+  }
+
+  async getStreamVersion(entityType: string, entityId: string): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('events')
+      .select('sequence_number')
+      .eq('aggregate_type', entityType)
+      .eq('aggregate_id', entityId)
+      .order('sequence_number', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      this.logger.error('Failed to read stream version', { error: error.message });
+      throw error;
+    }
+
+    return data && data.length > 0 ? Number(data[0].sequence_number) : 0;
+  }
+
+  async query(query: EventQuery): Promise<EventEnvelope[]> {
+    let queryBuilder = this.select(query).order('global_position', { ascending: true });
+
+    if (query.limit) {
+      queryBuilder = queryBuilder.limit(query.limit);
+    }
+
+    if (query.offset) {
+      queryBuilder = queryBuilder.range(query.offset, query.offset + (query.limit || 100) - 1);
+    }
+
+    const { data, error } = await queryBuilder;
+
+    if (error) {
+      this.logger.error('Failed to query events', { error: error.message });
+      throw error;
+    }
+
+    return (data || []).map((row) => ({
+      event_id: row.event_id,
+      event_type: row.event_type as EventType,
+      entity_type: row.aggregate_type,
+      entity_id: row.aggregate_id,
+      payload: row.payload,
+      confidence: parseFloat(row.confidence) || 1.0,
+      created_at: row.created_at,
+      emitted_by: row.emitted_by,
+      requires_human: row.requires_human || false,
+      metadata: {
+        ...(row.metadata || {}),
+        correlation_id: row.correlation_id,
+        causation_id: row.causation_id || undefined,
+        version: row.metadata?.version || 1,
+        position: Number(row.global_position),
+      },
+    }));
+  }
+
+  async count(query: EventQuery): Promise<number> {
+    const { count, error } = await this.select(query, { count: 'exact', head: true });
+
+    if (error) {
+      this.logger.error('Failed to count events', { error: error.message });
+      throw error;
+    }
+
+    return count || 0;
+  }
+
+  async getEntityHistory(entityType: string, entityId: string): Promise<EventEnvelope[]> {
+    return this.query({ entityType, entityId });
+  }
+
+  /**
+   * Snapshots are kept as history; each save adds a newer row
+   */
+  async saveSnapshot(
+    entityType: string,
+    entityId: string,
+    snapshotData: Record<string, unknown>,
+    lastEventId: string
+  ): Promise<void> {
+    const { data: latest, error: readError } = await this.supabase
+      .from('event_snapshots')
+      .select('sequence_number')
+      .eq('aggregate_type', entityType)
+      .eq('aggregate_id', entityId)
+      .order('sequence_number', { ascending: false })
+      .limit(1);
+
+    if (readError) {
+      this.logger.error('Failed to read snapshot sequence', { error: readError.message });
+      throw readError;
+    }
+
+    const { error } = await this.supabase.from('event_snapshots').insert({
+      aggregate_type: entityType,
+      aggregate_id: entityId,
+      sequence_number: latest && latest.length > 0 ? Number(latest[0].sequence_number) + 1 : 1,
+      state: snapshotData,
+      last_event_id: lastEventId,
+    });
+
+    if (error) {
+      this.logger.error('Failed to save snapshot', { error: error.message });
+      throw error;
+    }
+  }
+
+  async getSnapshot(entityType: string, entityId: string): Promise<EntitySnapshot | null> {
+    const { data, error } = await this.supabase
+      .from('event_snapshots')
+      .select('state, last_event_id')
+      .eq('aggregate_type', entityType)
+      .eq('aggregate_id', entityId)
+      .order('sequence_number', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      this.logger.error('Failed to get snapshot', { error: error.message });
+      throw error;
+    }
+
+    if (!data || data.length === 0) {
+      return null;
+    }
+
+    return {
+      data: data[0].state,
+      lastEventId: data[0].last_event_id,
+    };
+  }
+
+  async getStats(): Promise<EventStoreStats> {
+    // Get total count
+    const { count: totalCount } = await this.supabase
+      .from('events')
+      .select('*', { count: 'exact', head: true });
+
+    // Get events requiring human
+    const { count: humanCount } = await this.supabase
+      .from('events')
+      .select('*', { count: 'exact', head: true })
+      .eq('requires_human', true);
+
+    // Get oldest event
+    const { data: oldestData } = await this.supabase
+      .from('events')
+      .select('created_at')
+      .order('created_at', { ascending: true })
+      .limit(1)
+      .single();
+
+    // Get newest event
+    const { data: newestData } = await this.supabase
+      .from('events')
+      .select('created_at')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .single();
+
+    // Get events by type (using RPC would be better, but this works for now)
+    const { data: allEvents } = await this.supabase
+      .from('events')
+      .select('event_type');
+
+    const eventsByType: Record<string, number> = {};
+    if (allEvents) {
+      for (const event of allEvents) {
+        eventsByType[event.event_type] = (eventsByType[event.event_type] || 0) + 1;
+      }
+    }
+
+    return {
+      total_events: totalCount || 0,
+      events_by_type: eventsByType,
+      events_requiring_human: humanCount || 0,
+      oldest_event: oldestData?.created_at || null,
+      newest_event: newestData?.created_at || null,
+    };
+  }
+
+  /**
+   * No-op for Supabase client (connection pooling is managed remotely)
+   */
+  async close(): Promise<void> {}
+
+  /**
+   * Events matching a query's filters, before ordering and paging
+   */
+  private select(query: EventQuery, options?: { count: 'exact'; head: boolean }) {
+    let queryBuilder = this.supabase.from('events').select('*', options);
+
+    if (query.eventId) {
+      queryBuilder = queryBuilder.eq('event_id', query.eventId);
+    }
+
+    if (query.correlationId) {
+      queryBuilder = queryBuilder.eq('correlation_id', query.correlationId);
+    }
+
+    if (query.eventTypes && query.eventTypes.length > 0) {
+      queryBuilder = queryBuilder.in('event_type', query.eventTypes);
+    }
+
+    if (query.entityType) {
+      queryBuilder = queryBuilder.eq('aggregate_type', query.entityType);
+    }
+
+    if (query.entityId) {
+      queryBuilder = queryBuilder.eq('aggregate_id', query.entityId);
+    }
+
+    if (query.emittedBy) {
+      queryBuilder = queryBuilder.eq('emitted_by', query.emittedBy);
+    }
+
+    if (query.fromDate) {
+      queryBuilder = queryBuilder.gte('created_at', query.fromDate.toISOString());
+    }
+
+    if (query.toDate) {
+      queryBuilder = queryBuilder.lte('created_at', query.toDate.toISOString());
+    }
+
+    if (query.requiresHuman !== undefined) {
+      queryBuilder = queryBuilder.eq('requires_human', query.requiresHuman);
+    }
+
+    if (query.afterPosition !== undefined) {
+      queryBuilder = queryBuilder.gt('global_position', query.afterPosition);
+    }
+
+    return queryBuilder;
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * OPTIMISTIC CONCURRENCY
+ *
+ * Each aggregate (entity_type + entity_id) is a stream whose version is
+ * its last sequence_number. Writers state the version they decided on;
+ * if another writer got there first, the append is rejected and the
+ * writer must re-read and decide again.
+ */
+
+export interface AppendOptions {
+  /**
+   * Stream version the writer based its decision on (0 = new stream)
+   */
+  expectedVersion?: number;
+}
+
+/**
+ * Times an adapter tries to claim the next sequence number for an append
+ * without an expected version; such appends only fail once every attempt lost
+ */
+export const SEQUENCE_ALLOCATION_ATTEMPTS = 5;
+
+export class ConcurrencyConflictError extends Error {
+  readonly entityType: string;
+  readonly entityId: string;
+  readonly expectedVersion: number;
+  readonly actualVersion: number | null;
+
+  constructor(
+    entityType: string,
+    entityId: string,
+    expectedVersion: number,
+    actualVersion: number | null
+  ) {
+    super(
+      `Concurrency conflict on ${entityType}:${entityId} ` +
+        `(expected version ${expectedVersion}, actual ${actualVersion ?? 'unknown'})`
+    );
+    this.name = 'ConcurrencyConflictError';
+    this.entityType = entityType;
+    this.entityId = entityId;
+    this.expectedVersion = expectedVersion;
+    this.actualVersion = actualVersion;
+  }
+}
+
+export function isConcurrencyConflict(error: unknown): error is ConcurrencyConflictError {
+  return error instanceof ConcurrencyConflictError;
+}
+
+export interface ConflictRetryPolicy {
+  maxAttempts: number;
+  backoffMs: number;
+}
+
+export const DEFAULT_CONFLICT_RETRY_POLICY: ConflictRetryPolicy = {
+  maxAttempts: 3,
+  backoffMs: 50,
+};
+
+/**
+ * Run an operation, re-running it from scratch on concurrency conflicts.
+ * The operation must re-read state on every attempt; only conflicts are retried.
+ */
+export async function retryOnConflict<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: ConflictRetryPolicy = DEFAULT_CONFLICT_RETRY_POLICY
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (!isConcurrencyConflict(error) || attempt >= policy.maxAttempts) {
+        throw error;
+      }
+
+      // Linear backoff with jitter so competing writers spread out
+      const delay = policy.backoffMs * attempt + Math.random() * policy.backoffMs;
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
@@ -8,8 +8,21 @@
 import dotenv from 'dotenv';
 import express from 'express';
 import { EventBus, eventBus } from './core/bus/EventBus.js';
+import { EventEnvelope } from './core/events/types.js';
 import { EventStore } from './core/store/EventStore.js';
 import { SOPResolver } from './core/sop/SOPResolver.js';
+import { BusinessCalendar } from './core/sop/BusinessCalendar.js';
+import { SOPExecutor, createSOPExecutionStore } from './core/sop/SOPExecutor.js';
+import { SOPVersionManager, createSOPDefinitionStore } from './core/sop/SOPVersionManager.js';
+import { SOPEvolutionEngine } from './core/sop/SOPEvolutionEngine.js';
+import { SOPSimulator } from './core/sop/SOPSimulator.js';
+import { Notifier, createNotificationAdapters } from './core/notifications/Notifier.js';
+import {
+  OversightPolicyEngine,
+  evaluateOversightPolicy,
+  parseOversightPolicy,
+} from './core/oversight/OversightPolicyEngine.js';
+import { ApprovalManager } from './core/approvals/ApprovalManager.js';
 import { IntakeAgent } from './agents/intake/IntakeAgent.js';
 import { MeetingAgent } from './agents/meeting/MeetingAgent.js';
 import { StrategyAgent } from './agents/strategy/StrategyAgent.js';
@@ -18,7 +31,10 @@ import { FinanceAgent } from './agents/finance/FinanceAgent.js';
 import { OversightAgent } from './agents/oversight/OversightAgent.js';
 import { EconomicAgent } from './agents/economic/EconomicAgent.js';
 import { AutomationCoverageAgent } from './agents/coverage/AutomationCoverageAgent.js';
+import { StateProjection } from './core/projections/StateProjection.js';
 import { ClientHealthView } from './projections/client/ClientHealthView.js';
+import { ProjectTimelineView } from './projections/project/ProjectTimelineView.js';
+import { HumanApprovalView } from './projections/approval/HumanApprovalView.js';
 import { Logger } from './utils/logger.js';
 import { setupEventAPI } from './api/controllers/eventController.js';
 import { setupApprovalAPI } from './api/controllers/approvalController.js';
@@ -29,6 +45,11 @@ import { setupDriftAPI } from './api/controllers/driftController.js';
 import { setupAgentAPI } from './api/controllers/agentController.js';
 import { setupSSEAPI } from './api/controllers/sseController.js';
 import { setupAuthAPI } from './api/controllers/authController.js';
+import { setupDeadLetterAPI } from './api/controllers/deadLetterController.js';
+import { setupHeldEventAPI } from './api/controllers/heldEventController.js';
+import { setupProjectionAPI } from './api/controllers/projectionController.js';
+import { setupProjectTimelineAPI } from './api/controllers/projectTimelineController.js';
+import { AutonomicEngineConfig, loadEngineConfig } from './config.js';
 
 dotenv.config();
 
@@ -40,19 +61,54 @@ const logger = new Logger('AutonomicEngine');
 class AutonomicEngine {
   private eventBus: EventBus;
   private eventStore: EventStore;
+  private businessCalendar: BusinessCalendar;
   private sopResolver: SOPResolver;
+  private sopExecutor: SOPExecutor;
+  private sopVersions: SOPVersionManager;
+  private sopEvolution: SOPEvolutionEngine;
+  private sopSimulator: SOPSimulator;
+  private notifier: Notifier;
+  private oversightPolicies: OversightPolicyEngine;
+  private approvalManager: ApprovalManager;
   private agents: Array<any>;
-  private projections: Array<any>;
+  private projections: StateProjection<unknown>[];
   private app: express.Application;
   private isRunning: boolean;
 
-  constructor() {
+  constructor(config: AutonomicEngineConfig = loadEngineConfig()) {
     this.eventBus = eventBus;
-    this.eventStore = new EventStore({
-      supabaseUrl: process.env.SUPABASE_URL || '',
-      supabaseKey: process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+    this.eventStore = new EventStore(config.eventStore);
+    this.businessCalendar = new BusinessCalendar(config.businessCalendarFile);
+    this.sopResolver = new SOPResolver(config.sopDirectory, this.businessCalendar);
+    this.sopVersions = new SOPVersionManager(
+      this.sopResolver,
+      createSOPDefinitionStore(config.eventStore)
+    );
+    this.notifier = new Notifier(this.eventBus, {
+      ...config.notifications,
+      adapters: createNotificationAdapters(config.notifications),
+      delegateFor: (recipientId) => this.approvalManager.delegateFor(recipientId),
     });
-    this.sopResolver = new SOPResolver('./sops');
+    this.sopExecutor = new SOPExecutor(this.eventBus, this.sopResolver, {
+      executionStore: createSOPExecutionStore(config.eventStore),
+      eventStore: this.eventStore,
+      handlers: {
+        notify: (notification) => this.notifier.notifySOP(notification),
+      },
+    });
+    this.sopEvolution = new SOPEvolutionEngine(
+      this.eventBus,
+      this.eventStore,
+      this.sopResolver,
+      this.sopVersions,
+      config.sopEvolution
+    );
+    this.sopSimulator = new SOPSimulator(this.eventStore, this.sopResolver);
+    this.oversightPolicies = new OversightPolicyEngine(
+      config.oversight.policyFile,
+      config.oversight.parameters
+    );
+    this.approvalManager = new ApprovalManager(this.eventBus, this.eventStore, config.approvals);
 
     this.agents = [];
     this.projections = [];
@@ -66,22 +122,31 @@ class AutonomicEngine {
   async initialize(): Promise<void> {
     logger.info('Initializing Autonomic Engine');
 
+    // Working hours for SOP time restrictions
+    await this.businessCalendar.initialize();
+
     // Initialize SOP definitions
     logger.info('Loading SOP definitions');
     await this.sopResolver.initialize();
 
+    // Load activated SOP versions and their history
+    await this.sopVersions.initialize();
+
     // Initialize event store (gracefully handle connection failures)
     try {
       await this.eventStore.initialize();
-      // Wire event bus to event store (persist all events)
-      this.eventBus.subscribe(async (event) => {
-        await this.eventStore.append(event);
-      });
+      // Wire event bus to event store (persist all events before dispatch)
+      this.eventBus.attachStore(this.eventStore);
+      await this.eventBus.getDeadLetterQueue().load();
+      await this.eventBus.getHeldEventQueue().load();
     } catch (error) {
       logger.warn('EventStore initialization failed - running in degraded mode without persistence', { error });
       logger.warn('API endpoints will be available but data operations may fail');
     }
 
+    // Rules the oversight agent decides by
+    await this.oversightPolicies.initialize();
+
     // Initialize all agents
     logger.info('Initializing autonomic agents');
 
@@ -92,11 +157,11 @@ class AutonomicEngine {
     const financeAgent = new FinanceAgent(this.eventBus);
     const economicAgent = new EconomicAgent(this.eventBus, this.sopResolver);
     const coverageAgent = new AutomationCoverageAgent(this.eventBus, this.sopResolver);
-    const oversightAgent = new OversightAgent(this.eventBus, {
-      financial_limit: parseInt(process.env.FINANCIAL_LIMIT || '10000'),
-      confidence_threshold: parseFloat(process.env.CONFIDENCE_THRESHOLD || '0.75'),
-      auto_approval_enabled: process.env.AUTO_APPROVAL_ENABLED === 'true',
-    });
+    const oversightAgent = new OversightAgent(
+      this.eventBus,
+      { auto_approval_enabled: process.env.AUTO_APPROVAL_ENABLED === 'true' },
+      this.oversightPolicies
+    );
 
     this.agents = [
       intakeAgent,
@@ -113,11 +178,26 @@ class AutonomicEngine {
       await agent.initialize();
     }
 
+    // Deliver SOP escalations and notification actions
+    await this.notifier.initialize();
+
+    // Turn optimization recommendations into new SOP versions; restores rollout
+    // candidates, so it goes before executions that may run on them resume
+    await this.sopEvolution.initialize();
+
+    // Run SOP steps for events that resolve to an SOP, resuming in-flight executions
+    await this.sopExecutor.initialize();
+
+    // Approver roles and delegations; expire open approval requests
+    await this.approvalManager.initialize();
+
     // Initialize projections
     logger.info('Initializing state projections');
 
     const clientHealthView = new ClientHealthView(this.eventBus, this.eventStore);
-    this.projections = [clientHealthView];
+    const projectTimelineView = new ProjectTimelineView(this.eventBus, this.eventStore);
+    const humanApprovalView = new HumanApprovalView(this.eventBus, this.eventStore);
+    this.projections = [clientHealthView, projectTimelineView, humanApprovalView];
 
     for (const projection of this.projections) {
       try {
@@ -166,30 +246,68 @@ class AutonomicEngine {
 
     // Event API
     setupEventAPI(this.app, this.eventBus, this.eventStore);
+    setupDeadLetterAPI(this.app, this.eventBus);
+    setupHeldEventAPI(this.app, this.eventBus);
 
     // New API Controllers
-    setupApprovalAPI(this.app);
-    setupCEOAPI(this.app);
+    const approvals = this.projections[2] as HumanApprovalView;
+    setupApprovalAPI(this.app, this.eventBus, approvals, this.approvalManager);
+    setupCEOAPI(this.app, approvals, this.approvalManager);
     setupClientAPI(this.app);
-    setupSOPAPI(this.app);
-    setupDriftAPI(this.app);
-    setupAgentAPI(this.app);
+    setupSOPAPI(
+      this.app,
+      this.sopResolver,
+      this.sopVersions,
+      this.sopEvolution,
+      this.sopSimulator
+    );
+    setupDriftAPI(this.app, approvals);
+    setupAgentAPI(this.app, this.eventBus);
     setupSSEAPI(this.app, this.eventBus);
 
     // Projections API
+    setupProjectionAPI(this.app, this.projections);
+    setupProjectTimelineAPI(this.app, this.projections[1] as ProjectTimelineView);
+
     this.app.get('/api/projections/client-health', (req, res) => {
       const view = this.projections[0] as ClientHealthView;
       const allState = Array.from(view.getAllState().values());
       res.json(allState);
     });
 
-    this.app.get('/api/projections/client-health/:clientId', (req, res) => {
+    // ?as_of=<ISO timestamp> shows what the system believed at that moment
+    this.app.get('/api/projections/client-health/:clientId', async (req, res) => {
       const view = this.projections[0] as ClientHealthView;
-      const state = view.getState(req.params.clientId);
-      if (state) {
-        res.json(state);
-      } else {
-        res.status(404).json({ error: 'Client not found' });
+
+      if (req.query.as_of === undefined) {
+        const state = view.getState(req.params.clientId);
+        if (state) {
+          res.json(state);
+        } else {
+          res.status(404).json({ error: 'Client not found' });
+        }
+        return;
+      }
+
+      const asOf = new Date(req.query.as_of as string);
+      if (isNaN(asOf.getTime())) {
+        res.status(400).json({ error: 'as_of must be an ISO 8601 timestamp' });
+        return;
+      }
+
+      try {
+        const state = await view.getStateAt(req.params.clientId, asOf);
+        if (state) {
+          res.json({ ...state, as_of: asOf.toISOString() });
+        } else {
+          res.status(404).json({ error: 'Client not found at that time' });
+        }
+      } catch (error) {
+        logger.error('Failed to reconstruct client health', { error });
+        res.status(500).json({
+          error: 'Failed to reconstruct client health',
+          details: String(error),
+        });
       }
     });
 
@@ -200,14 +318,57 @@ class AutonomicEngine {
 
     // Oversight statistics
     this.app.get('/api/oversight/stats', (req, res) => {
-      const oversightAgent = this.agents[5] as OversightAgent;
+      const oversightAgent = this.agents[this.agents.length - 1] as OversightAgent;
       res.json(oversightAgent.getOversightStats());
     });
 
     this.app.get('/api/oversight/decisions', (req, res) => {
-      const oversightAgent = this.agents[5] as OversightAgent;
+      const oversightAgent = this.agents[this.agents.length - 1] as OversightAgent;
       res.json(oversightAgent.getDecisionLog());
     });
+
+    // Oversight policy in force
+    this.app.get('/api/oversight/policy', (_req, res) => {
+      res.json(this.oversightPolicies.getPolicy());
+    });
+
+    this.app.post('/api/oversight/policy/reload', async (_req, res) => {
+      try {
+        const policy = await this.oversightPolicies.reload();
+        res.json({ policy_id: policy.policy_id, version: policy.version, rules: policy.rules.length });
+      } catch (error) {
+        res.status(400).json({
+          error: 'Failed to reload oversight policy',
+          details: error instanceof Error ? error.message : String(error),
+        });
+      }
+    });
+
+    // Decide on an event without acting on it; body.policy tries a draft policy as written
+    this.app.post('/api/oversight/policy/evaluate', (req, res) => {
+      const { event, policy } = req.body || {};
+      if (!event || typeof event.event_type !== 'string' || typeof event.payload !== 'object') {
+        res.status(400).json({ error: 'event with event_type and payload is required' });
+        return;
+      }
+
+      try {
+        const envelope = {
+          confidence: 1,
+          requires_human: false,
+          ...event,
+        } as EventEnvelope;
+        const evaluation = policy
+          ? evaluateOversightPolicy(parseOversightPolicy(policy, 'request body'), envelope)
+          : this.oversightPolicies.evaluate(envelope);
+        res.json(evaluation);
+      } catch (error) {
+        res.status(400).json({
+          error: 'Invalid oversight policy',
+          details: error instanceof Error ? error.message : String(error),
+        });
+      }
+    });
   }
 
   /**
@@ -231,10 +392,16 @@ class AutonomicEngine {
   async shutdown(): Promise<void> {
     logger.info('Shutting down Autonomic Engine');
 
+    await this.sopExecutor.shutdown();
+    await this.approvalManager.shutdown();
+    await this.notifier.shutdown();
+    await this.sopVersions.close();
+
     // Shutdown agents
     for (const agent of this.agents) {
       await agent.shutdown();
     }
+    await this.oversightPolicies.shutdown();
 
     // Shutdown projections
     for (const projection of this.projections) {
@@ -271,4 +438,5 @@ engine.start().catch((error) => {
   process.exit(1);
 });
 
-export { AutonomicEngine };
+export { AutonomicEngine, loadEngineConfig };
+export type { AutonomicEngineConfig };
@@ -3,11 +3,14 @@
  *
  * Type definitions for the Big Box Autonomic Engine database schema
  * These types provide type-safety for all database operations
+ *
+ * Keep the `supabase gen types` shape (Relationships, Views, Enums,
+ * CompositeTypes): the typed client resolves every row to `never` without it.
  */
 
 export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[];
 
-export interface Database {
+export type Database = {
   public: {
     Tables: {
       events: {
@@ -23,8 +26,10 @@ export interface Database {
           metadata: Json;
           emitted_by: string;
           confidence: number | null;
+          requires_human: boolean;
           timestamp: string;
           created_at: string;
+          global_position: number;
         };
         Insert: {
           event_id?: string;
@@ -38,8 +43,10 @@ export interface Database {
           metadata?: Json;
           emitted_by: string;
           confidence?: number | null;
+          requires_human?: boolean;
           timestamp?: string;
           created_at?: string;
+          global_position?: number;
         };
         Update: {
           event_id?: string;
@@ -53,9 +60,12 @@ export interface Database {
           metadata?: Json;
           emitted_by?: string;
           confidence?: number | null;
+          requires_human?: boolean;
           timestamp?: string;
           created_at?: string;
+          global_position?: number;
         };
+        Relationships: [];
       };
       event_snapshots: {
         Row: {
@@ -82,6 +92,7 @@ export interface Database {
           state?: Json;
           created_at?: string;
         };
+        Relationships: [];
       };
       human_approvals: {
         Row: {
@@ -126,6 +137,7 @@ export interface Database {
           resolution_notes?: string | null;
           created_at?: string;
         };
+        Relationships: [];
       };
       sop_definitions: {
         Row: {
@@ -137,6 +149,9 @@ export interface Database {
           deactivated_at: string | null;
           previous_version: number | null;
           approval_mechanism: 'auto_approve' | 'silent_timeout' | 'explicit_human' | null;
+          semver: string | null;
+          proposal_id: string | null;
+          changes: Json;
         };
         Insert: {
           sop_id: string;
@@ -147,6 +162,9 @@ export interface Database {
           deactivated_at?: string | null;
           previous_version?: number | null;
           approval_mechanism?: 'auto_approve' | 'silent_timeout' | 'explicit_human' | null;
+          semver?: string | null;
+          proposal_id?: string | null;
+          changes?: Json;
         };
         Update: {
           sop_id?: string;
@@ -157,15 +175,22 @@ export interface Database {
           deactivated_at?: string | null;
           previous_version?: number | null;
           approval_mechanism?: 'auto_approve' | 'silent_timeout' | 'explicit_human' | null;
+          semver?: string | null;
+          proposal_id?: string | null;
+          changes?: Json;
         };
+        Relationships: [];
       };
       sop_executions: {
         Row: {
           execution_id: string;
           sop_id: string;
-          sop_version: number;
+          sop_version: number | null;
+          sop_semver: string | null;
           correlation_id: string;
+          current_step: string | null;
           started_at: string;
+          updated_at: string;
           completed_at: string | null;
           cycle_time_hours: number | null;
           total_steps: number;
@@ -176,13 +201,17 @@ export interface Database {
           quality_score: number | null;
           status: 'in_progress' | 'completed' | 'failed' | 'escalated' | null;
           outcome: Json | null;
+          execution_state: Json | null;
         };
         Insert: {
           execution_id?: string;
           sop_id: string;
-          sop_version: number;
+          sop_version?: number | null;
+          sop_semver?: string | null;
           correlation_id: string;
+          current_step?: string | null;
           started_at?: string;
+          updated_at?: string;
           completed_at?: string | null;
           cycle_time_hours?: number | null;
           total_steps: number;
@@ -193,13 +222,17 @@ export interface Database {
           quality_score?: number | null;
           status?: 'in_progress' | 'completed' | 'failed' | 'escalated' | null;
           outcome?: Json | null;
+          execution_state?: Json | null;
         };
         Update: {
           execution_id?: string;
           sop_id?: string;
-          sop_version?: number;
+          sop_version?: number | null;
+          sop_semver?: string | null;
           correlation_id?: string;
+          current_step?: string | null;
           started_at?: string;
+          updated_at?: string;
           completed_at?: string | null;
           cycle_time_hours?: number | null;
           total_steps?: number;
@@ -210,7 +243,9 @@ export interface Database {
           quality_score?: number | null;
           status?: 'in_progress' | 'completed' | 'failed' | 'escalated' | null;
           outcome?: Json | null;
+          execution_state?: Json | null;
         };
+        Relationships: [];
       };
       agent_metrics: {
         Row: {
@@ -255,6 +290,7 @@ export interface Database {
           human_hours_saved?: number | null;
           created_at?: string;
         };
+        Relationships: [];
       };
       client_health: {
         Row: {
@@ -305,6 +341,7 @@ export interface Database {
           health_status?: 'healthy' | 'attention_needed' | 'at_risk' | 'critical' | null;
           updated_at?: string;
         };
+        Relationships: [];
       };
       chaos_experiments: {
         Row: {
@@ -349,8 +386,10 @@ export interface Database {
           recovery_time_seconds?: number | null;
           status?: 'running' | 'completed' | 'aborted';
         };
+        Relationships: [];
       };
     };
+    Views: Record<never, never>;
     Functions: {
       get_event_stream: {
         Args: {
@@ -375,5 +414,7 @@ export interface Database {
         Returns: string; // event_id UUID
       };
     };
+    Enums: Record<never, never>;
+    CompositeTypes: Record<never, never>;
   };
-}
+};
@@ -0,0 +1,211 @@
+/**
+ * HUMAN APPROVAL VIEW PROJECTION
+ *
+ * The human approval queue: one entry per HUMAN_APPROVAL_REQUESTED, with the
+ * HUMAN_APPROVAL_VOTED votes cast on it (its audit trail) and settled by its
+ * HUMAN_APPROVAL_RESOLVED. Entries keep the shape of a `human_approvals` row
+ * so the approval and CEO dashboards read them unchanged.
+ * Derived from events, never directly mutated.
+ */
+
+import { StateProjection } from '../../core/projections/StateProjection.js';
+import {
+  EventEnvelope,
+  HumanApprovalRequestedPayload,
+  HumanApprovalResolvedPayload,
+  HumanApprovalVotedPayload,
+} from '../../core/events/types.js';
+import { EventBus } from '../../core/bus/EventBus.js';
+import { EventStore, EventQuery } from '../../core/store/EventStore.js';
+
+export type HumanApprovalStatus = 'pending' | 'approved' | 'rejected';
+
+export interface HumanApprovalVote {
+  vote_event_id: string;
+  vote: HumanApprovalVotedPayload['vote'];
+  voter: string;
+  on_behalf_of: string | null;
+  roles: string[];
+  notes: string | null;
+  amended_decision: Record<string, unknown> | null;
+  voted_at: string;
+}
+
+export interface HumanApprovalState {
+  /**
+   * Id of the HUMAN_APPROVAL_REQUESTED event (also event_id)
+   */
+  approval_id: string;
+  event_id: string;
+  /**
+   * Agent that asked (emitter when the request does not name one)
+   */
+  agent_id: string;
+  request_type: string;
+  request_reason: string;
+  decision_context: Record<string, unknown>;
+  recommended_action: string;
+  confidence: number;
+  urgency: HumanApprovalRequestedPayload['urgency'];
+  entity_type: string;
+  entity_id: string;
+  status: HumanApprovalStatus;
+  required_approvals: number;
+  /** Empty when anyone may vote */
+  approver_roles: string[];
+  /** Votes in the order they were counted */
+  votes: HumanApprovalVote[];
+  timeout_at: string | null;
+  /** Decision applied when timeout_at passes (null: the approvals file's default) */
+  on_expiry: HumanApprovalRequestedPayload['on_expiry'] | null;
+  /** Decided by expiry rather than by votes */
+  expired: boolean;
+  resolved_at: string | null;
+  resolved_by: string | null;
+  resolution_notes: string | null;
+  amended_decision: Record<string, unknown> | null;
+  resolution_event_id: string | null;
+  created_at: string;
+}
+
+export interface HumanApprovalFilter {
+  status?: HumanApprovalStatus;
+  agentId?: string;
+  limit?: number;
+}
+
+export class HumanApprovalView extends StateProjection<HumanApprovalState> {
+  constructor(eventBus: EventBus, eventStore: EventStore) {
+    super(
+      'HumanApprovalView',
+      ['HUMAN_APPROVAL_REQUESTED', 'HUMAN_APPROVAL_VOTED', 'HUMAN_APPROVAL_RESOLVED'],
+      eventBus,
+      eventStore
+    );
+  }
+
+  protected async project(event: EventEnvelope): Promise<void> {
+    switch (event.event_type) {
+      case 'HUMAN_APPROVAL_REQUESTED': {
+        const payload = event.payload as unknown as HumanApprovalRequestedPayload;
+
+        this.state.set(event.event_id, {
+          approval_id: event.event_id,
+          event_id: event.event_id,
+          agent_id: payload.requested_by || event.emitted_by,
+          request_type: payload.request_type,
+          request_reason: payload.request_reason,
+          decision_context: payload.context,
+          recommended_action: payload.suggested_action || payload.request_type,
+          confidence: event.confidence,
+          urgency: payload.urgency,
+          entity_type: event.entity_type,
+          entity_id: event.entity_id,
+          status: 'pending',
+          required_approvals: payload.required_approvals || 1,
+          approver_roles: payload.approver_roles || [],
+          votes: [],
+          timeout_at: payload.expires_at || null,
+          on_expiry: payload.on_expiry || null,
+          expired: false,
+          resolved_at: null,
+          resolved_by: null,
+          resolution_notes: null,
+          amended_decision: null,
+          resolution_event_id: null,
+          created_at: event.created_at,
+        });
+        break;
+      }
+
+      case 'HUMAN_APPROVAL_VOTED': {
+        const payload = event.payload as unknown as HumanApprovalVotedPayload;
+        const state = this.state.get(payload.original_event_id);
+        if (!state) {
+          this.logger.warn('Ignoring vote on an unknown approval', {
+            approval_id: payload.original_event_id,
+          });
+          return;
+        }
+
+        state.votes.push({
+          vote_event_id: event.event_id,
+          vote: payload.vote,
+          voter: payload.voter,
+          on_behalf_of: payload.on_behalf_of || null,
+          roles: payload.roles,
+          notes: payload.notes || null,
+          amended_decision: payload.amended_decision || null,
+          voted_at: event.created_at,
+        });
+        break;
+      }
+
+      case 'HUMAN_APPROVAL_RESOLVED': {
+        const payload = event.payload as unknown as HumanApprovalResolvedPayload;
+        const state = this.state.get(payload.original_event_id);
+
+        // The first resolution stands
+        if (!state || state.status !== 'pending') {
+          this.logger.warn('Ignoring resolution of an unknown or settled approval', {
+            approval_id: payload.original_event_id,
+            status: state?.status,
+          });
+          return;
+        }
+
+        state.status = payload.decision;
+        state.resolved_at = event.created_at;
+        state.resolved_by = payload.decided_by;
+        state.resolution_notes = payload.notes || null;
+        state.amended_decision = payload.amended_decision || null;
+        state.resolution_event_id = event.event_id;
+        state.expired = payload.expired === true;
+        break;
+      }
+    }
+  }
+
+  /**
+   * Requests and their resolutions live on different streams
+   */
+  protected historyQueries(_entityId: string, asOf: Date): EventQuery[] {
+    return [
+      {
+        eventTypes: this.subscribedEventTypes,
+        toDate: asOf,
+      },
+    ];
+  }
+
+  /**
+   * Approvals, newest first
+   */
+  list(filter: HumanApprovalFilter = {}): HumanApprovalState[] {
+    return this.queryState(
+      (approval) =>
+        (!filter.status || approval.status === filter.status) &&
+        (!filter.agentId || approval.agent_id === filter.agentId)
+    )
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(0, filter.limit);
+  }
+
+  /**
+   * Counts by status and the average confidence of pending requests
+   */
+  getStats(): Record<HumanApprovalStatus, number> & { total: number; avg_confidence: number } {
+    const pending = this.queryState((approval) => approval.status === 'pending');
+
+    return {
+      pending: pending.length,
+      approved: this.queryState((approval) => approval.status === 'approved').length,
+      rejected: this.queryState((approval) => approval.status === 'rejected').length,
+      total: this.state.size,
+      avg_confidence:
+        pending.length > 0
+          ? pending.reduce((sum, approval) => sum + approval.confidence, 0) / pending.length
+          : 0,
+    };
+  }
+}
@@ -82,16 +82,17 @@ export class ClientAutonomyMirror {
     // Subscribe to events that generate client signals
     this.eventBus.subscribeToTypes(
       [
-        'PROJECT_STARTED' as any,
-        'PROJECT_AT_RISK' as any,
-        'RISK_DETECTED' as any,
-        'TASK_COMPLETED' as any,
-        'AUTONOMIC_DECISION_EXECUTED' as any,
-        'SOP_EXECUTION_COMPLETED' as any,
+        'PROJECT_STARTED',
+        'PROJECT_AT_RISK',
+        'RISK_DETECTED',
+        'TASK_COMPLETED',
+        'AUTONOMIC_DECISION_EXECUTED',
+        'SOP_EXECUTION_COMPLETED',
       ],
       async (event) => {
         await this.processEventForSignals(event);
-      }
+      },
+      { name: 'ClientAutonomyMirror' }
     );
 
     this.logger.info('Client Autonomy Mirror initialized');
@@ -6,7 +6,7 @@
  */
 
 import { StateProjection } from '../../core/projections/StateProjection.js';
-import { EventEnvelope, EventType } from '../../core/events/types.js';
+import { EventEnvelope } from '../../core/events/types.js';
 import { EventBus } from '../../core/bus/EventBus.js';
 import { EventStore } from '../../core/store/EventStore.js';
 
@@ -30,13 +30,13 @@ export class ClientHealthView extends StateProjection<ClientHealthState> {
     super(
       'ClientHealthView',
       [
-        'LEAD_QUALIFIED' as EventType,
-        'MEETING_COMPLETED' as EventType,
-        'PROJECT_STARTED' as EventType,
-        'PROJECT_AT_RISK' as EventType,
-        'INVOICE_ISSUED' as EventType,
-        'PAYMENT_RECEIVED' as EventType,
-        'RISK_DETECTED' as EventType,
+        'LEAD_QUALIFIED',
+        'MEETING_COMPLETED',
+        'PROJECT_STARTED',
+        'PROJECT_AT_RISK',
+        'INVOICE_ISSUED',
+        'PAYMENT_RECEIVED',
+        'RISK_DETECTED',
       ],
       eventBus,
       eventStore
@@ -51,7 +51,7 @@ export class ClientHealthView extends StateProjection<ClientHealthState> {
     let state = this.state.get(event.entity_id);
 
     if (!state) {
-      state = this.createInitialState(event.entity_id);
+      state = this.createInitialState(event.entity_id, event.created_at);
     }
 
     // Update state based on event type
@@ -109,11 +109,12 @@ export class ClientHealthView extends StateProjection<ClientHealthState> {
       state.status = 'critical';
     }
 
-    state.updated_at = new Date().toISOString();
+    // Event time, not wall-clock time, so replays reproduce the same state
+    state.updated_at = event.created_at;
     this.state.set(event.entity_id, state);
   }
 
-  private createInitialState(clientId: string): ClientHealthState {
+  private createInitialState(clientId: string, createdAt: string): ClientHealthState {
     return {
       client_id: clientId,
       client_name: 'Unknown',
@@ -122,10 +123,10 @@ export class ClientHealthView extends StateProjection<ClientHealthState> {
       active_projects: 0,
       total_revenue: 0,
       outstanding_invoices: 0,
-      last_interaction_date: new Date().toISOString(),
+      last_interaction_date: createdAt,
       risk_factors: [],
       positive_signals: [],
-      updated_at: new Date().toISOString(),
+      updated_at: createdAt,
     };
   }
 
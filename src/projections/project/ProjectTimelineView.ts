@@ -0,0 +1,403 @@
+/**
+ * PROJECT TIMELINE VIEW PROJECTION
+ *
+ * Materialized view of each project's delivery: phase, hour burn,
+ * milestones, open risks, invoicing and schedule variance.
+ * Derived from events, never directly mutated.
+ *
+ * Task and payment events do not name their project, so the view keeps
+ * task → project and invoice → project indexes alongside the state.
+ */
+
+import { StateProjection } from '../../core/projections/StateProjection.js';
+import {
+  EventEnvelope,
+  ProjectStartedPayload,
+  TaskCreatedPayload,
+  TaskAssignedPayload,
+  TaskCompletedPayload,
+  ProjectAtRiskPayload,
+  MarginErosionDetectedPayload,
+  InvoiceIssuedPayload,
+  PaymentReceivedPayload,
+  EventType,
+} from '../../core/events/types.js';
+import { EventBus } from '../../core/bus/EventBus.js';
+import { EventStore, EventQuery } from '../../core/store/EventStore.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TASK_EVENT_TYPES: EventType[] = ['TASK_CREATED', 'TASK_ASSIGNED', 'TASK_COMPLETED'];
+const INVOICE_EVENT_TYPES: EventType[] = ['INVOICE_ISSUED', 'PAYMENT_RECEIVED'];
+
+export type ProjectPhase = 'kickoff' | 'execution' | 'completed';
+
+export interface ProjectMilestone {
+  name: string;
+  completed_at: string;
+}
+
+export interface ProjectRisk {
+  source: 'PROJECT_AT_RISK' | 'MARGIN_EROSION_DETECTED';
+  description: string;
+  detected_at: string;
+}
+
+export interface ProjectTimelineState {
+  project_id: string;
+  project_name: string;
+  client_id: string | null;
+  project_type: string | null;
+  phase: ProjectPhase;
+  budget: number;
+  start_date: string | null;
+  planned_end_date: string | null;
+  completed_at: string | null;
+  tasks: {
+    total: number;
+    assigned: number;
+    completed: number;
+  };
+  burn: {
+    budgeted_hours: number;
+    actual_hours: number;
+    /**
+     * actual / budgeted hours (0 when nothing is budgeted)
+     */
+    burn_rate: number;
+  };
+  milestones: ProjectMilestone[];
+  open_risks: ProjectRisk[];
+  invoices: {
+    issued: number;
+    invoiced_amount: number;
+    paid_amount: number;
+  };
+  /**
+   * Days behind (+) or ahead of (-) plan, comparing task completion with
+   * elapsed time as of the latest event
+   */
+  schedule_variance_days: number;
+  updated_at: string;
+}
+
+export interface ProjectTask {
+  task_id: string;
+  project_id: string;
+  title: string;
+  estimated_hours: number;
+  actual_hours: number;
+  due_date: string | null;
+  assigned_to: string | null;
+  completed_at: string | null;
+}
+
+export class ProjectTimelineView extends StateProjection<ProjectTimelineState> {
+  private tasks: Map<string, ProjectTask>;
+  private invoiceProjects: Map<string, string>;
+
+  constructor(eventBus: EventBus, eventStore: EventStore) {
+    super(
+      'ProjectTimelineView',
+      [
+        'PROJECT_STARTED',
+        'TASK_CREATED',
+        'TASK_ASSIGNED',
+        'TASK_COMPLETED',
+        'MILESTONE_COMPLETED',
+        'PROJECT_AT_RISK',
+        'MARGIN_EROSION_DETECTED',
+        'INVOICE_ISSUED',
+        'PAYMENT_RECEIVED',
+        'PROJECT_COMPLETED',
+      ],
+      eventBus,
+      eventStore
+    );
+
+    this.tasks = new Map();
+    this.invoiceProjects = new Map();
+  }
+
+  protected async project(event: EventEnvelope): Promise<void> {
+    const projectId = this.resolveProjectId(event);
+    if (!projectId) {
+      return;
+    }
+
+    const state = this.state.get(projectId) || this.createInitialState(projectId, event.created_at);
+
+    switch (event.event_type) {
+      case 'PROJECT_STARTED': {
+        const payload = event.payload as unknown as ProjectStartedPayload;
+        state.project_name = payload.project_name;
+        state.client_id = payload.client_id;
+        state.project_type = payload.project_type;
+        state.budget = payload.budget;
+        state.start_date = payload.start_date;
+        state.planned_end_date = new Date(
+          new Date(payload.start_date).getTime() + payload.timeline_weeks * 7 * DAY_MS
+        ).toISOString();
+        break;
+      }
+
+      case 'TASK_CREATED': {
+        const payload = event.payload as unknown as TaskCreatedPayload;
+        if (!this.tasks.has(event.entity_id)) {
+          this.tasks.set(event.entity_id, {
+            task_id: event.entity_id,
+            project_id: projectId,
+            title: payload.task_title,
+            estimated_hours: payload.estimated_hours || 0,
+            actual_hours: 0,
+            due_date: payload.due_date || null,
+            assigned_to: null,
+            completed_at: null,
+          });
+          state.tasks.total++;
+          state.burn.budgeted_hours += payload.estimated_hours || 0;
+        }
+        break;
+      }
+
+      case 'TASK_ASSIGNED': {
+        const payload = event.payload as unknown as TaskAssignedPayload;
+        const task = this.tasks.get(payload.task_id || event.entity_id);
+        if (task && !task.assigned_to) {
+          state.tasks.assigned++;
+        }
+        if (task) {
+          task.assigned_to = payload.assigned_to;
+        }
+        if (state.phase === 'kickoff') {
+          state.phase = 'execution';
+        }
+        break;
+      }
+
+      case 'TASK_COMPLETED': {
+        const payload = event.payload as unknown as TaskCompletedPayload;
+        const task = this.tasks.get(payload.task_id || event.entity_id);
+        if (task && !task.completed_at) {
+          task.completed_at = event.created_at;
+          task.actual_hours = payload.actual_hours || 0;
+          state.tasks.completed++;
+          state.burn.actual_hours += payload.actual_hours || 0;
+        }
+        if (state.phase === 'kickoff') {
+          state.phase = 'execution';
+        }
+        break;
+      }
+
+      case 'MILESTONE_COMPLETED':
+        state.milestones.push({
+          name: (event.payload.milestone_name as string) || `Milestone ${state.milestones.length + 1}`,
+          completed_at: event.created_at,
+        });
+        break;
+
+      case 'PROJECT_AT_RISK': {
+        // The latest assessment replaces the previous one
+        const payload = event.payload as unknown as ProjectAtRiskPayload;
+        state.open_risks = [
+          ...state.open_risks.filter((r) => r.source !== 'PROJECT_AT_RISK'),
+          ...payload.risk_factors.map((description) => ({
+            source: 'PROJECT_AT_RISK' as const,
+            description,
+            detected_at: event.created_at,
+          })),
+        ];
+        break;
+      }
+
+      case 'MARGIN_EROSION_DETECTED': {
+        const payload = event.payload as unknown as MarginErosionDetectedPayload;
+        const hours = `${payload.actual_hours.toFixed(1)}h vs ${payload.budgeted_hours.toFixed(1)}h`;
+        state.open_risks = [
+          ...state.open_risks.filter((r) => r.source !== 'MARGIN_EROSION_DETECTED'),
+          {
+            source: 'MARGIN_EROSION_DETECTED',
+            description: `Margin erosion: ${hours} budgeted (${payload.variance_percentage.toFixed(0)}% over)`,
+            detected_at: event.created_at,
+          },
+        ];
+        break;
+      }
+
+      case 'INVOICE_ISSUED': {
+        const payload = event.payload as unknown as InvoiceIssuedPayload;
+        this.invoiceProjects.set(payload.invoice_number, projectId);
+        this.invoiceProjects.set(event.event_id, projectId);
+        state.invoices.issued++;
+        state.invoices.invoiced_amount += payload.amount;
+        break;
+      }
+
+      case 'PAYMENT_RECEIVED': {
+        const payload = event.payload as unknown as PaymentReceivedPayload;
+        state.invoices.paid_amount += payload.amount;
+        break;
+      }
+
+      case 'PROJECT_COMPLETED':
+        state.phase = 'completed';
+        state.completed_at = (event.payload.completed_at as string) || event.created_at;
+        state.open_risks = [];
+        break;
+    }
+
+    state.burn.burn_rate =
+      state.burn.budgeted_hours > 0
+        ? Math.round((state.burn.actual_hours / state.burn.budgeted_hours) * 100) / 100
+        : 0;
+    state.schedule_variance_days = this.calculateScheduleVariance(state, event.created_at);
+    state.updated_at = event.created_at;
+
+    this.state.set(projectId, state);
+  }
+
+  /**
+   * Project an event belongs to, via payload or the task/invoice indexes
+   */
+  private resolveProjectId(event: EventEnvelope): string | null {
+    switch (event.event_type) {
+      case 'TASK_CREATED':
+        return (event.payload.project_id as string) || null;
+
+      case 'TASK_ASSIGNED':
+      case 'TASK_COMPLETED': {
+        const taskId = (event.payload.task_id as string) || event.entity_id;
+        return this.tasks.get(taskId)?.project_id || null;
+      }
+
+      case 'PAYMENT_RECEIVED':
+        return this.invoiceProjects.get(event.payload.invoice_id as string) || null;
+
+      default:
+        if (typeof event.payload.project_id === 'string') {
+          return event.payload.project_id;
+        }
+        return event.entity_type === 'PROJECT' ? event.entity_id : null;
+    }
+  }
+
+  /**
+   * Compare the share of tasks completed with the share of planned time elapsed
+   */
+  private calculateScheduleVariance(state: ProjectTimelineState, asOf: string): number {
+    if (!state.start_date || !state.planned_end_date || state.tasks.total === 0) {
+      return 0;
+    }
+
+    const start = new Date(state.start_date).getTime();
+    const plannedDays = (new Date(state.planned_end_date).getTime() - start) / DAY_MS;
+    if (plannedDays <= 0) {
+      return 0;
+    }
+
+    const end = state.completed_at ? new Date(state.completed_at).getTime() : new Date(asOf).getTime();
+    const elapsedShare = Math.min(1, Math.max(0, (end - start) / DAY_MS / plannedDays));
+    const completedShare = state.tasks.completed / state.tasks.total;
+
+    // Past the planned end, every unfinished day counts in full
+    const overrunDays = Math.max(0, (end - start) / DAY_MS - plannedDays);
+
+    return Math.round(((elapsedShare - completedShare) * plannedDays + overrunDays) * 10) / 10;
+  }
+
+  private createInitialState(projectId: string, createdAt: string): ProjectTimelineState {
+    return {
+      project_id: projectId,
+      project_name: 'Unknown',
+      client_id: null,
+      project_type: null,
+      phase: 'kickoff',
+      budget: 0,
+      start_date: null,
+      planned_end_date: null,
+      completed_at: null,
+      tasks: { total: 0, assigned: 0, completed: 0 },
+      burn: { budgeted_hours: 0, actual_hours: 0, burn_rate: 0 },
+      milestones: [],
+      open_risks: [],
+      invoices: { issued: 0, invoiced_amount: 0, paid_amount: 0 },
+      schedule_variance_days: 0,
+      updated_at: createdAt,
+    };
+  }
+
+  /**
+   * Checkpoints carry the task and invoice indexes along with the projects
+   */
+  protected serializeState(): Record<string, unknown> {
+    return {
+      projects: Object.fromEntries(this.state),
+      tasks: Object.fromEntries(this.tasks),
+      invoices: Object.fromEntries(this.invoiceProjects),
+    };
+  }
+
+  protected restoreState(data: Record<string, unknown>): void {
+    this.state = new Map(
+      Object.entries((data.projects || {}) as Record<string, ProjectTimelineState>)
+    );
+    this.tasks = new Map(Object.entries((data.tasks || {}) as Record<string, ProjectTask>));
+    this.invoiceProjects = new Map(
+      Object.entries((data.invoices || {}) as Record<string, string>)
+    );
+  }
+
+  /**
+   * The project's own stream, plus the streams of its tasks and invoices found
+   * through the live indexes (a task or invoice never moves to another project).
+   * Invoice keys are invoice numbers and INVOICE_ISSUED event ids, so each is
+   * looked up both as a stream and as the issuing event.
+   */
+  protected historyQueries(projectId: string, asOf: Date): EventQuery[] {
+    const taskIds = this.getProjectTasks(projectId).map((task) => task.task_id);
+    const invoiceKeys = Array.from(this.invoiceProjects)
+      .filter(([, invoiceProjectId]) => invoiceProjectId === projectId)
+      .map(([key]) => key);
+
+    return [
+      { eventTypes: this.subscribedEventTypes, entityId: projectId, toDate: asOf },
+      ...taskIds.map((entityId) => ({ eventTypes: TASK_EVENT_TYPES, entityId, toDate: asOf })),
+      ...invoiceKeys.flatMap((key) => [
+        { eventTypes: INVOICE_EVENT_TYPES, entityId: key, toDate: asOf },
+        { eventId: key, toDate: asOf },
+      ]),
+    ];
+  }
+
+  protected resetState(): void {
+    super.resetState();
+    this.tasks.clear();
+    this.invoiceProjects.clear();
+  }
+
+  /**
+   * Tasks of a project, in creation order
+   */
+  getProjectTasks(projectId: string): ProjectTask[] {
+    return Array.from(this.tasks.values()).filter((task) => task.project_id === projectId);
+  }
+
+  /**
+   * Get projects by phase
+   */
+  getProjectsByPhase(phase: ProjectPhase): ProjectTimelineState[] {
+    return this.queryState((state) => state.phase === phase);
+  }
+
+  /**
+   * Get active projects behind schedule or with open risks
+   */
+  getProjectsRequiringAttention(): ProjectTimelineState[] {
+    return this.queryState(
+      (state) =>
+        state.phase !== 'completed' &&
+        (state.open_risks.length > 0 || state.schedule_variance_days > 0)
+    );
+  }
+}
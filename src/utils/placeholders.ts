@@ -0,0 +1,37 @@
+/**
+ * `{{ path }}` placeholders in text, filled from a scope object
+ *
+ * Dotted paths reach into objects and arrays (`{{ payload.items.0 }}`); a
+ * missing value renders as an empty string.
+ */
+
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+/**
+ * Value at a dotted path, or undefined when any segment is missing
+ */
+export function lookupPath(scope: unknown, path: string): unknown {
+  let value: unknown = scope;
+  for (const key of path.split('.')) {
+    if (value === null || typeof value !== 'object') {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+export function fillPlaceholders(
+  text: string,
+  scope: Record<string, unknown>,
+  format: (value: unknown) => string = formatValue
+): string {
+  return text.replace(PLACEHOLDER, (_match, path: string) => format(lookupPath(scope, path)));
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
@@ -0,0 +1,102 @@
+/**
+ * Timezone helpers on top of Intl (IANA zone names, DST aware)
+ *
+ * Local dates are YYYY-MM-DD strings and local times HH:MM strings, so they
+ * compare correctly as strings.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isValidTimezone(zone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Local date (YYYY-MM-DD) of an instant in a timezone
+ */
+export function localDate(at: Date, zone: string): string {
+  return localParts(at, zone).date;
+}
+
+/**
+ * Local wall-clock time (HH:MM) of an instant in a timezone
+ */
+export function localTime(at: Date, zone: string): string {
+  return localParts(at, zone).time;
+}
+
+/**
+ * The instant a local date and HH:MM (24:00 is the next midnight) occur in a timezone
+ * A time skipped by a DST change resolves to the instant after the gap.
+ */
+export function zonedTime(day: string, hhmm: string, zone: string): Date {
+  const [year, month, date] = day.split('-').map(Number);
+  const [hours, minutes] = hhmm.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, date, hours, minutes);
+
+  // Correct by the zone's offset, then again in case the offset changed in between
+  let instant = wallClock;
+  for (let i = 0; i < 2; i++) {
+    const offset =
+      localParts(new Date(instant), zone).utcEquivalent - Math.floor(instant / 1000) * 1000;
+    instant = wallClock - offset;
+  }
+  return new Date(instant);
+}
+
+/**
+ * The next instant after `from` when the local clock reads HH:MM
+ */
+export function nextLocalTime(from: Date, hhmm: string, zone: string): Date {
+  const day = localDate(from, zone);
+  const today = zonedTime(day, hhmm, zone);
+  return today > from ? today : zonedTime(nextDate(day), hhmm, zone);
+}
+
+export function nextDate(day: string): string {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, date) + DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Day of the week of a local date (0 = Sunday)
+ */
+export function weekdayOf(day: string): number {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, date)).getUTCDay();
+}
+
+function localParts(at: Date, zone: string): { date: string; time: string; utcEquivalent: number } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: zone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    })
+      .formatToParts(at)
+      .map((p) => [p.type, p.value])
+  );
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}`,
+    utcEquivalent: Date.UTC(
+      Number(parts.year),
+      Number(parts.month) - 1,
+      Number(parts.day),
+      Number(parts.hour),
+      Number(parts.minute),
+      Number(parts.second)
+    ),
+  };
+}
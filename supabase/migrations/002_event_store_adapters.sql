@@ -0,0 +1,11 @@
+-- Big Box Autonomic Engine - Event Store Adapter Alignment
+-- Columns the EventStore writes that 001 did not declare.
+-- Required for the direct PostgreSQL adapter (EVENT_STORE_BACKEND=postgres).
+
+-- Human-in-the-loop flag on the event envelope
+ALTER TABLE events ADD COLUMN IF NOT EXISTS requires_human BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_events_requires_human ON events(requires_human) WHERE requires_human;
+
+-- Last event folded into a snapshot (for replay from snapshot)
+ALTER TABLE event_snapshots ADD COLUMN IF NOT EXISTS last_event_id UUID;
@@ -0,0 +1,37 @@
+-- Big Box Autonomic Engine - Global Log Position
+-- sequence_number orders events within one aggregate; projections need a
+-- single position across the whole log to checkpoint and catch up from.
+--
+-- Positions come from a sequence and are taken when a row is inserted, not
+-- when its transaction commits. With concurrent writers an event can commit
+-- after one with a higher position, and a projection that already read past
+-- it will not replay it. Catch-up is only gap-free with a single writer.
+
+ALTER TABLE events ADD COLUMN IF NOT EXISTS global_position BIGINT;
+
+-- Number existing rows explicitly: a BIGSERIAL column would number them in
+-- table scan order, which is not the order they were appended in
+WITH ordered AS (
+  SELECT
+    event_id,
+    (SELECT COALESCE(MAX(global_position), 0) FROM events)
+      + ROW_NUMBER() OVER (ORDER BY created_at, sequence_number, event_id) AS position
+  FROM events
+  WHERE global_position IS NULL
+)
+UPDATE events
+SET global_position = ordered.position
+FROM ordered
+WHERE events.event_id = ordered.event_id;
+
+-- New rows continue after the backfill
+CREATE SEQUENCE IF NOT EXISTS events_global_position_seq OWNED BY events.global_position;
+SELECT setval(
+  'events_global_position_seq',
+  COALESCE((SELECT MAX(global_position) FROM events), 0) + 1,
+  false
+);
+ALTER TABLE events ALTER COLUMN global_position SET DEFAULT nextval('events_global_position_seq');
+ALTER TABLE events ALTER COLUMN global_position SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_events_global_position ON events(global_position);
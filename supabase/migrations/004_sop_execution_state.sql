@@ -0,0 +1,17 @@
+-- Big Box Autonomic Engine - SOP Execution State
+-- The SOPExecutor writes one sop_executions row per execution and updates it
+-- on every step transition. execution_state holds the full execution
+-- (context, step runs, deviations, deadlines) so in-flight executions resume
+-- after a restart.
+
+ALTER TABLE sop_executions ADD COLUMN IF NOT EXISTS execution_state JSONB;
+ALTER TABLE sop_executions ADD COLUMN IF NOT EXISTS current_step TEXT;
+ALTER TABLE sop_executions ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+-- SOPs loaded from YAML carry a semantic version ("1.0.0") and need not be
+-- registered in sop_definitions; the foreign key only applies when sop_version is set
+ALTER TABLE sop_executions ADD COLUMN IF NOT EXISTS sop_semver TEXT;
+ALTER TABLE sop_executions ALTER COLUMN sop_version DROP NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_executions_in_flight ON sop_executions(started_at)
+  WHERE status IN ('in_progress', 'escalated');
@@ -0,0 +1,16 @@
+-- Big Box Autonomic Engine - SOP Definition Revisions
+-- Every activated SOP version is kept as a revision so it can be viewed and
+-- restored. `version` numbers the revisions of one SOP (1, 2, 3...), `semver`
+-- is the definition's own metadata.version ("1.2.0"). Only the active revision
+-- has deactivated_at NULL.
+
+-- One row per revision: (sop_id, version) stays unique via sop_version_unique,
+-- which the sop_executions foreign key references
+ALTER TABLE sop_definitions DROP CONSTRAINT IF EXISTS sop_definitions_pkey;
+
+ALTER TABLE sop_definitions ADD COLUMN IF NOT EXISTS semver TEXT;
+ALTER TABLE sop_definitions ADD COLUMN IF NOT EXISTS proposal_id TEXT;
+ALTER TABLE sop_definitions ADD COLUMN IF NOT EXISTS changes JSONB NOT NULL DEFAULT '[]';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sop_single_active ON sop_definitions(sop_id)
+  WHERE deactivated_at IS NULL;